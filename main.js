@@ -27,187 +27,2166 @@ __export(main_exports, {
   default: () => VoiceAssistantPlugin
 });
 module.exports = __toCommonJS(main_exports);
+var import_state = require("@codemirror/state");
+var import_view = require("@codemirror/view");
 var import_obsidian = require("obsidian");
-function parseJsonResponse(source) {
-  const parsed = JSON.parse(source);
-  return parsed;
+
+// src/vocabulary.ts
+var RULE_SEPARATOR = /\s*(?:→|->|=>)\s*/;
+var LIST_MARKER = /^(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?/;
+var SEPARATOR_CHARS = /[\s_-]+/g;
+var WORD_CHAR = /[A-Za-z0-9]/;
+function unwrapWikiLink(text) {
+  const match = /^\[\[([^\]|]+)(?:\|[^\]]*)?\]\]$/.exec(text);
+  return match ? match[1].trim() : text;
 }
-function normalizeError(reason, fallbackMessage = "\u672A\u77E5\u9519\u8BEF") {
-  if (reason instanceof Error) {
-    return reason;
+function parseVocabulary(source) {
+  var _a;
+  const vocabulary = { terms: [], rules: [] };
+  const lines = source.split(/\r?\n/);
+  let inFrontmatter = ((_a = lines[0]) == null ? void 0 : _a.trim()) === "---";
+  for (let index = inFrontmatter ? 1 : 0; index < lines.length; index++) {
+    const line = lines[index].trim();
+    if (inFrontmatter) {
+      inFrontmatter = line !== "---";
+      continue;
+    }
+    if (!line || /^#{1,6}\s/.test(line) || line.startsWith(">") || line.startsWith("//") || line.startsWith("%%")) {
+      continue;
+    }
+    const entry = line.replace(LIST_MARKER, "").trim();
+    const parts = entry.split(RULE_SEPARATOR);
+    if (parts.length === 2 && parts[0] && parts[1]) {
+      const intended = unwrapWikiLink(parts[1]);
+      for (const heard of parts[0].split(/\s*[|｜]\s*/)) {
+        if (heard) {
+          vocabulary.rules.push({ heard, intended });
+        }
+      }
+    } else if (entry) {
+      vocabulary.terms.push(unwrapWikiLink(entry));
+    }
   }
-  return new Error(typeof reason === "string" ? reason : fallbackMessage);
+  return vocabulary;
 }
-function getErrorMessage(reason) {
-  return normalizeError(reason).message;
+function mergeVocabularies(...vocabularies) {
+  const terms = [];
+  const rules = [];
+  const seenHeard = /* @__PURE__ */ new Set();
+  for (const vocabulary of vocabularies) {
+    for (const term of vocabulary.terms) {
+      if (terms.indexOf(term) === -1) {
+        terms.push(term);
+      }
+    }
+    for (const rule of vocabulary.rules) {
+      const key = toMatchKey(rule.heard);
+      if (!seenHeard.has(key)) {
+        seenHeard.add(key);
+        rules.push(rule);
+      }
+    }
+  }
+  return { terms, rules };
+}
+function collectVocabularyTerms(names) {
+  var _a, _b;
+  const terms = [];
+  for (const name of names) {
+    const term = (_b = (_a = name.replace(/^#/, "").split("/").pop()) == null ? void 0 : _a.trim()) != null ? _b : "";
+    if (term.length < 2 || term.length > 40 || term.split(/\s+/).length > 4 || !/[A-Za-z]/.test(term) || !/[a-z][A-Z]|[A-Z]{2}|\d/.test(term) || terms.indexOf(term) !== -1) {
+      continue;
+    }
+    terms.push(term);
+  }
+  return terms;
+}
+function toMatchKey(text) {
+  return text.toLowerCase().replace(SEPARATOR_CHARS, "");
+}
+function escapeRegExp(text) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+function buildHeardPattern(heard) {
+  const chars = Array.from(heard.replace(SEPARATOR_CHARS, ""));
+  let pattern = chars.map(escapeRegExp).join("[\\s_-]*");
+  if (WORD_CHAR.test(chars[0])) {
+    pattern = `(?<![A-Za-z0-9])${pattern}`;
+  }
+  if (WORD_CHAR.test(chars[chars.length - 1])) {
+    pattern = `${pattern}(?![A-Za-z0-9])`;
+  }
+  return pattern;
+}
+function createVocabularyCorrector(vocabulary) {
+  const replacements = /* @__PURE__ */ new Map();
+  for (const rule of vocabulary.rules) {
+    const key = toMatchKey(rule.heard);
+    if (key && !replacements.has(key)) {
+      replacements.set(key, rule.intended);
+    }
+  }
+  for (const rule of vocabulary.rules) {
+    const key = toMatchKey(rule.intended);
+    if (key && !replacements.has(key)) {
+      replacements.set(key, rule.intended);
+    }
+  }
+  for (const term of vocabulary.terms) {
+    const key = toMatchKey(term);
+    if (key && !replacements.has(key)) {
+      replacements.set(key, term);
+    }
+  }
+  if (replacements.size === 0) {
+    return (text) => text;
+  }
+  const patterns = Array.from(replacements.keys()).sort((a, b) => b.length - a.length).map(buildHeardPattern);
+  const matcher = new RegExp(patterns.join("|"), "gi");
+  return (text) => text.replace(matcher, (match) => {
+    var _a;
+    return (_a = replacements.get(toMatchKey(match))) != null ? _a : match;
+  });
+}
+
+// src/xunfei.ts
+var SERVICE_NAMES = {
+  asr: "\u8BED\u97F3\u542C\u5199",
+  tts: "\u8BED\u97F3\u5408\u6210",
+  spark: "\u661F\u706B\u5927\u6A21\u578B"
+};
+var RETRYABLE_KINDS = ["rate-limit", "server", "network", "timeout"];
+var AUTH_CODES = [10105, 10313];
+var QUOTA_CODES = [11200, 11201];
+var RATE_LIMIT_CODES = [11202, 11203];
+var CONTENT_BLOCKED_CODES = [10013, 10014, 10019];
+var TEXT_TOO_LONG_CODES = [10109, 10907];
+var SERVER_CODES = [10114, 10200, 10202, 10204, 10205, 10700];
+var XunfeiError = class extends Error {
+  constructor(kind, message, code) {
+    super(message);
+    this.kind = kind;
+    this.code = code;
+    this.name = "XunfeiError";
+  }
+  get retryable() {
+    return RETRYABLE_KINDS.indexOf(this.kind) !== -1;
+  }
+  /** 凭据或服务量问题，继续请求也不会成功，应停止当前流程并提示用户 */
+  get isFatal() {
+    return this.kind === "auth" || this.kind === "quota";
+  }
+};
+function describeXunfeiError(kind, service, detail) {
+  const name = SERVICE_NAMES[service];
+  switch (kind) {
+    case "auth":
+      return `\u8BAF\u98DE\u9274\u6743\u5931\u8D25\uFF1A\u8BF7\u68C0\u67E5 App ID\u3001API Key\u3001API Secret \u662F\u5426\u5C5E\u4E8E\u540C\u4E00\u5E94\u7528\uFF0C\u5E76\u786E\u8BA4\u7CFB\u7EDF\u65F6\u95F4\u51C6\u786E${detail}`;
+    case "quota":
+      return `\u8BAF\u98DE${name}\u670D\u52A1\u91CF\u5DF2\u7528\u5C3D\u6216\u672A\u5F00\u901A\uFF1A\u8BF7\u5728\u8BAF\u98DE\u63A7\u5236\u53F0\u67E5\u770B\u4F59\u91CF\u3001\u5F00\u901A\u6216\u8D2D\u4E70\u670D\u52A1${detail}`;
+    case "rate-limit":
+      return `\u8BAF\u98DE${name}\u8BF7\u6C42\u8FC7\u4E8E\u9891\u7E41\u6216\u8D85\u8FC7\u5E76\u53D1\u8DEF\u6570\uFF0C\u8BF7\u7A0D\u540E\u518D\u8BD5${detail}`;
+    case "invalid-voice":
+      return `\u5F53\u524D\u6717\u8BFB\u4EBA\u4E0D\u53EF\u7528\uFF1A\u8BF7\u5728\u8BAF\u98DE\u63A7\u5236\u53F0\u5F00\u901A\u8BE5\u53D1\u97F3\u4EBA\uFF0C\u6216\u5728\u8BBE\u7F6E\u4E2D\u6362\u4E00\u4E2A\u6717\u8BFB\u4EBA${detail}`;
+    case "text-too-long":
+      return service === "spark" ? `\u8F93\u5165\u5185\u5BB9\u8D85\u51FA\u6A21\u578B\u957F\u5EA6\u9650\u5236\uFF0C\u8BF7\u7F29\u77ED\u95EE\u9898\u6216\u6E05\u7A7A\u5BF9\u8BDD\u5386\u53F2${detail}` : `\u6717\u8BFB\u6587\u672C\u8FC7\u957F\uFF0C\u8BF7\u9009\u4E2D\u90E8\u5206\u6587\u5B57\u5206\u6BB5\u6717\u8BFB${detail}`;
+    case "content-blocked":
+      return `\u5185\u5BB9\u672A\u901A\u8FC7\u8BAF\u98DE${name}\u7684\u5B89\u5168\u5BA1\u6838\uFF0C\u8BF7\u4FEE\u6539\u540E\u91CD\u8BD5${detail}`;
+    case "invalid-request":
+      return `\u8BAF\u98DE${name}\u8BF7\u6C42\u53C2\u6570\u65E0\u6548\uFF0C\u8BF7\u68C0\u67E5\u76F8\u5173\u8BBE\u7F6E${detail}`;
+    case "server":
+      return `\u8BAF\u98DE${name}\u670D\u52A1\u6682\u65F6\u5F02\u5E38\uFF0C\u8BF7\u7A0D\u540E\u518D\u8BD5${detail}`;
+    case "network":
+      return `\u65E0\u6CD5\u8FDE\u63A5\u8BAF\u98DE${name}\u670D\u52A1\uFF1A\u8BF7\u68C0\u67E5\u7F51\u7EDC\uFF0C\u4EE5\u53CA API Key\u3001API Secret \u548C\u7CFB\u7EDF\u65F6\u95F4${detail}`;
+    case "timeout":
+      return `\u8BAF\u98DE${name}\u54CD\u5E94\u8D85\u65F6\uFF0C\u8BF7\u68C0\u67E5\u7F51\u7EDC\u540E\u91CD\u8BD5${detail}`;
+    case "cancelled":
+      return `\u8BAF\u98DE${name}\u8BF7\u6C42\u5DF2\u53D6\u6D88`;
+    default:
+      return `\u8BAF\u98DE${name}\u51FA\u9519${detail}`;
+  }
+}
+function createXunfeiError(kind, service, detail = "") {
+  return new XunfeiError(kind, describeXunfeiError(kind, service, detail ? `\uFF08${detail}\uFF09` : ""));
+}
+function classifyXunfeiError(service, code, message = "") {
+  let kind;
+  if (AUTH_CODES.indexOf(code) !== -1) {
+    kind = "auth";
+  } else if (service === "tts" && /vcn|发音人/i.test(message)) {
+    kind = "invalid-voice";
+  } else if (QUOTA_CODES.indexOf(code) !== -1) {
+    kind = "quota";
+  } else if (RATE_LIMIT_CODES.indexOf(code) !== -1) {
+    kind = "rate-limit";
+  } else if (TEXT_TOO_LONG_CODES.indexOf(code) !== -1) {
+    kind = "text-too-long";
+  } else if (CONTENT_BLOCKED_CODES.indexOf(code) !== -1) {
+    kind = "content-blocked";
+  } else if (SERVER_CODES.indexOf(code) !== -1) {
+    kind = "server";
+  } else if (code >= 10100 && code < 10200) {
+    kind = "invalid-request";
+  } else {
+    kind = "unknown";
+  }
+  const detail = message ? `\u9519\u8BEF\u7801 ${code}\uFF1A${message}` : `\u9519\u8BEF\u7801 ${code}`;
+  return new XunfeiError(kind, describeXunfeiError(kind, service, `\uFF08${detail}\uFF09`), code);
+}
+function waitWithSignal(ms, signal) {
+  return new Promise((resolve, reject) => {
+    const timer = window.setTimeout(() => {
+      signal == null ? void 0 : signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      window.clearTimeout(timer);
+      reject(new Error("aborted"));
+    };
+    signal == null ? void 0 : signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+function runXunfeiSocket(request, url, onProgress) {
+  return new Promise((resolve, reject) => {
+    var _a, _b;
+    const socket = new WebSocket(url);
+    let settled = false;
+    let timer = 0;
+    const finish = (error, value) => {
+      var _a2;
+      if (settled) return;
+      settled = true;
+      window.clearTimeout(timer);
+      (_a2 = request.signal) == null ? void 0 : _a2.removeEventListener("abort", onAbort);
+      if (socket.readyState === WebSocket.CONNECTING || socket.readyState === WebSocket.OPEN) {
+        socket.close();
+      }
+      if (error) {
+        reject(error);
+      } else {
+        resolve(value);
+      }
+    };
+    const resetTimer = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => finish(createXunfeiError("timeout", request.service)), request.timeoutMs);
+    };
+    const onAbort = () => finish(createXunfeiError("cancelled", request.service));
+    if ((_a = request.signal) == null ? void 0 : _a.aborted) {
+      onAbort();
+      return;
+    }
+    (_b = request.signal) == null ? void 0 : _b.addEventListener("abort", onAbort, { once: true });
+    resetTimer();
+    socket.onopen = () => {
+      var _a2;
+      (_a2 = request.log) == null ? void 0 : _a2.call(request, `\u8BAF\u98DE${SERVICE_NAMES[request.service]} WebSocket \u8FDE\u63A5\u5DF2\u5EFA\u7ACB`);
+      try {
+        request.onOpen(socket);
+      } catch (error) {
+        finish(new XunfeiError("unknown", error instanceof Error ? error.message : String(error)));
+      }
+    };
+    socket.onmessage = (event) => {
+      var _a2;
+      resetTimer();
+      let message;
+      try {
+        message = JSON.parse(String(event.data));
+      } catch (e) {
+        finish(createXunfeiError("server", request.service, "\u54CD\u5E94\u4E0D\u662F\u6709\u6548\u7684 JSON"));
+        return;
+      }
+      const status = request.readStatus(message);
+      if (status.code !== 0) {
+        (_a2 = request.log) == null ? void 0 : _a2.call(request, `\u8BAF\u98DE${SERVICE_NAMES[request.service]}\u9519\u8BEF:`, status.code, status.message);
+        finish(classifyXunfeiError(request.service, status.code, status.message));
+        return;
+      }
+      onProgress();
+      try {
+        const step = request.onMessage(message);
+        if (step.done) {
+          finish(null, step.value);
+        }
+      } catch (error) {
+        finish(new XunfeiError("unknown", error instanceof Error ? error.message : String(error)));
+      }
+    };
+    socket.onerror = () => finish(createXunfeiError("network", request.service));
+    socket.onclose = (event) => {
+      var _a2;
+      (_a2 = request.log) == null ? void 0 : _a2.call(request, `\u8BAF\u98DE${SERVICE_NAMES[request.service]} WebSocket \u8FDE\u63A5\u5173\u95ED:`, event.code, event.reason);
+      finish(createXunfeiError("network", request.service, event.reason || `\u8FDE\u63A5\u610F\u5916\u5173\u95ED\uFF0C\u4EE3\u7801 ${event.code}`));
+    };
+  });
+}
+async function requestXunfeiSocket(request) {
+  var _a, _b;
+  const retries = (_a = request.retries) != null ? _a : 2;
+  for (let attempt = 0; ; attempt++) {
+    let receivedData = false;
+    try {
+      const url = await request.createUrl();
+      return await runXunfeiSocket(request, url, () => {
+        receivedData = true;
+      });
+    } catch (error) {
+      if (!(error instanceof XunfeiError) || !error.retryable || receivedData || attempt >= retries) {
+        throw error;
+      }
+      const delay = 1e3 * Math.pow(2, attempt);
+      (_b = request.log) == null ? void 0 : _b.call(request, `\u8BAF\u98DE${SERVICE_NAMES[request.service]}\u8BF7\u6C42\u5931\u8D25\uFF0C${delay}ms \u540E\u91CD\u8BD5:`, error.message);
+      try {
+        await waitWithSignal(delay, request.signal);
+      } catch (e) {
+        throw createXunfeiError("cancelled", request.service);
+      }
+    }
+  }
+}
+
+// src/audio.ts
+var ASR_SAMPLE_RATE = 16e3;
+function downsampleToPcm16(input, inputSampleRate, targetSampleRate = ASR_SAMPLE_RATE) {
+  const ratio = inputSampleRate / targetSampleRate;
+  const length = Math.floor(input.length / ratio);
+  const output = new Int16Array(length);
+  for (let i = 0; i < length; i++) {
+    const start = Math.floor(i * ratio);
+    const end = Math.min(input.length, Math.max(start + 1, Math.floor((i + 1) * ratio)));
+    let sum = 0;
+    for (let j = start; j < end; j++) {
+      sum += input[j];
+    }
+    const sample = sum / (end - start);
+    output[i] = Math.max(-32768, Math.min(32767, Math.round(sample * 32767)));
+  }
+  return output;
+}
+function pcm16ToFloat32(pcm) {
+  const output = new Float32Array(pcm.length);
+  for (let i = 0; i < pcm.length; i++) {
+    output[i] = pcm[i] / 32768;
+  }
+  return output;
+}
+function concatPcm16(chunks) {
+  const output = new Int16Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
+function pcmToWav(pcmData, sampleRate, channels, bitsPerSample) {
+  const dataLength = pcmData.length;
+  const buffer = new ArrayBuffer(44 + dataLength);
+  const view = new DataView(buffer);
+  const writeString = (offset, string) => {
+    for (let i = 0; i < string.length; i++) {
+      view.setUint8(offset + i, string.charCodeAt(i));
+    }
+  };
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + dataLength, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels * bitsPerSample / 8, true);
+  view.setUint16(32, channels * bitsPerSample / 8, true);
+  view.setUint16(34, bitsPerSample, true);
+  writeString(36, "data");
+  view.setUint32(40, dataLength, true);
+  const wavData = new Uint8Array(buffer);
+  wavData.set(pcmData, 44);
+  return wavData;
 }
+
+// src/encoding.ts
 function bytesToBase64(bytes) {
   let binary = "";
   const chunkSize = 8192;
   for (let offset = 0; offset < bytes.length; offset += chunkSize) {
     binary += String.fromCharCode(...bytes.subarray(offset, offset + chunkSize));
   }
-  return window.btoa(binary);
+  return btoa(binary);
 }
-async function hmacSha256Base64(secret, content) {
-  const encoder = new TextEncoder();
-  const key = await window.crypto.subtle.importKey(
-    "raw",
-    encoder.encode(secret),
-    { name: "HMAC", hash: "SHA-256" },
-    false,
-    ["sign"]
-  );
-  const signature = await window.crypto.subtle.sign("HMAC", key, encoder.encode(content));
-  return bytesToBase64(new Uint8Array(signature));
+function base64ToBytes(base64) {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
 }
 function encodeUtf8ToBase64(text) {
   return bytesToBase64(new TextEncoder().encode(text));
 }
-function createAudioContext() {
-  var _a;
-  const AudioContextConstructor = (_a = window.AudioContext) != null ? _a : window.webkitAudioContext;
-  if (!AudioContextConstructor) {
-    throw new Error("\u5F53\u524D\u73AF\u5883\u4E0D\u652F\u6301 Web Audio API");
+
+// src/echo.ts
+var REFERENCE_WINDOW_MS = 300;
+var MIN_REFERENCE_LEVEL = 5e-3;
+var DOUBLE_TALK_MARGIN = 2;
+var INITIAL_COUPLING = 1;
+var MIN_COUPLING = 0.05;
+var COUPLING_RISE_RATE = 0.3;
+var COUPLING_FALL_RATE = 0.02;
+var EchoGate = class {
+  constructor() {
+    this.references = [];
+    this.coupling = INITIAL_COUPLING;
   }
-  return new AudioContextConstructor();
+  /** 当前估计的回声增益（麦克风能量 / 参考信号能量） */
+  get echoCoupling() {
+    return this.coupling;
+  }
+  /** 记录一帧参考信号（正在播放的 TTS 音频）的能量 */
+  addReference(level, time) {
+    this.references.push({ time, level });
+    this.prune(time);
+  }
+  /**
+   * 判断一帧麦克风能量是否来自用户（回声无法解释）。
+   * 判为回声的帧用来更新回声增益。
+   */
+  isNearEnd(micLevel, time) {
+    this.prune(time);
+    const reference = this.references.reduce((max, item) => Math.max(max, item.level), 0);
+    if (reference < MIN_REFERENCE_LEVEL) {
+      return true;
+    }
+    const ratio = micLevel / reference;
+    if (ratio > this.coupling * DOUBLE_TALK_MARGIN) {
+      return true;
+    }
+    const rate = ratio > this.coupling ? COUPLING_RISE_RATE : COUPLING_FALL_RATE;
+    this.coupling = Math.max(MIN_COUPLING, this.coupling + (ratio - this.coupling) * rate);
+    return false;
+  }
+  prune(time) {
+    while (this.references.length > 0 && this.references[0].time < time - REFERENCE_WINDOW_MS) {
+      this.references.shift();
+    }
+  }
+};
+
+// src/dsp.ts
+var DEFAULT_AUDIO_PROCESSING = {
+  highPass: true,
+  highPassFrequency: 80,
+  noiseGate: false,
+  noiseGateThreshold: -50,
+  autoGain: true,
+  autoGainTarget: -20,
+  normalize: true,
+  normalizePeak: -1
+};
+var BLOCK_MS = 10;
+var GATE_FLOOR_GAIN = 0.03;
+var GATE_ATTACK_MS = 5;
+var GATE_RELEASE_MS = 150;
+var AUTO_GAIN_ACTIVITY_LEVEL = -45;
+var AUTO_GAIN_MAX = 16;
+var AUTO_GAIN_MIN = 0.25;
+var AUTO_GAIN_LEVEL_SMOOTHING = 0.05;
+var AUTO_GAIN_RAMP_MS = 50;
+var NORMALIZE_MAX_GAIN = 4;
+function dbToGain(db) {
+  return Math.pow(10, db / 20);
 }
-function createCompatibleMediaRecorder(stream) {
-  const preferredMimeTypes = [
-    "audio/webm;codecs=opus",
-    "audio/webm",
-    "audio/mp4"
-  ];
-  const mimeType = preferredMimeTypes.find((candidate) => MediaRecorder.isTypeSupported(candidate));
-  return mimeType ? new MediaRecorder(stream, { mimeType }) : new MediaRecorder(stream);
+function gainToDb(gain) {
+  return gain > 1e-6 ? 20 * Math.log10(gain) : -120;
 }
-var DEFAULT_SETTINGS = {
-  llmProvider: "google",
-  googleApiKey: "",
-  googleModel: "gemini-pro",
-  openrouterApiKey: "",
-  openrouterModel: "openai/gpt-3.5-turbo",
-  xunfeiAppId: "",
-  xunfeiApiKey: "",
-  xunfeiApiSecret: "",
-  xunfeiModel: "generalv3.5",
-  customModels: [],
-  selectedCustomModel: "",
-  wakeMode: "disabled",
-  wakeWords: ["\u4F60\u597D\uFF0C\u5C0F\u4E09", "\u5C0F\u4E09\u540C\u5B66", "\u5C0F\u4E09\u5C0F\u4E09"],
-  autoEnterDialogAfterWake: true,
-  wakeDetectionInterval: 1e3,
-  // 默认1秒检测间隔
-  continuousDialogDuration: 60,
-  // 默认1分钟
-  showDialogControls: true,
-  conversationSaveFolder: "voice-assistant/conversations",
-  // 默认对话保存文件夹
-  dictationSilenceTimeout: 10,
-  // 默认10秒静默超时
-  dictationSilenceInterval: 2,
-  // 默认2秒静默间隔
-  voiceDetectionThreshold: 30,
-  // 默认阈值30
-  voiceDetectionSensitivity: 100,
-  // 默认100ms检测间隔
-  enableVoiceInterruption: true,
-  // 默认启用语音打断
-  customPrompts: [
-    {
-      name: "\u4EFB\u52A1\u63D0\u9192",
-      trigger: "\u63D0\u9192\u6211",
-      prompt: "\u8BF7\u6839\u636E\u7528\u6237\u7684\u63CF\u8FF0\uFF0C\u751F\u6210\u4E00\u4E2A\u7B26\u5408Markdown\u683C\u5F0F\u7684\u4EFB\u52A1\u63D0\u9192\u3002\u683C\u5F0F\u8981\u6C42\uFF1A\n- [ ] \u4EFB\u52A1\u5185\u5BB9\n- \u65F6\u95F4\uFF1A\u5177\u4F53\u65F6\u95F4\n- \u5907\u6CE8\uFF1A\u76F8\u5173\u8BF4\u660E\n\n\u8BF7\u786E\u4FDD\u751F\u6210\u7684\u5185\u5BB9\u53EF\u4EE5\u76F4\u63A5\u63D2\u5165\u5230Obsidian\u7B14\u8BB0\u4E2D\u3002",
-      enabled: true
-    }
-  ],
-  asrProvider: "xunfei",
-  ttsMode: "disabled",
-  ttsProvider: "xunfei",
-  ttsVoice: "xiaoyan",
-  // 默认朗读人：小燕
-  ttsSpeed: 50,
-  // 默认语速
-  ttsVolume: 50,
-  // 默认音量
-  ttsPitch: 50,
-  // 默认音调
-  saveAudioToVault: false,
-  audioSavePath: "voice-assistant/audio",
-  sampleRate: 16e3,
-  channels: 1,
-  audioFormat: "pcm",
-  enableDebugLog: false
+var Biquad = class _Biquad {
+  constructor(b0, b1, b2, a1, a2) {
+    this.b0 = b0;
+    this.b1 = b1;
+    this.b2 = b2;
+    this.a1 = a1;
+    this.a2 = a2;
+    this.x1 = 0;
+    this.x2 = 0;
+    this.y1 = 0;
+    this.y2 = 0;
+  }
+  static highPass(sampleRate, frequency) {
+    const { cos, alpha } = _Biquad.prepare(sampleRate, frequency);
+    const a0 = 1 + alpha;
+    return new _Biquad((1 + cos) / 2 / a0, -(1 + cos) / a0, (1 + cos) / 2 / a0, -2 * cos / a0, (1 - alpha) / a0);
+  }
+  static lowPass(sampleRate, frequency) {
+    const { cos, alpha } = _Biquad.prepare(sampleRate, frequency);
+    const a0 = 1 + alpha;
+    return new _Biquad((1 - cos) / 2 / a0, (1 - cos) / a0, (1 - cos) / 2 / a0, -2 * cos / a0, (1 - alpha) / a0);
+  }
+  /** Butterworth 响应（Q = 1/√2） */
+  static prepare(sampleRate, frequency) {
+    const omega = 2 * Math.PI * Math.min(frequency, sampleRate * 0.45) / sampleRate;
+    return { cos: Math.cos(omega), alpha: Math.sin(omega) / Math.SQRT2 };
+  }
+  process(x) {
+    const y = this.b0 * x + this.b1 * this.x1 + this.b2 * this.x2 - this.a1 * this.y1 - this.a2 * this.y2;
+    this.x2 = this.x1;
+    this.x1 = x;
+    this.y2 = this.y1;
+    this.y1 = y;
+    return y;
+  }
 };
-var VoiceAssistantPlugin = class extends import_obsidian.Plugin {
+var LevelAccumulator = class {
   constructor() {
-    super(...arguments);
-    this.mediaRecorder = null;
-    this.audioChunks = [];
-    this.isRecording = false;
-    this.isListening = false;
-    this.wakeWebSocket = null;
-    this.statusFloat = null;
-    this.currentAudio = null;
-    this.isPlaying = false;
-    this.autoHideTimer = null;
-    this.wakeStatusBarItem = null;
-    // 持续对话状态管理
-    this.isInContinuousDialog = false;
-    this.conversationHistory = [];
-    this.silenceTimer = null;
-    this.silenceDetectionDuration = 2e4;
-    // 20秒静默检测
-    // 背景语音检测
-    this.backgroundVoiceDetection = false;
-    this.backgroundMediaRecorder = null;
-    this.backgroundStream = null;
-    this.voiceDetectionTimer = null;
-    // 持续听写相关属性
-    this.isDictating = false;
-    this.dictationTimer = null;
-    this.dictationStartTime = 0;
-    this.dictationAudioChunks = [];
-    // 累积的音频片段
-    this.lastVoiceDetectedTime = 0;
-    // 最后检测到语音的时间
-    this.silenceCheckTimer = null;
-    // 静默检测定时器
-    // 预录音缓冲区相关
-    this.preRecordingBuffer = [];
-    // 预录音缓冲区
-    this.preRecordingStream = null;
-    // 预录音流
-    this.preRecordingRecorder = null;
-    // 预录音记录器
-    this.isPreRecording = false;
-    // 是否正在预录音
-    this.preRecordingBufferSize = 10;
-    // 缓冲区大小（保留最近10个音频片段）
-    // 唤醒对话相关
-    this.isWakeConversation = false;
-    // 标记是否为唤醒触发的对话
-    this.wakeSessionId = null;
-    // 唤醒会话ID
-    this.wakeSessionFileName = null;
-    // 唤醒会话文件名
-    this.wakeSessionAudioSaved = false;
-    // 标记唤醒会话是否已保存音频
-    // 语音唤醒监听相关
-    this.wakeMediaRecorder = null;
-    this.wakeStream = null;
+    this.peak = 0;
+    this.energy = 0;
+    this.count = 0;
   }
-  /**
-   * 插件加载时的初始化方法
-   */
-  async onload() {
-    await this.loadSettings();
-    this.addCommand({
-      id: "start-voice-conversation",
-      name: "\u5F00\u59CB\u5BF9\u8BDD",
-      callback: () => this.startVoiceConversation()
-    });
-    this.addCommand({
+  add(samples) {
+    for (let i = 0; i < samples.length; i++) {
+      const sample = samples[i];
+      this.peak = Math.max(this.peak, Math.abs(sample));
+      this.energy += sample * sample;
+    }
+    this.count += samples.length;
+  }
+  get levels() {
+    return {
+      peak: gainToDb(this.peak),
+      rms: gainToDb(this.count > 0 ? Math.sqrt(this.energy / this.count) : 0)
+    };
+  }
+};
+function measureLevels(samples) {
+  const accumulator = new LevelAccumulator();
+  accumulator.add(samples);
+  return accumulator.levels;
+}
+var AudioProcessor = class {
+  constructor(sampleRate, options) {
+    this.options = options;
+    this.speechLevel = null;
+    this.autoGain = 1;
+    const coefficient = (ms) => 1 - Math.exp(-1e3 / (ms * sampleRate));
+    this.blockSize = Math.max(1, Math.round(sampleRate * BLOCK_MS / 1e3));
+    this.highPass = options.highPass ? Biquad.highPass(sampleRate, options.highPassFrequency) : null;
+    this.gateThreshold = dbToGain(options.noiseGate ? options.noiseGateThreshold : AUTO_GAIN_ACTIVITY_LEVEL);
+    this.gateAttack = coefficient(GATE_ATTACK_MS);
+    this.gateRelease = coefficient(GATE_RELEASE_MS);
+    this.gateGain = options.noiseGate ? GATE_FLOOR_GAIN : 1;
+    this.autoGainTarget = dbToGain(options.autoGainTarget);
+    this.autoGainRamp = coefficient(AUTO_GAIN_RAMP_MS);
+  }
+  /** 处理一段采样，返回新的数组 */
+  process(input) {
+    const output = new Float32Array(input.length);
+    for (let start = 0; start < input.length; start += this.blockSize) {
+      const end = Math.min(input.length, start + this.blockSize);
+      let energy = 0;
+      for (let i = start; i < end; i++) {
+        const sample = this.highPass ? this.highPass.process(input[i]) : input[i];
+        output[i] = sample;
+        energy += sample * sample;
+      }
+      const level = Math.sqrt(energy / (end - start));
+      const active = level >= this.gateThreshold;
+      let targetAutoGain = this.autoGain;
+      if (this.options.autoGain && active) {
+        const first = this.speechLevel === null;
+        this.speechLevel = this.speechLevel === null ? level : this.speechLevel + (level - this.speechLevel) * AUTO_GAIN_LEVEL_SMOOTHING;
+        targetAutoGain = Math.min(AUTO_GAIN_MAX, Math.max(AUTO_GAIN_MIN, this.autoGainTarget / this.speechLevel));
+        if (first) {
+          this.autoGain = targetAutoGain;
+        }
+      }
+      const targetGateGain = !this.options.noiseGate || active ? 1 : GATE_FLOOR_GAIN;
+      for (let i = start; i < end; i++) {
+        this.gateGain += (targetGateGain - this.gateGain) * (targetGateGain > this.gateGain ? this.gateAttack : this.gateRelease);
+        this.autoGain += (targetAutoGain - this.autoGain) * this.autoGainRamp;
+        output[i] = Math.max(-1, Math.min(1, output[i] * this.gateGain * this.autoGain));
+      }
+    }
+    return output;
+  }
+};
+function processAudioClip(samples, sampleRate, options) {
+  const output = new AudioProcessor(sampleRate, options).process(samples);
+  if (options.normalize) {
+    let peak = 0;
+    for (let i = 0; i < output.length; i++) {
+      peak = Math.max(peak, Math.abs(output[i]));
+    }
+    if (peak > 0) {
+      const gain = Math.min(NORMALIZE_MAX_GAIN, dbToGain(options.normalizePeak) / peak);
+      for (let i = 0; i < output.length; i++) {
+        output[i] *= gain;
+      }
+    }
+  }
+  return output;
+}
+
+// src/vad.ts
+var VAD_FRAME_MS = 20;
+var DEFAULT_ONSET_MS = 60;
+var DEFAULT_HANGOVER_MS = 300;
+var NOISE_MARGIN = 2.5;
+var MIN_SPEECH_BAND_RATIO = 0.35;
+var MAX_ZERO_CROSSING_RATE = 0.45;
+var NOISE_FALL_RATE = 0.2;
+var NOISE_RISE_RATE = 0.01;
+var VoiceActivityDetector = class {
+  constructor(options) {
+    this.options = options;
+    this.pendingLength = 0;
+    this.previousSample = 0;
+    this.speechRun = 0;
+    this.silenceRun = 0;
+    this.isSpeaking = false;
+    this.lastFeatures = null;
+    var _a, _b, _c;
+    this.frameSize = Math.max(1, Math.round(options.sampleRate * VAD_FRAME_MS / 1e3));
+    this.onsetFrames = Math.max(1, Math.ceil(((_a = options.onsetMs) != null ? _a : DEFAULT_ONSET_MS) / VAD_FRAME_MS));
+    this.hangoverFrames = Math.max(1, Math.ceil(((_b = options.hangoverMs) != null ? _b : DEFAULT_HANGOVER_MS) / VAD_FRAME_MS));
+    this.highPass = Biquad.highPass(options.sampleRate, 300);
+    this.lowPass = Biquad.lowPass(options.sampleRate, 3400);
+    this.pending = new Float32Array(this.frameSize);
+    this.noiseFloor = (_c = options.initialNoiseFloor) != null ? _c : options.threshold / NOISE_MARGIN;
+  }
+  /** 当前是否处于说话状态（已平滑） */
+  get speaking() {
+    return this.isSpeaking;
+  }
+  /** 最近一帧的检测特征 */
+  get features() {
+    return this.lastFeatures;
+  }
+  /**
+   * 处理一段采样。
+   * @returns 这段采样中是否有任何一帧处于说话状态；不足一帧时返回当前状态
+   */
+  process(samples) {
+    let spoke = false;
+    let analyzed = false;
+    for (let i = 0; i < samples.length; i++) {
+      this.pending[this.pendingLength++] = samples[i];
+      if (this.pendingLength === this.frameSize) {
+        this.analyzeFrame(this.pending);
+        this.pendingLength = 0;
+        analyzed = true;
+        spoke = spoke || this.isSpeaking;
+      }
+    }
+    return analyzed ? spoke : this.isSpeaking;
+  }
+  /** 清除说话状态和未满一帧的采样，噪声底保留 */
+  reset() {
+    this.pendingLength = 0;
+    this.speechRun = 0;
+    this.silenceRun = 0;
+    this.isSpeaking = false;
+  }
+  analyzeFrame(frame) {
+    let energy = 0;
+    let bandEnergy = 0;
+    let zeroCrossings = 0;
+    let previous = this.previousSample;
+    for (let i = 0; i < frame.length; i++) {
+      const sample = frame[i];
+      energy += sample * sample;
+      const band = this.lowPass.process(this.highPass.process(sample));
+      bandEnergy += band * band;
+      if (sample >= 0 !== previous >= 0) {
+        zeroCrossings++;
+      }
+      previous = sample;
+    }
+    this.previousSample = previous;
+    const rms = Math.sqrt(energy / frame.length);
+    const speechBandRatio = energy > 0 ? Math.min(1, bandEnergy / energy) : 0;
+    const zeroCrossingRate = zeroCrossings / frame.length;
+    const isSpeechFrame = rms >= this.options.threshold && rms >= this.noiseFloor * NOISE_MARGIN && speechBandRatio >= MIN_SPEECH_BAND_RATIO && zeroCrossingRate <= MAX_ZERO_CROSSING_RATE;
+    if (!isSpeechFrame && !this.isSpeaking) {
+      const rate = rms < this.noiseFloor ? NOISE_FALL_RATE : NOISE_RISE_RATE;
+      this.noiseFloor += (rms - this.noiseFloor) * rate;
+    }
+    if (this.isSpeaking) {
+      this.silenceRun = isSpeechFrame ? 0 : this.silenceRun + 1;
+      if (this.silenceRun >= this.hangoverFrames) {
+        this.isSpeaking = false;
+        this.speechRun = 0;
+      }
+    } else {
+      this.speechRun = isSpeechFrame ? this.speechRun + 1 : 0;
+      if (this.speechRun >= this.onsetFrames) {
+        this.isSpeaking = true;
+        this.silenceRun = 0;
+      }
+    }
+    this.lastFeatures = { energy: rms, zeroCrossingRate, speechBandRatio, noiseFloor: this.noiseFloor, isSpeechFrame };
+  }
+};
+function measureRms(samples) {
+  let energy = 0;
+  for (let i = 0; i < samples.length; i++) {
+    energy += samples[i] * samples[i];
+  }
+  return samples.length > 0 ? Math.sqrt(energy / samples.length) : 0;
+}
+function percentile(sorted, ratio) {
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * ratio))];
+}
+function computeVadCalibration(silenceLevels, speechLevels) {
+  if (silenceLevels.length === 0 || speechLevels.length === 0) {
+    return null;
+  }
+  const noiseFloor = Math.max(5e-4, percentile([...silenceLevels].sort((a, b) => a - b), 0.9));
+  const voiced = speechLevels.filter((level) => level >= noiseFloor * NOISE_MARGIN).sort((a, b) => a - b);
+  if (voiced.length < Math.max(10, speechLevels.length * 0.2)) {
+    return null;
+  }
+  const speechLevel = percentile(voiced, 0.5);
+  const lower = noiseFloor * NOISE_MARGIN;
+  const upper = speechLevel * 0.5;
+  if (lower > upper) {
+    return null;
+  }
+  const threshold = Math.min(upper, Math.max(lower, Math.sqrt(noiseFloor * speechLevel)));
+  return { noiseFloor, speechLevel, threshold };
+}
+
+// src/meeting.ts
+var DEFAULT_MEETING_SPEAKERS = ["\u53D1\u8A00\u4EBA A", "\u53D1\u8A00\u4EBA B", "\u53D1\u8A00\u4EBA C"];
+function formatTimestamp(seconds) {
+  const total = Math.max(0, Math.floor(seconds));
+  const pad2 = (value) => value < 10 ? `0${value}` : String(value);
+  return `${pad2(Math.floor(total / 3600))}:${pad2(Math.floor(total / 60) % 60)}:${pad2(total % 60)}`;
+}
+function formatMeetingParagraph(entry, audioName = "") {
+  const time = formatTimestamp(entry.start);
+  const marker = audioName ? `[${time}](${audioName.replace(/ /g, "%20")}#t=${Math.max(0, Math.floor(entry.start))})` : `[${time}]`;
+  const speaker = entry.speaker ? ` **${entry.speaker}**\uFF1A` : " ";
+  return `${marker}${speaker}${entry.text.trim()}
+
+`;
+}
+function formatMeetingTranscript(entries) {
+  return entries.map((entry) => `[${formatTimestamp(entry.start)}] ${entry.speaker ? `${entry.speaker}\uFF1A` : ""}${entry.text.trim()}`).join("\n");
+}
+function buildMeetingSummaryPrompt(entries) {
+  return [
+    "\u4E0B\u9762\u662F\u4E00\u6B21\u4F1A\u8BAE\u7684\u8BED\u97F3\u8F6C\u5199\u8BB0\u5F55\uFF0C\u6BCF\u884C\u5F00\u5934\u662F\u65F6\u95F4\u548C\u53D1\u8A00\u4EBA\u3002\u8BF7\u7528\u4E0E\u8BB0\u5F55\u76F8\u540C\u7684\u8BED\u8A00\u6574\u7406\u4F1A\u8BAE\u603B\u7ED3\uFF0C\u53EA\u8F93\u51FA\u4EE5\u4E0B\u4E09\u90E8\u5206\u7684 Markdown\uFF1A",
+    "### \u6458\u8981",
+    "\u7528\u51E0\u53E5\u8BDD\u6982\u62EC\u8BA8\u8BBA\u7684\u4E3B\u8981\u5185\u5BB9\u3002",
+    "### \u51B3\u5B9A",
+    "\u5217\u51FA\u4F1A\u8BAE\u505A\u51FA\u7684\u51B3\u5B9A\uFF0C\u6BCF\u6761\u4E00\u884C\uFF0C\u6CA1\u6709\u5219\u5199\u201C\u65E0\u201D\u3002",
+    "### \u884C\u52A8\u9879",
+    "\u7528\u4EFB\u52A1\u5217\u8868\u5217\u51FA\u884C\u52A8\u9879\uFF0C\u683C\u5F0F\u4E3A\u201C- [ ] \u8D1F\u8D23\u4EBA\uFF1A\u4E8B\u9879\uFF08\u622A\u6B62\u65F6\u95F4\uFF09\u201D\uFF0C\u8D1F\u8D23\u4EBA\u6216\u622A\u6B62\u65F6\u95F4\u4E0D\u660E\u786E\u65F6\u7701\u7565\u5BF9\u5E94\u90E8\u5206\uFF0C\u6CA1\u6709\u5219\u5199\u201C\u65E0\u201D\u3002",
+    "",
+    "\u4F1A\u8BAE\u8BB0\u5F55\uFF1A",
+    formatMeetingTranscript(entries)
+  ].join("\n");
+}
+
+// src/textNormalization.ts
+var DEFAULT_TEXT_NORMALIZATION = {
+  spacing: true,
+  punctuation: true,
+  numerals: true,
+  capitalization: true
+};
+var CJK = "\\u2e80-\\u2fdf\\u3040-\\u30ff\\u3100-\\u312f\\u3200-\\u32ff\\u3400-\\u4dbf\\u4e00-\\u9fff\\uf900-\\ufaff";
+var CJK_CHAR = new RegExp(`[${CJK}]`);
+var CJK_CHARS = new RegExp(`[${CJK}]`, "g");
+var LATIN_LETTER = /[A-Za-z]/;
+var LATIN_LETTERS = /[A-Za-z]/g;
+var CHINESE_DIGITS = {
+  \u96F6: 0,
+  "\u3007": 0,
+  \u4E00: 1,
+  \u4E8C: 2,
+  \u4E24: 2,
+  \u4E09: 3,
+  \u56DB: 4,
+  \u4E94: 5,
+  \u516D: 6,
+  \u4E03: 7,
+  \u516B: 8,
+  \u4E5D: 9
+};
+var SMALL_UNITS = { \u5341: 10, \u767E: 100, \u5343: 1e3 };
+var NUMBER = "[\u96F6\u3007\u4E00\u4E8C\u4E24\u4E09\u56DB\u4E94\u516D\u4E03\u516B\u4E5D\u5341\u767E\u5343\u4E07\u4EBF]+";
+var DIGIT = "[\u96F6\u3007\u4E00\u4E8C\u4E09\u56DB\u4E94\u516D\u4E03\u516B\u4E5D]";
+var HOUR = "\u4E8C\u5341[\u4E00\u4E8C\u4E09\u56DB]?|\u5341[\u4E00\u4E8C\u4E09\u56DB\u4E94\u516D\u4E03\u516B\u4E5D]?|[\u96F6\u4E00\u4E8C\u4E24\u4E09\u56DB\u4E94\u516D\u4E03\u516B\u4E5D]";
+var MINUTE = "[\u4E00\u4E8C\u4E09\u56DB\u4E94]?\u5341[\u4E00\u4E8C\u4E09\u56DB\u4E94\u516D\u4E03\u516B\u4E5D]?|[\u96F6\u3007]?[\u4E00\u4E8C\u4E09\u56DB\u4E94\u516D\u4E03\u516B\u4E5D]|[\u96F6\u3007]";
+var MONTH = "\u5341[\u4E00\u4E8C]?|[\u4E00\u4E8C\u4E09\u56DB\u4E94\u516D\u4E03\u516B\u4E5D]";
+var DAY = "\u4E09\u5341\u4E00?|\u4E8C\u5341[\u4E00\u4E8C\u4E09\u56DB\u4E94\u516D\u4E03\u516B\u4E5D]?|\u5341[\u4E00\u4E8C\u4E09\u56DB\u4E94\u516D\u4E03\u516B\u4E5D]?|[\u4E00\u4E8C\u4E09\u56DB\u4E94\u516D\u4E03\u516B\u4E5D]";
+var NON_CURRENCY_AFTER_YUAN = "[\u4E00\u4E8C\u4E09\u56DB\u4E94\u516D\u4E03\u516B\u4E5D\u5341]\u6B21(?:\u65B9\u7A0B|\u51FD\u6570|\u591A\u9879\u5F0F|\u4E0D\u7B49\u5F0F)|\u7D20|\u8BBA|\u5316|\u7EC4|\u51FD\u6570|\u65B9\u7A0B|\u5BF9\u7ACB|\u590D\u59CB";
+var CURRENCY_UNITS = `\u5143(?!${NON_CURRENCY_AFTER_YUAN})|\u5757\u94B1|\u7F8E\u5143|\u6B27\u5143|\u82F1\u9551|\u65E5\u5143|\u6E2F\u5E01|\u6E2F\u5143`;
+var CJK_UNIT = /^[年月日号时点分秒周天个位名人次件元块角毛万亿千百岁度倍层楼页章节条斤克米里]/;
+var ARABIC_NUMBER = "\\d+(?:[.:,]\\d+)*%?";
+function parseChineseNumber(text) {
+  if (!text) {
+    return NaN;
+  }
+  if (text.length > 1 && /^[零〇一二两三四五六七八九]+$/.test(text)) {
+    return Number(Array.from(text).map((char) => CHINESE_DIGITS[char]).join(""));
+  }
+  let total = 0;
+  let section = 0;
+  let digit = 0;
+  let hasDigit = false;
+  for (const char of text) {
+    if (char in CHINESE_DIGITS) {
+      digit = CHINESE_DIGITS[char];
+      hasDigit = true;
+    } else if (char in SMALL_UNITS) {
+      if (!hasDigit && !(char === "\u5341" && section === 0)) {
+        return NaN;
+      }
+      section += (hasDigit ? digit : 1) * SMALL_UNITS[char];
+      digit = 0;
+      hasDigit = false;
+    } else if (char === "\u4E07") {
+      total += (section + digit) * 1e4;
+      section = digit = 0;
+      hasDigit = false;
+    } else if (char === "\u4EBF") {
+      total = (total + section + digit) * 1e8;
+      section = digit = 0;
+      hasDigit = false;
+    } else {
+      return NaN;
+    }
+  }
+  return total + section + digit;
+}
+function formatChineseDecimal(integer, fraction) {
+  const value = parseChineseNumber(integer);
+  if (isNaN(value)) {
+    return null;
+  }
+  if (!fraction) {
+    return String(value);
+  }
+  return `${value}.${Array.from(fraction).map((char) => CHINESE_DIGITS[char]).join("")}`;
+}
+function pad(value) {
+  return value < 10 ? `0${value}` : String(value);
+}
+function convertChineseNumerals(text) {
+  return text.replace(new RegExp(`\u767E\u5206\u4E4B(${NUMBER})(?:\u70B9(${DIGIT}+))?`, "g"), (match, integer, fraction) => {
+    const value = formatChineseDecimal(integer, fraction);
+    return value === null ? match : `${value}%`;
+  }).replace(new RegExp(`(${HOUR})[\u70B9\u65F6](?:(${MINUTE})\u5206(?:(${MINUTE})\u79D2)?|(\u534A)|(\u6574))`, "g"), (match, hourText, minuteText, secondText, half) => {
+    const hour = parseChineseNumber(hourText);
+    const minute = half ? 30 : minuteText ? parseChineseNumber(minuteText) : 0;
+    const second = secondText ? parseChineseNumber(secondText) : NaN;
+    if (isNaN(hour) || isNaN(minute) || hour > 24 || minute >= 60 || second >= 60) {
+      return match;
+    }
+    return `${hour}:${pad(minute)}${isNaN(second) ? "" : `:${pad(second)}`}`;
+  }).replace(new RegExp(`(${DIGIT}{4})\u5E74`, "g"), (match, year) => `${parseChineseNumber(year)}\u5E74`).replace(new RegExp(`(\\d{4}\u5E74)(${MONTH})\u6708`, "g"), (match, year, month) => `${year}${parseChineseNumber(month)}\u6708`).replace(new RegExp(`(${MONTH}|\\d{1,2})\u6708(${DAY})([\u65E5\u53F7])`, "g"), (match, month, day, suffix) => {
+    const monthValue = /^\d+$/.test(month) ? Number(month) : parseChineseNumber(month);
+    return `${monthValue}\u6708${parseChineseNumber(day)}${suffix}`;
+  }).replace(new RegExp(`(${NUMBER})(?:\u70B9(${DIGIT}+))?([\u4E07\u4EBF])?(?=${CURRENCY_UNITS})`, "g"), (match, integer, fraction, magnitude) => {
+    let suffix = magnitude != null ? magnitude : "";
+    if (!fraction && !suffix && /[万亿]$/.test(integer) && !/[万亿]/.test(integer.slice(0, -1))) {
+      suffix = integer.slice(-1);
+      integer = integer.slice(0, -1);
+    }
+    const value = formatChineseDecimal(integer, fraction);
+    return value === null ? match : `${value}${suffix}`;
+  });
+}
+var FULL_WIDTH_MARKS = { "\uFF0C": ",", "\u3002": ".", "\uFF01": "!", "\uFF1F": "?", "\uFF1A": ":", "\uFF1B": ";" };
+var HALF_WIDTH_MARKS = { ",": "\uFF0C", ".": "\u3002", "!": "\uFF01", "?": "\uFF1F", ":": "\uFF1A", ";": "\uFF1B" };
+function normalizePunctuationWidth(text, before = "") {
+  var _a, _b;
+  const cjkCount = ((_a = text.match(CJK_CHARS)) != null ? _a : []).length;
+  const latinCount = ((_b = text.match(LATIN_LETTERS)) != null ? _b : []).length;
+  const cjkDominant = cjkCount > 0 && cjkCount >= latinCount;
+  return text.replace(/([,.!?:;，。！？：；])([ \t]*)/g, (match, mark, spaces, index) => {
+    var _a2, _b2;
+    const prev = (_b2 = (_a2 = /\S(?=\s*$)/.exec(before + text.slice(0, index))) == null ? void 0 : _a2[0]) != null ? _b2 : "";
+    const next = text.charAt(index + match.length);
+    if (mark in HALF_WIDTH_MARKS && (mark === "." && (prev === "." || next === ".") || /\d/.test(prev) && /\d/.test(next) && !spaces)) {
+      return match;
+    }
+    const fullWidth = CJK_CHAR.test(prev) || !LATIN_LETTER.test(prev) && cjkDominant;
+    if (fullWidth) {
+      return mark in HALF_WIDTH_MARKS ? HALF_WIDTH_MARKS[mark] : mark;
+    }
+    if (mark in FULL_WIDTH_MARKS) {
+      return FULL_WIDTH_MARKS[mark] + (next && !/\s/.test(next) ? " " : spaces);
+    }
+    return match;
+  });
+}
+function normalizeCjkSpacing(text) {
+  return text.replace(new RegExp(`([${CJK}])[ \\t]+(?=[${CJK}])`, "g"), "$1").replace(/[ \t]+(?=[，。！？：；、”」）》])/g, "").replace(/([，。！？：；、“「（《])[ \t]+/g, "$1").replace(new RegExp(`([${CJK}])[ \\t]*(?=[A-Za-z0-9]*[A-Za-z])`, "g"), "$1 ").replace(new RegExp(`([A-Za-z0-9]*[A-Za-z][A-Za-z0-9]*)[ \\t]*(?=[${CJK}])`, "g"), "$1 ").replace(new RegExp(`([ \\t]*)(${ARABIC_NUMBER})([ \\t]*)`, "g"), (match, lead, number, trail, index, whole) => {
+    const prev = whole.charAt(index - 1);
+    const next = whole.slice(index + match.length);
+    if (CJK_UNIT.test(next)) {
+      return (CJK_CHAR.test(prev) ? "" : lead) + number;
+    }
+    return (CJK_CHAR.test(prev) ? " " : lead) + number + (CJK_CHAR.test(next.charAt(0)) ? " " : trail);
+  });
+}
+var ABBREVIATIONS = ["etc", "mr", "mrs", "ms", "dr", "prof", "st", "jr", "sr", "vs", "inc", "ltd", "co", "no", "fig", "approx"];
+function endsSentence(text) {
+  var _a, _b;
+  const match = /([.!?。！？])[\s"'”’)]*$/.exec(text);
+  if (!match) {
+    return false;
+  }
+  if (match[1] !== ".") {
+    return true;
+  }
+  const token = (_b = (_a = /[A-Za-z][A-Za-z.]*$/.exec(text.slice(0, match.index))) == null ? void 0 : _a[0]) != null ? _b : "";
+  return !(token.length === 1 || token.indexOf(".") !== -1 || ABBREVIATIONS.indexOf(token.toLowerCase()) !== -1);
+}
+function isSentenceStart(before) {
+  return !before.trim() || endsSentence(before) || /(?:^|\n)[ \t]*(?:[-*+]|\d+[.)]|>|#{1,6})?[ \t]*(?:\[.\][ \t]*)?$/.test(before);
+}
+function capitalizeSentences(text, before = "") {
+  return text.replace(/(^|[.!?][ \t]+|\n[ \t]*)([a-z]+)(?![A-Za-z])/g, (match, lead, word, index) => {
+    if (index === 0 && !lead && !isSentenceStart(before)) {
+      return match;
+    }
+    if (lead.charAt(0) === "." && !endsSentence(before + text.slice(0, index + 1))) {
+      return match;
+    }
+    return lead + word.charAt(0).toUpperCase() + word.slice(1);
+  }).replace(/(^|[^A-Za-z])i(?=$|[\s'’,.!?;:])(?!\.e\.)/g, "$1I");
+}
+function normalizeTranscript(text, options, before = "") {
+  let result = text;
+  if (options.numerals) {
+    result = convertChineseNumerals(result);
+  }
+  if (options.punctuation) {
+    result = normalizePunctuationWidth(result, before);
+  }
+  if (options.spacing) {
+    result = normalizeCjkSpacing(result);
+  }
+  if (options.capitalization) {
+    result = capitalizeSentences(result, before);
+  }
+  return result;
+}
+function needsSpaceBetween(before, after) {
+  const prev = before.charAt(before.length - 1);
+  const next = after.charAt(0);
+  if (!prev || !next || /\s/.test(prev) || /\s/.test(next)) {
+    return false;
+  }
+  const prevIsWord = /[A-Za-z0-9]*[A-Za-z][A-Za-z0-9]*$/.test(before) || /\d%?$/.test(before) && !CJK_UNIT.test(after);
+  const nextNumber = new RegExp(`^${ARABIC_NUMBER}`).exec(after);
+  const nextIsWord = /^[A-Za-z0-9]*[A-Za-z]/.test(after) || nextNumber !== null && !CJK_UNIT.test(after.slice(nextNumber[0].length));
+  if (CJK_CHAR.test(prev)) {
+    return nextIsWord;
+  }
+  if (CJK_CHAR.test(next)) {
+    return prevIsWord || /[,.!?;:]/.test(prev);
+  }
+  return /[A-Za-z0-9,.!?;:]/.test(prev) && /[A-Za-z0-9]/.test(next);
+}
+
+// src/dictationTranslation.ts
+var TRANSLATION_LANGUAGES = {
+  en: "English",
+  zh: "\u7B80\u4F53\u4E2D\u6587",
+  ja: "\u65E5\u672C\u8A9E",
+  ko: "\uD55C\uAD6D\uC5B4",
+  fr: "Fran\xE7ais",
+  de: "Deutsch",
+  es: "Espa\xF1ol"
+};
+var TABLE_ROW = /^\s*\|.*\|\s*$/;
+function buildTranslationPrompt(text, language) {
+  return [
+    `\u628A\u4E0B\u9762\u8FD9\u53E5\u8BED\u97F3\u542C\u5199\u5185\u5BB9\u7FFB\u8BD1\u6210${language}\u3002\u53EA\u8F93\u51FA\u8BD1\u6587\uFF0C\u4E0D\u8981\u89E3\u91CA\uFF0C\u4E0D\u8981\u52A0\u5F15\u53F7\uFF1B\u4FDD\u7559\u539F\u6587\u4E2D\u7684 Markdown \u6807\u8BB0\u3001\u4EE3\u7801\u3001\u94FE\u63A5\u548C\u4E13\u6709\u540D\u8BCD\uFF1B\u539F\u6587\u5DF2\u7ECF\u662F${language}\u65F6\u539F\u6837\u8F93\u51FA\u3002`,
+    "",
+    text.trim()
+  ].join("\n");
+}
+function cleanTranslationResponse(response) {
+  return response.replace(/^\s*```[^\n]*\n?|\n?```\s*$/g, "").trim().replace(/^(?:译文|翻译|Translation)\s*[:：]\s*/i, "").replace(/^["“「]([\s\S]*)["”」]$/, "$1").trim();
+}
+function formatFootnoteTranslation(translated, original) {
+  const note = original.trim().replace(/[[\]]/g, "\\$&");
+  return note ? `${translated}^[${note}]` : translated;
+}
+function toTableCell(text) {
+  return text.trim().replace(/\s*\n\s*/g, " ").replace(/\|/g, "\\|");
+}
+function renderBilingualRow(doc, offset, translated, original, headers) {
+  const lineStart = doc.lastIndexOf("\n", offset - 1) + 1;
+  const currentLine = doc.slice(lineStart, offset);
+  const row = `| ${toTableCell(translated)} | ${toTableCell(original)} |
+`;
+  if (currentLine.trim() && TABLE_ROW.test(currentLine)) {
+    return { from: offset, to: offset, text: `
+${row}` };
+  }
+  let prefix = "";
+  if (currentLine.trim()) {
+    prefix = "\n\n";
+  } else if (lineStart > 0) {
+    const previousStart = doc.lastIndexOf("\n", lineStart - 2) + 1;
+    const previousLine = doc.slice(previousStart, lineStart - 1);
+    if (TABLE_ROW.test(previousLine)) {
+      return { from: offset, to: offset, text: row };
+    }
+    prefix = previousLine.trim() ? "\n" : "";
+  }
+  const header = `| ${toTableCell(headers[0])} | ${toTableCell(headers[1])} |
+| --- | --- |
+`;
+  return { from: offset, to: offset, text: prefix + header + row };
+}
+
+// src/dictationPolish.ts
+var DEFAULT_POLISH_INSTRUCTIONS = "\u8BF7\u6DA6\u8272\u4E0B\u9762\u7684\u8BED\u97F3\u542C\u5199\u6587\u672C\uFF1A\u8865\u5168\u5E76\u4FEE\u6B63\u6807\u70B9\uFF0C\u5220\u9664\u201C\u55EF\u201D\u201C\u554A\u201D\u201C\u90A3\u4E2A\u201D\u201C\u5C31\u662F\u201D\u7B49\u53E3\u5934\u7985\u548C\u65E0\u610F\u4E49\u7684\u91CD\u590D\uFF0C\u5E76\u6309\u8BED\u4E49\u5206\u6BB5\u3002\u4E0D\u8981\u6539\u53D8\u539F\u610F\uFF0C\u4E0D\u8981\u589E\u5220\u4FE1\u606F\uFF0C\u4FDD\u7559 Markdown \u6807\u8BB0\u548C\u539F\u6587\u8BED\u8A00\u3002";
+var PARAGRAPH_MARKER = /^\s*\[(\d+)(?:\s*[-–~～]\s*(\d+))?\]\s*/;
+function groupDictatedRanges(content, ranges) {
+  const groups = [];
+  let groupTo = -1;
+  for (const range of ranges.slice().sort((a, b) => a.from - b.from)) {
+    const current = groups[groups.length - 1];
+    if (current && !content.slice(groupTo, range.from).trim()) {
+      current.push(range);
+    } else {
+      groups.push([range]);
+    }
+    groupTo = Math.max(groupTo, range.to);
+  }
+  return groups;
+}
+function buildPolishPrompt(segments, instructions) {
+  const numbered = segments.map((segment, index) => `[${index + 1}] ${segment.trim()}`).join("\n");
+  return [
+    instructions.trim() || DEFAULT_POLISH_INSTRUCTIONS,
+    "\u8F93\u5165\u6309\u53E5\u7F16\u53F7\u7ED9\u51FA\u3002\u8F93\u51FA\u82E5\u5E72\u6BB5\u843D\uFF0C\u6BCF\u6BB5\u5355\u72EC\u4E00\u884C\uFF0C\u4EE5 [\u8D77\u59CB\u7F16\u53F7-\u7ED3\u675F\u7F16\u53F7] \u5F00\u5934\u6807\u660E\u8BE5\u6BB5\u5BF9\u5E94\u7684\u8F93\u5165\u53E5\u5B50\uFF1B\u7F16\u53F7\u5FC5\u987B\u6309\u987A\u5E8F\u8FDE\u7EED\u8986\u76D6\u5168\u90E8\u8F93\u5165\uFF0C\u4E0D\u8981\u8F93\u51FA\u4EFB\u4F55\u89E3\u91CA\u3002\u4F8B\u5982\uFF1A",
+    "[1-3] \u7B2C\u4E00\u6BB5\u5185\u5BB9",
+    "[4-4] \u7B2C\u4E8C\u6BB5\u5185\u5BB9",
+    "",
+    "\u8F93\u5165\uFF1A",
+    numbered
+  ].join("\n");
+}
+function parsePolishResponse(response, segmentCount) {
+  var _a;
+  const lines = response.replace(/^\s*```[^\n]*\n?|\n?```\s*$/g, "").split(/\r?\n/);
+  const paragraphs = [];
+  let valid = true;
+  for (const line of lines) {
+    const marker = PARAGRAPH_MARKER.exec(line);
+    if (marker) {
+      const from = Number(marker[1]) - 1;
+      const to = Number((_a = marker[2]) != null ? _a : marker[1]);
+      paragraphs.push({ from, to, text: line.slice(marker[0].length).trim() });
+    } else if (line.trim()) {
+      const last = paragraphs[paragraphs.length - 1];
+      if (last) {
+        last.text = last.text ? `${last.text}
+${line.trim()}` : line.trim();
+      } else {
+        valid = false;
+      }
+    }
+  }
+  let expected = 0;
+  for (const paragraph of paragraphs) {
+    if (paragraph.from !== expected || paragraph.to <= paragraph.from) {
+      valid = false;
+      break;
+    }
+    expected = paragraph.to;
+  }
+  if (valid && paragraphs.length > 0 && expected === segmentCount) {
+    return paragraphs;
+  }
+  const text = lines.map((line) => line.replace(PARAGRAPH_MARKER, "").trim()).filter((line) => line.length > 0).join("\n\n");
+  return [{ from: 0, to: segmentCount, text }];
+}
+function getParagraphOriginal(segments, paragraph) {
+  return segments.slice(paragraph.from, paragraph.to).join("").trim();
+}
+function composePolishedText(segments, paragraphs, accepted) {
+  var _a, _b;
+  const trailing = (_b = (_a = /\s*$/.exec(segments.join(""))) == null ? void 0 : _a[0]) != null ? _b : "";
+  const body = paragraphs.map((paragraph, index) => accepted[index] ? paragraph.text : getParagraphOriginal(segments, paragraph)).filter((text) => text.length > 0).join("\n\n");
+  return body + trailing;
+}
+function tokenizeForDiff(text) {
+  var _a;
+  return (_a = text.match(/[A-Za-z0-9]+|\s+|[\s\S]/g)) != null ? _a : [];
+}
+var MAX_DIFF_CELLS = 4e5;
+function diffText(before, after) {
+  const a = tokenizeForDiff(before);
+  const b = tokenizeForDiff(after);
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...before ? [{ type: "delete", text: before }] : [],
+      ...after ? [{ type: "insert", text: after }] : []
+    ];
+  }
+  const lengths = [];
+  for (let i2 = 0; i2 <= a.length; i2++) {
+    lengths.push(new Uint32Array(b.length + 1));
+  }
+  for (let i2 = a.length - 1; i2 >= 0; i2--) {
+    for (let j2 = b.length - 1; j2 >= 0; j2--) {
+      lengths[i2][j2] = a[i2] === b[j2] ? lengths[i2 + 1][j2 + 1] + 1 : Math.max(lengths[i2 + 1][j2], lengths[i2][j2 + 1]);
+    }
+  }
+  const parts = [];
+  const push = (type, text) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push("equal", a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push("delete", a[i++]);
+    } else {
+      push("insert", b[j++]);
+    }
+  }
+  while (i < a.length) push("delete", a[i++]);
+  while (j < b.length) push("insert", b[j++]);
+  return parts;
+}
+
+// src/dictationCommands.ts
+var DEFAULT_DICTATION_GRAMMAR = {
+  commands: {
+    "newline": ["\u6362\u884C", "new line"],
+    "paragraph": ["\u65B0\u6BB5\u843D", "\u53E6\u8D77\u4E00\u6BB5", "new paragraph"],
+    "delete-last": ["\u5220\u9664\u4E0A\u4E00\u53E5", "delete last sentence", "scratch that"],
+    "undo": ["\u64A4\u9500", "undo"]
+  },
+  structures: {
+    "list-item": ["\u5217\u8868\u9879", "\u9879\u76EE\u7B26\u53F7", "bullet"],
+    "task": ["\u5F85\u529E", "\u5F85\u529E\u4E8B\u9879", "todo"],
+    "quote": ["\u5F15\u7528", "quote"],
+    "indent": ["\u4E0B\u4E00\u7EA7", "indent"],
+    "outdent": ["\u4E0A\u4E00\u7EA7", "outdent"]
+  },
+  punctuation: {
+    "\u53E5\u53F7": "\u3002",
+    "\u9017\u53F7": "\uFF0C",
+    "\u95EE\u53F7": "\uFF1F",
+    "\u611F\u53F9\u53F7": "\uFF01",
+    "\u5192\u53F7": "\uFF1A",
+    "\u5206\u53F7": "\uFF1B",
+    "\u987F\u53F7": "\u3001",
+    "period": ".",
+    "comma": ",",
+    "question mark": "?",
+    "exclamation mark": "!",
+    "colon": ":",
+    "semicolon": ";"
+  }
+};
+var STANDALONE_COMMANDS = ["delete-last", "undo"];
+var AUTO_PUNCTUATION = "\uFF0C\u3002\uFF01\uFF1F\u3001\uFF1B\uFF1A,.!?;:";
+var TRAILING_AUTO_PUNCTUATION = new RegExp(`[\\s${AUTO_PUNCTUATION}]+$`);
+var LEADING_AUTO_PUNCTUATION = new RegExp(`^[${AUTO_PUNCTUATION}]+`);
+function escapeRegExp2(text) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+function buildPhrasePattern(phrase) {
+  let pattern = phrase.trim().split(/\s+/).map(escapeRegExp2).join("\\s+");
+  if (/^[A-Za-z]/.test(phrase)) {
+    pattern = `(?<![A-Za-z])${pattern}`;
+  }
+  if (/[A-Za-z]$/.test(phrase)) {
+    pattern = `${pattern}(?![A-Za-z])`;
+  }
+  return pattern;
+}
+var HEADING_LEVELS = {
+  "\u4E00": 1,
+  "\u4E8C": 2,
+  "\u4E09": 3,
+  "\u56DB": 4,
+  "\u4E94": 5,
+  "\u516D": 6,
+  "one": 1,
+  "two": 2,
+  "three": 3,
+  "four": 4,
+  "five": 5,
+  "six": 6
+};
+var HEADING_PATTERN = /^(?:([一二三四五六1-6])级标题|heading\s+(one|two|three|four|five|six|[1-6])(?![A-Za-z]))/i;
+function normalizePhrase(phrase) {
+  return phrase.trim().toLowerCase().replace(/\s+/g, " ");
+}
+function parsePhraseList(value) {
+  return value.split(/[,，、\n]/).map((phrase) => phrase.trim()).filter((phrase) => phrase.length > 0);
+}
+function parsePunctuationMap(value) {
+  const map = {};
+  for (const line of value.split("\n")) {
+    const separator = line.lastIndexOf("=");
+    if (separator <= 0) continue;
+    const phrase = line.slice(0, separator).trim();
+    const symbol = line.slice(separator + 1).trim();
+    if (phrase && symbol) {
+      map[phrase] = symbol;
+    }
+  }
+  return map;
+}
+function formatPunctuationMap(map) {
+  return Object.keys(map).map((phrase) => `${phrase} = ${map[phrase]}`).join("\n");
+}
+function parseDictationUtterance(text, grammar, options = { commands: true, markdown: false }) {
+  const actions = options.commands ? parseCommands(text, grammar) : text ? [{ type: "text", text }] : [];
+  return options.markdown ? applyStructureKeywords(actions, grammar) : actions;
+}
+function parseCommands(text, grammar) {
+  const whole = normalizePhrase(text.replace(TRAILING_AUTO_PUNCTUATION, "").replace(LEADING_AUTO_PUNCTUATION, ""));
+  for (const type of STANDALONE_COMMANDS) {
+    if (grammar.commands[type].some((phrase) => normalizePhrase(phrase) === whole)) {
+      return [{ type }];
+    }
+  }
+  const replacements = /* @__PURE__ */ new Map();
+  for (const type of ["newline", "paragraph"]) {
+    for (const phrase of grammar.commands[type]) {
+      replacements.set(normalizePhrase(phrase), { type });
+    }
+  }
+  for (const phrase of Object.keys(grammar.punctuation)) {
+    replacements.set(normalizePhrase(phrase), grammar.punctuation[phrase]);
+  }
+  const phrases = Array.from(replacements.keys()).filter((phrase) => phrase.length > 0);
+  if (phrases.length === 0) {
+    return text ? [{ type: "text", text }] : [];
+  }
+  const matcher = new RegExp(phrases.sort((a, b) => b.length - a.length).map(buildPhrasePattern).join("|"), "gi");
+  const actions = [];
+  let source = text;
+  let buffer = "";
+  let lastIndex = 0;
+  let match;
+  while ((match = matcher.exec(source)) !== null) {
+    buffer += source.slice(lastIndex, match.index).replace(TRAILING_AUTO_PUNCTUATION, "");
+    const replacement = replacements.get(normalizePhrase(match[0]));
+    let rest = source.slice(matcher.lastIndex).replace(LEADING_AUTO_PUNCTUATION, "");
+    if (typeof replacement === "string") {
+      buffer += replacement;
+    } else if (replacement) {
+      if (buffer) {
+        actions.push({ type: "text", text: buffer });
+      }
+      buffer = "";
+      actions.push(replacement);
+      rest = rest.trimStart();
+    }
+    source = source.slice(0, matcher.lastIndex) + rest;
+    lastIndex = matcher.lastIndex;
+  }
+  buffer += source.slice(lastIndex);
+  if (buffer) {
+    actions.push({ type: "text", text: buffer });
+  }
+  return actions;
+}
+var LIST_PREFIX = /^(\s*)(?:[-*+]|\d+[.)])(\s+\[.\])?\s+/;
+var BARE_STRUCTURE_LINE = /^\s*(?:#{1,6}\s+|>\s*|(?:[-*+]|\d+[.)])(?:\s+\[.\])?\s+)?$/;
+function isBareStructureLine(line) {
+  return BARE_STRUCTURE_LINE.test(line);
+}
+function buildStructurePrefix(action, line, indentUnit = "	") {
+  var _a;
+  const list = LIST_PREFIX.exec(line);
+  const indent = (_a = list == null ? void 0 : list[1]) != null ? _a : "";
+  const marker = (list == null ? void 0 : list[2]) ? "- [ ] " : "- ";
+  switch (action.type) {
+    case "heading":
+      return "#".repeat(Math.min(Math.max(action.level, 1), 6)) + " ";
+    case "quote":
+      return "> ";
+    case "list-item":
+      return indent + "- ";
+    case "task":
+      return indent + "- [ ] ";
+    case "indent":
+      return indent + indentUnit + marker;
+    case "outdent":
+      return indent.replace(/(?:\t| {1,4})$/, "") + marker;
+    default:
+      return "";
+  }
+}
+function renderDictationActions(doc, offset, actions, indentUnit = "	", smartSpacing = false) {
+  var _a, _b;
+  let from = offset;
+  let text = "";
+  let inHeading = false;
+  const lineEnd = doc.indexOf("\n", offset);
+  const restOfLine = doc.slice(offset, lineEnd === -1 ? doc.length : lineEnd);
+  for (const action of actions) {
+    switch (action.type) {
+      case "text":
+        text += action.text;
+        break;
+      case "newline":
+        text += "\n";
+        inHeading = false;
+        break;
+      case "paragraph":
+        text += "\n\n";
+        inHeading = false;
+        break;
+      case "delete-last":
+      case "undo":
+        break;
+      default: {
+        const before = doc.slice(0, from) + text;
+        const lineStart = before.lastIndexOf("\n") + 1;
+        const line = before.slice(lineStart);
+        const isLastLine = !text.includes("\n");
+        const prefix = buildStructurePrefix(action, isLastLine ? line + restOfLine : line, indentUnit);
+        if (isBareStructureLine(line) && !(isLastLine && restOfLine.trim())) {
+          if (lineStart >= from) {
+            text = text.slice(0, lineStart - from) + prefix;
+          } else {
+            from = lineStart;
+            text = prefix;
+          }
+        } else {
+          text += "\n" + prefix;
+        }
+        inHeading = action.type === "heading";
+        break;
+      }
+    }
+  }
+  if (((_a = actions[actions.length - 1]) == null ? void 0 : _a.type) === "text") {
+    if (inHeading) {
+      text += "\n";
+    } else if (!smartSpacing || /[A-Za-z0-9,.!?;:'")\]]$/.test(text)) {
+      text += " ";
+    }
+  }
+  if (smartSpacing && ((_b = actions[0]) == null ? void 0 : _b.type) === "text" && from === offset && needsSpaceBetween(doc.slice(0, offset), text)) {
+    text = " " + text;
+  }
+  return { from, to: offset, text };
+}
+function takeStructureKeyword(text, grammar) {
+  var _a, _b;
+  const heading = HEADING_PATTERN.exec(text);
+  if (heading) {
+    const level = ((_a = heading[1]) != null ? _a : heading[2]).toLowerCase();
+    return { action: { type: "heading", level: (_b = HEADING_LEVELS[level]) != null ? _b : Number(level) }, rest: text.slice(heading[0].length) };
+  }
+  const candidates = [];
+  for (const type of Object.keys(grammar.structures)) {
+    for (const phrase of grammar.structures[type]) {
+      if (phrase.trim()) {
+        candidates.push({ phrase, type });
+      }
+    }
+  }
+  candidates.sort((a, b) => b.phrase.length - a.phrase.length);
+  for (const { phrase, type } of candidates) {
+    const match = new RegExp(`^${buildPhrasePattern(phrase)}`, "i").exec(text);
+    if (match) {
+      return { action: { type }, rest: text.slice(match[0].length) };
+    }
+  }
+  return null;
+}
+function applyStructureKeywords(actions, grammar) {
+  const result = [];
+  let atLineStart = true;
+  for (const action of actions) {
+    if (action.type !== "text") {
+      result.push(action);
+      atLineStart = action.type === "newline" || action.type === "paragraph";
+      continue;
+    }
+    let text = action.text;
+    let isHeading = false;
+    while (atLineStart) {
+      const taken = takeStructureKeyword(text.replace(LEADING_AUTO_PUNCTUATION, "").trimStart(), grammar);
+      if (!taken) break;
+      result.push(taken.action);
+      isHeading = taken.action.type === "heading";
+      text = taken.rest.replace(LEADING_AUTO_PUNCTUATION, "").trimStart();
+    }
+    if (isHeading) {
+      text = text.replace(TRAILING_AUTO_PUNCTUATION, "");
+    }
+    if (text) {
+      result.push({ type: "text", text });
+    }
+    atLineStart = false;
+  }
+  return result;
+}
+
+// main.ts
+function parseJsonResponse(source) {
+  const parsed = JSON.parse(source);
+  return parsed;
+}
+function normalizeError(reason, fallbackMessage = "\u672A\u77E5\u9519\u8BEF") {
+  if (reason instanceof Error) {
+    return reason;
+  }
+  return new Error(typeof reason === "string" ? reason : fallbackMessage);
+}
+function getErrorMessage(reason) {
+  return normalizeError(reason).message;
+}
+async function hmacSha256Base64(secret, content) {
+  const encoder = new TextEncoder();
+  const key = await window.crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await window.crypto.subtle.sign("HMAC", key, encoder.encode(content));
+  return bytesToBase64(new Uint8Array(signature));
+}
+var ASR_FRAME_SAMPLES = 640;
+function extractAsrText(result) {
+  var _a;
+  return ((_a = result.ws) != null ? _a : []).map(
+    (item) => {
+      var _a2;
+      return ((_a2 = item.cw) != null ? _a2 : []).map((word) => {
+        var _a3;
+        return (_a3 = word.w) != null ? _a3 : "";
+      }).join("");
+    }
+  ).join("");
+}
+function applyWpgsResult(segments, result) {
+  var _a;
+  if (result.pgs === "rpl" && result.rg) {
+    const [start, end] = result.rg;
+    for (let sn2 = start; sn2 <= end; sn2++) {
+      segments[sn2] = "";
+    }
+  }
+  const sn = (_a = result.sn) != null ? _a : segments.length;
+  segments[sn] = extractAsrText(result);
+  return segments.join("");
+}
+function buildXunfeiAsrBusiness(options, vadEos, dynamicCorrection = false) {
+  const isChinese = options.language === "zh_cn";
+  const business = {
+    language: options.language,
+    domain: "iat",
+    accent: isChinese ? options.accent : "mandarin",
+    vinfo: 1,
+    vad_eos: Math.max(1e3, Math.min(1e4, Math.round(vadEos))),
+    ptt: options.punctuation ? 1 : 0
+  };
+  if (isChinese) {
+    business.nunum = options.numberFormat ? 1 : 0;
+    if (dynamicCorrection) {
+      business.dwa = "wpgs";
+    }
+  }
+  return business;
+}
+var VOSK_EOF_MESSAGE = '{"eof" : 1}';
+function normalizeVoskText(text) {
+  return text.trim().replace(/\s+/g, " ").replace(/([\u3400-\u9fff\uf900-\ufaff])\s+(?=[\u3400-\u9fff\uf900-\ufaff])/g, "$1");
+}
+function findQuietestPoint(samples, from, to, frameSamples) {
+  let bestPosition = to;
+  let bestEnergy = Infinity;
+  const step = Math.max(1, Math.floor(frameSamples / 2));
+  for (let frameStart = from; frameStart + frameSamples <= to; frameStart += step) {
+    let energy = 0;
+    for (let i = frameStart; i < frameStart + frameSamples; i++) {
+      energy += samples[i] * samples[i];
+    }
+    if (energy < bestEnergy) {
+      bestEnergy = energy;
+      bestPosition = frameStart + Math.floor(frameSamples / 2);
+    }
+  }
+  return bestPosition;
+}
+function planAudioSegments(samples, sampleRate, maxSeconds, overlapSeconds) {
+  const maxSamples = Math.floor(maxSeconds * sampleRate);
+  if (samples.length <= maxSamples) {
+    return [{ start: 0, end: samples.length }];
+  }
+  const overlap = Math.min(Math.floor(overlapSeconds * sampleRate), Math.floor(maxSamples / 4));
+  const frameSamples = Math.max(1, Math.floor(sampleRate * 0.02));
+  const ranges = [];
+  let start = 0;
+  while (samples.length - start > maxSamples) {
+    const latest = start + maxSamples - overlap;
+    const earliest = start + Math.floor((maxSamples - overlap) * 0.7);
+    const split = findQuietestPoint(samples, earliest, latest, frameSamples);
+    ranges.push({ start, end: split + overlap });
+    start = split;
+  }
+  ranges.push({ start, end: samples.length });
+  return ranges;
+}
+var TRANSCRIPT_PUNCTUATION = `\uFF0C\u3002\uFF01\uFF1F\u3001\uFF1B\uFF1A\u201C\u201D\u2018\u2019\uFF08\uFF09\u300A\u300B\u2026\u2014,.!?;:"'()`;
+function tokenizeTranscript(text) {
+  const tokens = [];
+  const pattern = /[A-Za-z0-9']+|\S/g;
+  let match;
+  while ((match = pattern.exec(text)) !== null) {
+    if (TRANSCRIPT_PUNCTUATION.includes(match[0])) continue;
+    tokens.push({ value: match[0].toLowerCase(), end: match.index + match[0].length });
+  }
+  return tokens;
+}
+var OVERLAP_MIN_TOKENS_PER_SECOND = 2;
+var OVERLAP_MAX_TOKENS_PER_SECOND = 8;
+var OVERLAP_TAIL_TOLERANCE = 2;
+function appendTranscript(previous, next, overlapSeconds) {
+  const head = previous.trim();
+  let tail = next.trim();
+  if (!head) return tail;
+  if (!tail) return head;
+  let merged = head;
+  if (overlapSeconds > 0) {
+    const previousTokens = tokenizeTranscript(head);
+    const nextTokens = tokenizeTranscript(tail);
+    const minOverlap = Math.max(3, Math.round(overlapSeconds * OVERLAP_MIN_TOKENS_PER_SECOND));
+    const maxOverlap = Math.min(nextTokens.length, 40, Math.ceil(overlapSeconds * OVERLAP_MAX_TOKENS_PER_SECOND) + OVERLAP_TAIL_TOLERANCE);
+    let best = null;
+    for (let skipped = 0; skipped <= OVERLAP_TAIL_TOLERANCE; skipped++) {
+      const available = Math.min(maxOverlap, previousTokens.length - skipped);
+      for (let size = available; size >= minOverlap && (!best || size > best.size); size--) {
+        const offset = previousTokens.length - skipped - size;
+        let matched = true;
+        for (let i = 0; i < size; i++) {
+          if (previousTokens[offset + i].value !== nextTokens[i].value) {
+            matched = false;
+            break;
+          }
+        }
+        if (matched) {
+          best = { size, skipped };
+          break;
+        }
+      }
+    }
+    if (best) {
+      merged = best.skipped > 0 ? head.slice(0, previousTokens[previousTokens.length - best.skipped - 1].end) : head;
+      tail = tail.slice(nextTokens[best.size - 1].end);
+      if (TRANSCRIPT_PUNCTUATION.includes(merged[merged.length - 1])) {
+        tail = tail.replace(/^[\s，。！？、；：,.!?;:]+/, "");
+      }
+    }
+  }
+  tail = tail.trimStart();
+  if (!tail) return merged;
+  const needsSpace = /[A-Za-z0-9,.!?;:]$/.test(merged) && /^[A-Za-z0-9]/.test(tail);
+  return needsSpace ? `${merged} ${tail}` : merged + tail;
+}
+function mergeOverlappingTranscripts(parts, overlapSeconds) {
+  return parts.reduce((merged, part) => appendTranscript(merged, part, overlapSeconds), "");
+}
+async function mapWithConcurrency(items, limit, worker) {
+  const results = new Array(items.length);
+  let nextIndex = 0;
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+  await Promise.all(runners);
+  return results;
+}
+var ANCHOR_CONTEXT_LENGTH = 40;
+function lineChToOffset(content, line, ch) {
+  const lines = content.split("\n");
+  if (line >= lines.length) {
+    return content.length;
+  }
+  let offset = 0;
+  for (let i = 0; i < line; i++) {
+    offset += lines[i].length + 1;
+  }
+  return offset + Math.min(ch, lines[line].length);
+}
+function createTextAnchor(content, line, ch) {
+  const offset = lineChToOffset(content, line, ch);
+  return { line, ch, context: content.slice(Math.max(0, offset - ANCHOR_CONTEXT_LENGTH), offset) };
+}
+function resolveTextAnchor(content, anchor) {
+  const expected = lineChToOffset(content, anchor.line, anchor.ch);
+  if (!anchor.context) {
+    return expected;
+  }
+  let best = -1;
+  let index = content.indexOf(anchor.context);
+  while (index !== -1) {
+    const end = index + anchor.context.length;
+    if (best === -1 || Math.abs(end - expected) < Math.abs(best - expected)) {
+      best = end;
+    }
+    index = content.indexOf(anchor.context, index + 1);
+  }
+  return best === -1 ? expected : best;
+}
+function findTextChange(before, after) {
+  if (before === after) {
+    return null;
+  }
+  const maxPrefix = Math.min(before.length, after.length);
+  let prefix = 0;
+  while (prefix < maxPrefix && before.charCodeAt(prefix) === after.charCodeAt(prefix)) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (suffix < maxPrefix - prefix && before.charCodeAt(before.length - 1 - suffix) === after.charCodeAt(after.length - 1 - suffix)) {
+    suffix++;
+  }
+  return { from: prefix, oldEnd: before.length - suffix, newEnd: after.length - suffix };
+}
+function mapOffsetThroughChange(offset, change, assoc = 1) {
+  if (offset < change.from || offset === change.from && assoc < 0) {
+    return offset;
+  }
+  if (offset > change.oldEnd) {
+    return offset + change.newEnd - change.oldEnd;
+  }
+  return change.newEnd;
+}
+var TRANSCRIBABLE_AUDIO_TYPES = {
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  webm: "audio/webm",
+  m4a: "audio/mp4"
+};
+var TRANSCRIPTION_MAX_ATTEMPTS = 3;
+function isTranscribableAudio(file) {
+  return file.extension.toLowerCase() in TRANSCRIBABLE_AUDIO_TYPES;
+}
+function getAudioFileExtension(mimeType) {
+  const type = mimeType.split(";")[0].trim().toLowerCase();
+  switch (type) {
+    case "audio/webm":
+      return "webm";
+    case "audio/ogg":
+      return "ogg";
+    case "audio/mp4":
+    case "audio/x-m4a":
+      return "m4a";
+    case "audio/mpeg":
+      return "mp3";
+    case "audio/wav":
+    case "audio/x-wav":
+    case "audio/wave":
+      return "wav";
+    default:
+      return "webm";
+  }
+}
+async function buildMultipartBody(fields, file) {
+  const boundary = `----VoiceAssistant${Date.now().toString(16)}${Math.random().toString(16).slice(2)}`;
+  const encoder = new TextEncoder();
+  const parts = [];
+  for (const [name, value] of Object.entries(fields)) {
+    parts.push(encoder.encode(`--${boundary}\r
+Content-Disposition: form-data; name="${name}"\r
+\r
+${value}\r
+`));
+  }
+  parts.push(encoder.encode(
+    `--${boundary}\r
+Content-Disposition: form-data; name="${file.field}"; filename="${file.name}"\r
+Content-Type: ${file.blob.type || "application/octet-stream"}\r
+\r
+`
+  ));
+  parts.push(new Uint8Array(await file.blob.arrayBuffer()));
+  parts.push(encoder.encode(`\r
+--${boundary}--\r
+`));
+  const totalLength = parts.reduce((sum, part) => sum + part.length, 0);
+  const body = new Uint8Array(totalLength);
+  let offset = 0;
+  for (const part of parts) {
+    body.set(part, offset);
+    offset += part.length;
+  }
+  return { body: body.buffer, contentType: `multipart/form-data; boundary=${boundary}` };
+}
+function createAudioContext() {
+  var _a;
+  const AudioContextConstructor = (_a = window.AudioContext) != null ? _a : window.webkitAudioContext;
+  if (!AudioContextConstructor) {
+    throw new Error("\u5F53\u524D\u73AF\u5883\u4E0D\u652F\u6301 Web Audio API");
+  }
+  return new AudioContextConstructor();
+}
+function createCompatibleMediaRecorder(stream) {
+  const preferredMimeTypes = [
+    "audio/webm;codecs=opus",
+    "audio/webm",
+    "audio/mp4"
+  ];
+  const mimeType = preferredMimeTypes.find((candidate) => MediaRecorder.isTypeSupported(candidate));
+  return mimeType ? new MediaRecorder(stream, { mimeType }) : new MediaRecorder(stream);
+}
+var PCM_CAPTURE_PROCESSOR = "voice-assistant-pcm-capture";
+var PCM_CAPTURE_WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+	constructor() {
+		super();
+		this.buffer = new Float32Array(2048);
+		this.length = 0;
+	}
+
+	process(inputs) {
+		const channel = inputs[0] && inputs[0][0];
+		if (channel) {
+			for (let i = 0; i < channel.length; i++) {
+				this.buffer[this.length++] = channel[i];
+				if (this.length === this.buffer.length) {
+					this.port.postMessage(this.buffer.slice(0));
+					this.length = 0;
+				}
+			}
+		}
+		return true;
+	}
+}
+registerProcessor('${PCM_CAPTURE_PROCESSOR}', PcmCaptureProcessor);
+`;
+async function startPcmFrameCapture(stream, frameSamples, onFrame) {
+  const audioContext = createAudioContext();
+  const moduleUrl = URL.createObjectURL(new Blob([PCM_CAPTURE_WORKLET_SOURCE], { type: "application/javascript" }));
+  try {
+    await audioContext.audioWorklet.addModule(moduleUrl);
+  } catch (error) {
+    void audioContext.close();
+    throw normalizeError(error, "\u65E0\u6CD5\u52A0\u8F7D\u97F3\u9891\u91C7\u96C6\u6A21\u5757");
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+  const source = audioContext.createMediaStreamSource(stream);
+  const captureNode = new AudioWorkletNode(audioContext, PCM_CAPTURE_PROCESSOR);
+  let pending = new Int16Array(0);
+  captureNode.port.onmessage = (event) => {
+    const samples = downsampleToPcm16(event.data, audioContext.sampleRate);
+    const merged = new Int16Array(pending.length + samples.length);
+    merged.set(pending);
+    merged.set(samples, pending.length);
+    let offset = 0;
+    while (merged.length - offset >= frameSamples) {
+      onFrame(merged.slice(offset, offset + frameSamples));
+      offset += frameSamples;
+    }
+    pending = merged.slice(offset);
+  };
+  source.connect(captureNode);
+  captureNode.connect(audioContext.destination);
+  return () => {
+    captureNode.port.onmessage = null;
+    source.disconnect();
+    captureNode.disconnect();
+    void audioContext.close();
+  };
+}
+var DICTATION_VAD_WINDOW_SAMPLES = 3200;
+var VAD_CHUNK_SAMPLES = ASR_SAMPLE_RATE * VAD_FRAME_MS / 1e3;
+var CONVERSATION_END_OF_TURN_MS = 1e3;
+var CONVERSATION_NO_SPEECH_TIMEOUT_MS = 5e3;
+var CONVERSATION_MAX_RECORDING_MS = 3e4;
+var DICTATION_PREROLL_WINDOWS = 2;
+var MEETING_MAX_UTTERANCE_WINDOWS = 300;
+var AUDIO_PROCESSING_MAX_SECONDS = 600;
+var AUDIO_PROCESSING_MAX_BYTES = 20 * 1024 * 1024;
+var XUNFEI_STREAMING_IDLE_MARGIN_MS = 1e4;
+var AUDIO_LEVEL_HISTORY_SIZE = 20;
+var PUSH_TO_TALK_MIN_DURATION = 300;
+var setDictationPreview = import_state.StateEffect.define();
+var DictationPreviewWidget = class extends import_view.WidgetType {
+  constructor(text) {
+    super();
+    this.text = text;
+  }
+  eq(other) {
+    return other.text === this.text;
+  }
+  toDOM() {
+    return createSpan({ cls: "voice-assistant-dictation-preview", text: this.text });
+  }
+};
+var dictationPreviewField = import_state.StateField.define({
+  create: () => import_view.Decoration.none,
+  update: (preview, transaction) => {
+    let next = preview.map(transaction.changes);
+    for (const effect of transaction.effects) {
+      if (effect.is(setDictationPreview)) {
+        next = effect.value ? import_view.Decoration.set([import_view.Decoration.widget({ widget: new DictationPreviewWidget(effect.value.text), side: 1 }).range(effect.value.pos)]) : import_view.Decoration.none;
+      }
+    }
+    return next;
+  },
+  provide: (field) => import_view.EditorView.decorations.from(field)
+});
+var PcmRingBuffer = class {
+  constructor(capacity) {
+    this.writeIndex = 0;
+    this.size = 0;
+    this.buffer = new Int16Array(capacity);
+  }
+  write(samples) {
+    const capacity = this.buffer.length;
+    const input = samples.length > capacity ? samples.subarray(samples.length - capacity) : samples;
+    const firstPart = Math.min(input.length, capacity - this.writeIndex);
+    this.buffer.set(input.subarray(0, firstPart), this.writeIndex);
+    this.buffer.set(input.subarray(firstPart), 0);
+    this.writeIndex = (this.writeIndex + input.length) % capacity;
+    this.size = Math.min(capacity, this.size + input.length);
+  }
+  /** 按时间顺序取出缓冲区中的全部音频并清空 */
+  drain() {
+    const start = (this.writeIndex - this.size + this.buffer.length) % this.buffer.length;
+    const output = new Int16Array(this.size);
+    const firstPart = Math.min(this.size, this.buffer.length - start);
+    output.set(this.buffer.subarray(start, start + firstPart));
+    output.set(this.buffer.subarray(0, this.size - firstPart), firstPart);
+    this.size = 0;
+    return output;
+  }
+};
+var UtteranceSegmenter = class {
+  constructor(options) {
+    this.options = options;
+    this.windows = [];
+    // 当前句的音频窗口，为空表示尚未检测到语音
+    this.trailingSilentWindows = 0;
+    this.samplesSeen = 0;
+    this.startSample = 0;
+    this.preRoll = new PcmRingBuffer(options.preRollSamples);
+  }
+  /** 是否正在录一句话 */
+  get inUtterance() {
+    return this.windows.length > 0;
+  }
+  /** 写入一个窗口及其语音检测结果 */
+  push(frame, hasVoice) {
+    const frameStart = this.samplesSeen;
+    this.samplesSeen += frame.length;
+    if (hasVoice) {
+      if (this.windows.length === 0) {
+        const preRoll = this.preRoll.drain();
+        this.windows.push(preRoll);
+        this.startSample = frameStart - preRoll.length;
+      }
+      this.windows.push(frame);
+      this.trailingSilentWindows = 0;
+    } else if (this.windows.length > 0) {
+      this.windows.push(frame);
+      this.trailingSilentWindows++;
+      if (this.trailingSilentWindows >= this.options.silenceWindows) {
+        this.flush();
+        return;
+      }
+    } else {
+      this.preRoll.write(frame);
+      return;
+    }
+    if (this.options.maxWindows && this.windows.length >= this.options.maxWindows) {
+      this.flush();
+    }
+  }
+  /** 立即结束当前句，没有正在录的句子时不做任何事 */
+  flush() {
+    if (this.windows.length === 0) {
+      return;
+    }
+    const windows = this.windows.slice(0, this.windows.length - Math.max(0, this.trailingSilentWindows - 1));
+    this.windows = [];
+    this.trailingSilentWindows = 0;
+    this.options.onUtterance(concatPcm16(windows), this.startSample);
+  }
+};
+var TEXT_INPUT_TYPES = ["text", "search", "url", "email", "tel", "number"];
+function findFocusedTextInput(doc) {
+  const element = doc.activeElement;
+  if (!element) {
+    return null;
+  }
+  if (element.instanceOf(HTMLTextAreaElement)) {
+    return element;
+  }
+  if (element.instanceOf(HTMLInputElement)) {
+    return TEXT_INPUT_TYPES.indexOf(element.type) !== -1 && !element.readOnly ? element : null;
+  }
+  if (element.instanceOf(HTMLElement) && element.isContentEditable && !element.closest(".cm-editor")) {
+    return element;
+  }
+  return null;
+}
+function insertTextIntoElement(element, text) {
+  var _a, _b;
+  if (element.instanceOf(HTMLInputElement) || element.instanceOf(HTMLTextAreaElement)) {
+    const start = (_a = element.selectionStart) != null ? _a : element.value.length;
+    const end = (_b = element.selectionEnd) != null ? _b : start;
+    element.setRangeText(text, start, end, "end");
+  } else {
+    const selection = element.win.getSelection();
+    let range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+    if (!range || !element.contains(range.commonAncestorContainer)) {
+      range = element.doc.createRange();
+      range.selectNodeContents(element);
+      range.collapse(false);
+    }
+    range.deleteContents();
+    const node = element.doc.createTextNode(text);
+    range.insertNode(node);
+    range.setStartAfter(node);
+    range.collapse(true);
+    selection == null ? void 0 : selection.removeAllRanges();
+    selection == null ? void 0 : selection.addRange(range);
+  }
+  element.dispatchEvent(new InputEvent("input", { bubbles: true, inputType: "insertText", data: text }));
+}
+var DEFAULT_SETTINGS = {
+  llmProvider: "google",
+  googleApiKey: "",
+  googleModel: "gemini-pro",
+  openrouterApiKey: "",
+  openrouterModel: "openai/gpt-3.5-turbo",
+  xunfeiAppId: "",
+  xunfeiApiKey: "",
+  xunfeiApiSecret: "",
+  xunfeiModel: "generalv3.5",
+  customModels: [],
+  selectedCustomModel: "",
+  wakeMode: "disabled",
+  wakeWords: ["\u4F60\u597D\uFF0C\u5C0F\u4E09", "\u5C0F\u4E09\u540C\u5B66", "\u5C0F\u4E09\u5C0F\u4E09"],
+  autoEnterDialogAfterWake: true,
+  wakeDetectionInterval: 1e3,
+  // 默认1秒
+  continuousDialogDuration: 60,
+  // 默认1分钟
+  showDialogControls: true,
+  conversationSaveFolder: "voice-assistant/conversations",
+  // 默认对话保存文件夹
+  dictationSilenceTimeout: 10,
+  // 默认10秒静默超时
+  dictationSilenceInterval: 2,
+  // 默认2秒静默间隔
+  dictationCommandsEnabled: true,
+  dictationGrammar: DEFAULT_DICTATION_GRAMMAR,
+  dictationMarkdownEnabled: false,
+  dictationInsertPolicy: "anchor",
+  normalizeDictationText: true,
+  normalizeConversationText: true,
+  textNormalization: DEFAULT_TEXT_NORMALIZATION,
+  meetingSaveFolder: "voice-assistant/meetings",
+  meetingSpeakers: DEFAULT_MEETING_SPEAKERS,
+  meetingSaveAudio: true,
+  meetingSummaryEnabled: true,
+  dictationPolishEnabled: false,
+  dictationPolishInstructions: DEFAULT_POLISH_INSTRUCTIONS,
+  pushToTalkEnabled: false,
+  pushToTalkDictationKey: "F8",
+  pushToTalkConversationKey: "F9",
+  translationProvider: "llm",
+  translationLanguage: "en",
+  translationOriginalMode: "footnote",
+  libreTranslateUrl: "http://localhost:5000",
+  libreTranslateApiKey: "",
+  voiceDetectionThreshold: 30,
+  // 默认阈值30
+  voiceDetectionSensitivity: 100,
+  // 默认100ms检测间隔
+  enableVoiceInterruption: true,
+  // 默认启用语音打断
+  microphoneCalibrations: {},
+  audioProcessingEnabled: true,
+  audioProcessing: DEFAULT_AUDIO_PROCESSING,
+  customPrompts: [
+    {
+      name: "\u4EFB\u52A1\u63D0\u9192",
+      trigger: "\u63D0\u9192\u6211",
+      prompt: "\u8BF7\u6839\u636E\u7528\u6237\u7684\u63CF\u8FF0\uFF0C\u751F\u6210\u4E00\u4E2A\u7B26\u5408Markdown\u683C\u5F0F\u7684\u4EFB\u52A1\u63D0\u9192\u3002\u683C\u5F0F\u8981\u6C42\uFF1A\n- [ ] \u4EFB\u52A1\u5185\u5BB9\n- \u65F6\u95F4\uFF1A\u5177\u4F53\u65F6\u95F4\n- \u5907\u6CE8\uFF1A\u76F8\u5173\u8BF4\u660E\n\n\u8BF7\u786E\u4FDD\u751F\u6210\u7684\u5185\u5BB9\u53EF\u4EE5\u76F4\u63A5\u63D2\u5165\u5230Obsidian\u7B14\u8BB0\u4E2D\u3002",
+      enabled: true
+    }
+  ],
+  asrProvider: "xunfei",
+  openaiAsrBaseUrl: "http://localhost:8000/v1",
+  openaiAsrApiKey: "",
+  openaiAsrModel: "whisper-1",
+  voskServerUrl: "ws://localhost:2700",
+  asrLanguage: "zh_cn",
+  asrAccent: "mandarin",
+  asrPunctuation: true,
+  asrNumberFormat: true,
+  asrVadEos: 1e4,
+  asrProfiles: [],
+  asrChunkSeconds: 55,
+  asrChunkOverlap: 1,
+  asrChunkConcurrency: 1,
+  asrStreamingMode: false,
+  vocabularyEnabled: true,
+  vocabularyText: "",
+  vocabularyNotePath: "",
+  vocabularyFromVault: false,
+  autoTranscribeEnabled: false,
+  audioInboxFolder: "",
+  transcriptFolder: "",
+  transcriptionQueue: [],
+  pendingRecordings: [],
+  ttsMode: "disabled",
+  ttsProvider: "xunfei",
+  ttsVoice: "xiaoyan",
+  // 默认朗读人：小燕
+  ttsSpeed: 50,
+  // 默认语速
+  ttsVolume: 50,
+  // 默认音量
+  ttsPitch: 50,
+  // 默认音调
+  saveAudioToVault: false,
+  audioSavePath: "voice-assistant/audio",
+  sampleRate: 16e3,
+  channels: 1,
+  audioFormat: "pcm",
+  enableDebugLog: false
+};
+var VoiceAssistantPlugin = class extends import_obsidian.Plugin {
+  constructor() {
+    super(...arguments);
+    this.mediaRecorder = null;
+    this.audioChunks = [];
+    this.isRecording = false;
+    this.isListening = false;
+    this.wakeWebSocket = null;
+    this.statusFloat = null;
+    this.currentAudio = null;
+    this.ttsAbortController = null;
+    // 进行中的语音合成请求，停止播放时取消
+    this.isPlaying = false;
+    this.autoHideTimer = null;
+    this.wakeStatusBarItem = null;
+    // 持续对话状态管理
+    this.isInContinuousDialog = false;
+    this.conversationHistory = [];
+    this.silenceTimer = null;
+    this.silenceDetectionDuration = 2e4;
+    // 20秒静默检测
+    // 背景语音检测
+    this.backgroundVoiceDetection = false;
+    this.backgroundMediaRecorder = null;
+    this.backgroundStream = null;
+    this.stopBackgroundCapture = null;
+    this.echoGate = new EchoGate();
+    // 以 TTS 播报为参考，区分用户说话和扬声器回声
+    this.stopEchoReferenceCapture = null;
+    this.audioLevelHistory = [];
+    // 最近几次音频预处理前后的电平，供调试视图查看
+    this.processedAudio = /* @__PURE__ */ new WeakMap();
+    // 已预处理的录音，识别失败暂存时不再重复处理
+    // 持续听写相关属性
+    this.isDictating = false;
+    this.dictationTimer = null;
+    this.dictationStartTime = 0;
+    this.dictationUtterances = [];
+    // 本次听写已插入的各句范围（文本偏移），供“删除上一句”使用
+    this.dictationEditor = null;
+    // 正在听写的编辑器
+    this.dictationAnchor = 0;
+    // 听写插入锚点（文本偏移），随编辑器中的修改移动
+    this.dictationSnapshot = "";
+    // 上次同步锚点时的文档内容，用于推算用户的修改
+    this.resolveDictationStop = null;
+    // 结束分段听写循环
+    this.dictationTranslating = false;
+    // 本次持续听写是否为翻译听写
+    // 会议记录相关：segmenter 在麦克风就绪后创建，stop 结束录音和识别循环
+    this.meetingSession = null;
+    // 按住说话相关：recording 在麦克风就绪后给出停止录音并取得音频的函数
+    this.pushToTalkSession = null;
+    // 预录音缓冲区相关
+    this.preRecordingBuffer = [];
+    // 预录音缓冲区
+    this.preRecordingStream = null;
+    // 预录音流
+    this.preRecordingRecorder = null;
+    // 预录音记录器
+    this.isPreRecording = false;
+    // 是否正在预录音
+    this.preRecordingBufferSize = 10;
+    // 缓冲区大小（保留最近10个音频片段）
+    // 唤醒对话相关
+    this.isWakeConversation = false;
+    // 标记是否为唤醒触发的对话
+    this.wakeSessionId = null;
+    // 唤醒会话ID
+    this.wakeSessionFileName = null;
+    // 唤醒会话文件名
+    this.wakeSessionAudioSaved = false;
+    // 标记唤醒会话是否已保存音频
+    // 语音唤醒监听相关
+    this.stopWakeCapture = null;
+    this.wakeStream = null;
+    // 流式识别相关
+    this.streamingAsrSession = null;
+    // 当前流式识别会话
+    // 识别方案相关
+    this.activeAsrProfile = null;
+    // 当前听写使用的识别方案
+    this.asrProfileCommandIds = [];
+    // 已注册的识别方案命令
+    // 个人词汇相关
+    this.correctVocabulary = (text) => text;
+    // 当前词汇表编译出的纠错函数
+    this.scheduleVocabularyRefresh = (0, import_obsidian.debounce)(() => void this.refreshVocabulary(), 2e3, true);
+    // 自动转写队列相关
+    this.isProcessingTranscriptionQueue = false;
+    this.transcriptionRetryTimer = null;
+    // 暂存录音相关
+    this.isProcessingPendingRecordings = false;
+  }
+  /**
+   * 插件加载时的初始化方法
+   */
+  async onload() {
+    await this.loadSettings();
+    this.addCommand({
+      id: "start-voice-conversation",
+      name: "\u5F00\u59CB\u5BF9\u8BDD",
+      callback: () => this.startVoiceConversation()
+    });
+    this.addCommand({
       id: "start-listening",
       name: "\u5F00\u59CB\u76D1\u542C",
       callback: () => this.startListening()
@@ -217,471 +2196,1644 @@ var VoiceAssistantPlugin = class extends import_obsidian.Plugin {
       name: "\u505C\u6B62\u76D1\u542C",
       callback: () => this.stopListening()
     });
-    this.addCommand({
-      id: "end-dialog",
-      name: "\u7ED3\u675F\u5BF9\u8BDD",
-      callback: () => this.endContinuousDialog()
+    this.addCommand({
+      id: "end-dialog",
+      name: "\u7ED3\u675F\u5BF9\u8BDD",
+      callback: () => this.endContinuousDialog()
+    });
+    this.addCommand({
+      id: "voice-dictation",
+      name: "\u8BED\u97F3\u542C\u5199",
+      callback: () => this.startVoiceDictation()
+    });
+    this.addCommand({
+      id: "continuous-dictation",
+      name: "\u6301\u7EED\u542C\u5199",
+      callback: () => this.startVoiceDictation()
+    });
+    this.addCommand({
+      id: "meeting-transcription",
+      name: "\u4F1A\u8BAE\u8BB0\u5F55",
+      callback: () => this.toggleMeetingTranscription()
+    });
+    this.addCommand({
+      id: "translated-dictation",
+      name: "\u7FFB\u8BD1\u542C\u5199",
+      callback: () => this.startVoiceDictation(void 0, true)
+    });
+    this.addCommand({
+      id: "toggle-markdown-dictation",
+      name: "\u5207\u6362 Markdown \u7ED3\u6784\u542C\u5199",
+      callback: async () => {
+        this.settings.dictationMarkdownEnabled = !this.settings.dictationMarkdownEnabled;
+        await this.saveSettings();
+        new import_obsidian.Notice(this.settings.dictationMarkdownEnabled ? "Markdown \u7ED3\u6784\u542C\u5199\u5DF2\u5F00\u542F" : "Markdown \u7ED3\u6784\u542C\u5199\u5DF2\u5173\u95ED");
+      }
+    });
+    this.addCommand({
+      id: "calibrate-microphone",
+      name: "\u9EA6\u514B\u98CE\u6821\u51C6",
+      callback: () => this.openMicrophoneCalibration()
+    });
+    this.addCommand({
+      id: "audio-processing-levels",
+      name: "\u67E5\u770B\u97F3\u9891\u9884\u5904\u7406\u7535\u5E73",
+      callback: () => this.openAudioLevelsView()
+    });
+    this.addCommand({
+      id: "voice-reading",
+      name: "\u8BED\u97F3\u6717\u8BFB",
+      callback: () => this.startVoiceReading()
+    });
+    this.addCommand({
+      id: "transcribe-audio-file",
+      name: "\u8F6C\u5199\u97F3\u9891\u6587\u4EF6",
+      callback: () => this.chooseAudioFileToTranscribe()
+    });
+    this.addCommand({
+      id: "pending-recordings",
+      name: "\u67E5\u770B\u6682\u5B58\u5F55\u97F3",
+      callback: () => this.openPendingRecordingsPanel()
+    });
+    this.addCommand({
+      id: "retry-failed-transcriptions",
+      name: "\u91CD\u8BD5\u5931\u8D25\u7684\u81EA\u52A8\u8F6C\u5199",
+      callback: () => this.retryFailedTranscriptions()
+    });
+    this.registerEvent(this.app.workspace.on("file-menu", (menu, file) => {
+      if (file instanceof import_obsidian.TFile && isTranscribableAudio(file)) {
+        menu.addItem((item) => item.setTitle("\u8F6C\u5199\u97F3\u9891\u6587\u4EF6").setIcon("file-audio").onClick(() => void this.transcribeAudioFile(file)));
+      }
+    }));
+    this.registerEditorExtension(dictationPreviewField);
+    this.refreshAsrProfileCommands();
+    this.addSettingTab(new VoiceAssistantSettingTab(this.app, this));
+    this.app.workspace.onLayoutReady(() => {
+      this.createStatusFloat();
+      this.showStatusFloat();
+      this.updateStatusFloat("\u8BED\u97F3\u52A9\u624B\u5DF2\u52A0\u8F7D - \u505C\u6B62\u76D1\u542C", "info");
+      void this.refreshVocabulary();
+      this.registerEvent(this.app.vault.on("create", (file) => {
+        if (file instanceof import_obsidian.TFile) {
+          void this.enqueueInboxAudio(file);
+        }
+      }));
+      this.registerEvent(this.app.vault.on("rename", (file) => {
+        if (file instanceof import_obsidian.TFile) {
+          void this.enqueueInboxAudio(file);
+        }
+      }));
+      void this.processTranscriptionQueue();
+      void this.processPendingRecordings();
+    });
+    this.registerDomEvent(window, "online", () => void this.processPendingRecordings());
+    this.registerInterval(window.setInterval(() => {
+      if (this.settings.pendingRecordings.length > 0) {
+        void this.processPendingRecordings();
+      }
+    }, 6e4));
+    this.registerDomEvent(document, "keydown", (event) => {
+      const target = this.getPushToTalkTarget(event);
+      if (target) {
+        event.preventDefault();
+        if (!event.repeat) {
+          void this.pressPushToTalk(target);
+        }
+      }
+    }, { capture: true });
+    this.registerDomEvent(document, "keyup", (event) => {
+      if (this.pushToTalkSession && this.getPushToTalkTarget(event) === this.pushToTalkSession.target) {
+        event.preventDefault();
+        void this.releasePushToTalk();
+      }
+    }, { capture: true });
+    this.registerDomEvent(window, "blur", () => void this.releasePushToTalk());
+    this.registerEvent(this.app.workspace.on("editor-change", (editor) => this.trackDictationEdits(editor)));
+    this.registerEvent(this.app.vault.on("modify", (file) => {
+      if (file.path === this.getVocabularyNotePath()) {
+        this.scheduleVocabularyRefresh();
+      }
+    }));
+    this.registerEvent(this.app.vault.on("rename", () => {
+      if (this.settings.vocabularyFromVault) {
+        this.scheduleVocabularyRefresh();
+      }
+    }));
+    this.registerEvent(this.app.metadataCache.on("changed", () => {
+      if (this.settings.vocabularyFromVault) {
+        this.scheduleVocabularyRefresh();
+      }
+    }));
+    this.debugLog("\u8BED\u97F3\u52A9\u624B\u63D2\u4EF6\u5DF2\u52A0\u8F7D - \u9ED8\u8BA4\u505C\u6B62\u76D1\u542C\u72B6\u6001");
+  }
+  /**
+   * 插件卸载时的清理方法
+   */
+  onunload() {
+    var _a;
+    if (this.isDictating) {
+      this.stopDictation();
+    }
+    (_a = this.meetingSession) == null ? void 0 : _a.stop();
+    this.stopListening();
+    this.stopWakeListening();
+    this.stopTTS();
+    if (this.pushToTalkSession) {
+      const { recording } = this.pushToTalkSession;
+      this.pushToTalkSession = null;
+      void recording.then((stop) => stop()).catch(() => void 0);
+    }
+    if (this.autoHideTimer) {
+      window.clearTimeout(this.autoHideTimer);
+      this.autoHideTimer = null;
+    }
+    if (this.transcriptionRetryTimer) {
+      window.clearTimeout(this.transcriptionRetryTimer);
+      this.transcriptionRetryTimer = null;
+    }
+    this.removeStatusFloat();
+    this.wakeStatusBarItem = null;
+    this.debugLog("\u8BED\u97F3\u52A9\u624B\u63D2\u4EF6\u5DF2\u5378\u8F7D");
+  }
+  /**
+   * 加载插件设置
+   */
+  async loadSettings() {
+    const savedSettings = await this.loadData();
+    this.settings = { ...DEFAULT_SETTINGS, ...savedSettings != null ? savedSettings : {} };
+    this.settings.dictationGrammar = { ...DEFAULT_DICTATION_GRAMMAR, ...this.settings.dictationGrammar };
+    this.settings.textNormalization = { ...DEFAULT_TEXT_NORMALIZATION, ...this.settings.textNormalization };
+    this.settings.audioProcessing = { ...DEFAULT_AUDIO_PROCESSING, ...this.settings.audioProcessing };
+  }
+  /**
+   * 保存插件设置
+   */
+  async saveSettings() {
+    await this.saveData(this.settings);
+  }
+  /**
+   * 重新注册识别方案听写命令
+   * 识别方案增删后调用，先移除旧命令再按当前方案列表注册
+   */
+  refreshAsrProfileCommands() {
+    for (const commandId of this.asrProfileCommandIds) {
+      this.removeCommand(commandId);
+    }
+    this.asrProfileCommandIds = [];
+    for (const profile of this.settings.asrProfiles) {
+      const commandId = `dictation-profile-${profile.id}`;
+      this.addCommand({
+        id: commandId,
+        name: `\u8BED\u97F3\u542C\u5199\uFF08${profile.name}\uFF09`,
+        callback: () => this.startVoiceDictation(profile)
+      });
+      this.asrProfileCommandIds.push(commandId);
+    }
+  }
+  /** 词汇表笔记的规范化路径，未配置时为空字符串 */
+  getVocabularyNotePath() {
+    const path = this.settings.vocabularyNotePath.trim();
+    if (!path) {
+      return "";
+    }
+    return (0, import_obsidian.normalizePath)(path.endsWith(".md") ? path : `${path}.md`);
+  }
+  /**
+   * 重新生成个人词汇纠错函数
+   * 合并设置中的词汇表、词汇表笔记以及（开启时）笔记标题和标签，设置中的规则优先
+   */
+  async refreshVocabulary() {
+    var _a;
+    const sources = [parseVocabulary(this.settings.vocabularyText)];
+    const notePath = this.getVocabularyNotePath();
+    if (notePath) {
+      const noteFile = this.app.vault.getAbstractFileByPath(notePath);
+      if (noteFile instanceof import_obsidian.TFile) {
+        sources.push(parseVocabulary(await this.app.vault.cachedRead(noteFile)));
+      } else {
+        this.debugLog("\u672A\u627E\u5230\u8BCD\u6C47\u8868\u7B14\u8BB0:", notePath);
+      }
+    }
+    if (this.settings.vocabularyFromVault) {
+      const names = [];
+      for (const file of this.app.vault.getMarkdownFiles()) {
+        names.push(file.basename);
+        const cache = this.app.metadataCache.getFileCache(file);
+        if (cache) {
+          names.push(...(_a = (0, import_obsidian.getAllTags)(cache)) != null ? _a : []);
+        }
+      }
+      sources.push({ terms: collectVocabularyTerms(names), rules: [] });
+    }
+    const vocabulary = mergeVocabularies(...sources);
+    this.correctVocabulary = createVocabularyCorrector(vocabulary);
+    this.debugLog(`\u4E2A\u4EBA\u8BCD\u6C47\u8868\u5DF2\u66F4\u65B0\uFF1A${vocabulary.terms.length} \u4E2A\u672F\u8BED\uFF0C${vocabulary.rules.length} \u6761\u66FF\u6362\u89C4\u5219`);
+  }
+  /** 按设置规整对话识别结果 */
+  normalizeConversationText(text) {
+    return this.settings.normalizeConversationText ? normalizeTranscript(text, this.settings.textNormalization) : text;
+  }
+  /** 按个人词汇表纠正识别结果 */
+  applyVocabulary(text) {
+    if (!this.settings.vocabularyEnabled || !text) {
+      return text;
+    }
+    return this.correctVocabulary(text);
+  }
+  /**
+   * 获取当前生效的识别语言选项，听写时识别方案优先于全局设置
+   */
+  getAsrLanguageOptions() {
+    var _a, _b, _c, _d;
+    const profile = this.activeAsrProfile;
+    return {
+      language: (_a = profile == null ? void 0 : profile.language) != null ? _a : this.settings.asrLanguage,
+      accent: (_b = profile == null ? void 0 : profile.accent) != null ? _b : this.settings.asrAccent,
+      punctuation: (_c = profile == null ? void 0 : profile.punctuation) != null ? _c : this.settings.asrPunctuation,
+      numberFormat: (_d = profile == null ? void 0 : profile.numberFormat) != null ? _d : this.settings.asrNumberFormat
+    };
+  }
+  /**
+   * 调试日志输出
+   */
+  debugLog(message, ...args) {
+    void message;
+    void args;
+  }
+  /**
+   * 测试TTS功能
+   */
+  async testTTS() {
+    new import_obsidian.Notice("\u5F00\u59CBTTS\u6D4B\u8BD5...");
+    try {
+      const testText = "\u8FD9\u662F\u4E00\u4E2ATTS\u529F\u80FD\u6D4B\u8BD5\uFF0C\u5982\u679C\u4F60\u80FD\u542C\u5230\u8FD9\u6BB5\u8BDD\uFF0C\u8BF4\u660ETTS\u529F\u80FD\u6B63\u5E38\u5DE5\u4F5C\u3002";
+      await this.textToSpeech(testText);
+      new import_obsidian.Notice("TTS\u6D4B\u8BD5\u5B8C\u6210");
+    } catch (error) {
+      new import_obsidian.Notice(`TTS\u6D4B\u8BD5\u5931\u8D25: ${getErrorMessage(error)}`);
+    }
+  }
+  /**
+   * 开始语音对话流程
+   * 录音 → ASR → LLM → 插入笔记 → TTS
+   */
+  async startVoiceConversation() {
+    try {
+      if (!this.isInContinuousDialog) {
+        this.startContinuousDialog();
+      }
+      await this.processSingleConversation();
+    } catch (error) {
+      this.debugLog("\u8BED\u97F3\u5BF9\u8BDD\u51FA\u9519:", error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      new import_obsidian.Notice(`\u8BED\u97F3\u5BF9\u8BDD\u51FA\u9519: ${errorMessage}`);
+    }
+  }
+  /**
+   * 启动持续对话模式
+   */
+  startContinuousDialog() {
+    this.isInContinuousDialog = true;
+    this.debugLog("\u542F\u52A8\u6301\u7EED\u5BF9\u8BDD\u6A21\u5F0F");
+    this.conversationHistory = [];
+    void this.startPreRecordingBuffer();
+    if (this.settings.showDialogControls) {
+      this.showDialogControls();
+    }
+    new import_obsidian.Notice("\u6301\u7EED\u5BF9\u8BDD\u6A21\u5F0F\u5DF2\u542F\u52A8\uFF0C\u5F00\u59CB\u8BF4\u8BDD\u621620\u79D2\u65E0\u8BED\u97F3\u5C06\u81EA\u52A8\u7ED3\u675F");
+  }
+  /**
+   * 处理单次对话
+   * @param recordedAudio 按住说话已录好的音频，不传时开始录音
+   */
+  async processSingleConversation(recordedAudio) {
+    this.debugLog("\u5F00\u59CB\u8BED\u97F3\u5BF9\u8BDD");
+    this.clearSilenceTimer();
+    let audioBlob = recordedAudio;
+    if (!audioBlob) {
+      new import_obsidian.Notice("\u5F00\u59CB\u5F55\u97F3\uFF0C\u8BF7\u8BF4\u8BDD...");
+      audioBlob = await this.startRecording();
+    }
+    let text;
+    try {
+      text = await this.speechToText(audioBlob, "\u5BF9\u8BDD");
+    } catch (error) {
+      await this.captureConversationRecording(audioBlob, error);
+      if (this.isInContinuousDialog) {
+        this.startSilenceDetection();
+      }
+      return;
+    }
+    if (!text.trim()) {
+      new import_obsidian.Notice("\u8BED\u97F3\u8BC6\u522B\u5931\u8D25\uFF0C\u8BF7\u91CD\u8BD5");
+      if (this.isInContinuousDialog) {
+        this.startSilenceDetection();
+      }
+      return;
+    }
+    text = this.normalizeConversationText(text);
+    this.debugLog("\u8BC6\u522B\u5230\u6587\u672C:", text);
+    new import_obsidian.Notice(`\u8BC6\u522B\u5230\uFF1A${text}`);
+    const enhancedText = this.processCustomPrompts(text);
+    const response = await this.callLLM(enhancedText);
+    if (!response) {
+      new import_obsidian.Notice("AI \u56DE\u590D\u5931\u8D25\uFF0C\u8BF7\u68C0\u67E5\u914D\u7F6E");
+      if (this.isInContinuousDialog) {
+        this.startSilenceDetection();
+      }
+      return;
+    }
+    this.debugLog("AI \u56DE\u590D:", response);
+    if (this.isInContinuousDialog) {
+      this.conversationHistory.push({
+        user: text,
+        assistant: response,
+        timestamp: /* @__PURE__ */ new Date()
+      });
+      this.debugLog("\u5BF9\u8BDD\u5DF2\u5B58\u50A8\u5230\u5386\u53F2\u8BB0\u5F55\uFF0C\u5F53\u524D\u5BF9\u8BDD\u6570:", this.conversationHistory.length);
+    } else {
+      this.insertToNote(text, response);
+    }
+    if (this.settings.ttsMode !== "disabled") {
+      if (this.isInContinuousDialog) {
+        void this.startBackgroundVoiceDetection();
+        void this.startPreRecordingBuffer();
+      }
+      await this.textToSpeech(response);
+      if (this.isInContinuousDialog) {
+        this.stopBackgroundVoiceDetection();
+      }
+    }
+    if (this.isInContinuousDialog) {
+      this.startSilenceDetection();
+      new import_obsidian.Notice("\u7EE7\u7EED\u8BF4\u8BDD\u6216\u7B49\u5F8520\u79D2\u81EA\u52A8\u7ED3\u675F\u5BF9\u8BDD...");
+    }
+  }
+  /**
+   * 开始语音听写
+   * 使用持续模式进行听写，按快捷键开始，静默超时自动结束
+   * @param profile 本次听写使用的识别方案，不传时使用全局识别设置
+   */
+  async startVoiceDictation(profile, translate = false) {
+    try {
+      if (this.isDictating) {
+        this.stopDictation();
+        return;
+      }
+      const target = this.resolveDictationTarget();
+      if (!target) {
+        new import_obsidian.Notice("\u8BF7\u5148\u5C06\u5149\u6807\u653E\u5728\u7B14\u8BB0\u6216\u8F93\u5165\u6846\u4E2D");
+        return;
+      }
+      this.activeAsrProfile = profile != null ? profile : null;
+      this.dictationTranslating = translate;
+      if (profile) {
+        this.updateStatusFloat(`\u8BC6\u522B\u65B9\u6848\uFF1A${profile.name}`, "info", false);
+      }
+      await this.startContinuousDictation(target);
+    } catch (error) {
+      this.debugLog("\u8BED\u97F3\u542C\u5199\u9519\u8BEF:", error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      new import_obsidian.Notice("\u8BED\u97F3\u542C\u5199\u5931\u8D25: " + errorMessage);
+      this.stopDictation();
+    }
+  }
+  /**
+   * 确定听写写入目标：优先使用获得焦点的输入控件，其次是当前活动的编辑器（包括白板卡片和嵌入的编辑器）
+   */
+  resolveDictationTarget() {
+    var _a;
+    const input = findFocusedTextInput(activeDocument);
+    if (input) {
+      return { kind: "input", element: input };
+    }
+    const editor = (_a = this.app.workspace.activeEditor) == null ? void 0 : _a.editor;
+    return editor ? { kind: "editor", editor } : null;
+  }
+  /**
+   * 根据按键判断对应的按住说话目标，未启用或不是配置的按键时返回 null
+   */
+  getPushToTalkTarget(event) {
+    if (!this.settings.pushToTalkEnabled) {
+      return null;
+    }
+    if (this.settings.pushToTalkDictationKey && event.code === this.settings.pushToTalkDictationKey) {
+      return "dictation";
+    }
+    if (this.settings.pushToTalkConversationKey && event.code === this.settings.pushToTalkConversationKey) {
+      return "conversation";
+    }
+    return null;
+  }
+  /**
+   * 按住说话：按下时开始录音
+   * 听写从按下时的光标位置插入；对话会先停止正在播放的语音回复
+   */
+  async pressPushToTalk(target) {
+    if (this.pushToTalkSession) {
+      return;
+    }
+    let dictationTarget = null;
+    if (target === "dictation") {
+      if (this.isDictating) {
+        new import_obsidian.Notice("\u6301\u7EED\u542C\u5199\u8FDB\u884C\u4E2D\uFF0C\u8BF7\u5148\u505C\u6B62\u542C\u5199");
+        return;
+      }
+      dictationTarget = this.resolveDictationTarget();
+      if (!dictationTarget) {
+        new import_obsidian.Notice("\u8BF7\u5148\u5C06\u5149\u6807\u653E\u5728\u7B14\u8BB0\u6216\u8F93\u5165\u6846\u4E2D");
+        return;
+      }
+      if (dictationTarget.kind === "editor") {
+        this.beginDictationSession(dictationTarget.editor);
+      }
+    } else {
+      this.stopTTS();
+    }
+    const session = {
+      target,
+      startedAt: Date.now(),
+      dictationTarget,
+      recording: this.startPushToTalkRecording()
+    };
+    this.pushToTalkSession = session;
+    this.setPushToTalkActive(target, true);
+    this.updateStatusFloat(target === "dictation" ? "\u6309\u4F4F\u542C\u5199\u4E2D\uFF0C\u677E\u5F00\u540E\u8BC6\u522B" : "\u6309\u4F4F\u5BF9\u8BDD\u4E2D\uFF0C\u677E\u5F00\u540E\u53D1\u9001", "info", false);
+    try {
+      await session.recording;
+    } catch (error) {
+      if (this.pushToTalkSession === session) {
+        this.pushToTalkSession = null;
+        this.setPushToTalkActive(target, false);
+        this.endPushToTalkDictation();
+      }
+      new import_obsidian.Notice(`\u65E0\u6CD5\u5F00\u59CB\u5F55\u97F3: ${getErrorMessage(error)}`);
+    }
+  }
+  /**
+   * 按住说话：松开时停止录音，并把音频交给听写或对话流程
+   */
+  async releasePushToTalk() {
+    const session = this.pushToTalkSession;
+    if (!session) {
+      return;
+    }
+    this.pushToTalkSession = null;
+    this.setPushToTalkActive(session.target, false);
+    let audioBlob;
+    try {
+      const stop = await session.recording;
+      audioBlob = await stop();
+    } catch (error) {
+      this.debugLog("\u6309\u4F4F\u8BF4\u8BDD\u5F55\u97F3\u5931\u8D25:", error);
+      this.endPushToTalkDictation();
+      return;
+    }
+    if (Date.now() - session.startedAt < PUSH_TO_TALK_MIN_DURATION) {
+      this.updateStatusFloat("\u6309\u4F4F\u65F6\u95F4\u592A\u77ED\uFF0C\u5DF2\u5FFD\u7565", "warning");
+      this.endPushToTalkDictation();
+      return;
+    }
+    if (session.target === "dictation" && session.dictationTarget) {
+      try {
+        await this.processAccumulatedAudio(session.dictationTarget, audioBlob);
+      } finally {
+        this.endPushToTalkDictation();
+      }
+      return;
+    }
+    try {
+      await this.processSingleConversation(audioBlob);
+    } catch (error) {
+      this.debugLog("\u8BED\u97F3\u5BF9\u8BDD\u51FA\u9519:", error);
+      new import_obsidian.Notice(`\u8BED\u97F3\u5BF9\u8BDD\u51FA\u9519: ${getErrorMessage(error)}`);
+    }
+  }
+  /**
+   * 结束按住听写的会话，不再跟踪编辑器中的修改；持续听写进行中时会话属于持续听写，保持不变
+   */
+  endPushToTalkDictation() {
+    if (!this.isDictating) {
+      this.dictationEditor = null;
+      this.dictationUtterances = [];
+    }
+  }
+  /**
+   * 打开麦克风并开始录音，返回停止录音的函数
+   */
+  async startPushToTalkRecording() {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        channelCount: 1,
+        echoCancellation: true,
+        noiseSuppression: true
+      }
+    });
+    let recorder;
+    try {
+      recorder = createCompatibleMediaRecorder(stream);
+    } catch (error) {
+      stream.getTracks().forEach((track) => track.stop());
+      throw normalizeError(error, "\u65E0\u6CD5\u521B\u5EFA\u5F55\u97F3\u5668");
+    }
+    const chunks = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunks.push(event.data);
+      }
+    };
+    recorder.start();
+    return () => new Promise((resolve, reject) => {
+      recorder.onstop = () => {
+        var _a;
+        stream.getTracks().forEach((track) => track.stop());
+        resolve(new Blob(chunks, { type: recorder.mimeType || ((_a = chunks[0]) == null ? void 0 : _a.type) || "application/octet-stream" }));
+      };
+      recorder.onerror = (event) => {
+        stream.getTracks().forEach((track) => track.stop());
+        reject(normalizeError(event, "\u5F55\u97F3\u8FC7\u7A0B\u51FA\u9519"));
+      };
+      recorder.stop();
     });
-    this.addCommand({
-      id: "voice-dictation",
-      name: "\u8BED\u97F3\u542C\u5199",
-      callback: () => this.startVoiceDictation()
+  }
+  /**
+   * 持续模式听写
+   * 按快捷键开始，静默超时自动结束
+   */
+  async startContinuousDictation(target) {
+    this.isDictating = true;
+    this.dictationStartTime = Date.now();
+    this.updateStatusFloat("\u542C\u5199\u4E2D", "info", false);
+    this.showDictationControls();
+    await this.startContinuousDictationLoop(target);
+  }
+  /**
+   * 持续听写循环
+   * 使用真正的静默检测，在指定时间内无语音输入则自动结束
+   */
+  /**
+   * 持续听写循环 - 改进版本
+   * 连续录音，只有在静默间隔后才进行语音识别，避免打断连续语音
+   */
+  async startContinuousDictationLoop(target) {
+    if (target.kind === "editor") {
+      this.beginDictationSession(target.editor);
+    }
+    let utterances = [];
+    try {
+      if (this.settings.asrStreamingMode && this.settings.asrProvider !== "openai") {
+        await this.startStreamingDictationLoop(target);
+      } else {
+        await this.startSegmentedDictationLoop(target);
+      }
+    } finally {
+      utterances = this.dictationUtterances;
+      this.dictationEditor = null;
+      this.dictationTranslating = false;
+      this.activeAsrProfile = null;
+    }
+    if (this.settings.dictationPolishEnabled && target.kind === "editor" && utterances.length > 0) {
+      await this.polishDictation(target.editor, utterances);
+    }
+  }
+  /**
+   * 用大模型润色本次听写插入的内容，逐段确认后替换。
+   * 笔记中连续的听写内容为一组，每组单独润色和确认；各句之间用户自己的文字不会发给模型。
+   */
+  async polishDictation(editor, utterances) {
+    const content = editor.getValue();
+    const groups = groupDictatedRanges(content, utterances).filter((group) => content.slice(group[0].from, Math.max(...group.map((range) => range.to))).trim());
+    let shift = 0;
+    for (const [index, ranges] of groups.entries()) {
+      const title = groups.length > 1 ? `\u6DA6\u8272\u542C\u5199\u5185\u5BB9\uFF08${index + 1}/${groups.length}\uFF09` : "\u6DA6\u8272\u542C\u5199\u5185\u5BB9";
+      const change = await this.polishDictatedGroup(editor, content, ranges, shift, title);
+      if (change === null) {
+        return;
+      }
+      shift += change;
+    }
+  }
+  /**
+   * 润色一组连续的听写内容，等待用户在对比窗口中确认
+   * @returns 替换后文字长度的变化；润色失败时返回 null，不再继续后面各组
+   */
+  async polishDictatedGroup(editor, content, ranges, shift, title) {
+    const spanFrom = ranges[0].from;
+    const spanTo = Math.max(...ranges.map((range) => range.to));
+    const segments = ranges.map((range, index) => content.slice(range.from, index + 1 < ranges.length ? ranges[index + 1].from : spanTo));
+    const original = content.slice(spanFrom, spanTo);
+    this.updateStatusFloat("\u6B63\u5728\u6DA6\u8272\u542C\u5199\u5185\u5BB9...", "info", false);
+    let paragraphs;
+    try {
+      const response = await this.callLLM(buildPolishPrompt(segments, this.settings.dictationPolishInstructions));
+      paragraphs = parsePolishResponse(response, segments.length);
+    } catch (error) {
+      this.debugLog("\u542C\u5199\u6DA6\u8272\u5931\u8D25:", error);
+      this.updateStatusFloat(`\u6DA6\u8272\u5931\u8D25\uFF1A${getErrorMessage(error)}`, "error");
+      return null;
+    }
+    this.updateStatusFloat("\u6DA6\u8272\u5B8C\u6210\uFF0C\u8BF7\u5728\u5BF9\u6BD4\u7A97\u53E3\u4E2D\u786E\u8BA4", "success");
+    return new Promise((resolve) => {
+      let change = 0;
+      new DictationPolishModal(this.app, title, segments, paragraphs, (accepted) => {
+        if (!accepted.some(Boolean)) {
+          return;
+        }
+        const current = editor.getValue();
+        const expectedFrom = spanFrom + shift;
+        const from = current.slice(expectedFrom, expectedFrom + original.length) === original ? expectedFrom : current.indexOf(original);
+        if (from === -1) {
+          new import_obsidian.Notice("\u542C\u5199\u5185\u5BB9\u5DF2\u88AB\u4FEE\u6539\uFF0C\u65E0\u6CD5\u5E94\u7528\u6DA6\u8272\u7ED3\u679C");
+          return;
+        }
+        const polished = composePolishedText(segments, paragraphs, accepted);
+        editor.replaceRange(polished, editor.offsetToPos(from), editor.offsetToPos(from + original.length));
+        change = polished.length - original.length;
+      }, () => resolve(change)).open();
     });
-    this.addCommand({
-      id: "continuous-dictation",
-      name: "\u6301\u7EED\u542C\u5199",
-      callback: () => this.startVoiceDictation()
+  }
+  /**
+   * 记录听写开始时的光标位置作为锚点，之后随编辑器中的修改移动
+   */
+  beginDictationSession(editor) {
+    this.dictationEditor = editor;
+    this.dictationUtterances = [];
+    this.dictationSnapshot = editor.getValue();
+    this.dictationAnchor = editor.posToOffset(editor.getCursor());
+  }
+  /**
+   * 分段听写循环：整个听写期间只打开一次麦克风，由 AudioWorklet 持续输出 PCM 窗口并在原始采样上做语音检测。
+   * 每句在静默达到间隔后交给识别队列，录音不中断，识别按说话顺序依次进行，句与句之间不会丢失音频。
+   */
+  async startSegmentedDictationLoop(target) {
+    let stream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          channelCount: 1,
+          echoCancellation: true,
+          noiseSuppression: true
+        }
+      });
+    } catch (error) {
+      new import_obsidian.Notice(`\u65E0\u6CD5\u8BBF\u95EE\u9EA6\u514B\u98CE: ${getErrorMessage(error)}`);
+      this.stopDictation();
+      return;
+    }
+    let allRecognizedText = "";
+    let lastVoiceTime = Date.now();
+    const silenceIntervalMs = this.settings.dictationSilenceInterval * 1e3;
+    const windowMs = DICTATION_VAD_WINDOW_SAMPLES / ASR_SAMPLE_RATE * 1e3;
+    const vad = this.createVoiceActivityDetector(stream);
+    let recognition = Promise.resolve();
+    const segmenter = new UtteranceSegmenter({
+      preRollSamples: DICTATION_VAD_WINDOW_SAMPLES * DICTATION_PREROLL_WINDOWS,
+      silenceWindows: Math.ceil(silenceIntervalMs / windowMs),
+      onUtterance: (pcm) => {
+        const wav = pcmToWav(new Uint8Array(pcm.buffer), ASR_SAMPLE_RATE, 1, 16);
+        const audioBlob = new Blob([wav], { type: "audio/wav" });
+        recognition = recognition.then(async () => {
+          const recognizedText = await this.processAccumulatedAudio(target, audioBlob);
+          if (recognizedText.trim()) {
+            allRecognizedText += recognizedText + " ";
+          }
+        });
+      }
     });
-    this.addCommand({
-      id: "voice-reading",
-      name: "\u8BED\u97F3\u6717\u8BFB",
-      callback: () => this.startVoiceReading()
+    const onWindow = (frame) => {
+      const hasVoice = vad.process(pcm16ToFloat32(frame));
+      if (hasVoice) {
+        if (!segmenter.inUtterance) {
+          const features = vad.features;
+          this.updateStatusFloat("\u6B63\u5728\u5F55\u97F3...", "info", false);
+          this.debugLog(`\u68C0\u6D4B\u5230\u8BED\u97F3\uFF0C\u80FD\u91CF: ${features == null ? void 0 : features.energy.toFixed(4)}, \u566A\u58F0\u5E95: ${features == null ? void 0 : features.noiseFloor.toFixed(4)}, \u8BED\u97F3\u9891\u6BB5\u5360\u6BD4: ${features == null ? void 0 : features.speechBandRatio.toFixed(2)}`);
+        }
+        lastVoiceTime = Date.now();
+      }
+      segmenter.push(frame, hasVoice);
+    };
+    let stopCapture;
+    try {
+      stopCapture = await startPcmFrameCapture(stream, DICTATION_VAD_WINDOW_SAMPLES, onWindow);
+    } catch (error) {
+      stream.getTracks().forEach((track) => track.stop());
+      new import_obsidian.Notice(`\u65E0\u6CD5\u542F\u52A8\u97F3\u9891\u91C7\u96C6: ${getErrorMessage(error)}`);
+      this.stopDictation();
+      return;
+    }
+    this.startDictationTimeoutTimer(() => lastVoiceTime, () => allRecognizedText);
+    try {
+      await new Promise((resolve) => {
+        this.resolveDictationStop = resolve;
+        if (!this.isDictating) {
+          resolve();
+        }
+      });
+    } finally {
+      this.resolveDictationStop = null;
+      stopCapture();
+      stream.getTracks().forEach((track) => track.stop());
+    }
+    segmenter.flush();
+    await recognition;
+  }
+  /**
+   * 启动听写总体静默超时检测，每秒检查一次
+   * @param getLastVoiceTime 获取最后一次检测到语音的时间
+   * @param getRecognizedText 获取本次听写累计识别的文本
+   */
+  startDictationTimeoutTimer(getLastVoiceTime, getRecognizedText) {
+    const silenceTimeoutMs = this.settings.dictationSilenceTimeout * 1e3;
+    this.dictationTimer = window.setInterval(() => {
+      if (!this.isDictating) {
+        return;
+      }
+      const totalSilenceDuration = Date.now() - getLastVoiceTime();
+      if (totalSilenceDuration >= silenceTimeoutMs) {
+        this.debugLog(`\u6301\u7EED\u542C\u5199\u9759\u9ED8\u8D85\u65F6 ${this.settings.dictationSilenceTimeout} \u79D2\uFF0C\u81EA\u52A8\u7ED3\u675F`);
+        this.stopDictation();
+        const allRecognizedText = getRecognizedText();
+        if (allRecognizedText.trim()) {
+          this.updateStatusFloat("\u542C\u5199\u7ED3\u675F", "success", true);
+          new import_obsidian.Notice(`\u542C\u5199\u5B8C\u6210\uFF0C\u5171\u8BC6\u522B\uFF1A${allRecognizedText.trim()}`);
+        } else {
+          this.updateStatusFloat("\u542C\u5199\u7ED3\u675F", "warning", true);
+          new import_obsidian.Notice("\u542C\u5199\u7ED3\u675F\uFF0C\u672A\u8BC6\u522B\u5230\u8BED\u97F3\u5185\u5BB9");
+        }
+      }
+    }, 1e3);
+  }
+  /**
+   * 流式听写循环
+   * 整个听写期间只打开一次麦克风，按 40ms 帧持续上传；讯飞根据静默间隔（vad_eos）、Vosk 根据自身端点检测结束每句话，
+   * 随后立即开启下一句的会话。识别过程中的动态修正结果实时显示在编辑器和状态浮窗中。
+   * 某句识别失败时停止听写，并把这句的录音暂存，恢复连接后转写插回原位置。
+   */
+  async startStreamingDictationLoop(target) {
+    var _a;
+    let stream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          channelCount: 1,
+          echoCancellation: true,
+          noiseSuppression: true
+        }
+      });
+    } catch (error) {
+      new import_obsidian.Notice(`\u65E0\u6CD5\u8BBF\u95EE\u9EA6\u514B\u98CE: ${getErrorMessage(error)}`);
+      this.stopDictation();
+      return;
+    }
+    let allRecognizedText = "";
+    let lastVoiceTime = Date.now();
+    const vadEos = Math.round(this.settings.dictationSilenceInterval * 1e3);
+    const frameBacklog = [];
+    let utteranceFrames = [];
+    const maxBacklogFrames = Math.ceil(1e3 / 40);
+    const processor = this.settings.audioProcessingEnabled ? new AudioProcessor(ASR_SAMPLE_RATE, this.settings.audioProcessing) : null;
+    const levelsBefore = new LevelAccumulator();
+    const levelsAfter = new LevelAccumulator();
+    let stopCapture;
+    try {
+      stopCapture = await startPcmFrameCapture(stream, ASR_FRAME_SAMPLES, (rawFrame) => {
+        var _a2;
+        let frame = rawFrame;
+        if (processor) {
+          const samples = pcm16ToFloat32(rawFrame);
+          const processed = processor.process(samples);
+          levelsBefore.add(samples);
+          levelsAfter.add(processed);
+          frame = downsampleToPcm16(processed, ASR_SAMPLE_RATE);
+        }
+        if ((_a2 = this.streamingAsrSession) == null ? void 0 : _a2.push(frame)) {
+          utteranceFrames.push(rawFrame);
+          return;
+        }
+        frameBacklog.push({ raw: rawFrame, frame });
+        if (frameBacklog.length > maxBacklogFrames) {
+          frameBacklog.shift();
+        }
+      });
+    } catch (error) {
+      stream.getTracks().forEach((track) => track.stop());
+      new import_obsidian.Notice(`\u65E0\u6CD5\u542F\u52A8\u97F3\u9891\u91C7\u96C6: ${getErrorMessage(error)}`);
+      this.stopDictation();
+      return;
+    }
+    const showPreview = (text) => {
+      this.updateLivePreview(text);
+      if (target.kind === "editor") {
+        this.renderEditorPreview(target.editor, text);
+      }
+    };
+    const renderPreview = (partialText) => {
+      lastVoiceTime = Date.now();
+      showPreview(this.applyVocabulary(partialText));
+    };
+    this.startDictationTimeoutTimer(() => lastVoiceTime, () => allRecognizedText);
+    try {
+      while (this.isDictating) {
+        const session = this.settings.asrProvider === "vosk" ? this.startVoskStreamingASR(renderPreview, true) : this.startXunfeiStreamingASR(renderPreview, vadEos);
+        this.streamingAsrSession = session;
+        utteranceFrames = [];
+        for (const { raw, frame } of frameBacklog.splice(0)) {
+          session.push(frame);
+          utteranceFrames.push(raw);
+        }
+        let recognizedText;
+        try {
+          recognizedText = this.applyVocabulary(await session.result);
+        } finally {
+          this.streamingAsrSession = null;
+        }
+        utteranceFrames = [];
+        showPreview("");
+        if (recognizedText.trim()) {
+          await this.deliverDictationUtterance(target, recognizedText);
+          allRecognizedText += recognizedText + " ";
+          lastVoiceTime = Date.now();
+          this.debugLog("\u6D41\u5F0F\u542C\u5199\u8BC6\u522B\u5230:", recognizedText);
+        }
+      }
+    } catch (error) {
+      this.debugLog("\u6D41\u5F0F\u542C\u5199\u9519\u8BEF:", error);
+      if (utteranceFrames.length > 0) {
+        const pcm = concatPcm16(utteranceFrames);
+        const wav = pcmToWav(new Uint8Array(pcm.buffer), ASR_SAMPLE_RATE, 1, 16);
+        const editor = target.kind === "editor" && ((_a = this.app.workspace.getActiveViewOfType(import_obsidian.MarkdownView)) == null ? void 0 : _a.editor) === target.editor ? target.editor : void 0;
+        await this.capturePendingRecording(
+          new Blob([wav], { type: "audio/wav" }),
+          "dictation",
+          editor,
+          editor == null ? void 0 : editor.offsetToPos(this.getDictationInsertOffset(editor)),
+          error
+        );
+      }
+      new import_obsidian.Notice(`\u6D41\u5F0F\u8BC6\u522B\u5931\u8D25: ${getErrorMessage(error)}`);
+      if (this.isDictating) {
+        this.stopDictation();
+      }
+    } finally {
+      stopCapture();
+      stream.getTracks().forEach((track) => track.stop());
+      showPreview("");
+      if (processor) {
+        this.recordAudioLevels("\u6D41\u5F0F\u542C\u5199", levelsBefore.levels, levelsAfter.levels);
+      }
+    }
+  }
+  /**
+   * 识别一句听写录音并写入听写目标
+   * @returns 识别到的文本，如果没有识别到则返回空字符串
+   */
+  async processAccumulatedAudio(target, audioBlob) {
+    var _a;
+    try {
+      this.updateStatusFloat("\u6B63\u5728\u8BC6\u522B\u8BED\u97F3...", "info", false);
+      const recognizedText = await this.speechToText(audioBlob, "\u542C\u5199");
+      if (recognizedText && recognizedText.trim()) {
+        await this.deliverDictationUtterance(target, recognizedText);
+        this.updateStatusFloat("\u542C\u5199\u4E2D", "info", false);
+        this.debugLog("\u6301\u7EED\u542C\u5199\u8BC6\u522B\u5230:", recognizedText);
+        return recognizedText;
+      }
+      return "";
+    } catch (error) {
+      this.debugLog("\u5904\u7406\u7D2F\u79EF\u97F3\u9891\u9519\u8BEF:", error);
+      const editor = target.kind === "editor" && ((_a = this.app.workspace.getActiveViewOfType(import_obsidian.MarkdownView)) == null ? void 0 : _a.editor) === target.editor ? target.editor : void 0;
+      await this.capturePendingRecording(
+        audioBlob,
+        "dictation",
+        editor,
+        editor == null ? void 0 : editor.offsetToPos(this.getDictationInsertOffset(editor)),
+        error
+      );
+      this.handleDictationError(error);
+      return "";
+    }
+  }
+  /**
+   * 把一句识别结果写入听写目标。
+   * 先解析语音编辑命令和 Markdown 结构关键词（输入框中不转换结构），翻译听写时只翻译其中的文字，命令保持原样执行。
+   * 翻译失败时写入原文并在浮窗中提示，不中断听写。
+   */
+  async deliverDictationUtterance(target, text) {
+    let actions = parseDictationUtterance(text, this.settings.dictationGrammar, {
+      commands: this.settings.dictationCommandsEnabled,
+      markdown: target.kind === "editor" && this.settings.dictationMarkdownEnabled
     });
-    this.addSettingTab(new VoiceAssistantSettingTab(this.app, this));
-    this.app.workspace.onLayoutReady(() => {
-      this.createStatusFloat();
-      this.showStatusFloat();
-      this.updateStatusFloat("\u8BED\u97F3\u52A9\u624B\u5DF2\u52A0\u8F7D - \u505C\u6B62\u76D1\u542C", "info");
+    if (this.settings.normalizeDictationText) {
+      actions = this.normalizeDictationActions(target, actions);
+    }
+    if (this.dictationTranslating && actions.some((action) => action.type === "text")) {
+      const translate = this.createTranslator();
+      const mode = this.settings.translationOriginalMode;
+      try {
+        if (target.kind === "editor" && mode === "bilingual") {
+          const original = actions.map((action) => action.type === "text" ? action.text.trim() : "").filter((part) => part.length > 0).join(" ");
+          this.insertBilingualRow(target.editor, original, await translate(original));
+          return;
+        }
+        const translated = [];
+        for (const action of actions) {
+          if (action.type === "text" && action.text.trim()) {
+            const result = await translate(action.text);
+            translated.push({
+              type: "text",
+              text: target.kind === "editor" && mode === "footnote" ? formatFootnoteTranslation(result, action.text) : result
+            });
+          } else {
+            translated.push(action);
+          }
+        }
+        actions = translated;
+      } catch (error) {
+        this.debugLog("\u542C\u5199\u7FFB\u8BD1\u5931\u8D25:", error);
+        this.updateStatusFloat(`\u7FFB\u8BD1\u5931\u8D25\uFF0C\u5DF2\u5199\u5165\u539F\u6587: ${getErrorMessage(error)}`, "warning", false);
+      }
+    }
+    if (target.kind === "editor") {
+      this.applyDictationActions(target.editor, actions);
+    } else {
+      this.insertDictationActions(target.element, actions);
+    }
+  }
+  /**
+   * 规整一句听写中的文字。以插入位置前的文字作为上下文，判断首词是否位于句首以及标点用全角还是半角
+   */
+  normalizeDictationActions(target, actions) {
+    var _a;
+    let before = "";
+    if (target.kind === "editor") {
+      const offset = this.getDictationInsertOffset(target.editor);
+      before = target.editor.getValue().slice(Math.max(0, offset - 200), offset);
+    } else if (target.element.instanceOf(HTMLInputElement) || target.element.instanceOf(HTMLTextAreaElement)) {
+      before = target.element.value.slice(0, (_a = target.element.selectionStart) != null ? _a : target.element.value.length);
+    }
+    return actions.map((action) => {
+      if (action.type === "text") {
+        const text = normalizeTranscript(action.text, this.settings.textNormalization, before);
+        before += text;
+        return { type: "text", text };
+      }
+      before += action.type === "newline" || action.type === "paragraph" ? "\n" : "";
+      return action;
     });
-    this.debugLog("\u8BED\u97F3\u52A9\u624B\u63D2\u4EF6\u5DF2\u52A0\u8F7D - \u9ED8\u8BA4\u505C\u6B62\u76D1\u542C\u72B6\u6001");
   }
   /**
-   * 插件卸载时的清理方法
+   * 把一句听写结果写入输入控件。
+   * 输入框中只转换口述标点和换行：单行输入框把换行变为空格，并去掉识别服务在句尾自动添加的标点，方便直接用于搜索和文件名
    */
-  onunload() {
-    this.stopListening();
-    this.stopWakeListening();
-    this.stopTTS();
-    if (this.autoHideTimer) {
-      window.clearTimeout(this.autoHideTimer);
-      this.autoHideTimer = null;
+  insertDictationActions(element, actions) {
+    if (!element.isConnected) {
+      this.updateStatusFloat("\u8F93\u5165\u6846\u5DF2\u5173\u95ED\uFF0C\u542C\u5199\u7ED3\u675F", "warning");
+      this.stopDictation();
+      return;
+    }
+    const singleLine = element.instanceOf(HTMLInputElement);
+    let value = "";
+    for (const action of actions) {
+      if (action.type === "text") {
+        value += action.text;
+      } else if (action.type === "newline" || action.type === "paragraph") {
+        value += singleLine ? " " : action.type === "newline" ? "\n" : "\n\n";
+      }
     }
-    if (this.silenceCheckTimer) {
-      window.clearTimeout(this.silenceCheckTimer);
-      this.silenceCheckTimer = null;
+    if (singleLine) {
+      value = value.replace(/[\s。.！!？?，,；;]+$/, "");
+    }
+    if (value) {
+      insertTextIntoElement(element, value);
     }
-    this.removeStatusFloat();
-    this.wakeStatusBarItem = null;
-    this.debugLog("\u8BED\u97F3\u52A9\u624B\u63D2\u4EF6\u5DF2\u5378\u8F7D");
   }
   /**
-   * 加载插件设置
+   * 在编辑器中下一句的插入位置显示流式听写预览，text 为空时清除。
+   * 只派发装饰效果，不修改文档。
    */
-  async loadSettings() {
-    const savedSettings = await this.loadData();
-    this.settings = { ...DEFAULT_SETTINGS, ...savedSettings != null ? savedSettings : {} };
+  renderEditorPreview(editor, text) {
+    const view = editor.cm;
+    if (!view) {
+      return;
+    }
+    view.dispatch({
+      effects: setDictationPreview.of(text ? { pos: this.getDictationInsertOffset(editor), text } : null)
+    });
   }
   /**
-   * 保存插件设置
+   * 按插入策略取得下一句的插入位置（文本偏移）
    */
-  async saveSettings() {
-    await this.saveData(this.settings);
+  getDictationInsertOffset(editor) {
+    switch (this.settings.dictationInsertPolicy) {
+      case "cursor":
+        return editor.posToOffset(editor.getCursor());
+      case "end":
+        return editor.getValue().length;
+      default:
+        return Math.min(this.dictationAnchor, editor.getValue().length);
+    }
   }
   /**
-   * 调试日志输出
+   * 编辑器内容变化时移动听写锚点和已插入各句的范围。
+   * 在锚点处输入的文字会把锚点推到其后；各句范围不吸收紧贴两端输入的文字。
    */
-  debugLog(message, ...args) {
-    void message;
-    void args;
+  trackDictationEdits(editor) {
+    if (editor !== this.dictationEditor) {
+      return;
+    }
+    const content = editor.getValue();
+    const change = findTextChange(this.dictationSnapshot, content);
+    this.dictationSnapshot = content;
+    if (!change) {
+      return;
+    }
+    this.dictationAnchor = mapOffsetThroughChange(this.dictationAnchor, change);
+    this.dictationUtterances = this.dictationUtterances.map((range) => ({ from: mapOffsetThroughChange(range.from, change), to: mapOffsetThroughChange(range.to, change, -1) })).filter((range) => range.to > range.from);
   }
   /**
-   * 测试TTS功能
+   * 把一句听写结果作用到编辑器：插入文字，并执行其中的换行、删除上一句、撤销等语音编辑命令，
+   * 开启 Markdown 结构听写时还会按标题、列表、待办、引用和缩进关键词生成行首前缀。
+   * 整句合成为一次替换，在编辑器中只占一个撤销步骤；光标仍停在插入位置时跟随到本句末尾，不打断用户在别处的编辑。
    */
-  async testTTS() {
-    new import_obsidian.Notice("\u5F00\u59CBTTS\u6D4B\u8BD5...");
-    try {
-      const testText = "\u8FD9\u662F\u4E00\u4E2ATTS\u529F\u80FD\u6D4B\u8BD5\uFF0C\u5982\u679C\u4F60\u80FD\u542C\u5230\u8FD9\u6BB5\u8BDD\uFF0C\u8BF4\u660ETTS\u529F\u80FD\u6B63\u5E38\u5DE5\u4F5C\u3002";
-      await this.textToSpeech(testText);
-      new import_obsidian.Notice("TTS\u6D4B\u8BD5\u5B8C\u6210");
-    } catch (error) {
-      new import_obsidian.Notice(`TTS\u6D4B\u8BD5\u5931\u8D25: ${getErrorMessage(error)}`);
+  applyDictationActions(editor, actions) {
+    const cursorOffset = editor.posToOffset(editor.getCursor());
+    const offset = this.getDictationInsertOffset(editor);
+    if (actions.length === 1 && actions[0].type === "delete-last") {
+      const last = this.dictationUtterances.pop();
+      if (last) {
+        editor.replaceRange("", editor.offsetToPos(last.from), editor.offsetToPos(last.to));
+        this.syncDictationAnchor(editor, last.from, cursorOffset === offset);
+      }
+      return;
     }
+    if (actions.length === 1 && actions[0].type === "undo") {
+      editor.undo();
+      this.dictationUtterances.pop();
+      this.syncDictationAnchor(editor, editor.posToOffset(editor.getCursor()), true);
+      return;
+    }
+    const smartSpacing = this.settings.normalizeDictationText && this.settings.textNormalization.spacing;
+    const edit = renderDictationActions(editor.getValue(), offset, actions, "	", smartSpacing);
+    if (!edit.text && edit.from === edit.to) {
+      return;
+    }
+    editor.replaceRange(edit.text, editor.offsetToPos(edit.from), editor.offsetToPos(edit.to));
+    const end = edit.from + edit.text.length;
+    this.dictationUtterances.push({ from: edit.from, to: end });
+    this.syncDictationAnchor(editor, end, cursorOffset === offset);
   }
   /**
-   * 开始语音对话流程
-   * 录音 → ASR → LLM → 插入笔记 → TTS
+   * 翻译听写的双语模式：把译文和原文作为两列表格的一行写入插入位置，删除上一句时整行删除
    */
-  async startVoiceConversation() {
-    try {
-      if (!this.isInContinuousDialog) {
-        this.startContinuousDialog();
-      }
-      await this.processSingleConversation();
-    } catch (error) {
-      this.debugLog("\u8BED\u97F3\u5BF9\u8BDD\u51FA\u9519:", error);
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      new import_obsidian.Notice(`\u8BED\u97F3\u5BF9\u8BDD\u51FA\u9519: ${errorMessage}`);
+  insertBilingualRow(editor, original, translated) {
+    var _a;
+    const cursorOffset = editor.posToOffset(editor.getCursor());
+    const offset = this.getDictationInsertOffset(editor);
+    const language = (_a = TRANSLATION_LANGUAGES[this.settings.translationLanguage]) != null ? _a : this.settings.translationLanguage;
+    const edit = renderBilingualRow(editor.getValue(), offset, translated, original, [language, "\u539F\u6587"]);
+    editor.replaceRange(edit.text, editor.offsetToPos(edit.from), editor.offsetToPos(edit.to));
+    const end = edit.from + edit.text.length;
+    this.dictationUtterances.push({ from: edit.from, to: end });
+    this.syncDictationAnchor(editor, end, cursorOffset === offset);
+  }
+  /**
+   * 按设置创建翻译听写使用的翻译函数：当前 AI 模型，或 LibreTranslate 服务
+   */
+  createTranslator() {
+    var _a;
+    const language = this.settings.translationLanguage;
+    if (this.settings.translationProvider === "libretranslate") {
+      return (text) => this.translateWithLibreTranslate(text, language);
     }
+    const languageName = (_a = TRANSLATION_LANGUAGES[language]) != null ? _a : language;
+    return async (text) => cleanTranslationResponse(await this.callLLM(buildTranslationPrompt(text, languageName)));
   }
   /**
-   * 启动持续对话模式
+   * 调用 LibreTranslate 翻译，源语言自动检测
    */
-  startContinuousDialog() {
-    this.isInContinuousDialog = true;
-    this.debugLog("\u542F\u52A8\u6301\u7EED\u5BF9\u8BDD\u6A21\u5F0F");
-    this.conversationHistory = [];
-    void this.startPreRecordingBuffer();
-    if (this.settings.showDialogControls) {
-      this.showDialogControls();
+  async translateWithLibreTranslate(text, language) {
+    const baseUrl = this.settings.libreTranslateUrl.trim().replace(/\/+$/, "");
+    if (!baseUrl) {
+      throw new Error("\u8BF7\u5148\u5728\u8BBE\u7F6E\u4E2D\u586B\u5199 LibreTranslate \u670D\u52A1\u5730\u5740");
     }
-    new import_obsidian.Notice("\u6301\u7EED\u5BF9\u8BDD\u6A21\u5F0F\u5DF2\u542F\u52A8\uFF0C\u5F00\u59CB\u8BF4\u8BDD\u621620\u79D2\u65E0\u8BED\u97F3\u5C06\u81EA\u52A8\u7ED3\u675F");
+    const response = await (0, import_obsidian.requestUrl)({
+      url: `${baseUrl}/translate`,
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        q: text,
+        source: "auto",
+        target: language,
+        format: "text",
+        ...this.settings.libreTranslateApiKey ? { api_key: this.settings.libreTranslateApiKey } : {}
+      }),
+      throw: false
+    });
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`LibreTranslate \u8C03\u7528\u5931\u8D25: ${response.status} - ${response.text}`);
+    }
+    const result = response.json.translatedText;
+    if (typeof result !== "string") {
+      throw new Error("LibreTranslate \u8FD4\u56DE\u683C\u5F0F\u65E0\u6548");
+    }
+    return result.trim();
   }
   /**
-   * 处理单次对话
+   * 听写自身修改文档后，把锚点设到本句末尾并记录新的文档内容
    */
-  async processSingleConversation() {
-    this.debugLog("\u5F00\u59CB\u8BED\u97F3\u5BF9\u8BDD");
-    this.clearSilenceTimer();
-    new import_obsidian.Notice("\u5F00\u59CB\u5F55\u97F3\uFF0C\u8BF7\u8BF4\u8BDD...");
-    const audioBlob = await this.startRecording();
-    const text = await this.speechToText(audioBlob);
-    if (!text || text === "\u672A\u8BC6\u522B\u5230\u8BED\u97F3\u5185\u5BB9") {
-      new import_obsidian.Notice("\u8BED\u97F3\u8BC6\u522B\u5931\u8D25\uFF0C\u8BF7\u91CD\u8BD5");
-      if (this.isInContinuousDialog) {
-        this.startSilenceDetection();
+  syncDictationAnchor(editor, offset, moveCursor) {
+    this.dictationAnchor = offset;
+    this.dictationSnapshot = editor.getValue();
+    if (moveCursor || this.settings.dictationInsertPolicy === "cursor") {
+      editor.setCursor(editor.offsetToPos(offset));
+    }
+  }
+  /**
+   * 处理听写过程中的识别错误
+   * 鉴权失败或服务量用尽时继续听写没有意义，直接结束听写并提示；其他错误在浮窗中提示后继续
+   */
+  handleDictationError(error) {
+    const message = getErrorMessage(error);
+    if (error instanceof XunfeiError && error.isFatal) {
+      new import_obsidian.Notice(message, 1e4);
+      if (this.isDictating) {
+        this.stopDictation();
       }
       return;
     }
-    this.debugLog("\u8BC6\u522B\u5230\u6587\u672C:", text);
-    new import_obsidian.Notice(`\u8BC6\u522B\u5230\uFF1A${text}`);
-    const enhancedText = this.processCustomPrompts(text);
-    const response = await this.callLLM(enhancedText);
-    if (!response) {
-      new import_obsidian.Notice("AI \u56DE\u590D\u5931\u8D25\uFF0C\u8BF7\u68C0\u67E5\u914D\u7F6E");
-      if (this.isInContinuousDialog) {
-        this.startSilenceDetection();
-      }
+    this.updateStatusFloat(`\u8BC6\u522B\u5931\u8D25: ${message}`, "warning", false);
+  }
+  /** 暂存录音所在的插件目录 */
+  getPendingRecordingsFolder() {
+    var _a;
+    return (0, import_obsidian.normalizePath)(`${(_a = this.manifest.dir) != null ? _a : `${this.app.vault.configDir}/plugins/${this.manifest.id}`}/pending-recordings`);
+  }
+  /** 对话识别失败时暂存录音，转写结果插入当前笔记的光标处 */
+  async captureConversationRecording(audioBlob, error) {
+    const activeView = this.app.workspace.getActiveViewOfType(import_obsidian.MarkdownView);
+    await this.capturePendingRecording(
+      audioBlob,
+      "conversation",
+      activeView == null ? void 0 : activeView.editor,
+      activeView == null ? void 0 : activeView.editor.getCursor(),
+      error
+    );
+  }
+  /**
+   * 识别失败时把录音和目标位置暂存到插件目录，联网后自动转写并插入
+   * 鉴权失败或服务量用尽同样会暂存，修正配置后可在暂存录音面板中重试
+   * 开启音频预处理时保存处理后的录音
+   */
+  async capturePendingRecording(audioBlob, source, editor, position, error) {
+    var _a, _b;
+    if (audioBlob.size === 0) {
       return;
     }
-    this.debugLog("AI \u56DE\u590D:", response);
-    if (this.isInContinuousDialog) {
-      this.conversationHistory.push({
-        user: text,
-        assistant: response,
-        timestamp: /* @__PURE__ */ new Date()
+    try {
+      const savedBlob = (await this.preprocessForAsr(audioBlob, "\u6682\u5B58\u5F55\u97F3")).blob;
+      const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+      const folder = this.getPendingRecordingsFolder();
+      if (!await this.app.vault.adapter.exists(folder)) {
+        await this.app.vault.adapter.mkdir(folder);
+      }
+      const audioPath = `${folder}/${id}.${getAudioFileExtension(savedBlob.type)}`;
+      await this.app.vault.adapter.writeBinary(audioPath, await savedBlob.arrayBuffer());
+      const notePath = editor ? (_b = (_a = this.app.workspace.getActiveFile()) == null ? void 0 : _a.path) != null ? _b : "" : "";
+      this.settings.pendingRecordings.push({
+        id,
+        audioPath,
+        mimeType: savedBlob.type,
+        source,
+        notePath,
+        anchor: editor && position && notePath ? createTextAnchor(editor.getValue(), position.line, position.ch) : null,
+        createdAt: Date.now(),
+        attempts: 1,
+        error: getErrorMessage(error),
+        processed: savedBlob !== audioBlob
       });
-      this.debugLog("\u5BF9\u8BDD\u5DF2\u5B58\u50A8\u5230\u5386\u53F2\u8BB0\u5F55\uFF0C\u5F53\u524D\u5BF9\u8BDD\u6570:", this.conversationHistory.length);
-    } else {
-      this.insertToNote(text, response);
+      await this.saveSettings();
+      new import_obsidian.Notice(`\u8BC6\u522B\u5931\u8D25\uFF0C\u5F55\u97F3\u5DF2\u6682\u5B58\uFF08\u5171 ${this.settings.pendingRecordings.length} \u6761\uFF09\uFF0C\u6062\u590D\u8FDE\u63A5\u540E\u81EA\u52A8\u8F6C\u5199\u5E76\u63D2\u5165\u539F\u4F4D\u7F6E`, 8e3);
+    } catch (saveError) {
+      this.debugLog("\u6682\u5B58\u5F55\u97F3\u5931\u8D25:", saveError);
+      new import_obsidian.Notice(`\u8BC6\u522B\u5931\u8D25\uFF0C\u4E14\u65E0\u6CD5\u6682\u5B58\u5F55\u97F3: ${getErrorMessage(saveError)}`);
     }
-    if (this.settings.ttsMode !== "disabled") {
-      if (this.isInContinuousDialog) {
-        void this.startBackgroundVoiceDetection();
-        void this.startPreRecordingBuffer();
+  }
+  /**
+   * 依次转写暂存的录音并插入原定位置
+   * @param onlyId 只处理指定录音（面板中的单条重试）
+   */
+  async processPendingRecordings(onlyId) {
+    if (this.isProcessingPendingRecordings || this.settings.pendingRecordings.length === 0) {
+      return;
+    }
+    this.isProcessingPendingRecordings = true;
+    let insertedCount = 0;
+    try {
+      const recordings = this.settings.pendingRecordings.filter((item) => !onlyId || item.id === onlyId);
+      for (const recording of recordings) {
+        try {
+          if (recording.transcript === void 0) {
+            const data = await this.app.vault.adapter.readBinary(recording.audioPath);
+            const text = await this.speechToText(new Blob([data], { type: recording.mimeType }), "\u6682\u5B58\u5F55\u97F3", !recording.processed);
+            recording.transcript = text.trim();
+          }
+          if (recording.transcript) {
+            await this.insertPendingTranscript(recording, recording.transcript);
+            insertedCount++;
+          }
+          await this.removePendingRecording(recording);
+        } catch (error) {
+          recording.attempts++;
+          recording.error = getErrorMessage(error);
+          this.debugLog("\u6682\u5B58\u5F55\u97F3\u8F6C\u5199\u5931\u8D25:", recording.id, error);
+          await this.saveSettings();
+          if (recording.transcript === void 0) {
+            break;
+          }
+        }
       }
-      await this.textToSpeech(response);
-      if (this.isInContinuousDialog) {
-        this.stopBackgroundVoiceDetection();
+    } finally {
+      this.isProcessingPendingRecordings = false;
+    }
+    if (insertedCount > 0) {
+      new import_obsidian.Notice(`\u5DF2\u8F6C\u5199 ${insertedCount} \u6761\u6682\u5B58\u5F55\u97F3\u5E76\u63D2\u5165\u539F\u4F4D\u7F6E`);
+    }
+  }
+  /**
+   * 把暂存录音的转写结果插入目标笔记
+   * 笔记已在编辑器中打开时通过编辑器插入，否则直接修改文件；未记录目标笔记时新建笔记
+   */
+  async insertPendingTranscript(recording, text) {
+    const insertText = recording.source === "dictation" ? `${text} ` : `
+${text}
+`;
+    if (!recording.notePath) {
+      const folder = this.settings.transcriptFolder.trim();
+      const prefix = folder ? `${(0, import_obsidian.normalizePath)(folder)}/` : "";
+      if (folder && !this.app.vault.getAbstractFileByPath((0, import_obsidian.normalizePath)(folder))) {
+        await this.app.vault.createFolder((0, import_obsidian.normalizePath)(folder));
       }
+      const stamp = new Date(recording.createdAt).toISOString().slice(0, 19).replace(/[T:]/g, "-");
+      await this.app.vault.create((0, import_obsidian.normalizePath)(`${prefix}\u6682\u5B58\u5F55\u97F3 ${stamp}.md`), `${text}
+`);
+      return;
     }
-    if (this.isInContinuousDialog) {
-      this.startSilenceDetection();
-      new import_obsidian.Notice("\u7EE7\u7EED\u8BF4\u8BDD\u6216\u7B49\u5F8520\u79D2\u81EA\u52A8\u7ED3\u675F\u5BF9\u8BDD...");
+    const file = this.app.vault.getAbstractFileByPath(recording.notePath);
+    if (!(file instanceof import_obsidian.TFile)) {
+      throw new Error(`\u76EE\u6807\u7B14\u8BB0\u4E0D\u5B58\u5728: ${recording.notePath}`);
+    }
+    const openView = this.app.workspace.getLeavesOfType("markdown").map((leaf) => leaf.view).find((view) => {
+      var _a;
+      return view instanceof import_obsidian.MarkdownView && ((_a = view.file) == null ? void 0 : _a.path) === file.path;
+    });
+    if (openView) {
+      const editor = openView.editor;
+      const content = editor.getValue();
+      const offset = recording.anchor ? resolveTextAnchor(content, recording.anchor) : content.length;
+      editor.replaceRange(insertText, editor.offsetToPos(offset));
+      return;
+    }
+    await this.app.vault.process(file, (content) => {
+      const offset = recording.anchor ? resolveTextAnchor(content, recording.anchor) : content.length;
+      return content.slice(0, offset) + insertText + content.slice(offset);
+    });
+  }
+  /** 删除暂存录音及其音频文件 */
+  async removePendingRecording(recording) {
+    const index = this.settings.pendingRecordings.indexOf(recording);
+    if (index !== -1) {
+      this.settings.pendingRecordings.splice(index, 1);
     }
+    if (await this.app.vault.adapter.exists(recording.audioPath)) {
+      await this.app.vault.adapter.remove(recording.audioPath);
+    }
+    await this.saveSettings();
   }
   /**
-   * 开始语音听写
-   * 使用持续模式进行听写，按快捷键开始，静默超时自动结束
+   * 打开暂存录音面板，查看、重试或删除尚未转写的录音
    */
-  async startVoiceDictation() {
-    try {
-      const activeView = this.app.workspace.getActiveViewOfType(import_obsidian.MarkdownView);
-      if (!activeView) {
-        new import_obsidian.Notice("\u8BF7\u5148\u6253\u5F00\u4E00\u4E2A\u7B14\u8BB0\u6587\u4EF6");
+  openPendingRecordingsPanel() {
+    const modal = new import_obsidian.Modal(this.app);
+    modal.titleEl.setText("\u6682\u5B58\u5F55\u97F3");
+    const render = () => {
+      const { contentEl } = modal;
+      contentEl.empty();
+      const recordings = this.settings.pendingRecordings;
+      if (recordings.length === 0) {
+        contentEl.createEl("p", { text: "\u6CA1\u6709\u6682\u5B58\u7684\u5F55\u97F3" });
         return;
       }
-      if (this.isDictating) {
-        this.stopDictation();
-        return;
+      new import_obsidian.Setting(contentEl).setDesc(`\u5171 ${recordings.length} \u6761\uFF0C\u6062\u590D\u8FDE\u63A5\u540E\u4F1A\u81EA\u52A8\u8F6C\u5199\u5E76\u63D2\u5165\u539F\u4F4D\u7F6E`).addButton((button) => button.setButtonText("\u5168\u90E8\u91CD\u8BD5").setCta().onClick(async () => {
+        button.setDisabled(true);
+        await this.processPendingRecordings();
+        render();
+      }));
+      for (const recording of [...recordings]) {
+        const sourceLabel = recording.source === "dictation" ? "\u542C\u5199" : "\u5BF9\u8BDD";
+        const destination = recording.notePath ? `\u63D2\u5165\u5230 ${recording.notePath}${recording.anchor ? ` \u7B2C ${recording.anchor.line + 1} \u884C` : ""}` : "\u8F6C\u5199\u540E\u65B0\u5EFA\u7B14\u8BB0";
+        const details = [destination];
+        if (recording.transcript) {
+          details.push(`\u5DF2\u8BC6\u522B\uFF1A${recording.transcript.slice(0, 60)}${recording.transcript.length > 60 ? "\u2026" : ""}`);
+        }
+        if (recording.error) {
+          details.push(`\u6700\u8FD1\u9519\u8BEF\uFF08\u7B2C ${recording.attempts} \u6B21\uFF09\uFF1A${recording.error}`);
+        }
+        const setting = new import_obsidian.Setting(contentEl).setName(`${new Date(recording.createdAt).toLocaleString()} \xB7 ${sourceLabel}`).setDesc(details.join("\n")).addButton((button) => button.setButtonText("\u91CD\u8BD5").onClick(async () => {
+          button.setDisabled(true);
+          await this.processPendingRecordings(recording.id);
+          render();
+        }));
+        if (recording.transcript) {
+          setting.addButton((button) => button.setButtonText("\u590D\u5236\u6587\u5B57").onClick(async () => {
+            var _a;
+            await navigator.clipboard.writeText((_a = recording.transcript) != null ? _a : "");
+            new import_obsidian.Notice("\u5DF2\u590D\u5236\u8BC6\u522B\u6587\u5B57");
+          }));
+        }
+        setting.addButton((button) => button.setButtonText("\u5220\u9664").onClick(async () => {
+          await this.removePendingRecording(recording);
+          render();
+        }));
+        setting.descEl.addClass("voice-assistant-pending-desc");
       }
-      await this.startContinuousDictation();
-    } catch (error) {
-      this.debugLog("\u8BED\u97F3\u542C\u5199\u9519\u8BEF:", error);
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      new import_obsidian.Notice("\u8BED\u97F3\u542C\u5199\u5931\u8D25: " + errorMessage);
-      this.stopDictation();
-    }
+    };
+    render();
+    modal.open();
   }
   /**
-   * 按住模式听写
-   * 支持连续触发检测，模拟按住效果
+   * 按设置创建语音活动检测器，持续听写、会议记录、语音打断、唤醒门控和对话结束检测共用同一阈值。
+   * 当前麦克风校准过时使用校准的阈值和噪声底，否则使用“语音检测阈值”设置。
    */
+  createVoiceActivityDetector(stream, options = {}) {
+    var _a;
+    const calibration = this.getMicrophoneCalibration(stream);
+    return new VoiceActivityDetector({
+      sampleRate: ASR_SAMPLE_RATE,
+      threshold: (_a = calibration == null ? void 0 : calibration.threshold) != null ? _a : this.settings.voiceDetectionThreshold / 1e3,
+      initialNoiseFloor: calibration == null ? void 0 : calibration.noiseFloor,
+      ...options
+    });
+  }
   /**
-   * 持续模式听写
-   * 按快捷键开始，静默超时自动结束
+   * 查找音频流所用麦克风的校准结果。
+   * 设备名称与校准时不同说明“默认设备”已指向另一个麦克风，此时不使用。
    */
-  async startContinuousDictation() {
-    this.isDictating = true;
-    this.dictationStartTime = Date.now();
-    this.updateStatusFloat("\u542C\u5199\u4E2D", "info", false);
-    this.showDictationControls();
-    await this.startContinuousDictationLoop();
+  getMicrophoneCalibration(stream) {
+    const track = stream.getAudioTracks()[0];
+    const deviceId = track == null ? void 0 : track.getSettings().deviceId;
+    const calibration = deviceId ? this.settings.microphoneCalibrations[deviceId] : void 0;
+    return calibration && calibration.label === track.label ? calibration : void 0;
   }
   /**
-   * 持续听写循环
-   * 使用真正的静默检测，在指定时间内无语音输入则自动结束
+   * 打开麦克风校准向导，保存结果后立即用于之后启动的语音检测
    */
+  openMicrophoneCalibration(onSaved) {
+    new MicrophoneCalibrationModal(this.app, async (deviceId, calibration) => {
+      this.settings.microphoneCalibrations[deviceId] = calibration;
+      await this.saveSettings();
+      new import_obsidian.Notice(`\u5DF2\u4FDD\u5B58\u201C${calibration.label}\u201D\u7684\u6821\u51C6\u7ED3\u679C`);
+      onSaved == null ? void 0 : onSaved();
+    }).open();
+  }
   /**
-   * 持续听写循环 - 改进版本
-   * 连续录音，只有在静默间隔后才进行语音识别，避免打断连续语音
+   * 开始或结束会议记录
    */
-  async startContinuousDictationLoop() {
-    const activeView = this.app.workspace.getActiveViewOfType(import_obsidian.MarkdownView);
-    if (!activeView) {
-      this.stopDictation();
+  toggleMeetingTranscription() {
+    if (this.meetingSession) {
+      this.meetingSession.stop();
       return;
     }
-    const editor = activeView.editor;
-    let allRecognizedText = "";
-    let lastVoiceTime = Date.now();
-    const silenceTimeoutMs = this.settings.dictationSilenceTimeout * 1e3;
-    const silenceIntervalMs = this.settings.dictationSilenceInterval * 1e3;
-    let insertPosition = editor.getCursor();
-    this.dictationAudioChunks = [];
-    this.lastVoiceDetectedTime = Date.now();
-    this.dictationTimer = window.setInterval(() => {
-      if (!this.isDictating) {
-        return;
-      }
-      const currentTime = Date.now();
-      const totalSilenceDuration = currentTime - lastVoiceTime;
-      if (totalSilenceDuration >= silenceTimeoutMs) {
-        this.debugLog(`\u6301\u7EED\u542C\u5199\u9759\u9ED8\u8D85\u65F6 ${this.settings.dictationSilenceTimeout} \u79D2\uFF0C\u81EA\u52A8\u7ED3\u675F`);
-        this.stopDictation();
-        if (allRecognizedText.trim()) {
-          this.updateStatusFloat("\u542C\u5199\u7ED3\u675F", "success", true);
-          new import_obsidian.Notice(`\u542C\u5199\u5B8C\u6210\uFF0C\u5171\u8BC6\u522B\uFF1A${allRecognizedText.trim()}`);
-        } else {
-          this.updateStatusFloat("\u542C\u5199\u7ED3\u675F", "warning", true);
-          new import_obsidian.Notice("\u542C\u5199\u7ED3\u675F\uFF0C\u672A\u8BC6\u522B\u5230\u8BED\u97F3\u5185\u5BB9");
-        }
-      }
-    }, 1e3);
-    while (this.isDictating) {
-      try {
-        const audioBlob = await this.recordAudioSegment(500);
-        const hasVoice = await this.detectVoiceInAudio(audioBlob);
-        if (hasVoice) {
-          this.dictationAudioChunks.push(audioBlob);
-          this.lastVoiceDetectedTime = Date.now();
-          lastVoiceTime = Date.now();
-          this.updateStatusFloat("\u6B63\u5728\u5F55\u97F3...", "info", false);
-          this.debugLog("\u68C0\u6D4B\u5230\u8BED\u97F3\uFF0C\u7D2F\u79EF\u97F3\u9891\u7247\u6BB5");
-          if (this.silenceCheckTimer) {
-            window.clearTimeout(this.silenceCheckTimer);
-            this.silenceCheckTimer = null;
-          }
-        } else {
-          const currentTime = Date.now();
-          const silenceDuration = currentTime - this.lastVoiceDetectedTime;
-          if (this.dictationAudioChunks.length > 0 && silenceDuration >= silenceIntervalMs) {
-            const recognizedText = await this.processAccumulatedAudio(editor, insertPosition);
-            if (recognizedText && recognizedText.trim()) {
-              allRecognizedText += recognizedText + " ";
-              const textToInsert = recognizedText + " ";
-              const newLine = insertPosition.line;
-              const newCh = insertPosition.ch + textToInsert.length;
-              insertPosition = { line: newLine, ch: newCh };
-            }
-            this.dictationAudioChunks = [];
-          }
-        }
-      } catch (error) {
-        this.debugLog("\u6301\u7EED\u542C\u5199\u5FAA\u73AF\u9519\u8BEF:", error);
-        break;
-      }
-    }
+    void this.startMeetingTranscription();
   }
   /**
-   * 处理累积的音频片段进行语音识别
-   * @returns 识别到的文本，如果没有识别到则返回空字符串
+   * 会议记录：适合长达数小时的会议。
+   * 持续录音，不因静默自动结束；按停顿分段识别，每段带 [hh:mm:ss] 时间标记和当前发言人追加到新建的会议笔记。
+   * 同时保存完整录音，时间标记链接到录音的对应时刻；录音每 10 秒追加写入一次文件，中途崩溃或重载插件只丢失最后几秒。
+   * 结束后可生成摘要、决定和行动项。
    */
-  async processAccumulatedAudio(editor, insertPosition) {
+  async startMeetingTranscription() {
     var _a;
-    if (this.dictationAudioChunks.length === 0) {
-      return "";
+    if (this.isDictating) {
+      new import_obsidian.Notice("\u6301\u7EED\u542C\u5199\u8FDB\u884C\u4E2D\uFF0C\u8BF7\u5148\u505C\u6B62\u542C\u5199");
+      return;
+    }
+    let stream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          channelCount: 1,
+          echoCancellation: true,
+          noiseSuppression: true
+        }
+      });
+    } catch (error) {
+      new import_obsidian.Notice(`\u65E0\u6CD5\u8BBF\u95EE\u9EA6\u514B\u98CE: ${getErrorMessage(error)}`);
+      return;
     }
+    let recorder = null;
+    let file;
+    let audioPath = "";
     try {
-      this.updateStatusFloat("\u6B63\u5728\u8BC6\u522B\u8BED\u97F3...", "info", false);
-      const combinedAudioBlob = new Blob(this.dictationAudioChunks, {
-        type: ((_a = this.dictationAudioChunks[0]) == null ? void 0 : _a.type) || "application/octet-stream"
-      });
-      const recognizedText = await this.speechToText(combinedAudioBlob);
-      if (recognizedText && recognizedText.trim()) {
-        const textToInsert = recognizedText + " ";
-        editor.replaceRange(textToInsert, insertPosition);
-        const newLine = insertPosition.line;
-        const newCh = insertPosition.ch + textToInsert.length;
-        editor.setCursor({ line: newLine, ch: newCh });
-        this.updateStatusFloat("\u542C\u5199\u4E2D", "info", false);
-        this.debugLog("\u6301\u7EED\u542C\u5199\u8BC6\u522B\u5230:", recognizedText);
-        return recognizedText;
+      recorder = this.settings.meetingSaveAudio ? createCompatibleMediaRecorder(stream) : null;
+      const now = /* @__PURE__ */ new Date();
+      const pad2 = (value) => String(value).padStart(2, "0");
+      const baseName = `\u4F1A\u8BAE\u8BB0\u5F55 ${now.getFullYear()}-${pad2(now.getMonth() + 1)}-${pad2(now.getDate())} ${pad2(now.getHours())}-${pad2(now.getMinutes())}`;
+      const folderPath = (0, import_obsidian.normalizePath)(this.settings.meetingSaveFolder || "voice-assistant/meetings");
+      if (!this.app.vault.getAbstractFileByPath(folderPath)) {
+        await this.app.vault.createFolder(folderPath);
       }
-      return "";
+      let name = baseName;
+      for (let counter = 1; this.app.vault.getAbstractFileByPath(`${folderPath}/${name}.md`); counter++) {
+        name = `${baseName}-${counter}`;
+      }
+      const audioName2 = recorder ? `${name}.${getAudioFileExtension(recorder.mimeType || "audio/webm")}` : "";
+      audioPath = audioName2 ? `${folderPath}/${audioName2}` : "";
+      const header = `# ${name}
+
+**\u5F00\u59CB\u65F6\u95F4\uFF1A** ${now.toLocaleString()}
+
+${audioName2 ? `![[${audioName2}]]
+
+` : ""}## \u8BB0\u5F55
+
+`;
+      file = await this.app.vault.create(`${folderPath}/${name}.md`, header);
+      if (audioPath) {
+        await this.app.vault.createBinary(audioPath, new ArrayBuffer(0));
+      }
+      await this.app.workspace.getLeaf(true).openFile(file);
     } catch (error) {
-      this.debugLog("\u5904\u7406\u7D2F\u79EF\u97F3\u9891\u9519\u8BEF:", error);
-      return "";
+      stream.getTracks().forEach((track) => track.stop());
+      new import_obsidian.Notice(`\u65E0\u6CD5\u5F00\u59CB\u4F1A\u8BAE\u8BB0\u5F55: ${getErrorMessage(error)}`);
+      return;
     }
-  }
-  /**
-   * 录制指定时长的音频片段
-   */
-  async recordAudioSegment(duration) {
-    return new Promise((resolve, reject) => {
-      navigator.mediaDevices.getUserMedia({ audio: true }).then((stream) => {
-        let mediaRecorder;
+    let resolveStop = () => void 0;
+    const stopped = new Promise((resolve) => {
+      resolveStop = resolve;
+    });
+    const session = {
+      file,
+      speaker: "",
+      entries: [],
+      startedAt: Date.now(),
+      segmenter: null,
+      stop: () => resolveStop()
+    };
+    this.meetingSession = session;
+    const audioName = (_a = audioPath.split("/").pop()) != null ? _a : "";
+    let transcription = Promise.resolve();
+    const transcribe = (pcm, startSample, speaker) => {
+      const wav = pcmToWav(new Uint8Array(pcm.buffer), ASR_SAMPLE_RATE, 1, 16);
+      const audioBlob = new Blob([wav], { type: "audio/wav" });
+      transcription = transcription.then(async () => {
+        let text;
         try {
-          mediaRecorder = createCompatibleMediaRecorder(stream);
-        } catch (error) {
-          stream.getTracks().forEach((track) => track.stop());
-          throw normalizeError(error, "\u65E0\u6CD5\u521B\u5EFA\u5F55\u97F3\u5668");
-        }
-        const audioChunks = [];
-        mediaRecorder.ondataavailable = (event) => {
-          if (event.data.size > 0) {
-            audioChunks.push(event.data);
+          text = await this.speechToText(audioBlob, "\u4F1A\u8BAE");
+          if (!text.trim()) {
+            return;
           }
-        };
-        mediaRecorder.onstop = () => {
-          var _a;
-          const audioBlob = new Blob(audioChunks, {
-            type: mediaRecorder.mimeType || ((_a = audioChunks[0]) == null ? void 0 : _a.type) || "application/octet-stream"
-          });
-          stream.getTracks().forEach((track) => track.stop());
-          resolve(audioBlob);
-        };
-        mediaRecorder.onerror = (error) => {
-          stream.getTracks().forEach((track) => track.stop());
-          reject(normalizeError(error, "\u5F55\u97F3\u8FC7\u7A0B\u51FA\u9519"));
-        };
-        mediaRecorder.start();
-        window.setTimeout(() => {
-          if (mediaRecorder.state === "recording") {
-            mediaRecorder.stop();
+          if (this.settings.normalizeDictationText) {
+            text = normalizeTranscript(text, this.settings.textNormalization);
           }
-        }, duration);
-      }).catch((error) => reject(normalizeError(error, "\u65E0\u6CD5\u8BBF\u95EE\u9EA6\u514B\u98CE")));
+        } catch (error) {
+          this.debugLog("\u4F1A\u8BAE\u8BB0\u5F55\u8BC6\u522B\u5931\u8D25:", error);
+          this.updateStatusFloat(`\u8BC6\u522B\u5931\u8D25: ${getErrorMessage(error)}`, "warning", false);
+          text = "\uFF08\u8BC6\u522B\u5931\u8D25\uFF0C\u8BF7\u56DE\u653E\u5F55\u97F3\uFF09";
+        }
+        if (!text.trim()) {
+          return;
+        }
+        const entry = { start: startSample / ASR_SAMPLE_RATE, speaker, text };
+        session.entries.push(entry);
+        try {
+          await this.app.vault.process(file, (data) => data + formatMeetingParagraph(entry, audioName));
+        } catch (error) {
+          this.debugLog("\u5199\u5165\u4F1A\u8BAE\u8BB0\u5F55\u5931\u8D25:", error);
+        }
+      });
+    };
+    const windowMs = DICTATION_VAD_WINDOW_SAMPLES / ASR_SAMPLE_RATE * 1e3;
+    const vad = this.createVoiceActivityDetector(stream);
+    const segmenter = new UtteranceSegmenter({
+      preRollSamples: DICTATION_VAD_WINDOW_SAMPLES * DICTATION_PREROLL_WINDOWS,
+      silenceWindows: Math.ceil(this.settings.dictationSilenceInterval * 1e3 / windowMs),
+      maxWindows: MEETING_MAX_UTTERANCE_WINDOWS,
+      onUtterance: (pcm, startSample) => transcribe(pcm, startSample, session.speaker)
     });
-  }
-  /**
-   * 检测音频中是否包含语音
-   * 改进的语音活动检测算法，结合音量、频率分析和能量分布
-   */
-  async detectVoiceInAudio(audioBlob) {
-    return new Promise((resolve) => {
-      const audioContext = new AudioContext();
-      const fileReader = new FileReader();
-      fileReader.onload = () => {
-        const arrayBuffer = fileReader.result;
-        audioContext.decodeAudioData(arrayBuffer).then((audioBuffer) => {
-          const channelData = audioBuffer.getChannelData(0);
-          const sampleRate = audioBuffer.sampleRate;
-          let sum = 0;
-          let maxAmplitude = 0;
-          for (let i = 0; i < channelData.length; i++) {
-            const amplitude = Math.abs(channelData[i]);
-            sum += amplitude;
-            maxAmplitude = Math.max(maxAmplitude, amplitude);
-          }
-          const averageVolume = sum / channelData.length;
-          const volumeThreshold = this.settings.voiceDetectionThreshold / 1e3;
-          if (averageVolume < volumeThreshold) {
-            resolve(false);
+    session.segmenter = segmenter;
+    const adapter = this.app.vault.adapter;
+    const canAppend = typeof adapter.appendBinary === "function";
+    const chunks = [];
+    let audioWrites = Promise.resolve();
+    let audioWriteFailed = false;
+    let stopCapture;
+    try {
+      if (recorder) {
+        recorder.ondataavailable = (event) => {
+          const data = event.data;
+          if (data.size === 0) {
             return;
           }
-          const dynamicRange = maxAmplitude / (averageVolume + 1e-3);
-          let zeroCrossings = 0;
-          for (let i = 1; i < channelData.length; i++) {
-            if (channelData[i] >= 0 !== channelData[i - 1] >= 0) {
-              zeroCrossings++;
+          audioWrites = audioWrites.then(async () => {
+            if (canAppend) {
+              await adapter.appendBinary(audioPath, await data.arrayBuffer());
+            } else {
+              chunks.push(data);
+              await adapter.writeBinary(audioPath, await new Blob(chunks).arrayBuffer());
             }
-          }
-          const zeroCrossingRate = zeroCrossings / channelData.length;
-          const frameSize = Math.floor(sampleRate * 0.025);
-          const frameCount = Math.floor(channelData.length / frameSize);
-          let energyVariance = 0;
-          let frameEnergies = [];
-          for (let frame = 0; frame < frameCount; frame++) {
-            let frameEnergy = 0;
-            const startIdx = frame * frameSize;
-            const endIdx = Math.min(startIdx + frameSize, channelData.length);
-            for (let i = startIdx; i < endIdx; i++) {
-              frameEnergy += channelData[i] * channelData[i];
+          }).catch((error) => {
+            this.debugLog("\u4FDD\u5B58\u4F1A\u8BAE\u5F55\u97F3\u5931\u8D25:", error);
+            if (!audioWriteFailed) {
+              audioWriteFailed = true;
+              new import_obsidian.Notice(`\u4FDD\u5B58\u4F1A\u8BAE\u5F55\u97F3\u5931\u8D25: ${getErrorMessage(error)}`);
             }
-            frameEnergy = Math.sqrt(frameEnergy / (endIdx - startIdx));
-            frameEnergies.push(frameEnergy);
-          }
-          if (frameEnergies.length > 1) {
-            const meanEnergy = frameEnergies.reduce((a, b) => a + b, 0) / frameEnergies.length;
-            energyVariance = frameEnergies.reduce((acc, energy) => acc + Math.pow(energy - meanEnergy, 2), 0) / frameEnergies.length;
-          }
-          const hasVoice = this.evaluateVoiceActivity(
-            averageVolume,
-            volumeThreshold,
-            dynamicRange,
-            zeroCrossingRate,
-            energyVariance,
-            maxAmplitude
-          );
-          this.debugLog(`\u8BED\u97F3\u68C0\u6D4B\u7ED3\u679C: ${hasVoice}, \u97F3\u91CF: ${averageVolume.toFixed(4)}, \u52A8\u6001\u8303\u56F4: ${dynamicRange.toFixed(2)}, \u96F6\u4EA4\u53C9\u7387: ${zeroCrossingRate.toFixed(4)}, \u80FD\u91CF\u65B9\u5DEE: ${energyVariance.toFixed(6)}`);
-          resolve(hasVoice);
-        }).catch((error) => {
-          this.debugLog("\u97F3\u9891\u89E3\u7801\u5931\u8D25:", error);
-          resolve(true);
-        });
-      };
-      fileReader.onerror = () => {
-        this.debugLog("\u97F3\u9891\u6587\u4EF6\u8BFB\u53D6\u5931\u8D25");
-        resolve(true);
-      };
-      fileReader.readAsArrayBuffer(audioBlob);
+          });
+        };
+        recorder.start(1e4);
+      }
+      stopCapture = await startPcmFrameCapture(stream, DICTATION_VAD_WINDOW_SAMPLES, (frame) => {
+        segmenter.push(frame, vad.process(pcm16ToFloat32(frame)));
+      });
+    } catch (error) {
+      if (recorder && recorder.state !== "inactive") {
+        recorder.stop();
+      }
+      stream.getTracks().forEach((track) => track.stop());
+      this.meetingSession = null;
+      new import_obsidian.Notice(`\u65E0\u6CD5\u542F\u52A8\u97F3\u9891\u91C7\u96C6: ${getErrorMessage(error)}`);
+      return;
+    }
+    this.showStatusFloat();
+    this.showMeetingControls();
+    this.updateStatusFloat("\u4F1A\u8BAE\u8BB0\u5F55\u4E2D\uFF0C\u70B9\u51FB\u53D1\u8A00\u4EBA\u6309\u94AE\u6807\u8BB0\u5F53\u524D\u53D1\u8A00\u4EBA", "info", false);
+    const clock = window.setInterval(() => this.updateMeetingClock(), 1e3);
+    await stopped;
+    window.clearInterval(clock);
+    segmenter.flush();
+    stopCapture();
+    session.segmenter = null;
+    this.meetingSession = null;
+    this.hideMeetingControls();
+    this.updateStatusFloat("\u4F1A\u8BAE\u7ED3\u675F\uFF0C\u6B63\u5728\u6574\u7406\u8BB0\u5F55...", "info", false);
+    if (recorder) {
+      await this.stopMediaRecorder(recorder);
+    }
+    stream.getTracks().forEach((track) => track.stop());
+    await audioWrites;
+    await transcription;
+    if (this.settings.meetingSummaryEnabled && session.entries.length > 0) {
+      this.updateStatusFloat("\u6B63\u5728\u751F\u6210\u4F1A\u8BAE\u603B\u7ED3...", "info", false);
+      try {
+        const summary = await this.callLLM(buildMeetingSummaryPrompt(session.entries));
+        await this.app.vault.process(file, (data) => `${data.trimEnd()}
+
+## \u4F1A\u8BAE\u603B\u7ED3
+
+${summary.trim()}
+`);
+      } catch (error) {
+        this.debugLog("\u751F\u6210\u4F1A\u8BAE\u603B\u7ED3\u5931\u8D25:", error);
+        new import_obsidian.Notice(`\u751F\u6210\u4F1A\u8BAE\u603B\u7ED3\u5931\u8D25: ${getErrorMessage(error)}`);
+      }
+    }
+    this.updateStatusFloat(`\u4F1A\u8BAE\u8BB0\u5F55\u5DF2\u4FDD\u5B58\uFF1A${file.path}`, "success");
+  }
+  /** 停止录音器，等最后一块录音交给 ondataavailable 后返回 */
+  stopMediaRecorder(recorder) {
+    return new Promise((resolve) => {
+      if (recorder.state === "inactive") {
+        resolve();
+        return;
+      }
+      recorder.onstop = () => resolve();
+      recorder.stop();
     });
   }
   /**
-   * 综合评估语音活动
-   * @param averageVolume 平均音量
-   * @param volumeThreshold 音量阈值
-   * @param dynamicRange 动态范围
-   * @param zeroCrossingRate 零交叉率
-   * @param energyVariance 能量方差
-   * @param maxAmplitude 最大振幅
-   * @returns 是否检测到语音
+   * 切换当前发言人。正在说的一段先按原发言人结束，之后的转写标记为新的发言人；再次点击当前发言人取消标记
    */
-  evaluateVoiceActivity(averageVolume, volumeThreshold, dynamicRange, zeroCrossingRate, energyVariance, maxAmplitude) {
-    if (averageVolume < volumeThreshold) {
-      return false;
-    }
-    if (averageVolume > volumeThreshold * 3) {
-      return true;
-    }
-    let voiceScore = 0;
-    if (dynamicRange > 2 && dynamicRange < 20) {
-      voiceScore += 2;
-    } else if (dynamicRange > 1.5) {
-      voiceScore += 1;
-    }
-    if (zeroCrossingRate > 0.01 && zeroCrossingRate < 0.3) {
-      voiceScore += 2;
-    } else if (zeroCrossingRate > 5e-3 && zeroCrossingRate < 0.5) {
-      voiceScore += 1;
-    }
-    if (energyVariance > 1e-4) {
-      voiceScore += 1;
-    }
-    if (maxAmplitude > volumeThreshold * 2) {
-      voiceScore += 1;
-    }
-    return voiceScore >= 3;
+  setMeetingSpeaker(speaker) {
+    var _a, _b;
+    const session = this.meetingSession;
+    if (!session) return;
+    (_a = session.segmenter) == null ? void 0 : _a.flush();
+    session.speaker = session.speaker === speaker ? "" : speaker;
+    (_b = this.statusFloat) == null ? void 0 : _b.querySelectorAll(".meeting-speaker-btn").forEach((button) => {
+      button.toggleClass("is-pressed", button.textContent === session.speaker);
+    });
   }
   /**
    * 停止听写
    */
   stopDictation() {
+    var _a, _b;
     this.isDictating = false;
     if (this.dictationTimer) {
       window.clearInterval(this.dictationTimer);
       this.dictationTimer = null;
     }
+    (_a = this.streamingAsrSession) == null ? void 0 : _a.finish();
+    (_b = this.resolveDictationStop) == null ? void 0 : _b.call(this);
     this.hideDictationControls();
     if (this.mediaRecorder && this.mediaRecorder.state === "recording") {
       this.mediaRecorder.stop();
@@ -779,51 +3931,525 @@ var VoiceAssistantPlugin = class extends import_obsidian.Plugin {
             this.audioChunks.push(event.data);
           }
         };
+        let stopCapture = null;
+        let noSpeechTimer = 0;
+        let maxDurationTimer = 0;
+        const releaseDetection = () => {
+          window.clearTimeout(noSpeechTimer);
+          window.clearTimeout(maxDurationTimer);
+          stopCapture == null ? void 0 : stopCapture();
+          stopCapture = null;
+        };
+        const stopRecorder = () => {
+          if (mediaRecorder.state !== "inactive") {
+            mediaRecorder.stop();
+          }
+        };
         mediaRecorder.onstop = () => {
           var _a;
           const audioBlob = new Blob(this.audioChunks, {
             type: mediaRecorder.mimeType || ((_a = this.audioChunks[0]) == null ? void 0 : _a.type) || "application/octet-stream"
           });
+          releaseDetection();
           stream.getTracks().forEach((track) => track.stop());
           this.isRecording = false;
           this.debugLog("\u5F55\u97F3\u5B8C\u6210\uFF0C\u97F3\u9891\u5927\u5C0F:", audioBlob.size, "\u5B57\u8282");
           resolve(audioBlob);
         };
         mediaRecorder.onerror = (event) => {
+          releaseDetection();
           stream.getTracks().forEach((track) => track.stop());
           this.isRecording = false;
           reject(normalizeError(event, "\u5F55\u97F3\u8FC7\u7A0B\u51FA\u9519"));
         };
         mediaRecorder.start();
-        window.setTimeout(() => {
-          if (this.mediaRecorder && this.isRecording) {
-            this.mediaRecorder.stop();
+        let heardSpeech = false;
+        const vad = this.createVoiceActivityDetector(stream, { hangoverMs: CONVERSATION_END_OF_TURN_MS });
+        noSpeechTimer = window.setTimeout(() => {
+          if (!heardSpeech) {
+            stopRecorder();
+          }
+        }, CONVERSATION_NO_SPEECH_TIMEOUT_MS);
+        maxDurationTimer = window.setTimeout(stopRecorder, CONVERSATION_MAX_RECORDING_MS);
+        startPcmFrameCapture(stream, VAD_CHUNK_SAMPLES, (frame) => {
+          if (vad.process(pcm16ToFloat32(frame))) {
+            heardSpeech = true;
+          } else if (heardSpeech) {
+            this.debugLog("\u68C0\u6D4B\u5230\u8BF4\u8BDD\u7ED3\u675F\uFF0C\u505C\u6B62\u5F55\u97F3");
+            stopRecorder();
+          }
+        }).then((stop) => {
+          if (mediaRecorder.state === "inactive") {
+            stop();
+          } else {
+            stopCapture = stop;
           }
-        }, 5e3);
+        }).catch((error) => {
+          this.debugLog("\u65E0\u6CD5\u542F\u52A8\u8BF4\u8BDD\u7ED3\u675F\u68C0\u6D4B\uFF0C\u6309\u56FA\u5B9A\u65F6\u957F\u5F55\u97F3:", error);
+        });
       }).catch(reject);
     });
   }
   /**
-   * 语音转文字
+   * 选择要转写的音频附件
+   * 当前打开的就是音频文件时直接转写；否则从仓库中的音频附件里选择，并插入到当前笔记的光标处
+   */
+  chooseAudioFileToTranscribe() {
+    const activeFile = this.app.workspace.getActiveFile();
+    if (activeFile && isTranscribableAudio(activeFile)) {
+      void this.transcribeAudioFile(activeFile);
+      return;
+    }
+    const audioFiles = this.app.vault.getFiles().filter(isTranscribableAudio);
+    if (audioFiles.length === 0) {
+      new import_obsidian.Notice("\u4ED3\u5E93\u4E2D\u6CA1\u6709\u53EF\u8F6C\u5199\u7684\u97F3\u9891\u6587\u4EF6\uFF08mp3\u3001wav\u3001webm\u3001m4a\uFF09");
+      return;
+    }
+    const targetView = this.app.workspace.getActiveViewOfType(import_obsidian.MarkdownView);
+    new AudioFileSuggestModal(this.app, audioFiles, (file) => {
+      void this.transcribeAudioFile(file, targetView != null ? targetView : void 0);
+    }).open();
+  }
+  /**
+   * 转写音频附件
+   * 转写结果连同音频嵌入链接插入到指定笔记的光标处；未指定笔记时在音频所在文件夹新建转写笔记
+   * @param file 音频附件
+   * @param targetView 插入转写结果的笔记视图
+   */
+  async transcribeAudioFile(file, targetView) {
+    var _a, _b;
+    this.showStatusFloat();
+    this.updateStatusFloat(`\u6B63\u5728\u8F6C\u5199 ${file.name}...`, "info", false);
+    try {
+      const text = await this.recognizeAudioFile(file);
+      if (!text.trim()) {
+        this.updateStatusFloat(`${file.name} \u4E2D\u672A\u8BC6\u522B\u5230\u8BED\u97F3\u5185\u5BB9`, "warning");
+        return;
+      }
+      if (targetView == null ? void 0 : targetView.file) {
+        const link = this.app.fileManager.generateMarkdownLink(file, targetView.file.path);
+        targetView.editor.replaceSelection(`!${link}
+
+${text.trim()}
+`);
+      } else {
+        const notePath = await this.createAudioTranscriptNote(file, text.trim(), (_b = (_a = file.parent) == null ? void 0 : _a.path) != null ? _b : "");
+        new import_obsidian.Notice(`\u8F6C\u5199\u5B8C\u6210\uFF1A${notePath}`);
+      }
+      this.updateStatusFloat(`${file.name} \u8F6C\u5199\u5B8C\u6210`, "success");
+    } catch (error) {
+      this.debugLog("\u97F3\u9891\u6587\u4EF6\u8F6C\u5199\u5931\u8D25:", error);
+      this.updateStatusFloat(`\u8F6C\u5199\u5931\u8D25: ${getErrorMessage(error)}`, "error");
+      new import_obsidian.Notice(`\u8F6C\u5199 ${file.name} \u5931\u8D25: ${getErrorMessage(error)}`);
+    }
+  }
+  /** 读取音频附件并识别为文字 */
+  async recognizeAudioFile(file) {
+    const data = await this.app.vault.readBinary(file);
+    const audioBlob = new Blob([data], { type: TRANSCRIBABLE_AUDIO_TYPES[file.extension.toLowerCase()] });
+    return this.speechToText(audioBlob, "\u97F3\u9891\u6587\u4EF6");
+  }
+  /**
+   * 新建转写笔记，笔记开头嵌入原音频
+   * @param folderPath 笔记所在文件夹，不存在时自动创建
+   * @param openNote 是否在新标签页打开笔记
+   * @returns 新建笔记的路径
+   */
+  async createAudioTranscriptNote(audioFile, text, folderPath, openNote = true) {
+    const normalizedFolder = folderPath && folderPath !== "/" ? (0, import_obsidian.normalizePath)(folderPath) : "";
+    if (normalizedFolder && !this.app.vault.getAbstractFileByPath(normalizedFolder)) {
+      await this.app.vault.createFolder(normalizedFolder);
+    }
+    const prefix = normalizedFolder ? `${normalizedFolder}/` : "";
+    let notePath = (0, import_obsidian.normalizePath)(`${prefix}${audioFile.basename} \u8F6C\u5199.md`);
+    let counter = 1;
+    while (this.app.vault.getAbstractFileByPath(notePath)) {
+      notePath = (0, import_obsidian.normalizePath)(`${prefix}${audioFile.basename} \u8F6C\u5199-${counter}.md`);
+      counter++;
+    }
+    const link = this.app.fileManager.generateMarkdownLink(audioFile, notePath);
+    const noteFile = await this.app.vault.create(notePath, `!${link}
+
+${text}
+`);
+    if (openNote) {
+      await this.app.workspace.getLeaf(true).openFile(noteFile);
+    }
+    this.debugLog(`\u97F3\u9891\u8F6C\u5199\u5DF2\u4FDD\u5B58\u5230\u6587\u4EF6: ${notePath}`);
+    return notePath;
+  }
+  /**
+   * 收件箱中出现新音频时加入自动转写队列
+   * 新建和移入收件箱文件夹都会触发；已在队列中的文件不会重复加入
+   */
+  async enqueueInboxAudio(file) {
+    const inbox = this.settings.audioInboxFolder.trim();
+    if (!this.settings.autoTranscribeEnabled || !inbox || !isTranscribableAudio(file)) {
+      return;
+    }
+    if (!file.path.startsWith(`${(0, import_obsidian.normalizePath)(inbox)}/`)) {
+      return;
+    }
+    if (this.settings.transcriptionQueue.some((job) => job.path === file.path)) {
+      return;
+    }
+    this.settings.transcriptionQueue.push({ path: file.path, attempts: 0, nextAttemptAt: 0, status: "pending" });
+    await this.saveSettings();
+    this.debugLog("\u97F3\u9891\u5DF2\u52A0\u5165\u81EA\u52A8\u8F6C\u5199\u961F\u5217:", file.path);
+    await this.processTranscriptionQueue();
+  }
+  /**
+   * 依次处理自动转写队列
+   * 失败的任务按 30 秒起倍增的间隔重试，达到上限后标记为失败，等待用户手动重试
+   */
+  async processTranscriptionQueue() {
+    if (this.isProcessingTranscriptionQueue) {
+      return;
+    }
+    this.isProcessingTranscriptionQueue = true;
+    if (this.transcriptionRetryTimer) {
+      window.clearTimeout(this.transcriptionRetryTimer);
+      this.transcriptionRetryTimer = null;
+    }
+    try {
+      let job;
+      while (job = this.settings.transcriptionQueue.find((item) => item.status === "pending" && item.nextAttemptAt <= Date.now())) {
+        await this.runTranscriptionJob(job);
+        await this.saveSettings();
+      }
+    } finally {
+      this.isProcessingTranscriptionQueue = false;
+    }
+    const waiting = this.settings.transcriptionQueue.filter((item) => item.status === "pending");
+    if (waiting.length > 0) {
+      const nextAttemptAt = Math.min(...waiting.map((item) => item.nextAttemptAt));
+      this.transcriptionRetryTimer = window.setTimeout(() => {
+        this.transcriptionRetryTimer = null;
+        void this.processTranscriptionQueue();
+      }, Math.max(1e3, nextAttemptAt - Date.now()));
+    }
+  }
+  /** 执行一个自动转写任务，成功后移出队列 */
+  async runTranscriptionJob(job) {
+    var _a, _b;
+    const queue = this.settings.transcriptionQueue;
+    const removeJob = () => queue.splice(queue.indexOf(job), 1);
+    const file = this.app.vault.getAbstractFileByPath(job.path);
+    if (!(file instanceof import_obsidian.TFile)) {
+      this.debugLog("\u81EA\u52A8\u8F6C\u5199\u7684\u97F3\u9891\u5DF2\u4E0D\u5B58\u5728\uFF0C\u79FB\u51FA\u961F\u5217:", job.path);
+      removeJob();
+      return;
+    }
+    const remaining = queue.filter((item) => item.status === "pending").length;
+    this.updateStatusFloat(`\u81EA\u52A8\u8F6C\u5199 ${file.name}\uFF08\u961F\u5217\u5269\u4F59 ${remaining}\uFF09`, "info", false);
+    try {
+      const text = await this.recognizeAudioFile(file);
+      const transcript = text.trim();
+      const folder = this.settings.transcriptFolder.trim() || ((_b = (_a = file.parent) == null ? void 0 : _a.path) != null ? _b : "");
+      await this.createAudioTranscriptNote(file, transcript || "\uFF08\u672A\u8BC6\u522B\u5230\u8BED\u97F3\u5185\u5BB9\uFF09", folder, false);
+      removeJob();
+      this.updateStatusFloat(`${file.name} \u81EA\u52A8\u8F6C\u5199\u5B8C\u6210`, "success");
+    } catch (error) {
+      job.attempts++;
+      job.error = getErrorMessage(error);
+      if (job.attempts >= TRANSCRIPTION_MAX_ATTEMPTS) {
+        job.status = "failed";
+        new import_obsidian.Notice(`\u81EA\u52A8\u8F6C\u5199 ${file.name} \u5931\u8D25: ${job.error}`);
+      } else {
+        job.nextAttemptAt = Date.now() + 3e4 * Math.pow(2, job.attempts - 1);
+      }
+      this.debugLog(`\u81EA\u52A8\u8F6C\u5199\u5931\u8D25\uFF08\u7B2C ${job.attempts} \u6B21\uFF09:`, job.path, error);
+      this.updateStatusFloat(`\u81EA\u52A8\u8F6C\u5199\u5931\u8D25: ${job.error}`, "error");
+    }
+  }
+  /** 把失败的自动转写任务重新放回队列 */
+  retryFailedTranscriptions() {
+    const failedJobs = this.settings.transcriptionQueue.filter((job) => job.status === "failed");
+    if (failedJobs.length === 0) {
+      new import_obsidian.Notice("\u6CA1\u6709\u5931\u8D25\u7684\u81EA\u52A8\u8F6C\u5199\u4EFB\u52A1");
+      return;
+    }
+    for (const job of failedJobs) {
+      job.status = "pending";
+      job.attempts = 0;
+      job.nextAttemptAt = 0;
+      delete job.error;
+    }
+    new import_obsidian.Notice(`\u5DF2\u91CD\u65B0\u52A0\u5165 ${failedJobs.length} \u4E2A\u8F6C\u5199\u4EFB\u52A1`);
+    void this.saveSettings().then(() => this.processTranscriptionQueue());
+  }
+  /**
+   * 语音转文字，未识别到语音时返回空字符串
+   * @param source 录音来源，显示在音频预处理的调试视图中
+   * @param preprocess 录音是否需要预处理；暂存时已处理过的录音和唤醒片段不处理
    */
-  async speechToText(audioBlob) {
+  async speechToText(audioBlob, source, preprocess = true) {
+    const audio = preprocess ? await this.preprocessForAsr(audioBlob, source) : { blob: audioBlob, pcm16: null };
+    let text;
     switch (this.settings.asrProvider) {
+      case "openai":
+        text = await this.openaiCompatibleASR(audio.blob);
+        break;
+      case "vosk":
+        text = await this.voskASR(audio.blob, audio.pcm16);
+        break;
       case "xunfei":
       default:
-        return this.xunfeiOnlineASR(audioBlob);
+        text = await this.xunfeiOnlineASR(audio.blob, audio.pcm16);
+        break;
+    }
+    return this.applyVocabulary(text);
+  }
+  /**
+   * 识别前的音频预处理：解码为 16kHz PCM，按设置做高通滤波、噪声门、自动增益和峰值归一化后重新封装为 WAV。
+   * 未开启、文件过大、录音过长或处理失败时返回原始录音，不影响识别；已经解码的 PCM 一并返回，识别时不再重复解码。
+   */
+  async preprocessForAsr(audioBlob, source) {
+    if (!this.settings.audioProcessingEnabled || audioBlob.size === 0 || audioBlob.size > AUDIO_PROCESSING_MAX_BYTES) {
+      return { blob: audioBlob, pcm16: null };
+    }
+    const cached = this.processedAudio.get(audioBlob);
+    if (cached) {
+      return cached;
+    }
+    let decoded;
+    try {
+      decoded = await this.decodeToPCM(audioBlob);
+    } catch (error) {
+      this.debugLog("\u97F3\u9891\u9884\u5904\u7406\u89E3\u7801\u5931\u8D25\uFF0C\u4F7F\u7528\u539F\u59CB\u5F55\u97F3:", error);
+      return { blob: audioBlob, pcm16: null };
+    }
+    if (decoded.length === 0 || decoded.length > AUDIO_PROCESSING_MAX_SECONDS * ASR_SAMPLE_RATE) {
+      return { blob: audioBlob, pcm16: decoded };
+    }
+    const samples = pcm16ToFloat32(decoded);
+    const processed = processAudioClip(samples, ASR_SAMPLE_RATE, this.settings.audioProcessing);
+    this.recordAudioLevels(source, measureLevels(samples), measureLevels(processed));
+    const pcm16 = downsampleToPcm16(processed, ASR_SAMPLE_RATE);
+    const wav = pcmToWav(new Uint8Array(pcm16.buffer), ASR_SAMPLE_RATE, 1, 16);
+    const result = { blob: new Blob([wav], { type: "audio/wav" }), pcm16 };
+    this.processedAudio.set(audioBlob, result);
+    return result;
+  }
+  /**
+   * 记录一次音频预处理前后的电平，只保留最近几次
+   */
+  recordAudioLevels(source, before, after) {
+    this.audioLevelHistory.push({ time: Date.now(), source, before, after });
+    if (this.audioLevelHistory.length > AUDIO_LEVEL_HISTORY_SIZE) {
+      this.audioLevelHistory.shift();
+    }
+    this.debugLog(`\u97F3\u9891\u9884\u5904\u7406\uFF08${source}\uFF09: \u5CF0\u503C ${before.peak.toFixed(1)} \u2192 ${after.peak.toFixed(1)} dBFS\uFF0CRMS ${before.rms.toFixed(1)} \u2192 ${after.rms.toFixed(1)} dBFS`);
+  }
+  /**
+   * 打开音频预处理电平的调试视图
+   */
+  openAudioLevelsView() {
+    const modal = new import_obsidian.Modal(this.app);
+    modal.titleEl.setText("\u97F3\u9891\u9884\u5904\u7406\u7535\u5E73");
+    const format = (db) => db <= -120 ? "-\u221E" : db.toFixed(1);
+    const render = () => {
+      const { contentEl } = modal;
+      contentEl.empty();
+      new import_obsidian.Setting(contentEl).setDesc(this.settings.audioProcessingEnabled ? "\u6700\u8FD1\u51E0\u6B21\u8BC6\u522B\u524D\u7684\u5CF0\u503C\u548C RMS \u7535\u5E73\uFF08dBFS\uFF09\uFF0C\u5904\u7406\u540E\u8BF4\u8BDD\u7684 RMS \u5E94\u63A5\u8FD1\u81EA\u52A8\u589E\u76CA\u7684\u76EE\u6807\u7535\u5E73" : "\u97F3\u9891\u9884\u5904\u7406\u672A\u5F00\u542F\uFF0C\u8BC6\u522B\u4F7F\u7528\u539F\u59CB\u5F55\u97F3").addButton((button) => button.setButtonText("\u5237\u65B0").onClick(render));
+      if (this.audioLevelHistory.length === 0) {
+        contentEl.createEl("p", { text: "\u8FD8\u6CA1\u6709\u9884\u5904\u7406\u8BB0\u5F55\uFF0C\u542C\u5199\u6216\u5BF9\u8BDD\u4E00\u6B21\u540E\u518D\u67E5\u770B" });
+        return;
+      }
+      const table = contentEl.createEl("table", { cls: "voice-assistant-audio-levels" });
+      const header = table.createEl("tr");
+      for (const title of ["\u65F6\u95F4", "\u6765\u6E90", "\u5904\u7406\u524D\u5CF0\u503C", "\u5904\u7406\u524D RMS", "\u5904\u7406\u540E\u5CF0\u503C", "\u5904\u7406\u540E RMS"]) {
+        header.createEl("th", { text: title });
+      }
+      for (const record of [...this.audioLevelHistory].reverse()) {
+        const row = table.createEl("tr");
+        row.createEl("td", { text: new Date(record.time).toLocaleTimeString() });
+        row.createEl("td", { text: record.source });
+        for (const level of [record.before.peak, record.before.rms, record.after.peak, record.after.rms]) {
+          row.createEl("td", { text: format(level) });
+        }
+      }
+    };
+    render();
+    modal.open();
+  }
+  /**
+   * 语音唤醒专用ASR
+   * 与听写、对话使用同一个 ASR 提供商，便于在无讯飞凭据或需本地转写时启用唤醒
+   */
+  async speechToTextForWakeup(audioBlob) {
+    return this.speechToText(audioBlob, "\u5524\u9192", false);
+  }
+  /**
+   * Vosk 本地语音识别
+   * 将录音解码为 16kHz PCM 后分块发送到本地 Vosk WebSocket 服务，音频不会离开本机
+   * @param decoded 预处理时已解码的 PCM，为 null 时从录音解码
+   */
+  async voskASR(audioBlob, decoded = null) {
+    const pcm16 = decoded != null ? decoded : await this.decodeToPCM(audioBlob);
+    const session = this.startVoskStreamingASR(() => void 0, false);
+    const chunkSamples = ASR_SAMPLE_RATE / 2;
+    for (let offset = 0; offset < pcm16.length; offset += chunkSamples) {
+      session.push(pcm16.subarray(offset, offset + chunkSamples));
+    }
+    session.finish();
+    const text = await session.result;
+    this.debugLog("Vosk \u8BC6\u522B\u7ED3\u679C:", text);
+    return text;
+  }
+  /**
+   * Vosk 流式语音识别
+   * 协议：先发送采样率配置，再发送二进制 PCM，最后发送 eof；服务端持续返回 partial 与 text 结果。
+   * @param onPartial 中间结果回调
+   * @param endAfterUtterance 为 true 时在第一句最终结果返回后结束会话，供听写逐句插入
+   */
+  startVoskStreamingASR(onPartial, endAfterUtterance) {
+    const url = this.settings.voskServerUrl.trim();
+    if (!url) {
+      throw new Error("\u8BF7\u5148\u914D\u7F6E Vosk \u670D\u52A1\u5730\u5740");
+    }
+    const ws = new WebSocket(url);
+    ws.binaryType = "arraybuffer";
+    const pendingFrames = [];
+    const utterances = [];
+    let isFinishing = false;
+    let isClosed = false;
+    let settle = () => void 0;
+    let fail = () => void 0;
+    const result = new Promise((resolve, reject) => {
+      settle = (text) => {
+        isClosed = true;
+        resolve(text);
+      };
+      fail = (error) => {
+        isClosed = true;
+        reject(error);
+      };
+    });
+    const currentText = (partial = "") => normalizeVoskText([...utterances, partial].join(" "));
+    const sendFrame = (frame) => {
+      ws.send(frame.slice().buffer);
+    };
+    ws.onopen = () => {
+      this.debugLog("Vosk WebSocket \u8FDE\u63A5\u5DF2\u5EFA\u7ACB");
+      ws.send(JSON.stringify({ config: { sample_rate: ASR_SAMPLE_RATE } }));
+      for (const frame of pendingFrames.splice(0)) {
+        sendFrame(frame);
+      }
+      if (isFinishing) {
+        ws.send(VOSK_EOF_MESSAGE);
+      }
+    };
+    ws.onmessage = (event) => {
+      try {
+        const data = parseJsonResponse(String(event.data));
+        if (typeof data.text === "string") {
+          const utterance = normalizeVoskText(data.text);
+          if (!utterance) {
+            return;
+          }
+          utterances.push(utterance);
+          onPartial(currentText());
+          if (endAfterUtterance) {
+            ws.close();
+            settle(currentText());
+          }
+        } else if (data.partial) {
+          onPartial(currentText(data.partial));
+        }
+      } catch (error) {
+        ws.close();
+        fail(normalizeError(error, "\u89E3\u6790 Vosk \u54CD\u5E94\u5931\u8D25"));
+      }
+    };
+    ws.onerror = (error) => {
+      this.debugLog("Vosk WebSocket\u9519\u8BEF:", error);
+      fail(new Error(`\u65E0\u6CD5\u8FDE\u63A5 Vosk \u670D\u52A1: ${url}`));
+    };
+    ws.onclose = () => {
+      settle(currentText());
+    };
+    return {
+      result,
+      push: (frame) => {
+        if (isClosed || isFinishing) {
+          return false;
+        }
+        if (ws.readyState === WebSocket.OPEN) {
+          sendFrame(frame);
+        } else {
+          pendingFrames.push(frame);
+        }
+        return true;
+      },
+      finish: () => {
+        if (isClosed || isFinishing) {
+          return;
+        }
+        isFinishing = true;
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.send(VOSK_EOF_MESSAGE);
+        }
+      },
+      cancel: () => {
+        ws.close();
+        settle("");
+      }
+    };
+  }
+  /**
+   * OpenAI 兼容语音识别
+   * 将录音原样上传到 /audio/transcriptions，可对接 OpenAI、whisper.cpp、faster-whisper 等服务
+   */
+  async openaiCompatibleASR(audioBlob) {
+    const baseUrl = this.settings.openaiAsrBaseUrl.trim().replace(/\/+$/, "");
+    if (!baseUrl) {
+      throw new Error("\u8BF7\u5148\u914D\u7F6E OpenAI \u517C\u5BB9\u8F6C\u5199\u63A5\u53E3\u5730\u5740");
+    }
+    try {
+      const extension = getAudioFileExtension(audioBlob.type);
+      const language = this.getAsrLanguageOptions().language.slice(0, 2);
+      const { body, contentType } = await buildMultipartBody(
+        {
+          model: this.settings.openaiAsrModel || "whisper-1",
+          language,
+          response_format: "json"
+        },
+        { field: "file", name: `recording.${extension}`, blob: audioBlob }
+      );
+      const headers = {};
+      if (this.settings.openaiAsrApiKey) {
+        headers["Authorization"] = `Bearer ${this.settings.openaiAsrApiKey}`;
+      }
+      const response = await (0, import_obsidian.requestUrl)({
+        url: `${baseUrl}/audio/transcriptions`,
+        method: "POST",
+        contentType,
+        headers,
+        body,
+        throw: false
+      });
+      if (response.status < 200 || response.status >= 300) {
+        throw new Error(`\u8F6C\u5199\u63A5\u53E3\u9519\u8BEF: ${response.status} - ${response.text}`);
+      }
+      const data = response.json;
+      if (data.error) {
+        throw new Error(`\u8F6C\u5199\u63A5\u53E3\u9519\u8BEF: ${data.error.message || JSON.stringify(data.error)}`);
+      }
+      if (typeof data.text !== "string") {
+        throw new Error("\u8F6C\u5199\u63A5\u53E3\u8FD4\u56DE\u7684\u54CD\u5E94\u683C\u5F0F\u4E0D\u6B63\u786E - \u7F3A\u5C11 text");
+      }
+      this.debugLog("OpenAI \u517C\u5BB9 ASR \u8BC6\u522B\u7ED3\u679C:", data.text);
+      return data.text.trim();
+    } catch (error) {
+      this.debugLog("OpenAI \u517C\u5BB9 ASR \u9519\u8BEF:", error);
+      throw normalizeError(error, "OpenAI \u517C\u5BB9\u8F6C\u5199\u8C03\u7528\u5931\u8D25");
     }
   }
   /**
-   * 语音唤醒专用ASR - 强制使用讯飞ASR
-   * 确保语音唤醒功能使用正确的ASR服务
-   */
-  async speechToTextForWakeup(audioBlob) {
-    return this.xunfeiOnlineASR(audioBlob);
-  }
-  /**
-   * 将音频转换为PCM格式
+   * 将音频解码为16kHz单声道16位PCM
    */
-  async convertToPCM(audioBlob) {
+  async decodeToPCM(audioBlob) {
     return new Promise((resolve, reject) => {
       const audioContext = createAudioContext();
       const fileReader = new FileReader();
@@ -831,132 +4457,204 @@ var VoiceAssistantPlugin = class extends import_obsidian.Plugin {
         try {
           const arrayBuffer = fileReader.result;
           const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-          const sampleRate = 16e3;
-          const length = Math.floor(audioBuffer.duration * sampleRate);
-          const pcmData = new Float32Array(length);
-          const ratio = audioBuffer.sampleRate / sampleRate;
-          const inputData = audioBuffer.getChannelData(0);
-          for (let i = 0; i < length; i++) {
-            const index = Math.floor(i * ratio);
-            pcmData[i] = inputData[index] || 0;
-          }
-          const pcm16 = new Int16Array(length);
-          for (let i = 0; i < length; i++) {
-            pcm16[i] = Math.max(-32768, Math.min(32767, pcmData[i] * 32767));
-          }
-          const uint8Array = new Uint8Array(pcm16.buffer);
-          let binaryString = "";
-          const chunkSize = 8192;
-          for (let i = 0; i < uint8Array.length; i += chunkSize) {
-            const chunk = uint8Array.slice(i, i + chunkSize);
-            binaryString += String.fromCharCode.apply(null, Array.from(chunk));
-          }
-          const base64 = window.btoa(binaryString);
-          resolve(base64);
+          resolve(downsampleToPcm16(audioBuffer.getChannelData(0), audioBuffer.sampleRate));
         } catch (error) {
           reject(normalizeError(error, "\u97F3\u9891\u8F6C\u6362\u5931\u8D25"));
+        } finally {
+          void audioContext.close();
         }
       };
-      fileReader.onerror = () => reject(new Error("\u8BFB\u53D6\u97F3\u9891\u6587\u4EF6\u5931\u8D25"));
+      fileReader.onerror = () => {
+        void audioContext.close();
+        reject(new Error("\u8BFB\u53D6\u97F3\u9891\u6587\u4EF6\u5931\u8D25"));
+      };
       fileReader.readAsArrayBuffer(audioBlob);
     });
   }
   /**
    * 讯飞在线语音识别
+   * 讯飞听写单次会话最长约 60 秒，超过分段上限的录音在静音处切分后逐段识别，再去重拼接。
+   * @param decoded 预处理时已解码的 PCM，为 null 时从录音解码
    */
-  async xunfeiOnlineASR(audioBlob) {
-    try {
-      this.debugLog("\u5F00\u59CB\u8F6C\u6362\u97F3\u9891\u683C\u5F0F...");
-      const base64Audio = await this.convertToPCM(audioBlob);
-      this.debugLog("\u97F3\u9891\u8F6C\u6362\u5B8C\u6210\uFF0Cbase64\u957F\u5EA6:", base64Audio.length);
-      const host = "iat-api.xfyun.cn";
-      const path = "/v2/iat";
-      const apiKey = this.settings.xunfeiApiKey;
-      const apiSecret = this.settings.xunfeiApiSecret;
-      const appId = this.settings.xunfeiAppId;
-      const date = (/* @__PURE__ */ new Date()).toUTCString();
-      const signatureOrigin = `host: ${host}
+  async xunfeiOnlineASR(audioBlob, decoded = null) {
+    this.debugLog("\u5F00\u59CB\u8F6C\u6362\u97F3\u9891\u683C\u5F0F...");
+    const pcm16 = decoded != null ? decoded : await this.decodeToPCM(audioBlob);
+    const segments = planAudioSegments(
+      pcm16,
+      ASR_SAMPLE_RATE,
+      this.settings.asrChunkSeconds,
+      this.settings.asrChunkOverlap
+    );
+    if (segments.length === 1) {
+      return this.xunfeiRecognizePCM(pcm16);
+    }
+    this.debugLog(`\u5F55\u97F3\u65F6\u957F ${(pcm16.length / ASR_SAMPLE_RATE).toFixed(1)} \u79D2\uFF0C\u5206\u4E3A ${segments.length} \u6BB5\u8BC6\u522B`);
+    let finishedCount = 0;
+    const texts = await mapWithConcurrency(segments, this.settings.asrChunkConcurrency, async (segment, index) => {
+      const text = await this.xunfeiRecognizePCM(pcm16.slice(segment.start, segment.end));
+      finishedCount++;
+      this.updateStatusFloat(`\u957F\u5F55\u97F3\u8BC6\u522B\u4E2D (${finishedCount}/${segments.length})`, "info", false);
+      this.debugLog(`\u7B2C ${index + 1} \u6BB5\u8BC6\u522B\u7ED3\u679C:`, text);
+      return text;
+    });
+    return mergeOverlappingTranscripts(texts, this.settings.asrChunkOverlap);
+  }
+  /**
+   * 将一段 PCM 一次性提交讯飞听写接口识别
+   */
+  async xunfeiRecognizePCM(pcm16) {
+    const base64Audio = bytesToBase64(new Uint8Array(pcm16.buffer, pcm16.byteOffset, pcm16.byteLength));
+    this.debugLog("\u97F3\u9891\u8F6C\u6362\u5B8C\u6210\uFF0Cbase64\u957F\u5EA6:", base64Audio.length);
+    const appId = this.settings.xunfeiAppId;
+    const business = buildXunfeiAsrBusiness(this.getAsrLanguageOptions(), this.settings.asrVadEos);
+    let result = "";
+    const text = await requestXunfeiSocket({
+      service: "asr",
+      createUrl: () => this.createXunfeiAsrUrl(),
+      timeoutMs: 2e4,
+      log: (message, ...args) => this.debugLog(message, ...args),
+      onOpen: (ws) => {
+        ws.send(JSON.stringify({
+          common: { app_id: appId },
+          business,
+          data: {
+            status: 2,
+            format: "audio/L16;rate=16000",
+            encoding: "raw",
+            audio: base64Audio
+          }
+        }));
+      },
+      readStatus: (data) => ({ code: data.code, message: data.message }),
+      onMessage: (data) => {
+        var _a, _b;
+        if ((_a = data.data) == null ? void 0 : _a.result) {
+          const fragment = extractAsrText(data.data.result);
+          result += fragment;
+          this.debugLog("\u8BC6\u522B\u5230\u6587\u672C\u7247\u6BB5:", fragment);
+        }
+        return ((_b = data.data) == null ? void 0 : _b.status) === 2 ? { done: true, value: result } : { done: false };
+      }
+    });
+    this.debugLog("ASR\u8BC6\u522B\u5B8C\u6210\uFF0C\u6700\u7EC8\u7ED3\u679C:", text);
+    return text;
+  }
+  /**
+   * 生成讯飞语音听写 WebSocket 鉴权地址
+   */
+  async createXunfeiAsrUrl() {
+    return this.createXunfeiAuthUrl("iat-api.xfyun.cn", "/v2/iat");
+  }
+  /**
+   * 生成讯飞 WebSocket 接口的鉴权地址（语音听写、语音合成和星火共用同一签名规则）
+   */
+  async createXunfeiAuthUrl(host, path) {
+    const date = (/* @__PURE__ */ new Date()).toUTCString();
+    const signatureOrigin = `host: ${host}
 date: ${date}
 GET ${path} HTTP/1.1`;
-      const signature = await hmacSha256Base64(apiSecret, signatureOrigin);
-      const authorizationOrigin = `api_key="${apiKey}", algorithm="hmac-sha256", headers="host date request-line", signature="${signature}"`;
-      const authorization = encodeURIComponent(window.btoa(authorizationOrigin));
-      const url = `wss://${host}${path}?authorization=${authorization}&date=${encodeURIComponent(date)}&host=${host}`;
-      this.debugLog("\u8BAF\u98DEASR WebSocket URL:", url);
-      return new Promise((resolve, reject) => {
-        const ws = new WebSocket(url);
-        let result = "";
-        let hasReceivedData = false;
-        ws.onopen = () => {
-          this.debugLog("\u8BAF\u98DEASR WebSocket \u8FDE\u63A5\u5DF2\u5EFA\u7ACB");
-          const params = {
-            common: { app_id: appId },
-            business: {
-              language: "zh_cn",
-              domain: "iat",
-              accent: "mandarin",
-              vinfo: 1,
-              vad_eos: 1e4
-            },
-            data: {
-              status: 2,
-              format: "audio/L16;rate=16000",
-              encoding: "raw",
-              audio: base64Audio
-            }
-          };
-          this.debugLog("\u53D1\u9001ASR\u53C2\u6570:", JSON.stringify(params, null, 2));
-          ws.send(JSON.stringify(params));
-        };
-        ws.onmessage = (event) => {
-          var _a;
-          try {
-            const data = parseJsonResponse(String(event.data));
-            this.debugLog("\u6536\u5230ASR\u54CD\u5E94:", JSON.stringify(data, null, 2));
-            if (data.code !== 0) {
-              this.debugLog("ASR\u9519\u8BEF\u4EE3\u7801:", data.code, "\u9519\u8BEF\u4FE1\u606F:", data.message);
-              reject(new Error(`ASR\u9519\u8BEF: ${data.code} - ${data.message}`));
-              return;
-            }
-            if (data.data && data.data.result) {
-              hasReceivedData = true;
-              const text = ((_a = data.data.result.ws) != null ? _a : []).map(
-                (item) => {
-                  var _a2;
-                  return ((_a2 = item.cw) != null ? _a2 : []).map((word) => {
-                    var _a3;
-                    return (_a3 = word.w) != null ? _a3 : "";
-                  }).join("");
-                }
-              ).join("");
-              result += text;
-              this.debugLog("\u8BC6\u522B\u5230\u6587\u672C\u7247\u6BB5:", text);
-            }
-            if (data.data && data.data.status === 2) {
-              this.debugLog("ASR\u8BC6\u522B\u5B8C\u6210\uFF0C\u6700\u7EC8\u7ED3\u679C:", result);
-              ws.close();
-              resolve(result || "\u672A\u8BC6\u522B\u5230\u8BED\u97F3\u5185\u5BB9");
-            }
-          } catch (error) {
-            this.debugLog("\u89E3\u6790ASR\u54CD\u5E94\u65F6\u51FA\u9519:", error);
-            reject(normalizeError(error, "\u89E3\u6790 ASR \u54CD\u5E94\u5931\u8D25"));
-          }
-        };
-        ws.onerror = (error) => {
-          this.debugLog("ASR WebSocket\u9519\u8BEF:", error);
-          reject(new Error("ASR WebSocket\u8FDE\u63A5\u9519\u8BEF"));
-        };
-        ws.onclose = (event) => {
-          this.debugLog("ASR WebSocket\u8FDE\u63A5\u5173\u95ED:", event.code, event.reason);
-          if (!hasReceivedData && !result) {
-            reject(new Error(`ASR\u8FDE\u63A5\u5173\u95ED\uFF0C\u672A\u83B7\u53D6\u5230\u7ED3\u679C\u3002\u5173\u95ED\u4EE3\u7801: ${event.code}, \u539F\u56E0: ${event.reason}`));
-          }
-        };
-      });
-    } catch (error) {
-      this.debugLog("\u8BAF\u98DE\u5728\u7EBF ASR \u9519\u8BEF:", error);
-      throw normalizeError(error, "\u8BAF\u98DE\u5728\u7EBF ASR \u8C03\u7528\u5931\u8D25");
-    }
+    const signature = await hmacSha256Base64(this.settings.xunfeiApiSecret, signatureOrigin);
+    const authorizationOrigin = `api_key="${this.settings.xunfeiApiKey}", algorithm="hmac-sha256", headers="host date request-line", signature="${signature}"`;
+    const authorization = encodeURIComponent(window.btoa(authorizationOrigin));
+    return `wss://${host}${path}?authorization=${authorization}&date=${encodeURIComponent(date)}&host=${host}`;
+  }
+  /**
+   * 讯飞流式语音识别
+   * 按 40ms 帧上传 PCM（status 0/1/2），中文识别开启 dwa=wpgs 动态修正，每次收到结果都回调完整的修正后文本。
+   * 连接经 requestXunfeiSocket 建立，与其他讯飞请求共用空闲超时、取消和重试；尚未收到结果就重连时从本句第一帧重新上传。
+   * @param onPartial 中间结果回调
+   * @param vadEos 句尾静默多少毫秒后由服务端结束本次会话
+   */
+  startXunfeiStreamingASR(onPartial, vadEos = 1e4) {
+    const appId = this.settings.xunfeiAppId;
+    const business = buildXunfeiAsrBusiness(this.getAsrLanguageOptions(), vadEos, true);
+    const controller = new AbortController();
+    const frames = [];
+    const segments = [];
+    let socket = null;
+    let sentFrames = 0;
+    let transcript = "";
+    let isFinishing = false;
+    let isClosed = false;
+    let isDiscarded = false;
+    const flush = () => {
+      if ((socket == null ? void 0 : socket.readyState) !== WebSocket.OPEN) {
+        return;
+      }
+      for (; sentFrames < frames.length; sentFrames++) {
+        const frame = frames[sentFrames];
+        const audio = bytesToBase64(new Uint8Array(frame.buffer, frame.byteOffset, frame.byteLength));
+        const data = { status: sentFrames === 0 ? 0 : 1, format: "audio/L16;rate=16000", encoding: "raw", audio };
+        socket.send(JSON.stringify(sentFrames === 0 ? { common: { app_id: appId }, business, data } : { data }));
+      }
+      if (isFinishing) {
+        socket.send(JSON.stringify({ data: { status: 2, format: "audio/L16;rate=16000", encoding: "raw", audio: "" } }));
+      }
+    };
+    const discard = () => {
+      isDiscarded = true;
+      controller.abort();
+    };
+    const request = requestXunfeiSocket({
+      service: "asr",
+      createUrl: () => this.createXunfeiAsrUrl(),
+      // 服务端只在识别出内容时回消息，静默期间最长等待 vad_eos 后才结束本句
+      timeoutMs: vadEos + XUNFEI_STREAMING_IDLE_MARGIN_MS,
+      signal: controller.signal,
+      log: (message, ...args) => this.debugLog(message, ...args),
+      onOpen: (ws) => {
+        socket = ws;
+        sentFrames = 0;
+        flush();
+      },
+      readStatus: (data) => ({ code: data.code, message: data.message }),
+      onMessage: (data) => {
+        var _a, _b;
+        if ((_a = data.data) == null ? void 0 : _a.result) {
+          transcript = applyWpgsResult(segments, data.data.result);
+          onPartial(transcript);
+        }
+        if (((_b = data.data) == null ? void 0 : _b.status) === 2) {
+          this.debugLog("\u6D41\u5F0F\u8BC6\u522B\u5B8C\u6210\uFF0C\u6700\u7EC8\u7ED3\u679C:", transcript);
+          isClosed = true;
+          return { done: true, value: transcript };
+        }
+        return { done: false };
+      }
+    });
+    const result = request.then(
+      (text) => text,
+      (error) => {
+        isClosed = true;
+        if (isDiscarded) {
+          return "";
+        }
+        throw error;
+      }
+    );
+    return {
+      result,
+      push: (frame) => {
+        if (isClosed || isFinishing) {
+          return false;
+        }
+        frames.push(frame);
+        flush();
+        return true;
+      },
+      finish: () => {
+        if (isClosed || isFinishing) {
+          return;
+        }
+        if (frames.length === 0) {
+          discard();
+          return;
+        }
+        isFinishing = true;
+        flush();
+      },
+      cancel: discard
+    };
   }
   /**
    * 调用大模型
@@ -1126,96 +4824,47 @@ GET ${path} HTTP/1.1`;
           domain = "lite";
           break;
       }
-      const date = (/* @__PURE__ */ new Date()).toUTCString();
-      const signatureOrigin = `host: ${host}
-date: ${date}
-GET ${path} HTTP/1.1`;
-      const signature = await hmacSha256Base64(apiSecret, signatureOrigin);
-      const authorizationOrigin = `api_key="${apiKey}", algorithm="hmac-sha256", headers="host date request-line", signature="${signature}"`;
-      const authorization = encodeUtf8ToBase64(authorizationOrigin);
-      const url = `wss://${host}${path}?authorization=${authorization}&date=${encodeURIComponent(date)}&host=${host}`;
-      this.debugLog("\u8BAF\u98DE\u661F\u706B WebSocket URL:", url);
-      return new Promise((resolve, reject) => {
-        const ws = new WebSocket(url);
-        let result = "";
-        let timeout;
-        timeout = window.setTimeout(() => {
-          ws.close();
-          reject(new Error("\u8BAF\u98DE\u661F\u706B\u8C03\u7528\u8D85\u65F6"));
-        }, 3e4);
-        ws.onopen = () => {
-          this.debugLog("\u8BAF\u98DE\u661F\u706B WebSocket \u8FDE\u63A5\u5DF2\u5EFA\u7ACB");
-          this.debugLog("\u4F7F\u7528\u6A21\u578B:", model, "\u57DF\u540D:", domain);
-          const params = {
-            header: {
-              app_id: appId,
-              uid: "user"
-            },
-            parameter: {
-              chat: {
-                domain,
-                temperature: 0.5,
-                max_tokens: 2048
-              }
-            },
-            payload: {
-              message: {
-                text: [{ role: "user", content: text }]
-              }
-            }
-          };
-          this.debugLog("\u53D1\u9001\u5230\u8BAF\u98DE\u661F\u706B\u7684\u53C2\u6570:", JSON.stringify(params, null, 2));
-          ws.send(JSON.stringify(params));
-        };
-        ws.onmessage = (event) => {
-          try {
-            const data = parseJsonResponse(String(event.data));
-            this.debugLog("\u8BAF\u98DE\u661F\u706B\u54CD\u5E94:", data);
-            if (data.header && data.header.code !== 0) {
-              window.clearTimeout(timeout);
-              const errorMsg = `\u8BAF\u98DE\u661F\u706BAPI\u9519\u8BEF: ${data.header.message || "\u672A\u77E5\u9519\u8BEF"} (\u4EE3\u7801: ${data.header.code})`;
-              this.debugLog(errorMsg);
-              reject(new Error(errorMsg));
-              return;
-            }
-            if (data.payload && data.payload.choices && data.payload.choices.text && Array.isArray(data.payload.choices.text) && data.payload.choices.text.length > 0) {
-              const textItem = data.payload.choices.text[0];
-              if (textItem && textItem.content) {
-                result += textItem.content;
-                this.debugLog("\u7D2F\u79EF\u7ED3\u679C:", result);
-              }
-            }
-            if (data.header && data.header.status === 2) {
-              window.clearTimeout(timeout);
-              ws.close();
-              this.debugLog("\u8BAF\u98DE\u661F\u706B\u6700\u7EC8\u7ED3\u679C:", result);
-              resolve(result || "\u8BAF\u98DE\u661F\u706B\u8FD4\u56DE\u4E86\u7A7A\u54CD\u5E94");
-            }
-          } catch (parseError) {
-            this.debugLog("\u89E3\u6790\u8BAF\u98DE\u661F\u706B\u54CD\u5E94\u65F6\u51FA\u9519:", parseError);
-            this.debugLog("\u539F\u59CB\u54CD\u5E94\u6570\u636E:", event.data);
-            window.clearTimeout(timeout);
-            reject(new Error(`\u89E3\u6790\u8BAF\u98DE\u661F\u706B\u54CD\u5E94\u5931\u8D25: ${getErrorMessage(parseError)}`));
-          }
-        };
-        ws.onerror = (error) => {
-          this.debugLog("\u8BAF\u98DE\u661F\u706B WebSocket \u9519\u8BEF:", error);
-          window.clearTimeout(timeout);
-          reject(new Error("\u8BAF\u98DE\u661F\u706B\u8FDE\u63A5\u5931\u8D25"));
-        };
-        ws.onclose = (event) => {
-          this.debugLog("\u8BAF\u98DE\u661F\u706B WebSocket \u8FDE\u63A5\u5173\u95ED:", event.code, event.reason);
-          window.clearTimeout(timeout);
-          if (!result) {
-            reject(new Error("\u8BAF\u98DE\u661F\u706B\u8FDE\u63A5\u610F\u5916\u5173\u95ED"));
-          }
-        };
-      });
+      this.debugLog("\u4F7F\u7528\u6A21\u578B:", model, "\u57DF\u540D:", domain);
+      const result = await this.requestSparkChat(host, path, domain, text);
+      this.debugLog("\u8BAF\u98DE\u661F\u706B\u6700\u7EC8\u7ED3\u679C:", result);
+      return result || "\u8BAF\u98DE\u661F\u706B\u8FD4\u56DE\u4E86\u7A7A\u54CD\u5E94";
     } catch (error) {
       this.debugLog("\u8BAF\u98DE\u661F\u706B\u8C03\u7528\u9519\u8BEF:", error);
       throw normalizeError(error, "\u8BAF\u98DE\u661F\u706B\u8C03\u7528\u5931\u8D25");
     }
   }
+  /**
+   * 通过讯飞星火 WebSocket 接口发送一轮对话，返回拼接后的完整回复
+   */
+  async requestSparkChat(host, path, domain, text) {
+    const appId = this.settings.xunfeiAppId;
+    let result = "";
+    return requestXunfeiSocket({
+      service: "spark",
+      createUrl: () => this.createXunfeiAuthUrl(host, path),
+      timeoutMs: 3e4,
+      log: (message, ...args) => this.debugLog(message, ...args),
+      onOpen: (ws) => {
+        ws.send(JSON.stringify({
+          header: { app_id: appId, uid: "user" },
+          parameter: { chat: { domain, temperature: 0.5, max_tokens: 2048 } },
+          payload: { message: { text: [{ role: "user", content: text }] } }
+        }));
+      },
+      readStatus: (data) => {
+        var _a, _b, _c;
+        return { code: (_b = (_a = data.header) == null ? void 0 : _a.code) != null ? _b : 0, message: (_c = data.header) == null ? void 0 : _c.message };
+      },
+      onMessage: (data) => {
+        var _a, _b, _c, _d, _e;
+        const content = (_d = (_c = (_b = (_a = data.payload) == null ? void 0 : _a.choices) == null ? void 0 : _b.text) == null ? void 0 : _c[0]) == null ? void 0 : _d.content;
+        if (content) {
+          result += content;
+        }
+        return ((_e = data.header) == null ? void 0 : _e.status) === 2 ? { done: true, value: result } : { done: false };
+      }
+    });
+  }
   /**
    * 调用自定义模型
    */
@@ -1362,91 +5011,7 @@ GET ${path} HTTP/1.1`;
       } else if (modelId.includes("4.0") || modelId === "4.0Ultra") {
         apiPath = "/v4.0/chat";
       }
-      const host = "spark-api.xf-yun.com";
-      const date = (/* @__PURE__ */ new Date()).toUTCString();
-      const algorithm = "hmac-sha256";
-      const headers = `host date request-line`;
-      const signatureOrigin = `host: ${host}
-date: ${date}
-GET ${apiPath} HTTP/1.1`;
-      const signature = await hmacSha256Base64(this.settings.xunfeiApiSecret, signatureOrigin);
-      const authorizationOrigin = `api_key="${this.settings.xunfeiApiKey}", algorithm="${algorithm}", headers="${headers}", signature="${signature}"`;
-      const authorization = window.btoa(authorizationOrigin);
-      const wsUrl = `wss://${host}${apiPath}?authorization=${authorization}&date=${date}&host=${host}`;
-      return new Promise((resolve, reject) => {
-        const ws = new WebSocket(wsUrl);
-        let result = "";
-        const timeout = window.setTimeout(() => {
-          ws.close();
-          reject(new Error("\u8BAF\u98DE\u661F\u706B\u81EA\u5B9A\u4E49\u6A21\u578B\u8C03\u7528\u8D85\u65F6"));
-        }, 3e4);
-        ws.onopen = () => {
-          this.debugLog("\u8BAF\u98DE\u661F\u706B\u81EA\u5B9A\u4E49\u6A21\u578B WebSocket \u8FDE\u63A5\u5DF2\u5EFA\u7ACB");
-          const params = {
-            header: {
-              app_id: this.settings.xunfeiAppId,
-              uid: "user"
-            },
-            parameter: {
-              chat: {
-                domain,
-                temperature: 0.5,
-                max_tokens: 2048
-              }
-            },
-            payload: {
-              message: {
-                text: [
-                  {
-                    role: "user",
-                    content: text
-                  }
-                ]
-              }
-            }
-          };
-          ws.send(JSON.stringify(params));
-        };
-        ws.onmessage = (event) => {
-          var _a, _b;
-          try {
-            const response = parseJsonResponse(String(event.data));
-            this.debugLog("\u8BAF\u98DE\u661F\u706B\u81EA\u5B9A\u4E49\u6A21\u578B\u54CD\u5E94:", response);
-            if (((_a = response.header) == null ? void 0 : _a.code) !== 0) {
-              window.clearTimeout(timeout);
-              reject(new Error(`\u8BAF\u98DE\u661F\u706B\u81EA\u5B9A\u4E49\u6A21\u578B\u9519\u8BEF: ${response.header.message}`));
-              return;
-            }
-            if (response.payload && response.payload.choices && response.payload.choices.text && Array.isArray(response.payload.choices.text) && response.payload.choices.text.length > 0) {
-              const textItem = response.payload.choices.text[0];
-              if (textItem && textItem.content) {
-                result += textItem.content;
-              }
-            }
-            if (((_b = response.header) == null ? void 0 : _b.status) === 2) {
-              window.clearTimeout(timeout);
-              ws.close();
-              resolve(result);
-            }
-          } catch (error) {
-            this.debugLog("\u8BAF\u98DE\u661F\u706B\u81EA\u5B9A\u4E49\u6A21\u578B\u89E3\u6790\u54CD\u5E94\u9519\u8BEF:", error);
-            window.clearTimeout(timeout);
-            reject(new Error("\u8BAF\u98DE\u661F\u706B\u81EA\u5B9A\u4E49\u6A21\u578B\u54CD\u5E94\u89E3\u6790\u5931\u8D25"));
-          }
-        };
-        ws.onerror = (error) => {
-          this.debugLog("\u8BAF\u98DE\u661F\u706B\u81EA\u5B9A\u4E49\u6A21\u578B WebSocket \u9519\u8BEF:", error);
-          window.clearTimeout(timeout);
-          reject(new Error("\u8BAF\u98DE\u661F\u706B\u81EA\u5B9A\u4E49\u6A21\u578B\u8FDE\u63A5\u5931\u8D25"));
-        };
-        ws.onclose = (event) => {
-          this.debugLog("\u8BAF\u98DE\u661F\u706B\u81EA\u5B9A\u4E49\u6A21\u578B WebSocket \u8FDE\u63A5\u5173\u95ED:", event.code, event.reason);
-          window.clearTimeout(timeout);
-          if (!result) {
-            reject(new Error("\u8BAF\u98DE\u661F\u706B\u81EA\u5B9A\u4E49\u6A21\u578B\u8FDE\u63A5\u610F\u5916\u5173\u95ED"));
-          }
-        };
-      });
+      return await this.requestSparkChat("spark-api.xf-yun.com", apiPath, domain, text);
     } catch (error) {
       this.debugLog("\u8BAF\u98DE\u661F\u706B\u81EA\u5B9A\u4E49\u6A21\u578B\u8C03\u7528\u9519\u8BEF:", error);
       throw normalizeError(error, "\u8BAF\u98DE\u661F\u706B\u81EA\u5B9A\u4E49\u6A21\u578B\u8C03\u7528\u5931\u8D25");
@@ -1469,113 +5034,82 @@ GET ${apiPath} HTTP/1.1`;
   }
   /**
    * 讯飞在线语音合成
+   * 合成完成后再播放，播放时长不计入请求超时；停止播放会同时取消尚未完成的合成
    */
   async xunfeiOnlineTTS(text) {
+    const controller = new AbortController();
+    this.ttsAbortController = controller;
     try {
-      const host = "tts-api.xfyun.cn";
-      const path = "/v2/tts";
-      const apiKey = this.settings.xunfeiApiKey;
-      const apiSecret = this.settings.xunfeiApiSecret;
-      const appId = this.settings.xunfeiAppId;
-      const date = (/* @__PURE__ */ new Date()).toUTCString();
-      const signatureOrigin = `host: ${host}
-date: ${date}
-GET ${path} HTTP/1.1`;
-      const signature = await hmacSha256Base64(apiSecret, signatureOrigin);
-      const authorizationOrigin = `api_key="${apiKey}", algorithm="hmac-sha256", headers="host date request-line", signature="${signature}"`;
-      const authorization = encodeURIComponent(window.btoa(authorizationOrigin));
-      const url = `wss://${host}${path}?authorization=${authorization}&date=${encodeURIComponent(date)}&host=${host}`;
-      this.debugLog("\u8BAF\u98DETTS WebSocket URL:", url);
-      return new Promise((resolve, reject) => {
-        const ws = new WebSocket(url);
-        const audioChunks = [];
-        let hasReceivedData = false;
-        ws.onopen = () => {
-          this.debugLog("\u8BAF\u98DETTS WebSocket \u8FDE\u63A5\u5DF2\u5EFA\u7ACB");
-          const params = {
-            common: { app_id: appId },
-            business: {
-              aue: "lame",
-              // 使用MP3格式
-              auf: "audio/L16;rate=16000",
-              // PCM格式，16kHz采样率
-              vcn: this.settings.ttsVoice,
-              speed: this.settings.ttsSpeed,
-              volume: this.settings.ttsVolume,
-              pitch: this.settings.ttsPitch,
-              bgs: 0,
-              // 背景音乐关闭
-              tte: "UTF8"
-              // 文本编码格式
-            },
-            data: {
-              status: 2,
-              text: encodeUtf8ToBase64(text)
-            }
-          };
-          this.debugLog("\u53D1\u9001TTS\u53C2\u6570:", JSON.stringify(params, null, 2));
-          ws.send(JSON.stringify(params));
-        };
-        ws.onmessage = (event) => {
-          try {
-            const data = parseJsonResponse(String(event.data));
-            this.debugLog("\u6536\u5230TTS\u54CD\u5E94:", JSON.stringify(data, null, 2));
-            if (data.code !== 0) {
-              this.debugLog("TTS\u9519\u8BEF\u4EE3\u7801:", data.code, "\u9519\u8BEF\u4FE1\u606F:", data.message);
-              reject(new Error(`TTS\u9519\u8BEF: ${data.code} - ${data.message}`));
-              return;
-            }
-            if (data.data && data.data.audio) {
-              hasReceivedData = true;
-              audioChunks.push(data.data.audio);
-              this.debugLog("\u6536\u5230\u97F3\u9891\u6570\u636E\u5757\uFF0C\u5927\u5C0F:", data.data.audio.length);
-            }
-            if (data.data && data.data.status === 2) {
-              this.debugLog("TTS\u5408\u6210\u5B8C\u6210\uFF0C\u97F3\u9891\u5757\u6570\u91CF:", audioChunks.length);
-              ws.close();
-              if (audioChunks.length > 0) {
-                const combinedAudio = audioChunks.join("");
-                this.debugLog("\u62FC\u63A5\u540E\u7684\u97F3\u9891\u6570\u636E\u957F\u5EA6:", combinedAudio.length);
-                if (!combinedAudio || combinedAudio.length === 0) {
-                  reject(new Error("\u97F3\u9891\u6570\u636E\u4E3A\u7A7A"));
-                  return;
-                }
-                if (!/^[A-Za-z0-9+/]*={0,2}$/.test(combinedAudio)) {
-                  reject(new Error("\u63A5\u6536\u5230\u7684\u97F3\u9891\u6570\u636E\u683C\u5F0F\u65E0\u6548"));
-                  return;
-                }
-                this.playAudioFromBase64(combinedAudio).then(() => {
-                  resolve();
-                }).catch((error) => {
-                  this.debugLog("\u97F3\u9891\u64AD\u653E\u5931\u8D25:", error);
-                  reject(normalizeError(error, "\u97F3\u9891\u64AD\u653E\u5931\u8D25"));
-                });
-              } else {
-                this.debugLog("\u6CA1\u6709\u6536\u5230\u97F3\u9891\u6570\u636E");
-                resolve();
-              }
-            }
-          } catch (error) {
-            this.debugLog("\u89E3\u6790TTS\u54CD\u5E94\u65F6\u51FA\u9519:", error);
-            reject(normalizeError(error, "\u89E3\u6790 TTS \u54CD\u5E94\u5931\u8D25"));
-          }
-        };
-        ws.onerror = (error) => {
-          this.debugLog("TTS WebSocket\u9519\u8BEF:", error);
-          reject(new Error("TTS WebSocket\u8FDE\u63A5\u9519\u8BEF"));
-        };
-        ws.onclose = (event) => {
-          this.debugLog("TTS WebSocket\u8FDE\u63A5\u5173\u95ED:", event.code, event.reason);
-          if (!hasReceivedData) {
-            reject(new Error(`TTS\u8FDE\u63A5\u5173\u95ED\uFF0C\u672A\u83B7\u53D6\u5230\u97F3\u9891\u6570\u636E\u3002\u5173\u95ED\u4EE3\u7801: ${event.code}, \u539F\u56E0: ${event.reason}`));
-          }
-        };
-      });
+      const combinedAudio = await this.synthesizeXunfeiSpeech(text, {
+        vcn: this.settings.ttsVoice,
+        speed: this.settings.ttsSpeed,
+        volume: this.settings.ttsVolume,
+        pitch: this.settings.ttsPitch
+      }, controller.signal);
+      if (!combinedAudio) {
+        this.debugLog("\u6CA1\u6709\u6536\u5230\u97F3\u9891\u6570\u636E");
+        return;
+      }
+      if (!/^[A-Za-z0-9+/]*={0,2}$/.test(combinedAudio)) {
+        throw new Error("\u63A5\u6536\u5230\u7684\u97F3\u9891\u6570\u636E\u683C\u5F0F\u65E0\u6548");
+      }
+      await this.playAudioFromBase64(combinedAudio);
     } catch (error) {
       this.debugLog("\u8BAF\u98DE\u5728\u7EBF TTS \u9519\u8BEF:", error);
       throw normalizeError(error, "\u8BAF\u98DE\u5728\u7EBF TTS \u8C03\u7528\u5931\u8D25");
+    } finally {
+      if (this.ttsAbortController === controller) {
+        this.ttsAbortController = null;
+      }
     }
   }
+  /**
+   * 调用讯飞语音合成接口，返回拼接后的 MP3 Base64 数据
+   */
+  async synthesizeXunfeiSpeech(text, voice, signal, retries, timeoutMs = 15e3) {
+    const appId = this.settings.xunfeiAppId;
+    const audioChunks = [];
+    return requestXunfeiSocket({
+      service: "tts",
+      createUrl: () => this.createXunfeiAuthUrl("tts-api.xfyun.cn", "/v2/tts"),
+      timeoutMs,
+      retries,
+      signal,
+      log: (message, ...args) => this.debugLog(message, ...args),
+      onOpen: (ws) => {
+        ws.send(JSON.stringify({
+          common: { app_id: appId },
+          business: {
+            aue: "lame",
+            // 使用MP3格式
+            auf: "audio/L16;rate=16000",
+            // PCM格式，16kHz采样率
+            ...voice,
+            bgs: 0,
+            // 背景音乐关闭
+            tte: "UTF8"
+            // 文本编码格式
+          },
+          data: {
+            status: 2,
+            text: encodeUtf8ToBase64(text)
+          }
+        }));
+      },
+      readStatus: (data) => ({ code: data.code, message: data.message }),
+      onMessage: (data) => {
+        var _a, _b;
+        if ((_a = data.data) == null ? void 0 : _a.audio) {
+          audioChunks.push(data.data.audio);
+        }
+        if (((_b = data.data) == null ? void 0 : _b.status) === 2) {
+          this.debugLog("TTS\u5408\u6210\u5B8C\u6210\uFF0C\u97F3\u9891\u5757\u6570\u91CF:", audioChunks.length);
+          return { done: true, value: audioChunks.join("") };
+        }
+        return { done: false };
+      }
+    });
+  }
   /**
    * 播放Base64编码的音频数据
    */
@@ -1592,16 +5126,12 @@ GET ${path} HTTP/1.1`;
           throw new Error("\u65E0\u6548\u7684Base64\u683C\u5F0F");
         }
         this.debugLog("Base64\u524D50\u5B57\u7B26:", cleanBase64.substring(0, 50));
-        let binaryString;
+        let mp3Data;
         try {
-          binaryString = window.atob(cleanBase64);
+          mp3Data = base64ToBytes(cleanBase64);
         } catch (decodeError) {
           throw new Error(`Base64\u89E3\u7801\u5931\u8D25: ${getErrorMessage(decodeError)}`);
         }
-        const mp3Data = new Uint8Array(binaryString.length);
-        for (let i = 0; i < binaryString.length; i++) {
-          mp3Data[i] = binaryString.charCodeAt(i);
-        }
         this.debugLog("MP3\u97F3\u9891\u6570\u636E\u8F6C\u6362\u5B8C\u6210\uFF0C\u5B57\u8282\u957F\u5EA6:", mp3Data.length);
         const audioBlob = new Blob([mp3Data], { type: "audio/mpeg" });
         const audioUrl = URL.createObjectURL(audioBlob);
@@ -1621,13 +5151,16 @@ GET ${path} HTTP/1.1`;
           this.debugLog("\u97F3\u9891\u5F00\u59CB\u64AD\u653E");
           this.updateStatusFloat("\u5F00\u59CB\u64AD\u653E\u8BED\u97F3", "info");
           this.isPlaying = true;
+          this.startEchoReference(audio);
         };
         audio.onpause = () => {
           this.updateStatusFloat("\u97F3\u9891\u5DF2\u6682\u505C", "info");
           this.isPlaying = false;
+          this.stopEchoReference();
         };
         audio.onended = () => {
           this.debugLog("\u97F3\u9891\u64AD\u653E\u7ED3\u675F");
+          this.stopEchoReference();
           this.updateStatusFloat("\u8BED\u97F3\u64AD\u653E\u5B8C\u6210", "success");
           URL.revokeObjectURL(audioUrl);
           this.currentAudio = null;
@@ -1637,6 +5170,7 @@ GET ${path} HTTP/1.1`;
         };
         audio.onerror = (error) => {
           this.debugLog("\u97F3\u9891\u64AD\u653E\u9519\u8BEF:", error);
+          this.stopEchoReference();
           this.updateStatusFloat("\u97F3\u9891\u64AD\u653E\u5931\u8D25", "error");
           URL.revokeObjectURL(audioUrl);
           this.currentAudio = null;
@@ -1669,6 +5203,45 @@ GET ${path} HTTP/1.1`;
       }
     });
   }
+  /**
+   * 采集正在播放的 TTS 音频作为语音打断的回声参考信号，仅在启用语音打断时进行
+   */
+  startEchoReference(audio) {
+    this.stopEchoReference();
+    if (!this.settings.enableVoiceInterruption) {
+      return;
+    }
+    const element = audio;
+    if (!element.captureStream) {
+      this.debugLog("\u5F53\u524D\u73AF\u5883\u65E0\u6CD5\u91C7\u96C6\u64AD\u653E\u4E2D\u7684\u97F3\u9891\uFF0C\u8BED\u97F3\u6253\u65AD\u4E0D\u505A\u56DE\u58F0\u5224\u65AD");
+      return;
+    }
+    let stopCapture = null;
+    let stopped = false;
+    this.stopEchoReferenceCapture = () => {
+      stopped = true;
+      stopCapture == null ? void 0 : stopCapture();
+    };
+    startPcmFrameCapture(element.captureStream(), VAD_CHUNK_SAMPLES, (frame) => {
+      this.echoGate.addReference(measureRms(pcm16ToFloat32(frame)), performance.now());
+    }).then((stop) => {
+      if (stopped) {
+        stop();
+      } else {
+        stopCapture = stop;
+      }
+    }).catch((error) => {
+      this.debugLog("\u91C7\u96C6\u56DE\u58F0\u53C2\u8003\u4FE1\u53F7\u5931\u8D25:", error);
+    });
+  }
+  /**
+   * 停止采集回声参考信号
+   */
+  stopEchoReference() {
+    var _a;
+    (_a = this.stopEchoReferenceCapture) == null ? void 0 : _a.call(this);
+    this.stopEchoReferenceCapture = null;
+  }
   /**
    * 将Base64音频保存到 Vault
    */
@@ -1682,12 +5255,7 @@ GET ${path} HTTP/1.1`;
       const timestamp = (/* @__PURE__ */ new Date()).toISOString().replace(/[:.]/g, "-");
       const fileName = `voice-${timestamp}.wav`;
       const filePath = `${this.settings.audioSavePath}/${fileName}`;
-      const binaryString = window.atob(base64Audio);
-      const bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-      }
-      await this.app.vault.createBinary(filePath, bytes.buffer);
+      await this.app.vault.createBinary(filePath, base64ToBytes(base64Audio).buffer);
       this.debugLog(`\u97F3\u9891\u5DF2\u4FDD\u5B58\u5230: ${filePath}`);
     } catch (error) {
       this.debugLog("\u4FDD\u5B58\u97F3\u9891\u5230 Vault \u9519\u8BEF:", error);
@@ -1747,7 +5315,7 @@ GET ${path} HTTP/1.1`;
         }
       });
       this.isListening = true;
-      this.startWakeListeningLoop();
+      await this.startWakeListeningLoop();
     } catch (error) {
       this.debugLog("\u542F\u52A8\u5728\u7EBF\u8BED\u97F3\u5524\u9192\u5931\u8D25:", error);
       new import_obsidian.Notice("\u542F\u52A8\u8BED\u97F3\u5524\u9192\u5931\u8D25\uFF0C\u8BF7\u68C0\u67E5\u9EA6\u514B\u98CE\u6743\u9650");
@@ -1755,63 +5323,64 @@ GET ${path} HTTP/1.1`;
     }
   }
   /**
-   * 唤醒监听循环
+   * 唤醒监听循环：持续分析麦克风音频，只把检测到语音的片段送去识别唤醒词
    */
-  startWakeListeningLoop() {
+  async startWakeListeningLoop() {
     if (!this.isListening || !this.wakeStream) {
       return;
     }
-    try {
-      this.wakeMediaRecorder = new MediaRecorder(this.wakeStream);
-      let audioChunks = [];
-      this.wakeMediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          audioChunks.push(event.data);
-        }
-      };
-      this.wakeMediaRecorder.onstop = async () => {
-        if (audioChunks.length > 0) {
-          const audioBlob = new Blob(audioChunks, { type: "audio/wav" });
-          try {
-            const text = await this.speechToTextForWakeup(audioBlob);
-            this.debugLog("\u5524\u9192\u76D1\u542C\u8BC6\u522B\u5230:", text);
-            const hasWakeWord = this.settings.wakeWords.some(
-              (word) => text.toLowerCase().includes(word.toLowerCase())
-            );
-            if (hasWakeWord) {
-              this.debugLog("\u68C0\u6D4B\u5230\u5524\u9192\u8BCD:", text);
-              await this.onWakeWordDetected();
-            }
-          } catch (error) {
-            this.debugLog("\u5524\u9192\u76D1\u542C\u8BC6\u522B\u9519\u8BEF:", error);
-          }
-        }
-        if (this.isListening) {
-          window.setTimeout(() => {
-            this.startWakeListeningLoop();
-          }, 100);
-        }
-      };
-      this.wakeMediaRecorder.onerror = (event) => {
-        this.debugLog("\u5524\u9192\u76D1\u542C\u5F55\u97F3\u9519\u8BEF:", event);
-        if (this.isListening) {
-          window.setTimeout(() => {
-            this.startWakeListeningLoop();
-          }, 1e3);
-        }
-      };
-      this.wakeMediaRecorder.start();
-      window.setTimeout(() => {
-        if (this.wakeMediaRecorder && this.wakeMediaRecorder.state === "recording") {
-          this.wakeMediaRecorder.stop();
+    const vad = this.createVoiceActivityDetector(this.wakeStream);
+    let recognizing = false;
+    const segmenter = new UtteranceSegmenter({
+      preRollSamples: ASR_SAMPLE_RATE * 0.3,
+      silenceWindows: 1,
+      // 句尾停顿由 VAD 的拖尾保持处理
+      maxWindows: Math.ceil(this.settings.wakeDetectionInterval / VAD_FRAME_MS),
+      onUtterance: (pcm) => {
+        if (recognizing || !this.isListening) {
+          return;
         }
-      }, this.settings.wakeDetectionInterval);
+        recognizing = true;
+        const wav = pcmToWav(new Uint8Array(pcm.buffer), ASR_SAMPLE_RATE, 1, 16);
+        void this.recognizeWakeWord(new Blob([wav], { type: "audio/wav" })).finally(() => {
+          recognizing = false;
+        });
+      }
+    });
+    try {
+      const stopCapture = await startPcmFrameCapture(this.wakeStream, VAD_CHUNK_SAMPLES, (frame) => {
+        segmenter.push(frame, vad.process(pcm16ToFloat32(frame)));
+      });
+      if (!this.isListening) {
+        stopCapture();
+        return;
+      }
+      this.stopWakeCapture = stopCapture;
     } catch (error) {
-      this.debugLog("\u5524\u9192\u76D1\u542C\u5FAA\u73AF\u9519\u8BEF:", error);
-      if (this.isListening) {
-        window.setTimeout(() => {
-          this.startWakeListeningLoop();
-        }, 1e3);
+      this.debugLog("\u5524\u9192\u76D1\u542C\u91C7\u96C6\u9519\u8BEF:", error);
+      new import_obsidian.Notice(`\u65E0\u6CD5\u542F\u52A8\u97F3\u9891\u91C7\u96C6: ${getErrorMessage(error)}`);
+      this.stopWakeListening();
+    }
+  }
+  /**
+   * 识别一段语音并检查是否包含唤醒词
+   */
+  async recognizeWakeWord(audioBlob) {
+    try {
+      const text = await this.speechToTextForWakeup(audioBlob);
+      this.debugLog("\u5524\u9192\u76D1\u542C\u8BC6\u522B\u5230:", text);
+      const hasWakeWord = this.settings.wakeWords.some(
+        (word) => text.toLowerCase().includes(word.toLowerCase())
+      );
+      if (hasWakeWord && this.isListening) {
+        this.debugLog("\u68C0\u6D4B\u5230\u5524\u9192\u8BCD:", text);
+        await this.onWakeWordDetected();
+      }
+    } catch (error) {
+      this.debugLog("\u5524\u9192\u76D1\u542C\u8BC6\u522B\u9519\u8BEF:", error);
+      if (error instanceof XunfeiError && error.isFatal) {
+        new import_obsidian.Notice(error.message, 1e4);
+        this.stopListening();
       }
     }
   }
@@ -1892,11 +5461,9 @@ GET ${path} HTTP/1.1`;
    */
   stopWakeListening() {
     this.isListening = false;
-    if (this.wakeMediaRecorder) {
-      if (this.wakeMediaRecorder.state === "recording") {
-        this.wakeMediaRecorder.stop();
-      }
-      this.wakeMediaRecorder = null;
+    if (this.stopWakeCapture) {
+      this.stopWakeCapture();
+      this.stopWakeCapture = null;
     }
     if (this.wakeStream) {
       this.wakeStream.getTracks().forEach((track) => track.stop());
@@ -1917,7 +5484,7 @@ GET ${path} HTTP/1.1`;
     try {
       new import_obsidian.Notice("\u5F00\u59CB\u6D4B\u8BD5\u5728\u7EBF ASR\uFF0C\u8BF7\u8BF4\u8BDD...");
       const audioBlob = await this.startRecording();
-      const result = await this.xunfeiOnlineASR(audioBlob);
+      const result = await this.speechToText(audioBlob, "ASR \u6D4B\u8BD5");
       new import_obsidian.Notice(`\u5728\u7EBF ASR \u6D4B\u8BD5\u7ED3\u679C\uFF1A${result}`);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -1938,40 +5505,6 @@ GET ${path} HTTP/1.1`;
       new import_obsidian.Notice(`${providerName} TTS \u6D4B\u8BD5\u5931\u8D25\uFF1A${errorMessage}`);
     }
   }
-  /**
-   * 将PCM音频数据转换为WAV格式
-   * @param pcmData PCM音频数据
-   * @param sampleRate 采样率
-   * @param channels 声道数
-   * @param bitsPerSample 每样本位数
-   * @returns WAV格式的音频数据
-   */
-  pcmToWav(pcmData, sampleRate, channels, bitsPerSample) {
-    const dataLength = pcmData.length;
-    const buffer = new ArrayBuffer(44 + dataLength);
-    const view = new DataView(buffer);
-    const writeString = (offset, string) => {
-      for (let i = 0; i < string.length; i++) {
-        view.setUint8(offset + i, string.charCodeAt(i));
-      }
-    };
-    writeString(0, "RIFF");
-    view.setUint32(4, 36 + dataLength, true);
-    writeString(8, "WAVE");
-    writeString(12, "fmt ");
-    view.setUint32(16, 16, true);
-    view.setUint16(20, 1, true);
-    view.setUint16(22, channels, true);
-    view.setUint32(24, sampleRate, true);
-    view.setUint32(28, sampleRate * channels * bitsPerSample / 8, true);
-    view.setUint16(32, channels * bitsPerSample / 8, true);
-    view.setUint16(34, bitsPerSample, true);
-    writeString(36, "data");
-    view.setUint32(40, dataLength, true);
-    const wavData = new Uint8Array(buffer);
-    wavData.set(pcmData, 44);
-    return wavData;
-  }
   /**
    * 测试所有朗读人
    * 逐一测试每个朗读人是否能正常工作
@@ -2022,73 +5555,13 @@ GET ${path} HTTP/1.1`;
     if (!xunfeiAppId || !xunfeiApiKey || !xunfeiApiSecret) {
       return false;
     }
-    const host = "tts-api.xfyun.cn";
-    const path = "/v2/tts";
-    const date = (/* @__PURE__ */ new Date()).toUTCString();
-    const signatureOrigin = `host: ${host}
-date: ${date}
-GET ${path} HTTP/1.1`;
-    const signature = await hmacSha256Base64(xunfeiApiSecret, signatureOrigin);
-    const authorizationOrigin = `api_key="${xunfeiApiKey}", algorithm="hmac-sha256", headers="host date request-line", signature="${signature}"`;
-    const authorization = encodeURIComponent(window.btoa(authorizationOrigin));
-    const url = `wss://${host}${path}?authorization=${authorization}&date=${encodeURIComponent(date)}&host=${host}`;
-    return new Promise((resolve) => {
-      const ws = new WebSocket(url);
-      let testResult = false;
-      const timeout = window.setTimeout(() => {
-        ws.close();
-        resolve(false);
-      }, 5e3);
-      ws.onopen = () => {
-        const params = {
-          common: { app_id: xunfeiAppId },
-          business: {
-            aue: "lame",
-            auf: "audio/L16;rate=16000",
-            vcn: voiceId,
-            speed: 50,
-            volume: 50,
-            pitch: 50,
-            bgs: 0,
-            tte: "UTF8"
-          },
-          data: {
-            status: 2,
-            text: encodeUtf8ToBase64(text)
-          }
-        };
-        ws.send(JSON.stringify(params));
-      };
-      ws.onmessage = (event) => {
-        try {
-          const data = parseJsonResponse(String(event.data));
-          if (data.code === 0) {
-            testResult = true;
-            if (data.data && data.data.status === 2) {
-              window.clearTimeout(timeout);
-              ws.close();
-              resolve(true);
-            }
-          } else {
-            window.clearTimeout(timeout);
-            ws.close();
-            resolve(false);
-          }
-        } catch (e) {
-          window.clearTimeout(timeout);
-          ws.close();
-          resolve(false);
-        }
-      };
-      ws.onerror = () => {
-        window.clearTimeout(timeout);
-        resolve(false);
-      };
-      ws.onclose = () => {
-        window.clearTimeout(timeout);
-        resolve(testResult);
-      };
-    });
+    try {
+      await this.synthesizeXunfeiSpeech(text, { vcn: voiceId, speed: 50, volume: 50, pitch: 50 }, void 0, 0, 5e3);
+      return true;
+    } catch (error) {
+      this.debugLog(`\u6717\u8BFB\u4EBA ${voiceId} \u6D4B\u8BD5\u5931\u8D25:`, getErrorMessage(error));
+      return false;
+    }
   }
   /**
    * 调试TTS连接
@@ -2132,89 +5605,27 @@ GET ${path} HTTP/1.1`;
       this.updateStatusFloat("=== TTS\u8FDE\u63A5\u8C03\u8BD5 ===", "info", false);
       const { xunfeiAppId, xunfeiApiKey, xunfeiApiSecret, ttsMode } = this.settings;
       this.updateStatusFloat(`TTS\u6A21\u5F0F: ${ttsMode}`, "info");
-      this.updateStatusFloat(`AppId: ${xunfeiAppId || "\u672A\u8BBE\u7F6E"}`, xunfeiAppId ? "info" : "error");
-      this.updateStatusFloat(`ApiKey: ${xunfeiApiKey ? "\u5DF2\u8BBE\u7F6E" : "\u672A\u8BBE\u7F6E"}`, xunfeiApiKey ? "info" : "error");
-      this.updateStatusFloat(`ApiSecret: ${xunfeiApiSecret ? "\u5DF2\u8BBE\u7F6E" : "\u672A\u8BBE\u7F6E"}`, xunfeiApiSecret ? "info" : "error");
-      if (!xunfeiAppId || !xunfeiApiKey || !xunfeiApiSecret) {
-        this.updateStatusFloat("API\u914D\u7F6E\u4E0D\u5B8C\u6574\uFF0C\u65E0\u6CD5\u8FDB\u884CTTS\u6D4B\u8BD5", "error");
-        return;
-      }
-      const testText = "\u4F60\u597D\uFF0C\u8FD9\u662FTTS\u8FDE\u63A5\u6D4B\u8BD5";
-      this.updateStatusFloat(`\u6D4B\u8BD5\u6587\u672C: "${testText}"`, "info");
-      if (ttsMode === "online") {
-        this.updateStatusFloat("\u5F00\u59CB\u6D4B\u8BD5\u5728\u7EBFTTS\u8FDE\u63A5...", "info");
-        const host = "tts-api.xfyun.cn";
-        const path = "/v2/tts";
-        const date = (/* @__PURE__ */ new Date()).toUTCString();
-        this.updateStatusFloat(`\u8FDE\u63A5\u5730\u5740: wss://${host}${path}`, "info");
-        this.updateStatusFloat(`\u8BF7\u6C42\u65F6\u95F4: ${date}`, "info");
-        const signatureOrigin = `host: ${host}
-date: ${date}
-GET ${path} HTTP/1.1`;
-        const signature = await hmacSha256Base64(xunfeiApiSecret, signatureOrigin);
-        const authorizationOrigin = `api_key="${xunfeiApiKey}", algorithm="hmac-sha256", headers="host date request-line", signature="${signature}"`;
-        const authorization = encodeURIComponent(window.btoa(authorizationOrigin));
-        const url = `wss://${host}${path}?authorization=${authorization}&date=${encodeURIComponent(date)}&host=${host}`;
-        this.updateStatusFloat("\u6B63\u5728\u5EFA\u7ACBWebSocket\u8FDE\u63A5...", "info");
-        const ws = new WebSocket(url);
-        let connectionSuccess = false;
-        ws.onopen = () => {
-          connectionSuccess = true;
-          this.updateStatusFloat("WebSocket\u8FDE\u63A5\u6210\u529F\uFF01", "success");
-          const params = {
-            common: { app_id: xunfeiAppId },
-            business: {
-              aue: "lame",
-              auf: "audio/L16;rate=16000",
-              vcn: this.settings.ttsVoice,
-              speed: this.settings.ttsSpeed,
-              volume: this.settings.ttsVolume,
-              pitch: this.settings.ttsPitch,
-              bgs: 0,
-              tte: "UTF8"
-            },
-            data: {
-              status: 2,
-              text: encodeUtf8ToBase64(testText)
-            }
-          };
-          this.updateStatusFloat("\u53D1\u9001TTS\u8BF7\u6C42...", "info");
-          ws.send(JSON.stringify(params));
-        };
-        ws.onmessage = (event) => {
-          try {
-            const data = parseJsonResponse(String(event.data));
-            this.updateStatusFloat(`\u6536\u5230\u54CD\u5E94: code=${data.code}`, data.code === 0 ? "success" : "error");
-            if (data.code !== 0) {
-              this.updateStatusFloat(`\u9519\u8BEF\u4FE1\u606F: ${data.message}`, "error");
-            } else if (data.data && data.data.audio) {
-              this.updateStatusFloat(`\u6536\u5230\u97F3\u9891\u6570\u636E: ${data.data.audio.length}\u5B57\u7B26`, "success");
-            }
-            if (data.data && data.data.status === 2) {
-              this.updateStatusFloat("TTS\u5408\u6210\u5B8C\u6210\uFF01", "success");
-              ws.close();
-            }
-          } catch (error) {
-            this.updateStatusFloat("\u89E3\u6790\u54CD\u5E94\u5931\u8D25: " + (error instanceof Error ? error.message : String(error)), "error");
-          }
-        };
-        ws.onerror = (error) => {
-          this.updateStatusFloat("WebSocket\u8FDE\u63A5\u9519\u8BEF", "error");
-          this.debugLog("TTS WebSocket \u9519\u8BEF:", error);
-        };
-        ws.onclose = (event) => {
-          if (!connectionSuccess) {
-            this.updateStatusFloat(`\u8FDE\u63A5\u5931\u8D25: code=${event.code}, reason=${event.reason}`, "error");
-          } else {
-            this.updateStatusFloat("\u8FDE\u63A5\u5DF2\u5173\u95ED", "info");
-          }
-        };
-        window.setTimeout(() => {
-          if (!connectionSuccess) {
-            this.updateStatusFloat("\u8FDE\u63A5\u8D85\u65F6", "error");
-            ws.close();
-          }
-        }, 1e4);
+      this.updateStatusFloat(`AppId: ${xunfeiAppId || "\u672A\u8BBE\u7F6E"}`, xunfeiAppId ? "info" : "error");
+      this.updateStatusFloat(`ApiKey: ${xunfeiApiKey ? "\u5DF2\u8BBE\u7F6E" : "\u672A\u8BBE\u7F6E"}`, xunfeiApiKey ? "info" : "error");
+      this.updateStatusFloat(`ApiSecret: ${xunfeiApiSecret ? "\u5DF2\u8BBE\u7F6E" : "\u672A\u8BBE\u7F6E"}`, xunfeiApiSecret ? "info" : "error");
+      if (!xunfeiAppId || !xunfeiApiKey || !xunfeiApiSecret) {
+        this.updateStatusFloat("API\u914D\u7F6E\u4E0D\u5B8C\u6574\uFF0C\u65E0\u6CD5\u8FDB\u884CTTS\u6D4B\u8BD5", "error");
+        return;
+      }
+      const testText = "\u4F60\u597D\uFF0C\u8FD9\u662FTTS\u8FDE\u63A5\u6D4B\u8BD5";
+      this.updateStatusFloat(`\u6D4B\u8BD5\u6587\u672C: "${testText}"`, "info");
+      if (ttsMode === "online") {
+        this.updateStatusFloat("\u5F00\u59CB\u6D4B\u8BD5\u5728\u7EBFTTS\u8FDE\u63A5...", "info");
+        this.updateStatusFloat("\u8FDE\u63A5\u5730\u5740: wss://tts-api.xfyun.cn/v2/tts", "info");
+        this.updateStatusFloat("\u53D1\u9001TTS\u8BF7\u6C42...", "info");
+        const audio = await this.synthesizeXunfeiSpeech(testText, {
+          vcn: this.settings.ttsVoice,
+          speed: this.settings.ttsSpeed,
+          volume: this.settings.ttsVolume,
+          pitch: this.settings.ttsPitch
+        }, void 0, 0, 1e4);
+        this.updateStatusFloat(`\u6536\u5230\u97F3\u9891\u6570\u636E: ${audio.length}\u5B57\u7B26`, audio ? "success" : "warning");
+        this.updateStatusFloat("TTS\u5408\u6210\u5B8C\u6210\uFF01", "success");
       }
     } catch (error) {
       this.updateStatusFloat("TTS\u8C03\u8BD5\u5931\u8D25: " + (error instanceof Error ? error.message : String(error)), "error");
@@ -2267,6 +5678,8 @@ GET ${path} HTTP/1.1`;
     header.appendChild(closeBtn);
     const content = createDiv();
     content.className = "voice-assistant-content";
+    const livePreview = createDiv();
+    livePreview.className = "voice-assistant-live-preview is-hidden";
     const controls = createDiv();
     controls.className = "voice-assistant-controls";
     const playPauseBtn = createEl("button");
@@ -2289,8 +5702,35 @@ GET ${path} HTTP/1.1`;
     stopDictationBtn.onclick = () => this.stopDictation();
     controls.appendChild(endDialogBtn);
     controls.appendChild(stopDictationBtn);
+    const meetingControls = createDiv();
+    meetingControls.className = "voice-assistant-meeting-controls is-hidden";
+    controls.appendChild(meetingControls);
+    const pushToTalkButtons = [
+      { target: "dictation", text: "\u{1F399}\uFE0F \u6309\u4F4F\u542C\u5199" },
+      { target: "conversation", text: "\u{1F4AC} \u6309\u4F4F\u5BF9\u8BDD" }
+    ];
+    for (const { target, text } of pushToTalkButtons) {
+      const button = createEl("button");
+      button.className = `voice-assistant-control-button push-to-talk-btn push-to-talk-${target}`;
+      button.textContent = text;
+      button.toggleClass("is-hidden", !this.settings.pushToTalkEnabled);
+      this.registerDomEvent(button, "pointerdown", (event) => {
+        event.preventDefault();
+        void this.pressPushToTalk(target);
+      });
+      for (const type of ["pointerup", "pointerleave", "pointercancel"]) {
+        this.registerDomEvent(button, type, () => {
+          var _a;
+          if (((_a = this.pushToTalkSession) == null ? void 0 : _a.target) === target) {
+            void this.releasePushToTalk();
+          }
+        });
+      }
+      controls.appendChild(button);
+    }
     this.statusFloat.appendChild(header);
     this.statusFloat.appendChild(content);
+    this.statusFloat.appendChild(livePreview);
     this.statusFloat.appendChild(controls);
     document.body.appendChild(this.statusFloat);
   }
@@ -2369,6 +5809,19 @@ GET ${path} HTTP/1.1`;
       }, hideDelay);
     }
   }
+  /**
+   * 更新流式识别实时预览，传入空字符串时隐藏预览区域
+   */
+  updateLivePreview(text) {
+    if (!this.statusFloat) return;
+    const livePreview = this.statusFloat.querySelector(".voice-assistant-live-preview");
+    if (!livePreview) return;
+    livePreview.textContent = text;
+    livePreview.toggleClass("is-hidden", !text);
+    if (text) {
+      this.showStatusFloat();
+    }
+  }
   /**
    * 更新唤醒状态指示器
    */
@@ -2407,11 +5860,15 @@ GET ${path} HTTP/1.1`;
    * 停止TTS播放
    */
   stopTTS() {
+    var _a;
+    (_a = this.ttsAbortController) == null ? void 0 : _a.abort();
+    this.ttsAbortController = null;
     if (this.currentAudio) {
       this.currentAudio.pause();
       this.currentAudio.currentTime = 0;
       this.currentAudio = null;
     }
+    this.stopEchoReference();
     this.isPlaying = false;
     this.updateStatusFloat("\u97F3\u9891\u64AD\u653E\u5DF2\u505C\u6B62", "info");
     this.updatePlayPauseButton("\u23F8\uFE0F \u6682\u505C");
@@ -2523,6 +5980,76 @@ GET ${path} HTTP/1.1`;
       }
     }
   }
+  /**
+   * 按设置显示或隐藏状态浮窗中的按住说话按钮
+   */
+  updatePushToTalkButtons() {
+    var _a;
+    (_a = this.statusFloat) == null ? void 0 : _a.querySelectorAll(".push-to-talk-btn").forEach((button) => {
+      button.toggleClass("is-hidden", !this.settings.pushToTalkEnabled);
+    });
+  }
+  /**
+   * 标记按住说话状态：按钮高亮，浮窗标题显示正在录音
+   */
+  setPushToTalkActive(target, active) {
+    var _a;
+    if (!this.statusFloat) return;
+    (_a = this.statusFloat.querySelector(`.push-to-talk-${target}`)) == null ? void 0 : _a.toggleClass("is-pressed", active);
+    const title = this.statusFloat.querySelector(".voice-assistant-status-title");
+    if (title) {
+      title.textContent = active ? "\u8BED\u97F3\u52A9\u624B - \u6309\u4F4F\u8BF4\u8BDD\u4E2D" : "\u8BED\u97F3\u52A9\u624B";
+      title.toggleClass("is-active", active);
+    }
+  }
+  /**
+   * 显示会议记录控制：每个发言人一个按钮，以及结束会议按钮
+   */
+  showMeetingControls() {
+    var _a;
+    const container = (_a = this.statusFloat) == null ? void 0 : _a.querySelector(".voice-assistant-meeting-controls");
+    if (!container) return;
+    container.empty();
+    for (const speaker of this.settings.meetingSpeakers) {
+      const button = container.createEl("button", {
+        cls: "voice-assistant-control-button meeting-speaker-btn",
+        text: speaker
+      });
+      button.onclick = () => this.setMeetingSpeaker(speaker);
+    }
+    const stopButton = container.createEl("button", {
+      cls: "voice-assistant-control-button",
+      text: "\u23F9\uFE0F \u7ED3\u675F\u4F1A\u8BAE"
+    });
+    stopButton.onclick = () => {
+      var _a2;
+      return (_a2 = this.meetingSession) == null ? void 0 : _a2.stop();
+    };
+    container.removeClass("is-hidden");
+    this.updateMeetingClock();
+  }
+  /** 在浮窗标题中显示会议已进行的时长 */
+  updateMeetingClock() {
+    var _a;
+    const title = (_a = this.statusFloat) == null ? void 0 : _a.querySelector(".voice-assistant-status-title");
+    if (!title || !this.meetingSession) return;
+    title.textContent = `\u8BED\u97F3\u52A9\u624B - \u4F1A\u8BAE\u8BB0\u5F55 ${formatTimestamp((Date.now() - this.meetingSession.startedAt) / 1e3)}`;
+    title.addClass("is-active");
+  }
+  /**
+   * 隐藏会议记录控制并恢复浮窗标题
+   */
+  hideMeetingControls() {
+    if (!this.statusFloat) return;
+    const container = this.statusFloat.querySelector(".voice-assistant-meeting-controls");
+    container == null ? void 0 : container.empty();
+    container == null ? void 0 : container.addClass("is-hidden");
+    const title = this.statusFloat.querySelector(".voice-assistant-status-title");
+    if (title) {
+      title.textContent = "\u8BED\u97F3\u52A9\u624B";
+      title.removeClass("is-active");
+    }
+  }
   /**
    * 显示听写控制界面
    */
@@ -2559,6 +6086,7 @@ GET ${path} HTTP/1.1`;
    * 启动背景语音检测
    */
   async startBackgroundVoiceDetection() {
+    var _a;
     if (this.backgroundVoiceDetection || !this.settings.enableVoiceInterruption) {
       return;
     }
@@ -2573,38 +6101,42 @@ GET ${path} HTTP/1.1`;
           noiseSuppression: true
         }
       });
-      const audioContext = createAudioContext();
-      const analyser = audioContext.createAnalyser();
-      const source = audioContext.createMediaStreamSource(this.backgroundStream);
-      source.connect(analyser);
-      analyser.fftSize = 256;
-      const bufferLength = analyser.frequencyBinCount;
-      const dataArray = new Uint8Array(bufferLength);
-      let consecutiveDetections = 0;
-      const requiredDetections = 3;
-      const checkVolume = () => {
-        if (!this.backgroundVoiceDetection) return;
-        analyser.getByteFrequencyData(dataArray);
-        const average = dataArray.reduce((a, b) => a + b) / bufferLength;
-        if (average > this.settings.voiceDetectionThreshold) {
-          consecutiveDetections++;
-          this.debugLog(`\u8BED\u97F3\u68C0\u6D4B ${consecutiveDetections}/${requiredDetections}\uFF0C\u97F3\u91CF: ${average.toFixed(1)}`);
-          if (consecutiveDetections >= requiredDetections) {
-            this.debugLog("\u8FDE\u7EED\u68C0\u6D4B\u5230\u8BED\u97F3\u8F93\u5165\uFF0C\u505C\u6B62TTS\u5E76\u5F00\u59CB\u65B0\u5BF9\u8BDD");
-            this.handleVoiceInterruption();
-            return;
-          }
-        } else {
-          if (consecutiveDetections > 0) {
-            consecutiveDetections = 0;
+      const onsetMs = this.settings.voiceDetectionSensitivity * 3;
+      const vad = this.createVoiceActivityDetector(this.backgroundStream, { onsetMs });
+      const confirmFrames = Math.ceil(onsetMs / VAD_FRAME_MS);
+      let nearEndFrames = 0;
+      let ignoringEcho = false;
+      const stopCapture = await startPcmFrameCapture(this.backgroundStream, VAD_CHUNK_SAMPLES, (frame) => {
+        var _a2;
+        const samples = pcm16ToFloat32(frame);
+        const speaking = vad.process(samples);
+        if (!speaking) {
+          ignoringEcho = false;
+        }
+        nearEndFrames = this.echoGate.isNearEnd(measureRms(samples), performance.now()) ? nearEndFrames + 1 : 0;
+        if (!this.backgroundVoiceDetection || !speaking) {
+          return;
+        }
+        if (nearEndFrames < confirmFrames) {
+          if (!ignoringEcho) {
+            ignoringEcho = true;
+            this.debugLog(`\u8BED\u97F3\u4E0E\u64AD\u62A5\u56DE\u58F0\u76F8\u8FD1\uFF0C\u5FFD\u7565\uFF08\u56DE\u58F0\u589E\u76CA ${this.echoGate.echoCoupling.toFixed(2)}\uFF09`);
           }
+          return;
         }
-        this.voiceDetectionTimer = window.setTimeout(checkVolume, this.settings.voiceDetectionSensitivity);
-      };
-      checkVolume();
+        this.debugLog(`\u68C0\u6D4B\u5230\u8BED\u97F3\u8F93\u5165\uFF0C\u80FD\u91CF: ${(_a2 = vad.features) == null ? void 0 : _a2.energy.toFixed(4)}\uFF0C\u505C\u6B62TTS\u5E76\u5F00\u59CB\u65B0\u5BF9\u8BDD`);
+        this.handleVoiceInterruption();
+      });
+      if (!this.backgroundVoiceDetection) {
+        stopCapture();
+        return;
+      }
+      this.stopBackgroundCapture = stopCapture;
     } catch (error) {
       this.debugLog("\u542F\u52A8\u80CC\u666F\u8BED\u97F3\u68C0\u6D4B\u5931\u8D25:", error);
       this.backgroundVoiceDetection = false;
+      (_a = this.backgroundStream) == null ? void 0 : _a.getTracks().forEach((track) => track.stop());
+      this.backgroundStream = null;
     }
   }
   /**
@@ -2614,9 +6146,9 @@ GET ${path} HTTP/1.1`;
     if (!this.backgroundVoiceDetection) return;
     this.debugLog("\u505C\u6B62\u80CC\u666F\u8BED\u97F3\u68C0\u6D4B");
     this.backgroundVoiceDetection = false;
-    if (this.voiceDetectionTimer) {
-      window.clearTimeout(this.voiceDetectionTimer);
-      this.voiceDetectionTimer = null;
+    if (this.stopBackgroundCapture) {
+      this.stopBackgroundCapture();
+      this.stopBackgroundCapture = null;
     }
     if (this.backgroundStream) {
       this.backgroundStream.getTracks().forEach((track) => track.stop());
@@ -2758,12 +6290,20 @@ GET ${path} HTTP/1.1`;
         finalAudioBlob = newAudioBlob;
       }
       this.updateStatusFloat("\u6B63\u5728\u8BC6\u522B\u8BED\u97F3...");
-      const userText = await this.speechToText(finalAudioBlob);
-      if (!userText || userText.trim() === "" || userText === "\u672A\u8BC6\u522B\u5230\u8BED\u97F3\u5185\u5BB9") {
+      let userText;
+      try {
+        userText = await this.speechToText(finalAudioBlob, "\u5BF9\u8BDD");
+      } catch (error) {
+        await this.captureConversationRecording(finalAudioBlob, error);
+        this.startSilenceDetection();
+        return;
+      }
+      if (!userText.trim()) {
         this.updateStatusFloat("\u672A\u8BC6\u522B\u5230\u6709\u6548\u8BED\u97F3\uFF0C\u8BF7\u91CD\u8BD5", "warning");
         this.startSilenceDetection();
         return;
       }
+      userText = this.normalizeConversationText(userText);
       this.debugLog("\u7528\u6237\u8F93\u5165:", userText);
       const processedText = this.processCustomPrompts(userText);
       this.updateStatusFloat("\u6B63\u5728\u601D\u8003\u56DE\u590D...");
@@ -2992,6 +6532,212 @@ ${summary}
     }
   }
 };
+var AudioFileSuggestModal = class extends import_obsidian.FuzzySuggestModal {
+  constructor(app, files, onChoose) {
+    super(app);
+    this.files = files;
+    this.onChoose = onChoose;
+    this.setPlaceholder("\u9009\u62E9\u8981\u8F6C\u5199\u7684\u97F3\u9891\u6587\u4EF6");
+  }
+  getItems() {
+    return this.files;
+  }
+  getItemText(file) {
+    return file.path;
+  }
+  onChooseItem(file) {
+    this.onChoose(file);
+  }
+};
+var DictationPolishModal = class extends import_obsidian.Modal {
+  constructor(app, title, segments, paragraphs, onApply, onClosed) {
+    super(app);
+    this.title = title;
+    this.segments = segments;
+    this.paragraphs = paragraphs;
+    this.onApply = onApply;
+    this.onClosed = onClosed;
+    this.applied = false;
+    this.accepted = paragraphs.map(() => true);
+  }
+  onOpen() {
+    this.titleEl.setText(this.title);
+    this.render();
+  }
+  onClose() {
+    this.contentEl.empty();
+    if (!this.applied) {
+      new import_obsidian.Notice("\u5DF2\u4FDD\u7559\u539F\u59CB\u542C\u5199\u5185\u5BB9");
+    }
+    this.onClosed();
+  }
+  render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("voice-assistant-polish");
+    this.paragraphs.forEach((paragraph, index) => {
+      const original = getParagraphOriginal(this.segments, paragraph);
+      new import_obsidian.Setting(contentEl).setName(`\u7B2C ${index + 1} \u6BB5`).setDesc(original === paragraph.text ? "\u65E0\u4FEE\u6539" : "").addToggle((toggle) => toggle.setTooltip("\u91C7\u7528\u6DA6\u8272\u7ED3\u679C").setValue(this.accepted[index]).onChange((value) => {
+        this.accepted[index] = value;
+      }));
+      const row = contentEl.createDiv({ cls: "voice-assistant-polish-row" });
+      const before = row.createDiv({ cls: "voice-assistant-polish-column" });
+      const after = row.createDiv({ cls: "voice-assistant-polish-column" });
+      for (const part of diffText(original, paragraph.text)) {
+        if (part.type !== "insert") {
+          before.createSpan({ text: part.text, cls: part.type === "delete" ? "is-deleted" : void 0 });
+        }
+        if (part.type !== "delete") {
+          after.createSpan({ text: part.text, cls: part.type === "insert" ? "is-inserted" : void 0 });
+        }
+      }
+    });
+    new import_obsidian.Setting(contentEl).addButton((button) => button.setButtonText("\u5168\u90E8\u63A5\u53D7").onClick(() => {
+      this.accepted.fill(true);
+      this.render();
+    })).addButton((button) => button.setButtonText("\u5168\u90E8\u62D2\u7EDD").onClick(() => {
+      this.accepted.fill(false);
+      this.render();
+    })).addButton((button) => button.setButtonText("\u5E94\u7528").setCta().onClick(() => {
+      this.applied = true;
+      this.onApply(this.accepted.slice());
+      this.close();
+    }));
+  }
+};
+var ASR_LANGUAGE_OPTIONS = {
+  zh_cn: "\u4E2D\u6587",
+  en_us: "\u82F1\u6587",
+  ja_jp: "\u65E5\u8BED",
+  ko_kr: "\u97E9\u8BED",
+  "ru-ru": "\u4FC4\u8BED",
+  fr_fr: "\u6CD5\u8BED",
+  es_es: "\u897F\u73ED\u7259\u8BED"
+};
+var ASR_ACCENT_OPTIONS = {
+  mandarin: "\u666E\u901A\u8BDD",
+  cantonese: "\u7CA4\u8BED",
+  lmz: "\u56DB\u5DDD\u8BDD",
+  henanese: "\u6CB3\u5357\u8BDD"
+};
+var CALIBRATION_SILENCE_MS = 3e3;
+var CALIBRATION_SPEECH_MS = 5e3;
+var CALIBRATION_SENTENCE = "\u4ECA\u5929\u5929\u6C14\u4E0D\u9519\uFF0C\u6211\u4EEC\u4E5D\u70B9\u5728\u4F1A\u8BAE\u5BA4\u8BA8\u8BBA\u4E0B\u5468\u7684\u9879\u76EE\u8FDB\u5EA6\u3002";
+function levelToPercent(level) {
+  const db = 20 * Math.log10(Math.max(level, 1e-6));
+  return Math.min(100, Math.max(0, (db + 60) / 60 * 100));
+}
+var MicrophoneCalibrationModal = class extends import_obsidian.Modal {
+  constructor(app, onSave) {
+    super(app);
+    this.onSave = onSave;
+    this.stream = null;
+    this.stopCapture = null;
+    this.phaseTimer = 0;
+    this.currentLevel = null;
+  }
+  onOpen() {
+    this.titleEl.setText("\u9EA6\u514B\u98CE\u6821\u51C6");
+    const { contentEl } = this;
+    contentEl.addClass("voice-assistant-calibration");
+    this.statusEl = contentEl.createEl("p");
+    const meter = contentEl.createDiv({ cls: "voice-assistant-level-meter" });
+    this.meterBar = meter.createDiv({ cls: "voice-assistant-level-bar" });
+    this.thresholdMarker = meter.createDiv({ cls: "voice-assistant-level-threshold is-hidden" });
+    this.bodyEl = contentEl.createDiv();
+    void this.startMeter();
+  }
+  onClose() {
+    var _a, _b;
+    window.clearTimeout(this.phaseTimer);
+    (_a = this.stopCapture) == null ? void 0 : _a.call(this);
+    this.stopCapture = null;
+    (_b = this.stream) == null ? void 0 : _b.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+    this.contentEl.empty();
+  }
+  /** 打开麦克风并持续刷新电平表 */
+  async startMeter() {
+    this.statusEl.setText("\u6B63\u5728\u6253\u5F00\u9EA6\u514B\u98CE...");
+    try {
+      this.stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          sampleRate: 16e3,
+          channelCount: 1,
+          echoCancellation: true,
+          noiseSuppression: true
+        }
+      });
+      const stopCapture = await startPcmFrameCapture(this.stream, VAD_CHUNK_SAMPLES, (frame) => {
+        var _a;
+        const level = measureRms(pcm16ToFloat32(frame));
+        this.meterBar.setCssProps({ "--voice-assistant-level": `${levelToPercent(level)}%` });
+        (_a = this.currentLevel) == null ? void 0 : _a.call(this, level);
+      });
+      if (!this.stream) {
+        stopCapture();
+        return;
+      }
+      this.stopCapture = stopCapture;
+    } catch (error) {
+      this.statusEl.setText(`\u65E0\u6CD5\u8BBF\u95EE\u9EA6\u514B\u98CE: ${getErrorMessage(error)}`);
+      return;
+    }
+    this.renderIntro();
+  }
+  renderIntro() {
+    var _a, _b;
+    const label = ((_b = (_a = this.stream) == null ? void 0 : _a.getAudioTracks()[0]) == null ? void 0 : _b.label) || "\u9ED8\u8BA4\u9EA6\u514B\u98CE";
+    this.statusEl.setText(`\u5F53\u524D\u9EA6\u514B\u98CE\uFF1A${label}`);
+    this.bodyEl.empty();
+    this.bodyEl.createEl("p", {
+      text: `\u6821\u51C6\u5206\u4E24\u6B65\uFF1A\u5148\u4FDD\u6301\u5B89\u9759 ${CALIBRATION_SILENCE_MS / 1e3} \u79D2\uFF0C\u6D4B\u91CF\u73AF\u5883\u566A\u58F0\uFF1B\u518D\u7528\u5E73\u5E38\u7684\u97F3\u91CF\u6717\u8BFB\u4E00\u53E5\u8BDD\u3002\u8BF7\u5728\u5E73\u65F6\u4F7F\u7528\u8BED\u97F3\u52A9\u624B\u7684\u73AF\u5883\u4E2D\u8FDB\u884C\u3002`
+    });
+    new import_obsidian.Setting(this.bodyEl).addButton((button) => button.setButtonText("\u5F00\u59CB\u6821\u51C6").setCta().onClick(() => this.recordPhases()));
+  }
+  /** 依次录制安静环境和说话两个阶段的逐帧能量 */
+  recordPhases() {
+    const silenceLevels = [];
+    const speechLevels = [];
+    this.thresholdMarker.addClass("is-hidden");
+    this.bodyEl.empty();
+    this.statusEl.setText(`\u7B2C 1 \u6B65\uFF1A\u8BF7\u4FDD\u6301\u5B89\u9759\uFF08${CALIBRATION_SILENCE_MS / 1e3} \u79D2\uFF09`);
+    this.currentLevel = (level) => silenceLevels.push(level);
+    this.phaseTimer = window.setTimeout(() => {
+      this.statusEl.setText(`\u7B2C 2 \u6B65\uFF1A\u8BF7\u7528\u5E73\u5E38\u7684\u97F3\u91CF\u6717\u8BFB\uFF08${CALIBRATION_SPEECH_MS / 1e3} \u79D2\uFF09`);
+      this.bodyEl.createEl("blockquote", { text: CALIBRATION_SENTENCE });
+      this.currentLevel = (level) => speechLevels.push(level);
+      this.phaseTimer = window.setTimeout(() => {
+        this.currentLevel = null;
+        this.renderResult(computeVadCalibration(silenceLevels, speechLevels));
+      }, CALIBRATION_SPEECH_MS);
+    }, CALIBRATION_SILENCE_MS);
+  }
+  renderResult(result) {
+    var _a;
+    this.bodyEl.empty();
+    const track = (_a = this.stream) == null ? void 0 : _a.getAudioTracks()[0];
+    const deviceId = track == null ? void 0 : track.getSettings().deviceId;
+    if (!result || !track || !deviceId) {
+      this.statusEl.setText("\u8BF4\u8BDD\u58F0\u97F3\u4E0E\u73AF\u5883\u566A\u58F0\u533A\u5206\u4E0D\u660E\u663E\uFF0C\u8BF7\u9760\u8FD1\u9EA6\u514B\u98CE\u6216\u6362\u5230\u66F4\u5B89\u9759\u7684\u5730\u65B9\u540E\u91CD\u8BD5\u3002");
+    } else {
+      this.statusEl.setText("\u6821\u51C6\u5B8C\u6210\uFF0C\u7AD6\u7EBF\u4E3A\u65B0\u7684\u68C0\u6D4B\u9608\u503C\uFF0C\u8BF4\u8BDD\u65F6\u7535\u5E73\u5E94\u660E\u663E\u8D8A\u8FC7\u5B83\u3002");
+      this.thresholdMarker.setCssProps({ "--voice-assistant-threshold": `${levelToPercent(result.threshold)}%` });
+      this.thresholdMarker.removeClass("is-hidden");
+      const format = (level) => `${(20 * Math.log10(level)).toFixed(1)} dB`;
+      this.bodyEl.createEl("p", {
+        text: `\u73AF\u5883\u566A\u58F0 ${format(result.noiseFloor)}\uFF0C\u8BF4\u8BDD\u97F3\u91CF ${format(result.speechLevel)}\uFF0C\u68C0\u6D4B\u9608\u503C ${format(result.threshold)}`
+      });
+    }
+    const actions = new import_obsidian.Setting(this.bodyEl).addButton((button) => button.setButtonText("\u91CD\u65B0\u6821\u51C6").onClick(() => this.recordPhases()));
+    if (result && track && deviceId) {
+      actions.addButton((button) => button.setButtonText("\u4FDD\u5B58").setCta().onClick(async () => {
+        await this.onSave(deviceId, { ...result, label: track.label, calibratedAt: Date.now() });
+        this.close();
+      }));
+    }
+  }
+};
 var VoiceAssistantSettingTab = class extends import_obsidian.PluginSettingTab {
   constructor(app, plugin) {
     super(app, plugin);
@@ -3158,7 +6904,7 @@ var VoiceAssistantSettingTab = class extends import_obsidian.PluginSettingTab {
       this.plugin.settings.autoEnterDialogAfterWake = value;
       await this.plugin.saveSettings();
     }));
-    const wakeIntervalSetting = new import_obsidian.Setting(containerEl).setName("\u5524\u9192\u68C0\u6D4B\u95F4\u9694").setDesc("\u8BBE\u7F6E\u5524\u9192\u8BCD\u68C0\u6D4B\u7684\u65F6\u95F4\u95F4\u9694\uFF0C\u6570\u503C\u8D8A\u5C0F\u54CD\u5E94\u8D8A\u5FEB\u4F46\u6D88\u8017\u66F4\u591A\u8D44\u6E90\uFF080.5-5\u79D2\uFF09");
+    const wakeIntervalSetting = new import_obsidian.Setting(containerEl).setName("\u5524\u9192\u7247\u6BB5\u6700\u957F\u65F6\u957F").setDesc("\u53EA\u6709\u68C0\u6D4B\u5230\u8BED\u97F3\u65F6\u624D\u9001\u53BB\u8BC6\u522B\u5524\u9192\u8BCD\uFF1B\u8FDE\u7EED\u8BB2\u8BDD\u8D85\u8FC7\u8BE5\u65F6\u957F\u65F6\u6309\u8BE5\u957F\u5EA6\u5207\u5206\u8BC6\u522B\uFF080.5-5\u79D2\uFF09");
     const wakeIntervalValueEl = wakeIntervalSetting.controlEl.createSpan({
       text: `${this.plugin.settings.wakeDetectionInterval / 1e3}\u79D2`,
       cls: "setting-slider-value"
@@ -3169,10 +6915,118 @@ var VoiceAssistantSettingTab = class extends import_obsidian.PluginSettingTab {
       await this.plugin.saveSettings();
     }));
     new import_obsidian.Setting(containerEl).setName("\u8BED\u97F3\u8BC6\u522B").setHeading();
-    new import_obsidian.Setting(containerEl).setName("ASR \u63D0\u4F9B\u5546").setDesc("\u9009\u62E9\u8BED\u97F3\u8BC6\u522B\u670D\u52A1\u63D0\u4F9B\u5546").addDropdown((dropdown) => dropdown.addOption("xunfei", "\u8BAF\u98DE\u8BED\u97F3\u8BC6\u522B").setValue(this.plugin.settings.asrProvider).onChange(async (value) => {
+    new import_obsidian.Setting(containerEl).setName("ASR \u63D0\u4F9B\u5546").setDesc("\u9009\u62E9\u8BED\u97F3\u8BC6\u522B\u670D\u52A1\u63D0\u4F9B\u5546").addDropdown((dropdown) => dropdown.addOption("xunfei", "\u8BAF\u98DE\u8BED\u97F3\u8BC6\u522B").addOption("openai", "OpenAI \u517C\u5BB9\u8F6C\u5199\u63A5\u53E3").addOption("vosk", "Vosk \u672C\u5730\u8BC6\u522B\u670D\u52A1\uFF08\u79BB\u7EBF\uFF09").setValue(this.plugin.settings.asrProvider).onChange(async (value) => {
       this.plugin.settings.asrProvider = value;
       await this.plugin.saveSettings();
     }));
+    new import_obsidian.Setting(containerEl).setName("\u8F6C\u5199\u63A5\u53E3\u5730\u5740").setDesc("OpenAI \u517C\u5BB9\u670D\u52A1\u7684\u57FA\u7840\u5730\u5740\uFF0C\u4F8B\u5982\u672C\u5730 whisper.cpp \u6216 faster-whisper \u670D\u52A1\uFF1B\u63D2\u4EF6\u4F1A\u8BF7\u6C42\u5176 /audio/transcriptions").addText((text) => text.setPlaceholder("http://localhost:8000/v1").setValue(this.plugin.settings.openaiAsrBaseUrl).onChange(async (value) => {
+      this.plugin.settings.openaiAsrBaseUrl = value.trim();
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("\u8F6C\u5199\u63A5\u53E3 API Key").setDesc("OpenAI \u517C\u5BB9\u8F6C\u5199\u670D\u52A1\u7684 API \u5BC6\u94A5\uFF0C\u672C\u5730\u670D\u52A1\u65E0\u9700\u9274\u6743\u65F6\u53EF\u7559\u7A7A").addText((text) => {
+      text.inputEl.type = "password";
+      text.setPlaceholder("\u8F93\u5165\u8F6C\u5199\u63A5\u53E3 API Key").setValue(this.plugin.settings.openaiAsrApiKey).onChange(async (value) => {
+        this.plugin.settings.openaiAsrApiKey = value;
+        await this.plugin.saveSettings();
+      });
+    });
+    new import_obsidian.Setting(containerEl).setName("\u8F6C\u5199\u6A21\u578B").setDesc("\u8F6C\u5199\u670D\u52A1\u4F7F\u7528\u7684\u6A21\u578B\u540D\u79F0\uFF0C\u4F8B\u5982 whisper-1 \u6216 Systran/faster-whisper-small").addText((text) => text.setPlaceholder("whisper-1").setValue(this.plugin.settings.openaiAsrModel).onChange(async (value) => {
+      this.plugin.settings.openaiAsrModel = value.trim();
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("\u8BC6\u522B\u8BED\u8A00").setDesc("\u9ED8\u8BA4\u8BC6\u522B\u8BED\u8A00\uFF1BOpenAI \u517C\u5BB9\u63A5\u53E3\u4F1A\u8F6C\u6362\u4E3A\u5BF9\u5E94\u7684 ISO \u8BED\u8A00\u4EE3\u7801\uFF0CVosk \u7684\u8BED\u8A00\u7531\u6240\u52A0\u8F7D\u7684\u6A21\u578B\u51B3\u5B9A").addDropdown((dropdown) => dropdown.addOptions(ASR_LANGUAGE_OPTIONS).setValue(this.plugin.settings.asrLanguage).onChange(async (value) => {
+      this.plugin.settings.asrLanguage = value;
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("\u65B9\u8A00/\u53E3\u97F3").setDesc("\u4E2D\u6587\u8BC6\u522B\u4F7F\u7528\u7684\u65B9\u8A00\u6216\u53E3\u97F3\uFF0C\u5176\u4ED6\u8BED\u79CD\u5FFD\u7565\u6B64\u9879").addDropdown((dropdown) => dropdown.addOptions(ASR_ACCENT_OPTIONS).setValue(this.plugin.settings.asrAccent).onChange(async (value) => {
+      this.plugin.settings.asrAccent = value;
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("\u81EA\u52A8\u6807\u70B9").setDesc("\u5728\u8BC6\u522B\u7ED3\u679C\u4E2D\u81EA\u52A8\u6DFB\u52A0\u6807\u70B9\u7B26\u53F7\uFF08\u8BAF\u98DE ptt\uFF09").addToggle((toggle) => toggle.setValue(this.plugin.settings.asrPunctuation).onChange(async (value) => {
+      this.plugin.settings.asrPunctuation = value;
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("\u6570\u5B57\u8F6C\u963F\u62C9\u4F2F\u6570\u5B57").setDesc("\u5C06\u8BC6\u522B\u51FA\u7684\u4E2D\u6587\u6570\u5B57\u8F6C\u6362\u4E3A\u963F\u62C9\u4F2F\u6570\u5B57\uFF08\u8BAF\u98DE nunum\uFF0C\u4EC5\u4E2D\u6587\uFF09").addToggle((toggle) => toggle.setValue(this.plugin.settings.asrNumberFormat).onChange(async (value) => {
+      this.plugin.settings.asrNumberFormat = value;
+      await this.plugin.saveSettings();
+    }));
+    const vadEosSetting = new import_obsidian.Setting(containerEl).setName("\u53E5\u5C3E\u9759\u9ED8\u8D85\u65F6").setDesc("\u5F55\u97F3\u8BC6\u522B\u65F6\uFF0C\u9759\u9ED8\u591A\u4E45\u540E\u8BAF\u98DE\u5224\u5B9A\u8BF4\u8BDD\u7ED3\u675F\uFF081-10\u79D2\uFF09\uFF1B\u6D41\u5F0F\u542C\u5199\u4F7F\u7528\u201C\u5F55\u97F3\u9759\u9ED8\u95F4\u9694\u201D");
+    const vadEosValueEl = vadEosSetting.controlEl.createSpan({
+      text: `${this.plugin.settings.asrVadEos / 1e3}\u79D2`,
+      cls: "setting-slider-value"
+    });
+    vadEosSetting.addSlider((slider) => slider.setLimits(1e3, 1e4, 500).setValue(this.plugin.settings.asrVadEos).onChange(async (value) => {
+      this.plugin.settings.asrVadEos = value;
+      vadEosValueEl.textContent = `${value / 1e3}\u79D2`;
+      await this.plugin.saveSettings();
+    }));
+    const chunkSecondsSetting = new import_obsidian.Setting(containerEl).setName("\u957F\u5F55\u97F3\u5206\u6BB5").setDesc("\u8BAF\u98DE\u5355\u6B21\u8BC6\u522B\u6700\u957F\u7EA6 60 \u79D2\uFF0C\u66F4\u957F\u7684\u5F55\u97F3\u4F1A\u5728\u9759\u97F3\u5904\u5207\u5206\u4E3A\u4E0D\u8D85\u8FC7\u8BE5\u65F6\u957F\u7684\u7247\u6BB5\u5206\u522B\u8BC6\u522B");
+    const chunkSecondsValueEl = chunkSecondsSetting.controlEl.createSpan({
+      text: `${this.plugin.settings.asrChunkSeconds}\u79D2`,
+      cls: "setting-slider-value"
+    });
+    chunkSecondsSetting.addSlider((slider) => slider.setLimits(20, 58, 1).setValue(this.plugin.settings.asrChunkSeconds).onChange(async (value) => {
+      this.plugin.settings.asrChunkSeconds = value;
+      chunkSecondsValueEl.textContent = `${value}\u79D2`;
+      await this.plugin.saveSettings();
+    }));
+    const chunkOverlapSetting = new import_obsidian.Setting(containerEl).setName("\u5206\u6BB5\u91CD\u53E0").setDesc("\u76F8\u90BB\u7247\u6BB5\u91CD\u53E0\u7684\u65F6\u957F\uFF0C\u907F\u514D\u5207\u5206\u5904\u4E22\u5B57\uFF1B\u62FC\u63A5\u65F6\u81EA\u52A8\u53BB\u6389\u91CD\u590D\u5185\u5BB9");
+    const chunkOverlapValueEl = chunkOverlapSetting.controlEl.createSpan({
+      text: `${this.plugin.settings.asrChunkOverlap}\u79D2`,
+      cls: "setting-slider-value"
+    });
+    chunkOverlapSetting.addSlider((slider) => slider.setLimits(0, 3, 0.5).setValue(this.plugin.settings.asrChunkOverlap).onChange(async (value) => {
+      this.plugin.settings.asrChunkOverlap = value;
+      chunkOverlapValueEl.textContent = `${value}\u79D2`;
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("\u5206\u6BB5\u5E76\u53D1\u6570").setDesc("\u540C\u65F6\u8BC6\u522B\u7684\u7247\u6BB5\u6570\u91CF\uFF0C1 \u4E3A\u9010\u6BB5\u8BC6\u522B\uFF1B\u5E76\u53D1\u6570\u53D7\u8BAF\u98DE\u8D26\u53F7\u5E76\u53D1\u8DEF\u6570\u9650\u5236").addDropdown((dropdown) => dropdown.addOption("1", "1").addOption("2", "2").addOption("3", "3").setValue(String(this.plugin.settings.asrChunkConcurrency)).onChange(async (value) => {
+      this.plugin.settings.asrChunkConcurrency = Number(value);
+      await this.plugin.saveSettings();
+    }));
+    const asrProfilesContainer = containerEl.createDiv();
+    this.displayAsrProfiles(asrProfilesContainer);
+    new import_obsidian.Setting(containerEl).setName("Vosk \u670D\u52A1\u5730\u5740").setDesc("\u672C\u5730 Vosk WebSocket \u670D\u52A1\u5730\u5740\uFF0C\u4F8B\u5982 vosk-server \u7684 ws://localhost:2700\uFF1B\u97F3\u9891\u53EA\u53D1\u9001\u5230\u8BE5\u670D\u52A1").addText((text) => text.setPlaceholder("ws://localhost:2700").setValue(this.plugin.settings.voskServerUrl).onChange(async (value) => {
+      this.plugin.settings.voskServerUrl = value.trim();
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("\u6D41\u5F0F\u8BC6\u522B").setDesc("\u542C\u5199\u65F6\u8FB9\u8BF4\u8FB9\u4E0A\u4F20\u97F3\u9891\uFF0C\u5E76\u5728\u7B14\u8BB0\u548C\u72B6\u6001\u6D6E\u7A97\u4E2D\u5B9E\u65F6\u663E\u793A\u4F1A\u81EA\u52A8\u4FEE\u6B63\u7684\u8BC6\u522B\u9884\u89C8\uFF08\u8BAF\u98DE\u548C Vosk\uFF09").addToggle((toggle) => toggle.setValue(this.plugin.settings.asrStreamingMode).onChange(async (value) => {
+      this.plugin.settings.asrStreamingMode = value;
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("\u4E2A\u4EBA\u8BCD\u6C47").setHeading();
+    new import_obsidian.Setting(containerEl).setName("\u8BC6\u522B\u540E\u7EA0\u9519").setDesc("\u6BCF\u6B21\u8BC6\u522B\u540E\u6309\u4E2A\u4EBA\u8BCD\u6C47\u8868\u7EA0\u6B63\u9879\u76EE\u540D\u3001\u4EBA\u540D\u548C\u672F\u8BED\uFF0C\u542C\u5199\u3001\u5BF9\u8BDD\u548C\u5524\u9192\u8BCD\u5339\u914D\u5747\u751F\u6548").addToggle((toggle) => toggle.setValue(this.plugin.settings.vocabularyEnabled).onChange(async (value) => {
+      this.plugin.settings.vocabularyEnabled = value;
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("\u8BCD\u6C47\u8868").setDesc("\u6BCF\u884C\u4E00\u6761\uFF1A\u5199\u672F\u8BED\u672C\u8EAB\u53EF\u7EA0\u6B63\u5927\u5C0F\u5199\u548C\u88AB\u62C6\u5F00\u7684\u5355\u8BCD\uFF1B\u5199\u201C\u542C\u5230\u7684 \u2192 \u5E94\u4E3A\u7684\u201D\u66FF\u6362\u8BEF\u8BC6\u522B\uFF08\u4E5F\u652F\u6301 -> \u548C =>\uFF0C\u591A\u4E2A\u542C\u6CD5\u7528 | \u5206\u9694\uFF09").addTextArea((text) => text.setPlaceholder("OpenRouter\n\u5C0F\u4E09 | \u6653\u73CA \u2192 \u5C0F\u73CA\n\u9ED1\u836F\u77F3 \u2192 \u9ED1\u66DC\u77F3").setValue(this.plugin.settings.vocabularyText).onChange(async (value) => {
+      this.plugin.settings.vocabularyText = value;
+      await this.plugin.saveSettings();
+      await this.plugin.refreshVocabulary();
+    }));
+    new import_obsidian.Setting(containerEl).setName("\u8BCD\u6C47\u8868\u7B14\u8BB0").setDesc("\u53EF\u9009\uFF0C\u4ED3\u5E93\u4E2D\u7684\u7B14\u8BB0\u8DEF\u5F84\uFF0C\u683C\u5F0F\u4E0E\u4E0A\u9762\u7684\u8BCD\u6C47\u8868\u76F8\u540C\uFF1B\u5217\u8868\u7B26\u53F7\u3001\u6807\u9898\u548C frontmatter \u4F1A\u88AB\u5FFD\u7565\uFF0C\u4FEE\u6539\u7B14\u8BB0\u540E\u81EA\u52A8\u751F\u6548").addText((text) => text.setPlaceholder("\u8BED\u97F3\u52A9\u624B/\u4E2A\u4EBA\u8BCD\u6C47.md").setValue(this.plugin.settings.vocabularyNotePath).onChange(async (value) => {
+      this.plugin.settings.vocabularyNotePath = value.trim();
+      await this.plugin.saveSettings();
+      await this.plugin.refreshVocabulary();
+    }));
+    new import_obsidian.Setting(containerEl).setName("\u6536\u5F55\u7B14\u8BB0\u6807\u9898\u548C\u6807\u7B7E").setDesc("\u81EA\u52A8\u628A\u8BCD\u5185\u5E26\u5927\u5199\u5B57\u6BCD\u3001\u7F29\u5199\u6216\u6570\u5B57\u7684\u82F1\u6587\u7B14\u8BB0\u6807\u9898\u548C\u6807\u7B7E\uFF08\u5982 OpenRouter\u3001GPT4\uFF09\u4F5C\u4E3A\u672F\u8BED\uFF0C\u53EA\u6709\u9996\u5B57\u6BCD\u5927\u5199\u7684\u666E\u901A\u6807\u9898\u4E0D\u6536\u5F55").addToggle((toggle) => toggle.setValue(this.plugin.settings.vocabularyFromVault).onChange(async (value) => {
+      this.plugin.settings.vocabularyFromVault = value;
+      await this.plugin.saveSettings();
+      await this.plugin.refreshVocabulary();
+    }));
+    new import_obsidian.Setting(containerEl).setName("\u81EA\u52A8\u8F6C\u5199").setHeading();
+    new import_obsidian.Setting(containerEl).setName("\u81EA\u52A8\u8F6C\u5199\u6536\u4EF6\u7BB1\u97F3\u9891").setDesc("\u6536\u4EF6\u7BB1\u6587\u4EF6\u5939\u4E2D\u65B0\u589E\u6216\u79FB\u5165\u7684 mp3\u3001wav\u3001webm\u3001m4a \u97F3\u9891\u4F1A\u6392\u961F\u8F6C\u5199\uFF0CObsidian \u91CD\u542F\u540E\u7EE7\u7EED\u5904\u7406\u672A\u5B8C\u6210\u7684\u4EFB\u52A1").addToggle((toggle) => toggle.setValue(this.plugin.settings.autoTranscribeEnabled).onChange(async (value) => {
+      this.plugin.settings.autoTranscribeEnabled = value;
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("\u97F3\u9891\u6536\u4EF6\u7BB1\u6587\u4EF6\u5939").setDesc("\u76D1\u542C\u7684\u6587\u4EF6\u5939\u8DEF\u5F84\uFF0C\u4F8B\u5982\u624B\u673A\u5F55\u97F3\u540C\u6B65\u5230\u7684\u6587\u4EF6\u5939").addText((text) => text.setPlaceholder("\u5F55\u97F3/\u6536\u4EF6\u7BB1").setValue(this.plugin.settings.audioInboxFolder).onChange(async (value) => {
+      this.plugin.settings.audioInboxFolder = value.trim();
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("\u8F6C\u5199\u7B14\u8BB0\u6587\u4EF6\u5939").setDesc("\u81EA\u52A8\u8F6C\u5199\u751F\u6210\u7684\u7B14\u8BB0\u4FDD\u5B58\u4F4D\u7F6E\uFF0C\u7559\u7A7A\u5219\u4FDD\u5B58\u5728\u97F3\u9891\u6240\u5728\u6587\u4EF6\u5939").addText((text) => text.setPlaceholder("\u5F55\u97F3/\u8F6C\u5199").setValue(this.plugin.settings.transcriptFolder).onChange(async (value) => {
+      this.plugin.settings.transcriptFolder = value.trim();
+      await this.plugin.saveSettings();
+    }));
     new import_obsidian.Setting(containerEl).setName("\u8BED\u97F3\u542C\u5199").setHeading();
     const dictationTimeoutSetting = new import_obsidian.Setting(containerEl).setName("\u6301\u7EED\u542C\u5199\u9759\u9ED8\u8D85\u65F6").setDesc("\u6301\u7EED\u542C\u5199\u6A21\u5F0F\u4E0B\uFF0C\u9759\u9ED8\u591A\u5C11\u79D2\u540E\u81EA\u52A8\u7ED3\u675F\u542C\u5199");
     const dictationTimeoutValueEl = dictationTimeoutSetting.controlEl.createSpan({
@@ -3194,6 +7048,167 @@ var VoiceAssistantSettingTab = class extends import_obsidian.PluginSettingTab {
       dictationIntervalValueEl.textContent = `${value}\u79D2`;
       await this.plugin.saveSettings();
     }));
+    new import_obsidian.Setting(containerEl).setName("\u63D2\u5165\u4F4D\u7F6E").setDesc("\u542C\u5199\u8FC7\u7A0B\u4E2D\u8F93\u5165\u6587\u5B57\u6216\u70B9\u51FB\u522B\u5904\u540E\uFF0C\u8BC6\u522B\u7ED3\u679C\u5199\u5165\u7684\u4F4D\u7F6E").addDropdown((dropdown) => dropdown.addOption("anchor", "\u56FA\u5B9A\u5728\u542C\u5199\u4F4D\u7F6E\uFF08\u968F\u7F16\u8F91\u79FB\u52A8\uFF09").addOption("cursor", "\u8DDF\u968F\u5149\u6807").addOption("end", "\u8FFD\u52A0\u5230\u7B14\u8BB0\u672B\u5C3E").setValue(this.plugin.settings.dictationInsertPolicy).onChange(async (value) => {
+      this.plugin.settings.dictationInsertPolicy = value;
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("\u542C\u5199\u540E\u6DA6\u8272").setDesc("\u6301\u7EED\u542C\u5199\u7ED3\u675F\u540E\u628A\u672C\u6B21\u542C\u5199\u5185\u5BB9\u53D1\u7ED9\u5F53\u524D AI \u6A21\u578B\u4FEE\u6B63\u6807\u70B9\u3001\u5220\u9664\u53E3\u5934\u7985\u5E76\u5206\u6BB5\uFF0C\u5728\u5BF9\u6BD4\u7A97\u53E3\u4E2D\u9010\u6BB5\u786E\u8BA4\u540E\u624D\u4FEE\u6539\u7B14\u8BB0").addToggle((toggle) => toggle.setValue(this.plugin.settings.dictationPolishEnabled).onChange(async (value) => {
+      this.plugin.settings.dictationPolishEnabled = value;
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("\u6DA6\u8272\u8981\u6C42").setDesc("\u53D1\u7ED9 AI \u6A21\u578B\u7684\u6DA6\u8272\u8BF4\u660E\uFF0C\u6BB5\u843D\u5BF9\u9F50\u683C\u5F0F\u7531\u63D2\u4EF6\u81EA\u52A8\u9644\u52A0").addTextArea((text) => text.setPlaceholder(DEFAULT_POLISH_INSTRUCTIONS).setValue(this.plugin.settings.dictationPolishInstructions).onChange(async (value) => {
+      this.plugin.settings.dictationPolishInstructions = value;
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("\u8BED\u97F3\u7F16\u8F91\u547D\u4EE4").setDesc("\u542C\u5199\u65F6\u8BC6\u522B\u6362\u884C\u3001\u65B0\u6BB5\u843D\u3001\u5220\u9664\u4E0A\u4E00\u53E5\u3001\u64A4\u9500\u7B49\u53E3\u8FF0\u547D\u4EE4\uFF0C\u5E76\u628A\u201C\u53E5\u53F7\u201D\u201C\u9017\u53F7\u201D\u7B49\u53E3\u8FF0\u6807\u70B9\u8F6C\u6362\u4E3A\u7B26\u53F7\uFF1B\u5220\u9664\u4E0A\u4E00\u53E5\u548C\u64A4\u9500\u9700\u8981\u5355\u72EC\u8BF4\u51FA").addToggle((toggle) => toggle.setValue(this.plugin.settings.dictationCommandsEnabled).onChange(async (value) => {
+      this.plugin.settings.dictationCommandsEnabled = value;
+      await this.plugin.saveSettings();
+    }));
+    const commandSettings = [
+      { type: "newline", name: "\u6362\u884C" },
+      { type: "paragraph", name: "\u65B0\u6BB5\u843D" },
+      { type: "delete-last", name: "\u5220\u9664\u4E0A\u4E00\u53E5" },
+      { type: "undo", name: "\u64A4\u9500" }
+    ];
+    for (const { type, name } of commandSettings) {
+      new import_obsidian.Setting(containerEl).setName(`\u547D\u4EE4\uFF1A${name}`).setDesc("\u89E6\u53D1\u77ED\u8BED\uFF0C\u591A\u4E2A\u7528\u9017\u53F7\u5206\u9694").addText((text) => text.setValue(this.plugin.settings.dictationGrammar.commands[type].join(", ")).onChange(async (value) => {
+        const grammar = this.plugin.settings.dictationGrammar;
+        this.plugin.settings.dictationGrammar = {
+          ...grammar,
+          commands: { ...grammar.commands, [type]: parsePhraseList(value) }
+        };
+        await this.plugin.saveSettings();
+      }));
+    }
+    new import_obsidian.Setting(containerEl).setName("Markdown \u7ED3\u6784\u542C\u5199").setDesc("\u5728\u53E5\u9996\u6216\u6362\u884C\u540E\u8BF4\u201C\u4E00\u7EA7\u6807\u9898\u201D\u5230\u201C\u516D\u7EA7\u6807\u9898\u201D\u3001\u201C\u5217\u8868\u9879\u201D\u3001\u201C\u5F85\u529E\u201D\u3001\u201C\u5F15\u7528\u201D\u3001\u201C\u4E0B\u4E00\u7EA7\u201D\u3001\u201C\u4E0A\u4E00\u7EA7\u201D\uFF0C\u751F\u6210\u5BF9\u5E94\u7684 Markdown \u7ED3\u6784\uFF1B\u4E5F\u53EF\u7528\u547D\u4EE4\u5FEB\u901F\u5207\u6362").addToggle((toggle) => toggle.setValue(this.plugin.settings.dictationMarkdownEnabled).onChange(async (value) => {
+      this.plugin.settings.dictationMarkdownEnabled = value;
+      await this.plugin.saveSettings();
+    }));
+    const structureSettings = [
+      { type: "list-item", name: "\u5217\u8868\u9879" },
+      { type: "task", name: "\u5F85\u529E" },
+      { type: "quote", name: "\u5F15\u7528" },
+      { type: "indent", name: "\u4E0B\u4E00\u7EA7" },
+      { type: "outdent", name: "\u4E0A\u4E00\u7EA7" }
+    ];
+    for (const { type, name } of structureSettings) {
+      new import_obsidian.Setting(containerEl).setName(`\u7ED3\u6784\uFF1A${name}`).setDesc("\u53E5\u9996\u5173\u952E\u8BCD\uFF0C\u591A\u4E2A\u7528\u9017\u53F7\u5206\u9694").addText((text) => text.setValue(this.plugin.settings.dictationGrammar.structures[type].join(", ")).onChange(async (value) => {
+        const grammar = this.plugin.settings.dictationGrammar;
+        this.plugin.settings.dictationGrammar = {
+          ...grammar,
+          structures: { ...grammar.structures, [type]: parsePhraseList(value) }
+        };
+        await this.plugin.saveSettings();
+      }));
+    }
+    new import_obsidian.Setting(containerEl).setName("\u53E3\u8FF0\u6807\u70B9").setDesc("\u6BCF\u884C\u4E00\u6761\uFF1A\u8BF4\u51FA\u7684\u77ED\u8BED = \u63D2\u5165\u7684\u7B26\u53F7").addTextArea((text) => text.setPlaceholder("\u53E5\u53F7 = \u3002\nperiod = .").setValue(formatPunctuationMap(this.plugin.settings.dictationGrammar.punctuation)).onChange(async (value) => {
+      this.plugin.settings.dictationGrammar = {
+        ...this.plugin.settings.dictationGrammar,
+        punctuation: parsePunctuationMap(value)
+      };
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("\u6587\u672C\u89C4\u6574").setHeading();
+    new import_obsidian.Setting(containerEl).setName("\u89C4\u6574\u542C\u5199\u6587\u672C").setDesc("\u542C\u5199\u7ED3\u679C\u5199\u5165\u524D\u6309\u4E0B\u5217\u89C4\u5219\u89C4\u6574\uFF1B\u5F00\u542F\u4E2D\u82F1\u6587\u7A7A\u683C\u65F6\uFF0C\u4E2D\u6587\u53E5\u5B50\u4E4B\u95F4\u4E0D\u518D\u8865\u7A7A\u683C").addToggle((toggle) => toggle.setValue(this.plugin.settings.normalizeDictationText).onChange(async (value) => {
+      this.plugin.settings.normalizeDictationText = value;
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("\u89C4\u6574\u5BF9\u8BDD\u6587\u672C").setDesc("\u5BF9\u8BDD\u7684\u8BC6\u522B\u7ED3\u679C\u53D1\u7ED9 AI \u6A21\u578B\u548C\u4FDD\u5B58\u524D\u6309\u4E0B\u5217\u89C4\u5219\u89C4\u6574").addToggle((toggle) => toggle.setValue(this.plugin.settings.normalizeConversationText).onChange(async (value) => {
+      this.plugin.settings.normalizeConversationText = value;
+      await this.plugin.saveSettings();
+    }));
+    const normalizationSettings = [
+      { key: "spacing", name: "\u4E2D\u82F1\u6587\u7A7A\u683C", desc: "\u4E2D\u6587\u4E0E\u82F1\u6587\u5355\u8BCD\u3001\u6570\u5B57\u4E4B\u95F4\u52A0\u7A7A\u683C\uFF08\u6570\u5B57\u76F4\u63A5\u8DDF\u5355\u4F4D\u65F6\u9664\u5916\uFF0C\u5982\u201C3\u67085\u65E5\u201D\uFF09\uFF0C\u53BB\u6389\u4E2D\u6587\u4E4B\u95F4\u591A\u4F59\u7684\u7A7A\u683C" },
+      { key: "punctuation", name: "\u6807\u70B9\u5BBD\u5EA6", desc: "\u4E2D\u6587\u8BED\u5883\u4F7F\u7528\u5168\u89D2\u6807\u70B9\uFF0C\u82F1\u6587\u8BED\u5883\u4F7F\u7528\u534A\u89D2\u6807\u70B9" },
+      { key: "numerals", name: "\u6570\u5B57\u8F6C\u6362", desc: "\u628A\u65E5\u671F\u3001\u65F6\u95F4\u3001\u91D1\u989D\u548C\u767E\u5206\u6BD4\u4E2D\u7684\u4E2D\u6587\u6570\u5B57\u8F6C\u4E3A\u963F\u62C9\u4F2F\u6570\u5B57\uFF0C\u5982\u201C\u4E09\u70B9\u5341\u4E94\u5206\u201D\u5199\u4F5C\u201C3:15\u201D" },
+      { key: "capitalization", name: "\u82F1\u6587\u5927\u5199", desc: "\u82F1\u6587\u53E5\u9996\u5B57\u6BCD\u548C\u4EE3\u8BCD I \u5927\u5199" }
+    ];
+    for (const { key, name, desc } of normalizationSettings) {
+      new import_obsidian.Setting(containerEl).setName(name).setDesc(desc).addToggle((toggle) => toggle.setValue(this.plugin.settings.textNormalization[key]).onChange(async (value) => {
+        this.plugin.settings.textNormalization = { ...this.plugin.settings.textNormalization, [key]: value };
+        await this.plugin.saveSettings();
+      }));
+    }
+    new import_obsidian.Setting(containerEl).setName("\u7FFB\u8BD1\u542C\u5199").setHeading();
+    new import_obsidian.Setting(containerEl).setName("\u7FFB\u8BD1\u670D\u52A1").setDesc("\u201C\u7FFB\u8BD1\u542C\u5199\u201D\u547D\u4EE4\u628A\u6BCF\u53E5\u8BC6\u522B\u7ED3\u679C\u7FFB\u8BD1\u540E\u518D\u5199\u5165\u7B14\u8BB0\uFF1B\u8BED\u97F3\u7F16\u8F91\u547D\u4EE4\u6309\u539F\u8BED\u8A00\u8BC6\u522B").addDropdown((dropdown) => dropdown.addOption("llm", "\u5F53\u524D AI \u6A21\u578B").addOption("libretranslate", "LibreTranslate").setValue(this.plugin.settings.translationProvider).onChange(async (value) => {
+      this.plugin.settings.translationProvider = value;
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("\u76EE\u6807\u8BED\u8A00").setDesc("\u8BD1\u6587\u4F7F\u7528\u7684\u8BED\u8A00").addDropdown((dropdown) => {
+      for (const [code, name] of Object.entries(TRANSLATION_LANGUAGES)) {
+        dropdown.addOption(code, name);
+      }
+      dropdown.setValue(this.plugin.settings.translationLanguage).onChange(async (value) => {
+        this.plugin.settings.translationLanguage = value;
+        await this.plugin.saveSettings();
+      });
+    });
+    new import_obsidian.Setting(containerEl).setName("\u4FDD\u7559\u539F\u6587").setDesc("\u811A\u6CE8\u628A\u539F\u6587\u653E\u5728\u6BCF\u53E5\u8BD1\u6587\u540E\u7684\u884C\u5185\u811A\u6CE8\u4E2D\uFF1B\u53CC\u8BED\u8868\u683C\u628A\u8BD1\u6587\u548C\u539F\u6587\u5E76\u6392\u5199\u6210\u4E24\u5217\uFF0C\u6BCF\u53E5\u4E00\u884C\u3002\u5199\u5165\u8F93\u5165\u6846\u65F6\u53EA\u63D2\u5165\u8BD1\u6587").addDropdown((dropdown) => dropdown.addOption("footnote", "\u884C\u5185\u811A\u6CE8").addOption("bilingual", "\u53CC\u8BED\u8868\u683C").addOption("none", "\u4E0D\u4FDD\u7559").setValue(this.plugin.settings.translationOriginalMode).onChange(async (value) => {
+      this.plugin.settings.translationOriginalMode = value;
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("LibreTranslate \u5730\u5740").setDesc("\u81EA\u5EFA\u6216\u516C\u5171 LibreTranslate \u670D\u52A1\u7684\u5730\u5740\uFF0C\u63D2\u4EF6\u4F1A\u8BF7\u6C42\u5176 /translate").addText((text) => text.setPlaceholder("http://localhost:5000").setValue(this.plugin.settings.libreTranslateUrl).onChange(async (value) => {
+      this.plugin.settings.libreTranslateUrl = value.trim();
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("LibreTranslate API Key").setDesc("\u670D\u52A1\u8981\u6C42\u9274\u6743\u65F6\u586B\u5199\uFF0C\u81EA\u5EFA\u670D\u52A1\u53EF\u7559\u7A7A").addText((text) => {
+      text.inputEl.type = "password";
+      text.setPlaceholder("\u8F93\u5165 LibreTranslate API Key").setValue(this.plugin.settings.libreTranslateApiKey).onChange(async (value) => {
+        this.plugin.settings.libreTranslateApiKey = value;
+        await this.plugin.saveSettings();
+      });
+    });
+    new import_obsidian.Setting(containerEl).setName("\u4F1A\u8BAE\u8BB0\u5F55").setHeading();
+    new import_obsidian.Setting(containerEl).setName("\u4F1A\u8BAE\u8BB0\u5F55\u6587\u4EF6\u5939").setDesc("\u201C\u4F1A\u8BAE\u8BB0\u5F55\u201D\u547D\u4EE4\u65B0\u5EFA\u7684\u7B14\u8BB0\u548C\u4F1A\u8BAE\u5F55\u97F3\u4FDD\u5B58\u7684\u4F4D\u7F6E").addText((text) => text.setPlaceholder("voice-assistant/meetings").setValue(this.plugin.settings.meetingSaveFolder).onChange(async (value) => {
+      this.plugin.settings.meetingSaveFolder = value.trim() || "voice-assistant/meetings";
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("\u53D1\u8A00\u4EBA").setDesc("\u4F1A\u8BAE\u4E2D\u72B6\u6001\u6D6E\u7A97\u663E\u793A\u7684\u53D1\u8A00\u4EBA\u6309\u94AE\uFF0C\u591A\u4E2A\u7528\u9017\u53F7\u5206\u9694\uFF1B\u70B9\u51FB\u6309\u94AE\u540E\u7684\u8F6C\u5199\u6807\u8BB0\u4E3A\u8BE5\u53D1\u8A00\u4EBA").addText((text) => text.setValue(this.plugin.settings.meetingSpeakers.join(", ")).onChange(async (value) => {
+      this.plugin.settings.meetingSpeakers = parsePhraseList(value);
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("\u4FDD\u5B58\u4F1A\u8BAE\u5F55\u97F3").setDesc("\u4FDD\u5B58\u6574\u573A\u4F1A\u8BAE\u7684\u5F55\u97F3\uFF0C\u8F6C\u5199\u4E2D\u7684\u65F6\u95F4\u6807\u8BB0\u94FE\u63A5\u5230\u5F55\u97F3\u7684\u5BF9\u5E94\u65F6\u523B\uFF1B\u5B8C\u6574\u5F55\u97F3\u4E0D\u7ECF\u8FC7\u97F3\u9891\u9884\u5904\u7406").addToggle((toggle) => toggle.setValue(this.plugin.settings.meetingSaveAudio).onChange(async (value) => {
+      this.plugin.settings.meetingSaveAudio = value;
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("\u4F1A\u8BAE\u603B\u7ED3").setDesc("\u4F1A\u8BAE\u7ED3\u675F\u540E\u628A\u8F6C\u5199\u53D1\u7ED9\u5F53\u524D AI \u6A21\u578B\uFF0C\u5728\u7B14\u8BB0\u672B\u5C3E\u751F\u6210\u6458\u8981\u3001\u51B3\u5B9A\u548C\u884C\u52A8\u9879").addToggle((toggle) => toggle.setValue(this.plugin.settings.meetingSummaryEnabled).onChange(async (value) => {
+      this.plugin.settings.meetingSummaryEnabled = value;
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("\u6309\u4F4F\u8BF4\u8BDD").setHeading();
+    new import_obsidian.Setting(containerEl).setName("\u542F\u7528\u6309\u4F4F\u8BF4\u8BDD").setDesc("\u6309\u4F4F\u6309\u952E\u6216\u72B6\u6001\u6D6E\u7A97\u4E2D\u7684\u6309\u94AE\u65F6\u624D\u5F55\u97F3\uFF0C\u677E\u5F00\u540E\u8BC6\u522B\uFF1B\u9002\u5408\u5608\u6742\u73AF\u5883\u4E0B\u9759\u9ED8\u68C0\u6D4B\u4E0D\u53EF\u9760\u7684\u60C5\u51B5").addToggle((toggle) => toggle.setValue(this.plugin.settings.pushToTalkEnabled).onChange(async (value) => {
+      this.plugin.settings.pushToTalkEnabled = value;
+      await this.plugin.saveSettings();
+      this.plugin.updatePushToTalkButtons();
+    }));
+    const pushToTalkKeys = [
+      { key: "pushToTalkDictationKey", name: "\u6309\u4F4F\u542C\u5199\u6309\u952E", desc: "\u6309\u4F4F\u65F6\u5F55\u97F3\uFF0C\u677E\u5F00\u540E\u628A\u8BC6\u522B\u7ED3\u679C\u63D2\u5165\u5149\u6807\u5904" },
+      { key: "pushToTalkConversationKey", name: "\u6309\u4F4F\u5BF9\u8BDD\u6309\u952E", desc: "\u6309\u4F4F\u65F6\u5F55\u97F3\uFF0C\u677E\u5F00\u540E\u53D1\u9001\u7ED9 AI \u5E76\u6717\u8BFB\u56DE\u590D" }
+    ];
+    for (const { key, name, desc } of pushToTalkKeys) {
+      const keySetting = new import_obsidian.Setting(containerEl).setName(name);
+      const describeKey = () => keySetting.setDesc(`${desc}\u3002\u5F53\u524D\u6309\u952E\uFF1A${this.plugin.settings[key] || "\u672A\u8BBE\u7F6E"}`);
+      describeKey();
+      keySetting.addButton((button) => button.setButtonText("\u8BBE\u7F6E\u6309\u952E").onClick(() => {
+        button.setButtonText("\u8BF7\u6309\u4E0B\u6309\u952E...");
+        const onKeyDown = (event) => {
+          event.preventDefault();
+          event.stopPropagation();
+          activeDocument.removeEventListener("keydown", onKeyDown, true);
+          button.setButtonText("\u8BBE\u7F6E\u6309\u952E");
+          if (event.code !== "Escape") {
+            this.plugin.settings[key] = event.code;
+            void this.plugin.saveSettings();
+          }
+          describeKey();
+        };
+        activeDocument.addEventListener("keydown", onKeyDown, true);
+      })).addButton((button) => button.setButtonText("\u6E05\u9664").onClick(async () => {
+        this.plugin.settings[key] = "";
+        await this.plugin.saveSettings();
+        describeKey();
+      }));
+    }
     new import_obsidian.Setting(containerEl).setName("\u8BED\u97F3\u5408\u6210").setHeading();
     new import_obsidian.Setting(containerEl).setName("TTS \u63D0\u4F9B\u5546").setDesc("\u9009\u62E9\u8BED\u97F3\u5408\u6210\u670D\u52A1\u63D0\u4F9B\u5546").addDropdown((dropdown) => dropdown.addOption("xunfei", "\u8BAF\u98DE\u8BED\u97F3\u5408\u6210").setValue(this.plugin.settings.ttsProvider).onChange(async (value) => {
       this.plugin.settings.ttsProvider = value;
@@ -3288,6 +7303,31 @@ var VoiceAssistantSettingTab = class extends import_obsidian.PluginSettingTab {
         new import_obsidian.Notice(`\u5F55\u97F3\u6D4B\u8BD5\u5931\u8D25\uFF1A${errorMessage}`);
       }
     }));
+    new import_obsidian.Setting(containerEl).setName("\u97F3\u9891\u9884\u5904\u7406").setHeading();
+    new import_obsidian.Setting(containerEl).setName("\u542F\u7528\u97F3\u9891\u9884\u5904\u7406").setDesc("\u6BCF\u6B21\u4E0A\u4F20\u8BC6\u522B\u524D\u548C\u6682\u5B58\u5F55\u97F3\u524D\u6309\u4E0B\u5217\u73AF\u8282\u5904\u7406\u5F55\u97F3\uFF0C\u6D41\u5F0F\u542C\u5199\u9010\u5E27\u5904\u7406\uFF08\u4E0D\u505A\u5CF0\u503C\u5F52\u4E00\u5316\uFF09\uFF1B\u8D85\u8FC7 10 \u5206\u949F\u7684\u97F3\u9891\u6587\u4EF6\u548C\u8BED\u97F3\u5524\u9192\u7247\u6BB5\u4E0D\u5904\u7406\u3002\u4F1A\u8BAE\u8BB0\u5F55\u7684\u5B8C\u6574\u5F55\u97F3\u8FB9\u5F55\u8FB9\u5199\u5165\u6587\u4EF6\uFF0C\u4FDD\u6301\u539F\u59CB\u5F55\u97F3\uFF0C\u5176\u4E2D\u6BCF\u6BB5\u5728\u8BC6\u522B\u524D\u4ECD\u4F1A\u5904\u7406").addToggle((toggle) => toggle.setValue(this.plugin.settings.audioProcessingEnabled).onChange(async (value) => {
+      this.plugin.settings.audioProcessingEnabled = value;
+      await this.plugin.saveSettings();
+    }));
+    const processingSettings = [
+      { key: "highPass", valueKey: "highPassFrequency", name: "\u9AD8\u901A\u6EE4\u6CE2", desc: "\u53BB\u9664\u4F4E\u4E8E\u622A\u6B62\u9891\u7387\u7684\u76F4\u6D41\u504F\u79FB\u3001\u98CE\u6247\u548C\u7A7A\u8C03\u55E1\u58F0\uFF08\u622A\u6B62\u9891\u7387 20-300 Hz\uFF09", min: 20, max: 300 },
+      { key: "noiseGate", valueKey: "noiseGateThreshold", name: "\u566A\u58F0\u95E8", desc: "\u628A\u4F4E\u4E8E\u9608\u503C\u7684\u505C\u987F\u538B\u4F4E\u7EA6 30 dB\uFF0C\u73AF\u5883\u5608\u6742\u65F6\u5F00\u542F\uFF08\u9608\u503C -80 \u5230 -20 dBFS\uFF09", min: -80, max: -20 },
+      { key: "autoGain", valueKey: "autoGainTarget", name: "\u81EA\u52A8\u589E\u76CA", desc: "\u628A\u8BF4\u8BDD\u97F3\u91CF\u8C03\u5230\u76EE\u6807 RMS \u7535\u5E73\uFF0C\u6700\u591A\u653E\u5927 24 dB\uFF08\u76EE\u6807 -40 \u5230 -6 dBFS\uFF09", min: -40, max: -6 },
+      { key: "normalize", valueKey: "normalizePeak", name: "\u5CF0\u503C\u5F52\u4E00\u5316", desc: "\u628A\u6574\u6BB5\u5F55\u97F3\u7684\u5CF0\u503C\u8C03\u5230\u76EE\u6807\u7535\u5E73\uFF0C\u6700\u591A\u653E\u5927 12 dB\uFF08\u76EE\u6807 -12 \u5230 0 dBFS\uFF09", min: -12, max: 0 }
+    ];
+    for (const { key, valueKey, name, desc, min, max } of processingSettings) {
+      new import_obsidian.Setting(containerEl).setName(name).setDesc(desc).addText((text) => text.setPlaceholder(`${DEFAULT_AUDIO_PROCESSING[valueKey]}`).setValue(`${this.plugin.settings.audioProcessing[valueKey]}`).onChange(async (value) => {
+        const parsed = Number(value);
+        if (!value.trim() || !Number.isFinite(parsed) || parsed < min || parsed > max) {
+          return;
+        }
+        this.plugin.settings.audioProcessing = { ...this.plugin.settings.audioProcessing, [valueKey]: parsed };
+        await this.plugin.saveSettings();
+      })).addToggle((toggle) => toggle.setValue(this.plugin.settings.audioProcessing[key]).onChange(async (value) => {
+        this.plugin.settings.audioProcessing = { ...this.plugin.settings.audioProcessing, [key]: value };
+        await this.plugin.saveSettings();
+      }));
+    }
+    new import_obsidian.Setting(containerEl).setName("\u9884\u5904\u7406\u7535\u5E73").setDesc("\u67E5\u770B\u6700\u8FD1\u51E0\u6B21\u8BC6\u522B\u524D\u540E\u7684\u5CF0\u503C\u548C RMS \u7535\u5E73\uFF0C\u7528\u6765\u786E\u8BA4\u589E\u76CA\u662F\u5426\u5408\u9002").addButton((button) => button.setButtonText("\u67E5\u770B").onClick(() => this.plugin.openAudioLevelsView()));
     new import_obsidian.Setting(containerEl).setName("\u6301\u7EED\u5BF9\u8BDD").setHeading();
     const dialogDurationSetting = new import_obsidian.Setting(containerEl).setName("\u6301\u7EED\u5BF9\u8BDD\u65F6\u957F").setDesc("\u5524\u9192\u540E\u4FDD\u6301\u5BF9\u8BDD\u72B6\u6001\u7684\u65F6\u957F\uFF08\u79D2\uFF09");
     const dialogDurationValueEl = dialogDurationSetting.controlEl.createSpan({
@@ -3307,11 +7347,11 @@ var VoiceAssistantSettingTab = class extends import_obsidian.PluginSettingTab {
       this.plugin.settings.conversationSaveFolder = value || "voice-assistant/conversations";
       await this.plugin.saveSettings();
     }));
-    new import_obsidian.Setting(containerEl).setName("\u542F\u7528\u8BED\u97F3\u6253\u65AD").setDesc("\u5728TTS\u64AD\u653E\u671F\u95F4\u68C0\u6D4B\u5230\u8BED\u97F3\u8F93\u5165\u65F6\u81EA\u52A8\u505C\u6B62\u64AD\u653E\u5E76\u5F00\u59CB\u65B0\u5BF9\u8BDD").addToggle((toggle) => toggle.setValue(this.plugin.settings.enableVoiceInterruption).onChange(async (value) => {
+    new import_obsidian.Setting(containerEl).setName("\u542F\u7528\u8BED\u97F3\u6253\u65AD").setDesc("\u5728TTS\u64AD\u653E\u671F\u95F4\u68C0\u6D4B\u5230\u8BED\u97F3\u8F93\u5165\u65F6\u81EA\u52A8\u505C\u6B62\u64AD\u653E\u5E76\u5F00\u59CB\u65B0\u5BF9\u8BDD\uFF1B\u4EE5\u6B63\u5728\u64AD\u653E\u7684\u8BED\u97F3\u4E3A\u53C2\u8003\uFF0C\u626C\u58F0\u5668\u4F20\u56DE\u9EA6\u514B\u98CE\u7684\u64AD\u62A5\u58F0\u4E0D\u4F1A\u89E6\u53D1\u6253\u65AD").addToggle((toggle) => toggle.setValue(this.plugin.settings.enableVoiceInterruption).onChange(async (value) => {
       this.plugin.settings.enableVoiceInterruption = value;
       await this.plugin.saveSettings();
     }));
-    const voiceThresholdSetting = new import_obsidian.Setting(containerEl).setName("\u8BED\u97F3\u68C0\u6D4B\u9608\u503C").setDesc("\u8BED\u97F3\u68C0\u6D4B\u7684\u97F3\u91CF\u9608\u503C\uFF0C\u6570\u503C\u8D8A\u5C0F\u8D8A\u654F\u611F\uFF080-100\uFF09");
+    const voiceThresholdSetting = new import_obsidian.Setting(containerEl).setName("\u8BED\u97F3\u68C0\u6D4B\u9608\u503C").setDesc("\u8BED\u97F3\u68C0\u6D4B\u7684\u6700\u4F4E\u97F3\u91CF\uFF0C\u6570\u503C\u8D8A\u5C0F\u8D8A\u654F\u611F\uFF0810-80\uFF0C\u5BF9\u5E94 0.01-0.08 \u7684 RMS \u80FD\u91CF\uFF09\uFF1B\u6301\u7EED\u542C\u5199\u3001\u4F1A\u8BAE\u8BB0\u5F55\u3001\u8BED\u97F3\u6253\u65AD\u3001\u8BED\u97F3\u5524\u9192\u548C\u5BF9\u8BDD\u5F55\u97F3\u5171\u7528");
     const voiceThresholdValueEl = voiceThresholdSetting.controlEl.createSpan({
       text: `${this.plugin.settings.voiceDetectionThreshold}`,
       cls: "setting-slider-value"
@@ -3321,7 +7361,7 @@ var VoiceAssistantSettingTab = class extends import_obsidian.PluginSettingTab {
       voiceThresholdValueEl.textContent = `${value}`;
       await this.plugin.saveSettings();
     }));
-    const voiceSensitivitySetting = new import_obsidian.Setting(containerEl).setName("\u68C0\u6D4B\u654F\u611F\u5EA6").setDesc("\u8BED\u97F3\u68C0\u6D4B\u7684\u65F6\u95F4\u95F4\u9694\uFF0C\u6570\u503C\u8D8A\u5C0F\u68C0\u6D4B\u8D8A\u9891\u7E41\uFF0850-500\u6BEB\u79D2\uFF09");
+    const voiceSensitivitySetting = new import_obsidian.Setting(containerEl).setName("\u68C0\u6D4B\u654F\u611F\u5EA6").setDesc("\u8BED\u97F3\u6253\u65AD\u524D\u9700\u8981\u6301\u7EED\u8BF4\u8BDD\u7684\u65F6\u957F\u4E3A\u8BE5\u503C\u7684 3 \u500D\uFF0C\u6570\u503C\u8D8A\u5C0F\u6253\u65AD\u8D8A\u5FEB\uFF0C\u4F46\u54B3\u55FD\u7B49\u77ED\u4FC3\u58F0\u97F3\u4E5F\u66F4\u5BB9\u6613\u8BEF\u89E6\u53D1\uFF0850-500\u6BEB\u79D2\uFF09");
     const voiceSensitivityValueEl = voiceSensitivitySetting.controlEl.createSpan({
       text: `${this.plugin.settings.voiceDetectionSensitivity}ms`,
       cls: "setting-slider-value"
@@ -3331,6 +7371,20 @@ var VoiceAssistantSettingTab = class extends import_obsidian.PluginSettingTab {
       voiceSensitivityValueEl.textContent = `${value}ms`;
       await this.plugin.saveSettings();
     }));
+    const calibrationsContainer = containerEl.createDiv();
+    const updateCalibrationList = () => {
+      calibrationsContainer.empty();
+      for (const [deviceId, calibration] of Object.entries(this.plugin.settings.microphoneCalibrations)) {
+        new import_obsidian.Setting(calibrationsContainer).setName(calibration.label || deviceId).setDesc(`\u68C0\u6D4B\u9608\u503C ${(20 * Math.log10(calibration.threshold)).toFixed(1)} dB\uFF0C\u73AF\u5883\u566A\u58F0 ${(20 * Math.log10(calibration.noiseFloor)).toFixed(1)} dB\uFF0C\u6821\u51C6\u4E8E ${new Date(calibration.calibratedAt).toLocaleString()}`).addButton((button) => button.setButtonText("\u5220\u9664").onClick(async () => {
+          delete this.plugin.settings.microphoneCalibrations[deviceId];
+          await this.plugin.saveSettings();
+          updateCalibrationList();
+        }));
+      }
+    };
+    new import_obsidian.Setting(containerEl).setName("\u9EA6\u514B\u98CE\u6821\u51C6").setDesc("\u5F55\u4E00\u6BB5\u5B89\u9759\u73AF\u5883\u548C\u4E00\u53E5\u6B63\u5E38\u8BF4\u8BDD\uFF0C\u4E3A\u5F53\u524D\u9EA6\u514B\u98CE\u8BA1\u7B97\u566A\u58F0\u5E95\u548C\u68C0\u6D4B\u9608\u503C\uFF1B\u6821\u51C6\u8FC7\u7684\u9EA6\u514B\u98CE\u4E0D\u518D\u4F7F\u7528\u4E0A\u9762\u7684\u201C\u8BED\u97F3\u68C0\u6D4B\u9608\u503C\u201D").addButton((button) => button.setButtonText("\u5F00\u59CB\u6821\u51C6").onClick(() => this.plugin.openMicrophoneCalibration(updateCalibrationList)));
+    containerEl.appendChild(calibrationsContainer);
+    updateCalibrationList();
     new import_obsidian.Setting(containerEl).setName("\u81EA\u5B9A\u4E49\u63D0\u793A\u8BCD").setHeading();
     const promptsDesc = containerEl.createDiv("voice-assistant-description");
     promptsDesc.createEl("p", {
@@ -3344,7 +7398,7 @@ var VoiceAssistantSettingTab = class extends import_obsidian.PluginSettingTab {
       this.addNewCustomPrompt(containerEl);
     }));
     new import_obsidian.Setting(containerEl).setName("\u6D4B\u8BD5").setHeading();
-    new import_obsidian.Setting(containerEl).setName("\u6D4B\u8BD5\u8BAF\u98DE\u5728\u7EBF ASR").setDesc("\u6D4B\u8BD5\u8BED\u97F3\u8BC6\u522B\u529F\u80FD\u662F\u5426\u6B63\u5E38\u5DE5\u4F5C").addButton((button) => button.setButtonText("\u6D4B\u8BD5 ASR").onClick(() => {
+    new import_obsidian.Setting(containerEl).setName("\u6D4B\u8BD5\u5728\u7EBF ASR").setDesc("\u6D4B\u8BD5\u8BED\u97F3\u8BC6\u522B\u529F\u80FD\u662F\u5426\u6B63\u5E38\u5DE5\u4F5C").addButton((button) => button.setButtonText("\u6D4B\u8BD5 ASR").onClick(() => {
       void this.plugin.testOnlineASR();
     }));
     new import_obsidian.Setting(containerEl).setName("\u6D4B\u8BD5\u8BAF\u98DE\u5728\u7EBF TTS").setDesc("\u6D4B\u8BD5\u8BED\u97F3\u5408\u6210\u529F\u80FD\u662F\u5426\u6B63\u5E38\u5DE5\u4F5C").addButton((button) => button.setButtonText("\u6D4B\u8BD5 TTS").onClick(() => {
@@ -3375,9 +7429,87 @@ var VoiceAssistantSettingTab = class extends import_obsidian.PluginSettingTab {
     providerHelp.appendText(" \u83B7\u53D6 API \u51ED\u636E\u3002");
     helpDiv.createEl("p", { text: "2. \u5728\u4E0A\u65B9\u8BBE\u7F6E\u4E2D\u586B\u5199\u5BF9\u5E94\u7684 API \u914D\u7F6E\u4FE1\u606F\u3002" });
     helpDiv.createEl("strong", { text: "\u6CE8\u610F\u4E8B\u9879" });
-    helpDiv.createEl("p", { text: "\u2022 \u9EA6\u514B\u98CE\u97F3\u9891\u4F1A\u53D1\u9001\u5230\u8BAF\u98DE\u670D\u52A1\u5668\u8FDB\u884C\u5904\u7406\u3002" });
+    helpDiv.createEl("p", { text: "\u2022 \u9EA6\u514B\u98CE\u97F3\u9891\u4F1A\u53D1\u9001\u5230\u6240\u9009\u7684\u8BED\u97F3\u8BC6\u522B\u670D\u52A1\uFF08\u8BAF\u98DE\u3001\u81EA\u884C\u914D\u7F6E\u7684\u8F6C\u5199\u63A5\u53E3\u6216\u672C\u5730 Vosk \u670D\u52A1\uFF09\u8FDB\u884C\u5904\u7406\u3002" });
     helpDiv.createEl("p", { text: "\u2022 API \u51ED\u636E\u4F1A\u4FDD\u5B58\u5728\u63D2\u4EF6\u6570\u636E\u6587\u4EF6\u4E2D\uFF0C\u8BF7\u59A5\u5584\u4FDD\u7BA1\u3002" });
   }
+  /**
+   * 显示识别方案管理界面
+   * 每个方案会注册一条“语音听写（方案名）”命令，可在快捷键设置中单独绑定
+   */
+  displayAsrProfiles(container) {
+    container.empty();
+    new import_obsidian.Setting(container).setName("\u8BC6\u522B\u65B9\u6848").setHeading();
+    container.createEl("p", {
+      text: "\u4E3A\u4E0D\u540C\u8BED\u8A00\u6216\u53E3\u97F3\u521B\u5EFA\u8BC6\u522B\u65B9\u6848\uFF0C\u6BCF\u4E2A\u65B9\u6848\u90FD\u4F1A\u751F\u6210\u4E00\u6761\u72EC\u7ACB\u7684\u542C\u5199\u547D\u4EE4\uFF0C\u4F8B\u5982\u4E3A\u4E2D\u6587\u548C\u82F1\u6587\u542C\u5199\u5206\u522B\u7ED1\u5B9A\u5FEB\u6377\u952E\u3002",
+      cls: "voice-assistant-muted-description"
+    });
+    if (this.plugin.settings.asrProfiles.length === 0) {
+      container.createEl("p", {
+        text: "\u6682\u65E0\u8BC6\u522B\u65B9\u6848",
+        cls: "voice-assistant-empty-state"
+      });
+    }
+    this.plugin.settings.asrProfiles.forEach((profile, index) => {
+      var _a, _b;
+      const profileCard = container.createDiv("voice-assistant-model-card");
+      const profileInfo = profileCard.createDiv("voice-assistant-model-info");
+      profileInfo.createEl("strong", { text: profile.name });
+      const accent = profile.language === "zh_cn" ? ` \xB7 ${(_a = ASR_ACCENT_OPTIONS[profile.accent]) != null ? _a : profile.accent}` : "";
+      profileInfo.createDiv({
+        text: `\u8BED\u8A00: ${(_b = ASR_LANGUAGE_OPTIONS[profile.language]) != null ? _b : profile.language}${accent}`,
+        cls: "voice-assistant-model-meta"
+      });
+      profileInfo.createDiv({
+        text: `\u6807\u70B9: ${profile.punctuation ? "\u5F00" : "\u5173"} \xB7 \u963F\u62C9\u4F2F\u6570\u5B57: ${profile.numberFormat ? "\u5F00" : "\u5173"}`,
+        cls: "voice-assistant-model-meta"
+      });
+      const deleteButton = profileCard.createEl("button", {
+        text: "\u5220\u9664",
+        cls: "voice-assistant-delete-button"
+      });
+      deleteButton.addEventListener("click", () => {
+        void (async () => {
+          this.plugin.settings.asrProfiles.splice(index, 1);
+          await this.plugin.saveSettings();
+          this.plugin.refreshAsrProfileCommands();
+          this.displayAsrProfiles(container);
+        })();
+      });
+    });
+    const draft = {
+      name: "",
+      language: this.plugin.settings.asrLanguage,
+      accent: this.plugin.settings.asrAccent,
+      punctuation: this.plugin.settings.asrPunctuation,
+      numberFormat: this.plugin.settings.asrNumberFormat
+    };
+    new import_obsidian.Setting(container).setName("\u65B9\u6848\u540D\u79F0").setDesc("\u4F1A\u663E\u793A\u5728\u547D\u4EE4\u540D\u79F0\u4E2D\uFF0C\u4F8B\u5982\u201C\u82F1\u6587\u201D").addText((text) => text.setPlaceholder("\u4F8B\u5982\uFF1A\u82F1\u6587").onChange((value) => {
+      draft.name = value.trim();
+    })).addDropdown((dropdown) => dropdown.addOptions(ASR_LANGUAGE_OPTIONS).setValue(draft.language).onChange((value) => {
+      draft.language = value;
+    })).addDropdown((dropdown) => dropdown.addOptions(ASR_ACCENT_OPTIONS).setValue(draft.accent).onChange((value) => {
+      draft.accent = value;
+    }));
+    new import_obsidian.Setting(container).setName("\u65B9\u6848\u683C\u5F0F").setDesc("\u5206\u522B\u63A7\u5236\u81EA\u52A8\u6807\u70B9\u548C\u6570\u5B57\u8F6C\u963F\u62C9\u4F2F\u6570\u5B57").addToggle((toggle) => toggle.setTooltip("\u81EA\u52A8\u6807\u70B9").setValue(draft.punctuation).onChange((value) => {
+      draft.punctuation = value;
+    })).addToggle((toggle) => toggle.setTooltip("\u6570\u5B57\u8F6C\u963F\u62C9\u4F2F\u6570\u5B57").setValue(draft.numberFormat).onChange((value) => {
+      draft.numberFormat = value;
+    })).addButton((button) => button.setButtonText("\u6DFB\u52A0\u65B9\u6848").setCta().onClick(async () => {
+      if (!draft.name) {
+        new import_obsidian.Notice("\u8BF7\u586B\u5199\u65B9\u6848\u540D\u79F0");
+        return;
+      }
+      if (this.plugin.settings.asrProfiles.some((profile) => profile.name === draft.name)) {
+        new import_obsidian.Notice("\u5DF2\u5B58\u5728\u540C\u540D\u65B9\u6848\uFF0C\u8BF7\u4F7F\u7528\u4E0D\u540C\u7684\u540D\u79F0");
+        return;
+      }
+      this.plugin.settings.asrProfiles.push({ id: Date.now().toString(36), ...draft });
+      await this.plugin.saveSettings();
+      this.plugin.refreshAsrProfileCommands();
+      this.displayAsrProfiles(container);
+      new import_obsidian.Notice(`\u8BC6\u522B\u65B9\u6848\u5DF2\u6DFB\u52A0\uFF0C\u53EF\u5728\u5FEB\u6377\u952E\u8BBE\u7F6E\u4E2D\u4E3A\u201C\u8BED\u97F3\u542C\u5199\uFF08${draft.name}\uFF09\u201D\u7ED1\u5B9A\u5FEB\u6377\u952E`);
+    }));
+  }
   /**
    * 显示唤醒词管理界面
    */
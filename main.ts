@@ -1,22 +1,112 @@
-import { App, Editor, EditorPosition, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, requestUrl, Setting } from 'obsidian';
+import { StateEffect, StateField } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, WidgetType } from '@codemirror/view';
+import { App, debounce, Editor, EditorPosition, FuzzySuggestModal, getAllTags, MarkdownView, Modal, normalizePath, Notice, Plugin, PluginSettingTab, requestUrl, Setting, TFile } from 'obsidian';
+import { collectVocabularyTerms, createVocabularyCorrector, mergeVocabularies, parseVocabulary, Vocabulary } from './src/vocabulary';
+import { requestXunfeiSocket, XunfeiError } from './src/xunfei';
+import { ASR_SAMPLE_RATE, concatPcm16, downsampleToPcm16, pcm16ToFloat32, pcmToWav } from './src/audio';
+import { base64ToBytes, bytesToBase64, encodeUtf8ToBase64 } from './src/encoding';
+import { EchoGate } from './src/echo';
+import { AudioLevels, AudioProcessingOptions, AudioProcessor, DEFAULT_AUDIO_PROCESSING, LevelAccumulator, measureLevels, processAudioClip } from './src/dsp';
+import { computeVadCalibration, measureRms, VAD_FRAME_MS, VadCalibration, VoiceActivityDetector } from './src/vad';
+import { buildMeetingSummaryPrompt, DEFAULT_MEETING_SPEAKERS, formatMeetingParagraph, formatTimestamp, MeetingEntry } from './src/meeting';
+import { DEFAULT_TEXT_NORMALIZATION, normalizeTranscript, TextNormalizationOptions } from './src/textNormalization';
+import { buildTranslationPrompt, cleanTranslationResponse, formatFootnoteTranslation, renderBilingualRow, TRANSLATION_LANGUAGES, TranslationOriginalMode, Translator } from './src/dictationTranslation';
+import { buildPolishPrompt, composePolishedText, DEFAULT_POLISH_INSTRUCTIONS, DictatedRange, diffText, getParagraphOriginal, groupDictatedRanges, parsePolishResponse, PolishParagraph } from './src/dictationPolish';
+import { DEFAULT_DICTATION_GRAMMAR, DictationAction, DictationCommandGrammar, DictationCommandType, DictationStructureType, formatPunctuationMap, parseDictationUtterance, parsePhraseList, parsePunctuationMap, renderDictationActions } from './src/dictationCommands';
 
 /** 兼容旧版 Chromium 中带 webkit 前缀的音频上下文。 */
 interface AudioContextWindow extends Window {
 	webkitAudioContext?: typeof AudioContext;
 }
 
+/** 讯飞 ASR 识别结果；开启 dwa=wpgs 后会携带动态修正字段。 */
+interface XunfeiAsrResult {
+	sn?: number;
+	ls?: boolean;
+	pgs?: 'apd' | 'rpl';
+	rg?: [number, number];
+	ws?: Array<{ cw?: Array<{ w?: string }> }>;
+}
+
 /** 讯飞 ASR WebSocket 响应。 */
 interface XunfeiAsrResponse {
 	code: number;
 	message?: string;
 	data?: {
 		status?: number;
-		result?: {
-			ws?: Array<{ cw?: Array<{ w?: string }> }>;
-		};
+		result?: XunfeiAsrResult;
 	};
 }
 
+/** 语音识别的语言与文本格式选项。 */
+interface AsrLanguageOptions {
+	language: string; // 讯飞 language，例如 zh_cn、en_us
+	accent: string; // 讯飞 accent，仅中文有效，例如 mandarin、cantonese
+	punctuation: boolean; // 是否自动添加标点（ptt）
+	numberFormat: boolean; // 是否将数字转为阿拉伯数字（nunum），仅中文有效
+}
+
+/** 识别方案：为不同语言或口音单独注册听写命令，便于分别绑定快捷键。 */
+interface AsrProfile extends AsrLanguageOptions {
+	id: string;
+	name: string;
+}
+
+/** 笔记中的插入位置锚点：除行列外记录位置前的一小段文字，笔记被编辑后据此重新定位。 */
+interface TextAnchor {
+	line: number;
+	ch: number;
+	context: string;
+}
+
+/** 识别失败后暂存在插件目录的录音，联网后转写并插入原定位置。 */
+interface PendingRecording {
+	id: string;
+	audioPath: string; // 插件目录内的录音文件路径
+	mimeType: string;
+	source: 'dictation' | 'conversation';
+	notePath: string; // 目标笔记，为空时转写后新建笔记
+	anchor: TextAnchor | null;
+	createdAt: number;
+	attempts: number;
+	error?: string;
+	transcript?: string; // 已识别但尚未成功插入的文字，避免重复识别
+	processed?: boolean; // 录音已经过音频预处理，重试识别时不再处理
+}
+
+/** 收件箱音频的自动转写任务，随设置一起保存，重启后继续处理。 */
+interface TranscriptionJob {
+	path: string;
+	attempts: number;
+	nextAttemptAt: number; // 失败重试前的等待截止时间（毫秒时间戳）
+	status: 'pending' | 'failed';
+	error?: string;
+}
+
+/** 讯飞 IAT 业务参数。 */
+interface XunfeiAsrBusiness {
+	language: string;
+	domain: 'iat';
+	accent: string;
+	vinfo: number;
+	vad_eos: number;
+	ptt: number;
+	nunum?: number;
+	dwa?: 'wpgs';
+}
+
+/** 流式识别会话句柄（讯飞或 Vosk）。 */
+interface StreamingAsrSession {
+	/** 服务端返回一句话的最终结果后完成，值为修正后的完整文本。 */
+	result: Promise<string>;
+	/** 推送一帧 16kHz PCM；会话已结束时返回 false，调用方应把音频留给下一会话。 */
+	push: (frame: Int16Array) => boolean;
+	/** 发送结束帧，等待服务端返回最终结果。 */
+	finish: () => void;
+	/** 立即断开连接并丢弃未完成的结果。 */
+	cancel: () => void;
+}
+
 /** 讯飞 TTS WebSocket 响应。 */
 interface XunfeiTtsResponse {
 	code: number;
@@ -51,6 +141,18 @@ interface GoogleAiResponse {
 	}>;
 }
 
+/** Vosk WebSocket 服务响应：说话过程中返回 partial，句尾或收到 eof 后返回 text。 */
+interface VoskResponse {
+	partial?: string;
+	text?: string;
+}
+
+/** OpenAI 兼容 /v1/audio/transcriptions 响应的最小子集。 */
+interface OpenAiTranscriptionResponse {
+	text?: string;
+	error?: { message?: string };
+}
+
 /** OpenRouter chat completions 响应的最小子集。 */
 interface OpenRouterResponse {
 	choices?: Array<{
@@ -80,16 +182,6 @@ function getErrorMessage(reason: unknown): string {
 	return normalizeError(reason).message;
 }
 
-/** 将字节数组转为 Base64，分块处理以避免超大音频导致调用栈溢出。 */
-function bytesToBase64(bytes: Uint8Array): string {
-	let binary = '';
-	const chunkSize = 8192;
-	for (let offset = 0; offset < bytes.length; offset += chunkSize) {
-		binary += String.fromCharCode(...bytes.subarray(offset, offset + chunkSize));
-	}
-	return window.btoa(binary);
-}
-
 /** 使用标准 Web Crypto API 生成讯飞鉴权所需的 HMAC-SHA256 Base64 签名。 */
 async function hmacSha256Base64(secret: string, content: string): Promise<string> {
 	const encoder = new TextEncoder();
@@ -104,9 +196,374 @@ async function hmacSha256Base64(secret: string, content: string): Promise<string
 	return bytesToBase64(new Uint8Array(signature));
 }
 
-/** 按 UTF-8 字节编码文本，替代已废弃的 unescape 组合。 */
-function encodeUtf8ToBase64(text: string): string {
-	return bytesToBase64(new TextEncoder().encode(text));
+/** 流式上传每帧 40ms 音频：16000Hz × 0.04s = 640 个采样点。 */
+const ASR_FRAME_SAMPLES = 640;
+
+/** 拼接一次讯飞 ASR 结果中的全部词语。 */
+function extractAsrText(result: XunfeiAsrResult): string {
+	return (result.ws ?? []).map(item =>
+		(item.cw ?? []).map(word => word.w ?? '').join('')
+	).join('');
+}
+
+/**
+ * 按讯飞动态修正（wpgs）规则合并流式识别结果。
+ * segments 以结果序号 sn 为下标保存各片段；rpl 会先清空 rg 区间内被替换的旧片段。
+ * @returns 合并后的完整文本
+ */
+function applyWpgsResult(segments: string[], result: XunfeiAsrResult): string {
+	if (result.pgs === 'rpl' && result.rg) {
+		const [start, end] = result.rg;
+		for (let sn = start; sn <= end; sn++) {
+			segments[sn] = '';
+		}
+	}
+	const sn = result.sn ?? segments.length;
+	segments[sn] = extractAsrText(result);
+	return segments.join('');
+}
+
+/**
+ * 根据语言选项生成讯飞 IAT 业务参数。
+ * accent、nunum 和 wpgs 动态修正仅对中文生效，其他语种按讯飞要求固定为 mandarin 并省略 nunum。
+ * @param vadEos 句尾静默超时（毫秒），讯飞允许范围为 1000-10000
+ * @param dynamicCorrection 是否请求 wpgs 动态修正
+ */
+function buildXunfeiAsrBusiness(options: AsrLanguageOptions, vadEos: number, dynamicCorrection = false): XunfeiAsrBusiness {
+	const isChinese = options.language === 'zh_cn';
+	const business: XunfeiAsrBusiness = {
+		language: options.language,
+		domain: 'iat',
+		accent: isChinese ? options.accent : 'mandarin',
+		vinfo: 1,
+		vad_eos: Math.max(1000, Math.min(10000, Math.round(vadEos))),
+		ptt: options.punctuation ? 1 : 0
+	};
+	if (isChinese) {
+		business.nunum = options.numberFormat ? 1 : 0;
+		if (dynamicCorrection) {
+			business.dwa = 'wpgs';
+		}
+	}
+	return business;
+}
+
+/**
+ * Vosk 结束音频流的消息。
+ * vosk-server 按字面比较文本帧，只有与这个字符串完全一致（包括冒号两侧的空格）才会返回最终结果，不能用 JSON.stringify 生成。
+ */
+const VOSK_EOF_MESSAGE = '{"eof" : 1}';
+
+/**
+ * 整理 Vosk 识别文本。
+ * Vosk 中文模型以空格分隔词语，拼接时需去掉汉字之间的空格，保留英文单词间的空格。
+ */
+function normalizeVoskText(text: string): string {
+	return text
+		.trim()
+		.replace(/\s+/g, ' ')
+		.replace(/([\u3400-\u9fff\uf900-\ufaff])\s+(?=[\u3400-\u9fff\uf900-\ufaff])/g, '$1');
+}
+
+/** 长音频分段，start/end 为采样点下标，相邻分段在分割点之后重叠 */
+interface AudioSegmentRange {
+	start: number;
+	end: number;
+}
+
+/** 在 [from, to) 范围内查找能量最低的短帧，返回该帧中心位置 */
+function findQuietestPoint(samples: Int16Array, from: number, to: number, frameSamples: number): number {
+	let bestPosition = to;
+	let bestEnergy = Infinity;
+	const step = Math.max(1, Math.floor(frameSamples / 2));
+	for (let frameStart = from; frameStart + frameSamples <= to; frameStart += step) {
+		let energy = 0;
+		for (let i = frameStart; i < frameStart + frameSamples; i++) {
+			energy += samples[i] * samples[i];
+		}
+		if (energy < bestEnergy) {
+			bestEnergy = energy;
+			bestPosition = frameStart + Math.floor(frameSamples / 2);
+		}
+	}
+	return bestPosition;
+}
+
+/**
+ * 规划长音频的分段位置。
+ * 每段不超过 maxSeconds（含重叠），分割点选在每段末尾 30% 范围内能量最低处，尽量避开正在说话的位置；
+ * 分割点之后的 overlapSeconds 同时出现在前后两段，拼接时由 mergeOverlappingTranscripts 去重。
+ */
+function planAudioSegments(samples: Int16Array, sampleRate: number, maxSeconds: number, overlapSeconds: number): AudioSegmentRange[] {
+	const maxSamples = Math.floor(maxSeconds * sampleRate);
+	if (samples.length <= maxSamples) {
+		return [{ start: 0, end: samples.length }];
+	}
+
+	const overlap = Math.min(Math.floor(overlapSeconds * sampleRate), Math.floor(maxSamples / 4));
+	const frameSamples = Math.max(1, Math.floor(sampleRate * 0.02));
+	const ranges: AudioSegmentRange[] = [];
+	let start = 0;
+	while (samples.length - start > maxSamples) {
+		const latest = start + maxSamples - overlap;
+		const earliest = start + Math.floor((maxSamples - overlap) * 0.7);
+		const split = findQuietestPoint(samples, earliest, latest, frameSamples);
+		ranges.push({ start, end: split + overlap });
+		start = split;
+	}
+	ranges.push({ start, end: samples.length });
+	return ranges;
+}
+
+const TRANSCRIPT_PUNCTUATION = '，。！？、；：“”‘’（）《》…—,.!?;:"\'()';
+
+/** 将识别文本拆成用于比对重叠的词元：英文单词和数字整体作为一个词元，其余每个字符一个，忽略空白和标点 */
+function tokenizeTranscript(text: string): Array<{ value: string; end: number }> {
+	const tokens: Array<{ value: string; end: number }> = [];
+	const pattern = /[A-Za-z0-9']+|\S/g;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(text)) !== null) {
+		if (TRANSCRIPT_PUNCTUATION.includes(match[0])) continue;
+		tokens.push({ value: match[0].toLowerCase(), end: match.index + match[0].length });
+	}
+	return tokens;
+}
+
+/** 重叠部分每秒最少、最多对应的词元数：英文约每秒 2 个词，中文约每秒 4～6 个字 */
+const OVERLAP_MIN_TOKENS_PER_SECOND = 2;
+const OVERLAP_MAX_TOKENS_PER_SECOND = 8;
+/** 前一段结尾可能被截断或听错的词元数，对齐时允许跳过 */
+const OVERLAP_TAIL_TOLERANCE = 2;
+
+/**
+ * 拼接两段识别结果，去掉分段重叠造成的重复。
+ * 在重叠时长对应的词元范围内寻找最长的对齐：后一段开头的若干词元与前一段结尾完全一致，
+ * 前一段最后一两个词元常因切在半个词上而识别错误，允许跳过并以后一段的结果为准。
+ * 对齐长度不足重叠时长对应的最少词元数（至少 3 个）时视为巧合，不去重。
+ */
+function appendTranscript(previous: string, next: string, overlapSeconds: number): string {
+	const head = previous.trim();
+	let tail = next.trim();
+	if (!head) return tail;
+	if (!tail) return head;
+
+	let merged = head;
+	if (overlapSeconds > 0) {
+		const previousTokens = tokenizeTranscript(head);
+		const nextTokens = tokenizeTranscript(tail);
+		const minOverlap = Math.max(3, Math.round(overlapSeconds * OVERLAP_MIN_TOKENS_PER_SECOND));
+		const maxOverlap = Math.min(nextTokens.length, 40, Math.ceil(overlapSeconds * OVERLAP_MAX_TOKENS_PER_SECOND) + OVERLAP_TAIL_TOLERANCE);
+		let best: { size: number; skipped: number } | null = null;
+		for (let skipped = 0; skipped <= OVERLAP_TAIL_TOLERANCE; skipped++) {
+			const available = Math.min(maxOverlap, previousTokens.length - skipped);
+			for (let size = available; size >= minOverlap && (!best || size > best.size); size--) {
+				const offset = previousTokens.length - skipped - size;
+				let matched = true;
+				for (let i = 0; i < size; i++) {
+					if (previousTokens[offset + i].value !== nextTokens[i].value) {
+						matched = false;
+						break;
+					}
+				}
+				if (matched) {
+					best = { size, skipped };
+					break;
+				}
+			}
+		}
+		if (best) {
+			// 跳过的结尾词元由后一段中的识别结果代替
+			merged = best.skipped > 0 ? head.slice(0, previousTokens[previousTokens.length - best.skipped - 1].end) : head;
+			tail = tail.slice(nextTokens[best.size - 1].end);
+			if (TRANSCRIPT_PUNCTUATION.includes(merged[merged.length - 1])) {
+				tail = tail.replace(/^[\s，。！？、；：,.!?;:]+/, '');
+			}
+		}
+	}
+
+	tail = tail.trimStart();
+	if (!tail) return merged;
+	const needsSpace = /[A-Za-z0-9,.!?;:]$/.test(merged) && /^[A-Za-z0-9]/.test(tail);
+	return needsSpace ? `${merged} ${tail}` : merged + tail;
+}
+
+/**
+ * 按顺序拼接各分段的识别结果，去掉分段重叠造成的重复内容
+ * @param overlapSeconds 相邻分段重叠的时长，决定去重时对齐的词元范围；为 0 时直接拼接
+ */
+function mergeOverlappingTranscripts(parts: string[], overlapSeconds: number): string {
+	return parts.reduce((merged, part) => appendTranscript(merged, part, overlapSeconds), '');
+}
+
+/** 以有限并发处理列表，结果顺序与输入一致 */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, worker: (item: T, index: number) => Promise<R>): Promise<R[]> {
+	const results: R[] = new Array<R>(items.length);
+	let nextIndex = 0;
+	const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+		while (nextIndex < items.length) {
+			const index = nextIndex++;
+			results[index] = await worker(items[index], index);
+		}
+	});
+	await Promise.all(runners);
+	return results;
+}
+
+/** 锚点记录的上下文长度 */
+const ANCHOR_CONTEXT_LENGTH = 40;
+
+/** 将行列位置换算为文本偏移，超出范围时取最近的有效位置 */
+function lineChToOffset(content: string, line: number, ch: number): number {
+	const lines = content.split('\n');
+	if (line >= lines.length) {
+		return content.length;
+	}
+	let offset = 0;
+	for (let i = 0; i < line; i++) {
+		offset += lines[i].length + 1;
+	}
+	return offset + Math.min(ch, lines[line].length);
+}
+
+/** 记录插入位置及其前方的文字 */
+function createTextAnchor(content: string, line: number, ch: number): TextAnchor {
+	const offset = lineChToOffset(content, line, ch);
+	return { line, ch, context: content.slice(Math.max(0, offset - ANCHOR_CONTEXT_LENGTH), offset) };
+}
+
+/**
+ * 在可能已被编辑的笔记中重新定位锚点，返回文本偏移。
+ * 优先取离原位置最近的一处上下文末尾；上下文已不存在时退回原来的行列位置。
+ */
+function resolveTextAnchor(content: string, anchor: TextAnchor): number {
+	const expected = lineChToOffset(content, anchor.line, anchor.ch);
+	if (!anchor.context) {
+		return expected;
+	}
+	let best = -1;
+	let index = content.indexOf(anchor.context);
+	while (index !== -1) {
+		const end = index + anchor.context.length;
+		if (best === -1 || Math.abs(end - expected) < Math.abs(best - expected)) {
+			best = end;
+		}
+		index = content.indexOf(anchor.context, index + 1);
+	}
+	return best === -1 ? expected : best;
+}
+
+/** 一次文档修改：修改前 [from, oldEnd) 的内容被替换为修改后的 [from, newEnd) */
+interface TextChange {
+	from: number;
+	oldEnd: number;
+	newEnd: number;
+}
+
+/**
+ * 比较修改前后的文档，找出发生变化的区间。
+ * 编辑器事件不提供修改详情，这里取最长公共前缀和后缀之间的部分；多处同时修改时得到包含它们的最小区间。
+ */
+function findTextChange(before: string, after: string): TextChange | null {
+	if (before === after) {
+		return null;
+	}
+	const maxPrefix = Math.min(before.length, after.length);
+	let prefix = 0;
+	while (prefix < maxPrefix && before.charCodeAt(prefix) === after.charCodeAt(prefix)) {
+		prefix++;
+	}
+	let suffix = 0;
+	while (
+		suffix < maxPrefix - prefix &&
+		before.charCodeAt(before.length - 1 - suffix) === after.charCodeAt(after.length - 1 - suffix)
+	) {
+		suffix++;
+	}
+	return { from: prefix, oldEnd: before.length - suffix, newEnd: after.length - suffix };
+}
+
+/**
+ * 把修改前的偏移映射到修改后的文档。
+ * 落在被替换区间内的位置移到新内容末尾；恰好位于修改起点时，assoc 为 1 表示跟随到插入内容之后，-1 表示停在之前。
+ */
+function mapOffsetThroughChange(offset: number, change: TextChange, assoc: 1 | -1 = 1): number {
+	if (offset < change.from || (offset === change.from && assoc < 0)) {
+		return offset;
+	}
+	if (offset > change.oldEnd) {
+		return offset + change.newEnd - change.oldEnd;
+	}
+	return change.newEnd;
+}
+
+/** 可以转写的音频附件扩展名及其 MIME 类型 */
+const TRANSCRIBABLE_AUDIO_TYPES: Record<string, string> = {
+	mp3: 'audio/mpeg',
+	wav: 'audio/wav',
+	webm: 'audio/webm',
+	m4a: 'audio/mp4'
+};
+
+/** 自动转写任务的最大尝试次数 */
+const TRANSCRIPTION_MAX_ATTEMPTS = 3;
+
+/** 判断仓库文件是否为可转写的音频附件 */
+function isTranscribableAudio(file: TFile): boolean {
+	return file.extension.toLowerCase() in TRANSCRIBABLE_AUDIO_TYPES;
+}
+
+/** 根据录音的 MIME 类型推断上传文件扩展名，转写服务通常依赖扩展名选择解码器。 */
+function getAudioFileExtension(mimeType: string): string {
+	const type = mimeType.split(';')[0].trim().toLowerCase();
+	switch (type) {
+		case 'audio/webm':
+			return 'webm';
+		case 'audio/ogg':
+			return 'ogg';
+		case 'audio/mp4':
+		case 'audio/x-m4a':
+			return 'm4a';
+		case 'audio/mpeg':
+			return 'mp3';
+		case 'audio/wav':
+		case 'audio/x-wav':
+		case 'audio/wave':
+			return 'wav';
+		default:
+			return 'webm';
+	}
+}
+
+/**
+ * 构建 multipart/form-data 请求体。
+ * requestUrl 不接受 FormData，因此手动拼接各字段和文件的字节。
+ */
+async function buildMultipartBody(
+	fields: Record<string, string>,
+	file: { name: string; field: string; blob: Blob }
+): Promise<{ body: ArrayBuffer; contentType: string }> {
+	const boundary = `----VoiceAssistant${Date.now().toString(16)}${Math.random().toString(16).slice(2)}`;
+	const encoder = new TextEncoder();
+	const parts: Uint8Array[] = [];
+
+	for (const [name, value] of Object.entries(fields)) {
+		parts.push(encoder.encode(`--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`));
+	}
+	parts.push(encoder.encode(
+		`--${boundary}\r\nContent-Disposition: form-data; name="${file.field}"; filename="${file.name}"\r\n` +
+		`Content-Type: ${file.blob.type || 'application/octet-stream'}\r\n\r\n`
+	));
+	parts.push(new Uint8Array(await file.blob.arrayBuffer()));
+	parts.push(encoder.encode(`\r\n--${boundary}--\r\n`));
+
+	const totalLength = parts.reduce((sum, part) => sum + part.length, 0);
+	const body = new Uint8Array(totalLength);
+	let offset = 0;
+	for (const part of parts) {
+		body.set(part, offset);
+		offset += part.length;
+	}
+	return { body: body.buffer, contentType: `multipart/form-data; boundary=${boundary}` };
 }
 
 /** 创建当前 Obsidian 窗口所属的音频上下文。 */
@@ -134,6 +591,340 @@ function createCompatibleMediaRecorder(stream: MediaStream): MediaRecorder {
 		: new MediaRecorder(stream);
 }
 
+/** PCM 采集 AudioWorklet 的注册名称。 */
+const PCM_CAPTURE_PROCESSOR = 'voice-assistant-pcm-capture';
+
+/**
+ * PCM 采集 AudioWorklet 源码。
+ * 在音频线程中把 128 点的渲染块攒成 2048 点再投递到主线程，减少消息数量。
+ */
+const PCM_CAPTURE_WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+	constructor() {
+		super();
+		this.buffer = new Float32Array(2048);
+		this.length = 0;
+	}
+
+	process(inputs) {
+		const channel = inputs[0] && inputs[0][0];
+		if (channel) {
+			for (let i = 0; i < channel.length; i++) {
+				this.buffer[this.length++] = channel[i];
+				if (this.length === this.buffer.length) {
+					this.port.postMessage(this.buffer.slice(0));
+					this.length = 0;
+				}
+			}
+		}
+		return true;
+	}
+}
+registerProcessor('${PCM_CAPTURE_PROCESSOR}', PcmCaptureProcessor);
+`;
+
+/**
+ * 从麦克风流持续采集 16kHz PCM，并按固定帧长回调。
+ * Worklet 源码以 Blob URL 加载，插件无需额外发布脚本文件。
+ * @returns 停止采集并释放音频上下文的函数
+ */
+async function startPcmFrameCapture(stream: MediaStream, frameSamples: number, onFrame: (frame: Int16Array) => void): Promise<() => void> {
+	const audioContext = createAudioContext();
+	const moduleUrl = URL.createObjectURL(new Blob([PCM_CAPTURE_WORKLET_SOURCE], { type: 'application/javascript' }));
+	try {
+		await audioContext.audioWorklet.addModule(moduleUrl);
+	} catch (error) {
+		void audioContext.close();
+		throw normalizeError(error, '无法加载音频采集模块');
+	} finally {
+		URL.revokeObjectURL(moduleUrl);
+	}
+
+	const source = audioContext.createMediaStreamSource(stream);
+	const captureNode = new AudioWorkletNode(audioContext, PCM_CAPTURE_PROCESSOR);
+	let pending = new Int16Array(0);
+
+	captureNode.port.onmessage = (event: MessageEvent<Float32Array>) => {
+		const samples = downsampleToPcm16(event.data, audioContext.sampleRate);
+		const merged = new Int16Array(pending.length + samples.length);
+		merged.set(pending);
+		merged.set(samples, pending.length);
+
+		let offset = 0;
+		while (merged.length - offset >= frameSamples) {
+			onFrame(merged.slice(offset, offset + frameSamples));
+			offset += frameSamples;
+		}
+		pending = merged.slice(offset);
+	};
+
+	source.connect(captureNode);
+	// 连接到输出节点以确保处理器持续被调度；处理器不写输出缓冲区，因此不会回放麦克风声音。
+	captureNode.connect(audioContext.destination);
+
+	return () => {
+		captureNode.port.onmessage = null;
+		source.disconnect();
+		captureNode.disconnect();
+		void audioContext.close();
+	};
+}
+
+/** 分段听写的语音检测窗口：200ms，16000Hz × 0.2s = 3200 个采样点。 */
+const DICTATION_VAD_WINDOW_SAMPLES = 3200;
+
+/** 语音打断、唤醒门控和对话结束检测的采集帧长：20ms，与 VAD 分析帧一致，尽快响应 */
+const VAD_CHUNK_SAMPLES = ASR_SAMPLE_RATE * VAD_FRAME_MS / 1000;
+
+/** 对话录音的说话结束判定：语音结束后静音达到该时长（毫秒）即停止录音 */
+const CONVERSATION_END_OF_TURN_MS = 1000;
+
+/** 对话录音开始后一直未检测到语音时的停止时间（毫秒） */
+const CONVERSATION_NO_SPEECH_TIMEOUT_MS = 5000;
+
+/** 单次对话录音的最长时长（毫秒） */
+const CONVERSATION_MAX_RECORDING_MS = 30000;
+
+/** 检测到语音时补回的前置音频窗口数，避免句首较轻的音节被判为静音而丢失。 */
+const DICTATION_PREROLL_WINDOWS = 2;
+
+/** 会议记录中单段转写的最长时长（VAD 窗口数，约 60 秒），连续讲话时按该长度分段 */
+const MEETING_MAX_UTTERANCE_WINDOWS = 300;
+
+/** 音频预处理的最长录音时长（秒），更长的音频文件整段解码占用内存过多，直接上传原始音频 */
+const AUDIO_PROCESSING_MAX_SECONDS = 600;
+
+/** 超过该大小（字节）的音频不解码预处理：约为 10 分钟 16kHz WAV，或 20 分钟以上的常见压缩音频 */
+const AUDIO_PROCESSING_MAX_BYTES = 20 * 1024 * 1024;
+
+/** 流式识别的空闲超时在句尾静默（vad_eos）之外额外等待的时长（毫秒），超过后仍无服务端消息即视为断线 */
+const XUNFEI_STREAMING_IDLE_MARGIN_MS = 10000;
+
+/** 调试视图中保留的预处理电平记录条数 */
+const AUDIO_LEVEL_HISTORY_SIZE = 20;
+
+/** 按住说话的最短有效时长（毫秒），更短的按压视为误触 */
+const PUSH_TO_TALK_MIN_DURATION = 300;
+
+/** 设置流式听写在编辑器中的实时预览：pos 为预览显示的文档偏移，null 表示清除预览 */
+const setDictationPreview = StateEffect.define<{ pos: number; text: string } | null>();
+
+/** 流式听写的实时预览文字，以行内控件显示在插入位置 */
+class DictationPreviewWidget extends WidgetType {
+	constructor(private readonly text: string) {
+		super();
+	}
+
+	eq(other: DictationPreviewWidget): boolean {
+		return other.text === this.text;
+	}
+
+	toDOM(): HTMLElement {
+		return createSpan({ cls: 'voice-assistant-dictation-preview', text: this.text });
+	}
+}
+
+/**
+ * 编辑器中的听写预览装饰。
+ * 预览只是装饰，不修改文档，因此不进入撤销历史；每句的最终结果插入时才产生一个撤销步骤。
+ */
+const dictationPreviewField = StateField.define<DecorationSet>({
+	create: () => Decoration.none,
+	update: (preview, transaction) => {
+		let next = preview.map(transaction.changes);
+		for (const effect of transaction.effects) {
+			if (effect.is(setDictationPreview)) {
+				next = effect.value
+					? Decoration.set([Decoration.widget({ widget: new DictationPreviewWidget(effect.value.text), side: 1 }).range(effect.value.pos)])
+					: Decoration.none;
+			}
+		}
+		return next;
+	},
+	provide: field => EditorView.decorations.from(field)
+});
+
+/**
+ * 固定容量的 16 位 PCM 环形缓冲区，只保留最近写入的一段音频。
+ * 分段听写用它保存尚未判定为语音的前置音频，检测到语音时一并取出。
+ */
+class PcmRingBuffer {
+	private readonly buffer: Int16Array;
+	private writeIndex = 0;
+	private size = 0;
+
+	constructor(capacity: number) {
+		this.buffer = new Int16Array(capacity);
+	}
+
+	write(samples: Int16Array): void {
+		const capacity = this.buffer.length;
+		// 超出容量的部分只需保留末尾
+		const input = samples.length > capacity ? samples.subarray(samples.length - capacity) : samples;
+		const firstPart = Math.min(input.length, capacity - this.writeIndex);
+		this.buffer.set(input.subarray(0, firstPart), this.writeIndex);
+		this.buffer.set(input.subarray(firstPart), 0);
+		this.writeIndex = (this.writeIndex + input.length) % capacity;
+		this.size = Math.min(capacity, this.size + input.length);
+	}
+
+	/** 按时间顺序取出缓冲区中的全部音频并清空 */
+	drain(): Int16Array {
+		const start = (this.writeIndex - this.size + this.buffer.length) % this.buffer.length;
+		const output = new Int16Array(this.size);
+		const firstPart = Math.min(this.size, this.buffer.length - start);
+		output.set(this.buffer.subarray(start, start + firstPart));
+		output.set(this.buffer.subarray(0, this.size - firstPart), firstPart);
+		this.size = 0;
+		return output;
+	}
+}
+
+/** 分句器的参数，窗口数均以 VAD 窗口为单位 */
+interface UtteranceSegmenterOptions {
+	preRollSamples: number; // 检测到语音时向前补上的音频长度
+	silenceWindows: number; // 句中静默累计达到该窗口数后结束本句
+	maxWindows?: number; // 单句最多窗口数，连续讲话时按该长度强制分句
+	onUtterance: (pcm: Int16Array, startSample: number) => void; // startSample 为本句在整个采集中的起始采样位置
+}
+
+/**
+ * 按语音检测结果把连续的 PCM 窗口切分为一句句录音。
+ * 检测到语音时带上预录音频开始一句；句中的短暂停顿同样保留，静默累计达到间隔后结束本句，句尾只保留一个静默窗口。
+ * 持续听写和会议记录共用。
+ */
+class UtteranceSegmenter {
+	private readonly preRoll: PcmRingBuffer;
+	private windows: Int16Array[] = []; // 当前句的音频窗口，为空表示尚未检测到语音
+	private trailingSilentWindows = 0;
+	private samplesSeen = 0;
+	private startSample = 0;
+
+	constructor(private readonly options: UtteranceSegmenterOptions) {
+		this.preRoll = new PcmRingBuffer(options.preRollSamples);
+	}
+
+	/** 是否正在录一句话 */
+	get inUtterance(): boolean {
+		return this.windows.length > 0;
+	}
+
+	/** 写入一个窗口及其语音检测结果 */
+	push(frame: Int16Array, hasVoice: boolean): void {
+		const frameStart = this.samplesSeen;
+		this.samplesSeen += frame.length;
+
+		if (hasVoice) {
+			if (this.windows.length === 0) {
+				const preRoll = this.preRoll.drain();
+				this.windows.push(preRoll);
+				this.startSample = frameStart - preRoll.length;
+			}
+			this.windows.push(frame);
+			this.trailingSilentWindows = 0;
+		} else if (this.windows.length > 0) {
+			this.windows.push(frame);
+			this.trailingSilentWindows++;
+			if (this.trailingSilentWindows >= this.options.silenceWindows) {
+				this.flush();
+				return;
+			}
+		} else {
+			this.preRoll.write(frame);
+			return;
+		}
+
+		if (this.options.maxWindows && this.windows.length >= this.options.maxWindows) {
+			this.flush();
+		}
+	}
+
+	/** 立即结束当前句，没有正在录的句子时不做任何事 */
+	flush(): void {
+		if (this.windows.length === 0) {
+			return;
+		}
+		const windows = this.windows.slice(0, this.windows.length - Math.max(0, this.trailingSilentWindows - 1));
+		this.windows = [];
+		this.trailingSilentWindows = 0;
+		this.options.onUtterance(concatPcm16(windows), this.startSample);
+	}
+}
+
+/** 听写写入目标：编辑器（笔记、白板卡片、嵌入的编辑器）或获得焦点的输入控件 */
+type DictationTarget = { kind: 'editor'; editor: Editor } | { kind: 'input'; element: HTMLElement };
+
+/** 一个麦克风的校准结果，label 为校准时的设备名称 */
+interface MicrophoneCalibration extends VadCalibration {
+	label: string;
+	calibratedAt: number;
+}
+
+/** 一次音频预处理前后的电平，显示在调试视图中 */
+interface AudioLevelRecord {
+	time: number;
+	source: string; // 录音来源，例如“听写”“对话”
+	before: AudioLevels;
+	after: AudioLevels;
+}
+
+/** 准备上传识别的录音：blob 用于上传和暂存，pcm16 为已解码的 16kHz PCM，讯飞和 Vosk 直接使用，不再重复解码 */
+interface PreparedAudio {
+	blob: Blob;
+	pcm16: Int16Array | null;
+}
+
+/** 可以接收听写文字的单行输入框类型 */
+const TEXT_INPUT_TYPES = ['text', 'search', 'url', 'email', 'tel', 'number'];
+
+/**
+ * 查找当前获得焦点的文本输入控件：输入框、多行文本框，或编辑器之外的可编辑元素（如属性值）。
+ * CodeMirror 编辑器内部的可编辑区域返回 null，由编辑器接口处理。
+ */
+function findFocusedTextInput(doc: Document): HTMLElement | null {
+	const element = doc.activeElement;
+	if (!element) {
+		return null;
+	}
+	if (element.instanceOf(HTMLTextAreaElement)) {
+		return element;
+	}
+	if (element.instanceOf(HTMLInputElement)) {
+		return TEXT_INPUT_TYPES.indexOf(element.type) !== -1 && !element.readOnly ? element : null;
+	}
+	if (element.instanceOf(HTMLElement) && element.isContentEditable && !element.closest('.cm-editor')) {
+		return element;
+	}
+	return null;
+}
+
+/**
+ * 在输入控件的光标处插入文字，并派发 input 事件，让快速切换、搜索、属性面板或其他插件的表单按用户输入处理
+ */
+function insertTextIntoElement(element: HTMLElement, text: string): void {
+	if (element.instanceOf(HTMLInputElement) || element.instanceOf(HTMLTextAreaElement)) {
+		const start = element.selectionStart ?? element.value.length;
+		const end = element.selectionEnd ?? start;
+		element.setRangeText(text, start, end, 'end');
+	} else {
+		const selection = element.win.getSelection();
+		let range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+		if (!range || !element.contains(range.commonAncestorContainer)) {
+			range = element.doc.createRange();
+			range.selectNodeContents(element);
+			range.collapse(false);
+		}
+		range.deleteContents();
+		const node = element.doc.createTextNode(text);
+		range.insertNode(node);
+		range.setStartAfter(node);
+		range.collapse(true);
+		selection?.removeAllRanges();
+		selection?.addRange(range);
+	}
+	element.dispatchEvent(new InputEvent('input', { bubbles: true, inputType: 'insertText', data: text }));
+}
+
 // 插件设置接口定义
 interface VoiceAssistantSettings {
 	// LLM 配置
@@ -153,7 +944,7 @@ interface VoiceAssistantSettings {
 	wakeMode: 'online' | 'disabled';
 	wakeWords: string[];
 	autoEnterDialogAfterWake: boolean;
-	wakeDetectionInterval: number; // 唤醒检测间隔时间（毫秒）
+	wakeDetectionInterval: number; // 唤醒检测单个语音片段的最长时长（毫秒）
 	
 	// 持续对话配置
 	continuousDialogDuration: number; // 持续对话时长（秒）
@@ -163,11 +954,35 @@ interface VoiceAssistantSettings {
 	// 语音听写配置
 	dictationSilenceTimeout: number; // 持续听写静默超时时间（秒）
 	dictationSilenceInterval: number; // 录音静默间隔时间（秒），用户停止说话后多久进行识别
+	dictationCommandsEnabled: boolean; // 是否识别听写中的语音编辑命令
+	dictationGrammar: DictationCommandGrammar; // 语音编辑命令短语和口述标点
+	dictationMarkdownEnabled: boolean; // 是否把句首的标题、列表、待办、引用等关键词转换为 Markdown
+	dictationPolishEnabled: boolean; // 听写结束后是否用大模型润色本次听写内容
+	dictationPolishInstructions: string; // 润色要求，作为提示词发给大模型
+	pushToTalkEnabled: boolean; // 是否启用按住说话（按键和状态浮窗按钮）
+	pushToTalkDictationKey: string; // 按住听写的按键（KeyboardEvent.code），为空表示不使用按键
+	pushToTalkConversationKey: string; // 按住对话的按键（KeyboardEvent.code），为空表示不使用按键
+	dictationInsertPolicy: 'cursor' | 'anchor' | 'end'; // 听写插入位置：跟随光标、固定锚点或笔记末尾
+	normalizeDictationText: boolean; // 听写结果写入前是否规整文本
+	normalizeConversationText: boolean; // 对话识别结果发给模型前是否规整文本
+	textNormalization: TextNormalizationOptions; // 文本规整的各项规则
+	meetingSaveFolder: string; // 会议记录笔记和录音的保存文件夹
+	meetingSpeakers: string[]; // 状态浮窗中的发言人快捷按钮
+	meetingSaveAudio: boolean; // 是否保存会议的完整录音，时间标记链接到录音的对应时刻
+	meetingSummaryEnabled: boolean; // 会议结束后是否用大模型生成总结、决定和行动项
+	translationProvider: 'llm' | 'libretranslate'; // 翻译听写使用的翻译服务
+	translationLanguage: string; // 翻译听写的目标语言代码，见 TRANSLATION_LANGUAGES
+	translationOriginalMode: TranslationOriginalMode; // 翻译听写时原文的保留方式
+	libreTranslateUrl: string; // LibreTranslate 服务地址
+	libreTranslateApiKey: string; // LibreTranslate API Key，自建服务可留空
 	
 	// 语音检测配置
-	voiceDetectionThreshold: number; // 语音检测阈值 (0-100)
-	voiceDetectionSensitivity: number; // 检测敏感度 (50-500ms)
+	voiceDetectionThreshold: number; // 语音检测阈值 (10-80)，除以 1000 为 RMS 能量
+	voiceDetectionSensitivity: number; // 检测敏感度 (50-500ms)，语音打断需持续说话 3 倍该时长
 	enableVoiceInterruption: boolean; // 是否启用语音打断
+	microphoneCalibrations: Record<string, MicrophoneCalibration>; // 按麦克风设备 ID 保存的校准结果
+	audioProcessingEnabled: boolean; // 识别和暂存录音前是否先做音频预处理
+	audioProcessing: AudioProcessingOptions; // 音频预处理的各个环节
 	
 	// 自定义提示词配置
 	customPrompts: Array<{
@@ -178,7 +993,30 @@ interface VoiceAssistantSettings {
 	}>;
 	
 	// 语音识别配置
-	asrProvider: 'xunfei';
+	asrProvider: 'xunfei' | 'openai' | 'vosk';
+	openaiAsrBaseUrl: string; // OpenAI 兼容转写接口地址（不含 /audio/transcriptions）
+	openaiAsrApiKey: string; // 转写接口 API Key，本地服务可留空
+	openaiAsrModel: string; // 转写模型名称
+	voskServerUrl: string; // 本地 Vosk WebSocket 服务地址
+	asrLanguage: string; // 默认识别语言
+	asrAccent: string; // 默认方言/口音
+	asrPunctuation: boolean; // 是否自动添加标点
+	asrNumberFormat: boolean; // 是否将数字转为阿拉伯数字
+	asrVadEos: number; // 句尾静默超时（毫秒）
+	asrProfiles: AsrProfile[]; // 识别方案，每个方案对应一条听写命令
+	asrChunkSeconds: number; // 长录音分段上限（秒）
+	asrChunkOverlap: number; // 相邻分段重叠时长（秒）
+	asrChunkConcurrency: number; // 同时识别的分段数
+	asrStreamingMode: boolean; // 听写时是否边说边上传 40ms 音频帧并实时预览
+	vocabularyEnabled: boolean; // 是否在识别后按个人词汇表纠错
+	vocabularyText: string; // 设置中的词汇表，每行一个术语或“听到 → 应为”规则
+	vocabularyNotePath: string; // 词汇表笔记路径，格式与设置中的词汇表相同
+	vocabularyFromVault: boolean; // 是否自动收录笔记标题和标签
+	autoTranscribeEnabled: boolean; // 是否自动转写收件箱文件夹中的新音频
+	audioInboxFolder: string; // 音频收件箱文件夹
+	transcriptFolder: string; // 自动转写笔记保存文件夹，留空则保存在音频旁
+	transcriptionQueue: TranscriptionJob[]; // 待处理和失败的自动转写任务
+	pendingRecordings: PendingRecording[]; // 识别失败后暂存、等待联网转写的录音
 	
 	// 语音合成配置
 	ttsMode: 'disabled' | 'online';
@@ -216,7 +1054,7 @@ const DEFAULT_SETTINGS: VoiceAssistantSettings = {
 	wakeMode: 'disabled',
 	wakeWords: ['你好，小三', '小三同学', '小三小三'],
 	autoEnterDialogAfterWake: true,
-	wakeDetectionInterval: 1000, // 默认1秒检测间隔
+	wakeDetectionInterval: 1000, // 默认1秒
 	
 	continuousDialogDuration: 60, // 默认1分钟
 	showDialogControls: true,
@@ -224,10 +1062,34 @@ const DEFAULT_SETTINGS: VoiceAssistantSettings = {
 	
 	dictationSilenceTimeout: 10, // 默认10秒静默超时
 	dictationSilenceInterval: 2, // 默认2秒静默间隔
+	dictationCommandsEnabled: true,
+	dictationGrammar: DEFAULT_DICTATION_GRAMMAR,
+	dictationMarkdownEnabled: false,
+	dictationInsertPolicy: 'anchor',
+	normalizeDictationText: true,
+	normalizeConversationText: true,
+	textNormalization: DEFAULT_TEXT_NORMALIZATION,
+	meetingSaveFolder: 'voice-assistant/meetings',
+	meetingSpeakers: DEFAULT_MEETING_SPEAKERS,
+	meetingSaveAudio: true,
+	meetingSummaryEnabled: true,
+	dictationPolishEnabled: false,
+	dictationPolishInstructions: DEFAULT_POLISH_INSTRUCTIONS,
+	pushToTalkEnabled: false,
+	pushToTalkDictationKey: 'F8',
+	pushToTalkConversationKey: 'F9',
+	translationProvider: 'llm',
+	translationLanguage: 'en',
+	translationOriginalMode: 'footnote',
+	libreTranslateUrl: 'http://localhost:5000',
+	libreTranslateApiKey: '',
 	
 	voiceDetectionThreshold: 30, // 默认阈值30
 	voiceDetectionSensitivity: 100, // 默认100ms检测间隔
 	enableVoiceInterruption: true, // 默认启用语音打断
+	microphoneCalibrations: {},
+	audioProcessingEnabled: true,
+	audioProcessing: DEFAULT_AUDIO_PROCESSING,
 	
 	customPrompts: [
 		{
@@ -239,6 +1101,29 @@ const DEFAULT_SETTINGS: VoiceAssistantSettings = {
 	],
 	
 	asrProvider: 'xunfei',
+	openaiAsrBaseUrl: 'http://localhost:8000/v1',
+	openaiAsrApiKey: '',
+	openaiAsrModel: 'whisper-1',
+	voskServerUrl: 'ws://localhost:2700',
+	asrLanguage: 'zh_cn',
+	asrAccent: 'mandarin',
+	asrPunctuation: true,
+	asrNumberFormat: true,
+	asrVadEos: 10000,
+	asrProfiles: [],
+	asrChunkSeconds: 55,
+	asrChunkOverlap: 1,
+	asrChunkConcurrency: 1,
+	asrStreamingMode: false,
+	vocabularyEnabled: true,
+	vocabularyText: '',
+	vocabularyNotePath: '',
+	vocabularyFromVault: false,
+	autoTranscribeEnabled: false,
+	audioInboxFolder: '',
+	transcriptFolder: '',
+	transcriptionQueue: [],
+	pendingRecordings: [],
 	
 	ttsMode: 'disabled',
 	ttsProvider: 'xunfei',
@@ -269,6 +1154,7 @@ export default class VoiceAssistantPlugin extends Plugin {
 	private wakeWebSocket: WebSocket | null = null;
 	private statusFloat: HTMLElement | null = null;
 	private currentAudio: HTMLAudioElement | null = null;
+	private ttsAbortController: AbortController | null = null; // 进行中的语音合成请求，停止播放时取消
 	private isPlaying = false;
 	private autoHideTimer: number | null = null;
 	private wakeStatusBarItem: HTMLElement | null = null;
@@ -283,15 +1169,40 @@ export default class VoiceAssistantPlugin extends Plugin {
 	private backgroundVoiceDetection = false;
 	private backgroundMediaRecorder: MediaRecorder | null = null;
 	private backgroundStream: MediaStream | null = null;
-	private voiceDetectionTimer: number | null = null;
+	private stopBackgroundCapture: (() => void) | null = null;
+	private readonly echoGate = new EchoGate(); // 以 TTS 播报为参考，区分用户说话和扬声器回声
+	private stopEchoReferenceCapture: (() => void) | null = null;
+	private audioLevelHistory: AudioLevelRecord[] = []; // 最近几次音频预处理前后的电平，供调试视图查看
+	private readonly processedAudio = new WeakMap<Blob, PreparedAudio>(); // 已预处理的录音，识别失败暂存时不再重复处理
 	
 	// 持续听写相关属性
 	private isDictating = false;
 	private dictationTimer: number | null = null;
 	private dictationStartTime: number = 0;
-	private dictationAudioChunks: Blob[] = []; // 累积的音频片段
-	private lastVoiceDetectedTime: number = 0; // 最后检测到语音的时间
-	private silenceCheckTimer: number | null = null; // 静默检测定时器
+	private dictationUtterances: Array<{ from: number; to: number }> = []; // 本次听写已插入的各句范围（文本偏移），供“删除上一句”使用
+	private dictationEditor: Editor | null = null; // 正在听写的编辑器
+	private dictationAnchor = 0; // 听写插入锚点（文本偏移），随编辑器中的修改移动
+	private dictationSnapshot = ''; // 上次同步锚点时的文档内容，用于推算用户的修改
+	private resolveDictationStop: (() => void) | null = null; // 结束分段听写循环
+	private dictationTranslating = false; // 本次持续听写是否为翻译听写
+
+	// 会议记录相关：segmenter 在麦克风就绪后创建，stop 结束录音和识别循环
+	private meetingSession: {
+		file: TFile;
+		speaker: string;
+		entries: MeetingEntry[];
+		startedAt: number;
+		segmenter: UtteranceSegmenter | null;
+		stop: () => void;
+	} | null = null;
+
+	// 按住说话相关：recording 在麦克风就绪后给出停止录音并取得音频的函数
+	private pushToTalkSession: {
+		target: 'dictation' | 'conversation';
+		startedAt: number;
+		dictationTarget: DictationTarget | null;
+		recording: Promise<() => Promise<Blob>>;
+	} | null = null;
 	
 	// 预录音缓冲区相关
 	private preRecordingBuffer: Blob[] = []; // 预录音缓冲区
@@ -307,8 +1218,26 @@ export default class VoiceAssistantPlugin extends Plugin {
 	private wakeSessionAudioSaved = false; // 标记唤醒会话是否已保存音频
 	
 	// 语音唤醒监听相关
-	private wakeMediaRecorder: MediaRecorder | null = null;
+	private stopWakeCapture: (() => void) | null = null;
 	private wakeStream: MediaStream | null = null;
+	
+	// 流式识别相关
+	private streamingAsrSession: StreamingAsrSession | null = null; // 当前流式识别会话
+	
+	// 识别方案相关
+	private activeAsrProfile: AsrProfile | null = null; // 当前听写使用的识别方案
+	private asrProfileCommandIds: string[] = []; // 已注册的识别方案命令
+
+	// 个人词汇相关
+	private correctVocabulary: (text: string) => string = text => text; // 当前词汇表编译出的纠错函数
+	private scheduleVocabularyRefresh = debounce(() => void this.refreshVocabulary(), 2000, true);
+
+	// 自动转写队列相关
+	private isProcessingTranscriptionQueue = false;
+	private transcriptionRetryTimer: number | null = null;
+
+	// 暂存录音相关
+	private isProcessingPendingRecordings = false;
 
 
 	/**
@@ -355,22 +1284,151 @@ export default class VoiceAssistantPlugin extends Plugin {
 		});
 
 		this.addCommand({
-			id: 'voice-reading',
-			name: '语音朗读',
-			callback: () => this.startVoiceReading()
+			id: 'meeting-transcription',
+			name: '会议记录',
+			callback: () => this.toggleMeetingTranscription()
 		});
 
-		// 添加设置面板
-		this.addSettingTab(new VoiceAssistantSettingTab(this.app, this));
+		this.addCommand({
+			id: 'translated-dictation',
+			name: '翻译听写',
+			callback: () => this.startVoiceDictation(undefined, true)
+		});
 
-		// 等待工作区布局就绪后再操作全局 DOM，避免影响 Obsidian 启动阶段。
-		this.app.workspace.onLayoutReady(() => {
-			this.createStatusFloat();
-			this.showStatusFloat();
-			this.updateStatusFloat('语音助手已加载 - 停止监听', 'info');
+		this.addCommand({
+			id: 'toggle-markdown-dictation',
+			name: '切换 Markdown 结构听写',
+			callback: async () => {
+				this.settings.dictationMarkdownEnabled = !this.settings.dictationMarkdownEnabled;
+				await this.saveSettings();
+				new Notice(this.settings.dictationMarkdownEnabled ? 'Markdown 结构听写已开启' : 'Markdown 结构听写已关闭');
+			}
 		});
 
-		// 插件加载后默认为停止监听状态，用户需要手动启动监听
+		this.addCommand({
+			id: 'calibrate-microphone',
+			name: '麦克风校准',
+			callback: () => this.openMicrophoneCalibration()
+		});
+
+		this.addCommand({
+			id: 'audio-processing-levels',
+			name: '查看音频预处理电平',
+			callback: () => this.openAudioLevelsView()
+		});
+
+		this.addCommand({
+			id: 'voice-reading',
+			name: '语音朗读',
+			callback: () => this.startVoiceReading()
+		});
+
+		this.addCommand({
+			id: 'transcribe-audio-file',
+			name: '转写音频文件',
+			callback: () => this.chooseAudioFileToTranscribe()
+		});
+
+		this.addCommand({
+			id: 'pending-recordings',
+			name: '查看暂存录音',
+			callback: () => this.openPendingRecordingsPanel()
+		});
+
+		this.addCommand({
+			id: 'retry-failed-transcriptions',
+			name: '重试失败的自动转写',
+			callback: () => this.retryFailedTranscriptions()
+		});
+
+		// 在音频附件的文件菜单中提供转写入口
+		this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+			if (file instanceof TFile && isTranscribableAudio(file)) {
+				menu.addItem(item => item
+					.setTitle('转写音频文件')
+					.setIcon('file-audio')
+					.onClick(() => void this.transcribeAudioFile(file)));
+			}
+		}));
+
+		// 流式听写在编辑器中的实时预览
+		this.registerEditorExtension(dictationPreviewField);
+
+		// 为每个识别方案注册独立的听写命令
+		this.refreshAsrProfileCommands();
+
+		// 添加设置面板
+		this.addSettingTab(new VoiceAssistantSettingTab(this.app, this));
+
+		// 等待工作区布局就绪后再操作全局 DOM，避免影响 Obsidian 启动阶段。
+		this.app.workspace.onLayoutReady(() => {
+			this.createStatusFloat();
+			this.showStatusFloat();
+			this.updateStatusFloat('语音助手已加载 - 停止监听', 'info');
+			void this.refreshVocabulary();
+
+			// 启动时仓库中已有的文件也会触发 create，布局就绪后再监听收件箱，并继续处理上次未完成的任务
+			this.registerEvent(this.app.vault.on('create', file => {
+				if (file instanceof TFile) {
+					void this.enqueueInboxAudio(file);
+				}
+			}));
+			this.registerEvent(this.app.vault.on('rename', file => {
+				if (file instanceof TFile) {
+					void this.enqueueInboxAudio(file);
+				}
+			}));
+			void this.processTranscriptionQueue();
+			void this.processPendingRecordings();
+		});
+
+		// 网络恢复时立即转写暂存的录音；浏览器的联网状态并不总是可靠，另外每分钟重试一次
+		this.registerDomEvent(window, 'online', () => void this.processPendingRecordings());
+		this.registerInterval(window.setInterval(() => {
+			if (this.settings.pendingRecordings.length > 0) {
+				void this.processPendingRecordings();
+			}
+		}, 60000));
+
+		// 按住说话：Obsidian 快捷键没有松开事件，直接监听按键按下和松开；窗口失焦时视为松开
+		this.registerDomEvent(document, 'keydown', (event: KeyboardEvent) => {
+			const target = this.getPushToTalkTarget(event);
+			if (target) {
+				event.preventDefault();
+				if (!event.repeat) {
+					void this.pressPushToTalk(target);
+				}
+			}
+		}, { capture: true });
+		this.registerDomEvent(document, 'keyup', (event: KeyboardEvent) => {
+			if (this.pushToTalkSession && this.getPushToTalkTarget(event) === this.pushToTalkSession.target) {
+				event.preventDefault();
+				void this.releasePushToTalk();
+			}
+		}, { capture: true });
+		this.registerDomEvent(window, 'blur', () => void this.releasePushToTalk());
+
+		// 听写期间跟踪用户对笔记的修改，保持插入锚点位置正确
+		this.registerEvent(this.app.workspace.on('editor-change', editor => this.trackDictationEdits(editor)));
+
+		// 词汇表笔记被修改，或自动收录时笔记标题、标签发生变化，都需要重新生成纠错规则
+		this.registerEvent(this.app.vault.on('modify', file => {
+			if (file.path === this.getVocabularyNotePath()) {
+				this.scheduleVocabularyRefresh();
+			}
+		}));
+		this.registerEvent(this.app.vault.on('rename', () => {
+			if (this.settings.vocabularyFromVault) {
+				this.scheduleVocabularyRefresh();
+			}
+		}));
+		this.registerEvent(this.app.metadataCache.on('changed', () => {
+			if (this.settings.vocabularyFromVault) {
+				this.scheduleVocabularyRefresh();
+			}
+		}));
+
+		// 插件加载后默认为停止监听状态，用户需要手动启动监听
 		// 不再自动启动语音唤醒监听
 
 		this.debugLog('语音助手插件已加载 - 默认停止监听状态');
@@ -380,20 +1438,30 @@ export default class VoiceAssistantPlugin extends Plugin {
 	 * 插件卸载时的清理方法
 	 */
 	onunload() {
+		if (this.isDictating) {
+			this.stopDictation();
+		}
+		this.meetingSession?.stop();
 		this.stopListening();
 		this.stopWakeListening();
 		this.stopTTS();
 
+		// 丢弃尚未松开的按住说话录音
+		if (this.pushToTalkSession) {
+			const { recording } = this.pushToTalkSession;
+			this.pushToTalkSession = null;
+			void recording.then(stop => stop()).catch(() => undefined);
+		}
+
 		// 清理自动隐藏定时器
 		if (this.autoHideTimer) {
 			window.clearTimeout(this.autoHideTimer);
 			this.autoHideTimer = null;
 		}
 		
-		// 清理听写相关定时器
-		if (this.silenceCheckTimer) {
-			window.clearTimeout(this.silenceCheckTimer);
-			this.silenceCheckTimer = null;
+		if (this.transcriptionRetryTimer) {
+			window.clearTimeout(this.transcriptionRetryTimer);
+			this.transcriptionRetryTimer = null;
 		}
 		
 		this.removeStatusFloat();
@@ -407,6 +1475,10 @@ export default class VoiceAssistantPlugin extends Plugin {
 	async loadSettings() {
 		const savedSettings = await this.loadData() as Partial<VoiceAssistantSettings> | null;
 		this.settings = { ...DEFAULT_SETTINGS, ...(savedSettings ?? {}) };
+		// 旧版本保存的命令语法缺少后来新增的字段
+		this.settings.dictationGrammar = { ...DEFAULT_DICTATION_GRAMMAR, ...this.settings.dictationGrammar };
+		this.settings.textNormalization = { ...DEFAULT_TEXT_NORMALIZATION, ...this.settings.textNormalization };
+		this.settings.audioProcessing = { ...DEFAULT_AUDIO_PROCESSING, ...this.settings.audioProcessing };
 	}
 
 	/**
@@ -416,6 +1488,96 @@ export default class VoiceAssistantPlugin extends Plugin {
 		await this.saveData(this.settings);
 	}
 
+	/**
+	 * 重新注册识别方案听写命令
+	 * 识别方案增删后调用，先移除旧命令再按当前方案列表注册
+	 */
+	refreshAsrProfileCommands(): void {
+		for (const commandId of this.asrProfileCommandIds) {
+			this.removeCommand(commandId);
+		}
+		this.asrProfileCommandIds = [];
+
+		for (const profile of this.settings.asrProfiles) {
+			const commandId = `dictation-profile-${profile.id}`;
+			this.addCommand({
+				id: commandId,
+				name: `语音听写（${profile.name}）`,
+				callback: () => this.startVoiceDictation(profile)
+			});
+			this.asrProfileCommandIds.push(commandId);
+		}
+	}
+
+	/** 词汇表笔记的规范化路径，未配置时为空字符串 */
+	private getVocabularyNotePath(): string {
+		const path = this.settings.vocabularyNotePath.trim();
+		if (!path) {
+			return '';
+		}
+		return normalizePath(path.endsWith('.md') ? path : `${path}.md`);
+	}
+
+	/**
+	 * 重新生成个人词汇纠错函数
+	 * 合并设置中的词汇表、词汇表笔记以及（开启时）笔记标题和标签，设置中的规则优先
+	 */
+	async refreshVocabulary(): Promise<void> {
+		const sources: Vocabulary[] = [parseVocabulary(this.settings.vocabularyText)];
+
+		const notePath = this.getVocabularyNotePath();
+		if (notePath) {
+			const noteFile = this.app.vault.getAbstractFileByPath(notePath);
+			if (noteFile instanceof TFile) {
+				sources.push(parseVocabulary(await this.app.vault.cachedRead(noteFile)));
+			} else {
+				this.debugLog('未找到词汇表笔记:', notePath);
+			}
+		}
+
+		if (this.settings.vocabularyFromVault) {
+			const names: string[] = [];
+			for (const file of this.app.vault.getMarkdownFiles()) {
+				names.push(file.basename);
+				const cache = this.app.metadataCache.getFileCache(file);
+				if (cache) {
+					names.push(...(getAllTags(cache) ?? []));
+				}
+			}
+			sources.push({ terms: collectVocabularyTerms(names), rules: [] });
+		}
+
+		const vocabulary = mergeVocabularies(...sources);
+		this.correctVocabulary = createVocabularyCorrector(vocabulary);
+		this.debugLog(`个人词汇表已更新：${vocabulary.terms.length} 个术语，${vocabulary.rules.length} 条替换规则`);
+	}
+
+	/** 按设置规整对话识别结果 */
+	private normalizeConversationText(text: string): string {
+		return this.settings.normalizeConversationText ? normalizeTranscript(text, this.settings.textNormalization) : text;
+	}
+
+	/** 按个人词汇表纠正识别结果 */
+	private applyVocabulary(text: string): string {
+		if (!this.settings.vocabularyEnabled || !text) {
+			return text;
+		}
+		return this.correctVocabulary(text);
+	}
+
+	/**
+	 * 获取当前生效的识别语言选项，听写时识别方案优先于全局设置
+	 */
+	private getAsrLanguageOptions(): AsrLanguageOptions {
+		const profile = this.activeAsrProfile;
+		return {
+			language: profile?.language ?? this.settings.asrLanguage,
+			accent: profile?.accent ?? this.settings.asrAccent,
+			punctuation: profile?.punctuation ?? this.settings.asrPunctuation,
+			numberFormat: profile?.numberFormat ?? this.settings.asrNumberFormat
+		};
+	}
+
 	/**
 	 * 调试日志输出
 	 */
@@ -485,21 +1647,32 @@ export default class VoiceAssistantPlugin extends Plugin {
 
 	/**
 	 * 处理单次对话
+	 * @param recordedAudio 按住说话已录好的音频，不传时开始录音
 	 */
-	private async processSingleConversation(): Promise<void> {
+	private async processSingleConversation(recordedAudio?: Blob): Promise<void> {
 		this.debugLog('开始语音对话');
 		
 		// 清除静默检测计时器（有新的语音输入）
 		this.clearSilenceTimer();
 		
-		new Notice('开始录音，请说话...');
-		
-		// 开始录音
-		const audioBlob = await this.startRecording();
+		let audioBlob = recordedAudio;
+		if (!audioBlob) {
+			new Notice('开始录音，请说话...');
+			audioBlob = await this.startRecording();
+		}
 		
 		// 语音识别
-		const text = await this.speechToText(audioBlob);
-		if (!text || text === '未识别到语音内容') {
+		let text: string;
+		try {
+			text = await this.speechToText(audioBlob, '对话');
+		} catch (error) {
+			await this.captureConversationRecording(audioBlob, error);
+			if (this.isInContinuousDialog) {
+				this.startSilenceDetection();
+			}
+			return;
+		}
+		if (!text.trim()) {
 			new Notice('语音识别失败，请重试');
 			// 在持续对话模式下，启动静默检测
 			if (this.isInContinuousDialog) {
@@ -508,6 +1681,7 @@ export default class VoiceAssistantPlugin extends Plugin {
 			return;
 		}
 		
+		text = this.normalizeConversationText(text);
 		this.debugLog('识别到文本:', text);
 		new Notice(`识别到：${text}`);
 		
@@ -564,23 +1738,29 @@ export default class VoiceAssistantPlugin extends Plugin {
 	/**
 	 * 开始语音听写
 	 * 使用持续模式进行听写，按快捷键开始，静默超时自动结束
+	 * @param profile 本次听写使用的识别方案，不传时使用全局识别设置
 	 */
-	private async startVoiceDictation(): Promise<void> {
+	private async startVoiceDictation(profile?: AsrProfile, translate = false): Promise<void> {
 		try {
-			const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-			if (!activeView) {
-				new Notice('请先打开一个笔记文件');
-				return;
-			}
-
 			// 如果已经在听写中，则停止当前听写
 			if (this.isDictating) {
 				this.stopDictation();
 				return;
 			}
 
+			const target = this.resolveDictationTarget();
+			if (!target) {
+				new Notice('请先将光标放在笔记或输入框中');
+				return;
+			}
+
 			// 直接使用持续听写模式
-			await this.startContinuousDictation();
+			this.activeAsrProfile = profile ?? null;
+			this.dictationTranslating = translate;
+			if (profile) {
+				this.updateStatusFloat(`识别方案：${profile.name}`, 'info', false);
+			}
+			await this.startContinuousDictation(target);
 		} catch (error) {
 			this.debugLog('语音听写错误:', error);
 			const errorMessage = error instanceof Error ? error.message : String(error);
@@ -590,379 +1770,1362 @@ export default class VoiceAssistantPlugin extends Plugin {
 	}
 
 	/**
-	 * 按住模式听写
-	 * 支持连续触发检测，模拟按住效果
+	 * 确定听写写入目标：优先使用获得焦点的输入控件，其次是当前活动的编辑器（包括白板卡片和嵌入的编辑器）
 	 */
-
+	private resolveDictationTarget(): DictationTarget | null {
+		const input = findFocusedTextInput(activeDocument);
+		if (input) {
+			return { kind: 'input', element: input };
+		}
+		const editor = this.app.workspace.activeEditor?.editor;
+		return editor ? { kind: 'editor', editor } : null;
+	}
 
 	/**
-	 * 持续模式听写
-	 * 按快捷键开始，静默超时自动结束
+	 * 根据按键判断对应的按住说话目标，未启用或不是配置的按键时返回 null
 	 */
-	private async startContinuousDictation(): Promise<void> {
-		this.isDictating = true;
-		this.dictationStartTime = Date.now();
-		this.updateStatusFloat('听写中', 'info', false);
-		
-		// 显示听写控制界面
-		this.showDictationControls();
-		
-		// 开始持续录音和识别
-		await this.startContinuousDictationLoop();
+	private getPushToTalkTarget(event: KeyboardEvent): 'dictation' | 'conversation' | null {
+		if (!this.settings.pushToTalkEnabled) {
+			return null;
+		}
+		if (this.settings.pushToTalkDictationKey && event.code === this.settings.pushToTalkDictationKey) {
+			return 'dictation';
+		}
+		if (this.settings.pushToTalkConversationKey && event.code === this.settings.pushToTalkConversationKey) {
+			return 'conversation';
+		}
+		return null;
 	}
 
 	/**
-	 * 持续听写循环
-	 * 使用真正的静默检测，在指定时间内无语音输入则自动结束
-	 */
-	/**
-	 * 持续听写循环 - 改进版本
-	 * 连续录音，只有在静默间隔后才进行语音识别，避免打断连续语音
+	 * 按住说话：按下时开始录音
+	 * 听写从按下时的光标位置插入；对话会先停止正在播放的语音回复
 	 */
-	private async startContinuousDictationLoop(): Promise<void> {
-		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-		if (!activeView) {
-			this.stopDictation();
+	async pressPushToTalk(target: 'dictation' | 'conversation'): Promise<void> {
+		if (this.pushToTalkSession) {
 			return;
 		}
 
-		const editor = activeView.editor;
-		let allRecognizedText = '';
-		let lastVoiceTime = Date.now();
-		const silenceTimeoutMs = this.settings.dictationSilenceTimeout * 1000; // 总超时时间
-		const silenceIntervalMs = this.settings.dictationSilenceInterval * 1000; // 静默间隔时间
-		
-		// 记录听写开始时的光标位置，用于跟踪插入位置
-		let insertPosition = editor.getCursor();
-		
-		// 初始化音频片段数组和最后语音时间
-		this.dictationAudioChunks = [];
-		this.lastVoiceDetectedTime = Date.now();
-
-		// 启动总体静默超时检测定时器
-		this.dictationTimer = window.setInterval(() => {
-			if (!this.isDictating) {
+		let dictationTarget: DictationTarget | null = null;
+		if (target === 'dictation') {
+			if (this.isDictating) {
+				new Notice('持续听写进行中，请先停止听写');
 				return;
 			}
-			
-			const currentTime = Date.now();
-			const totalSilenceDuration = currentTime - lastVoiceTime;
-			
-			if (totalSilenceDuration >= silenceTimeoutMs) {
-				this.debugLog(`持续听写静默超时 ${this.settings.dictationSilenceTimeout} 秒，自动结束`);
-				this.stopDictation();
-				
-				if (allRecognizedText.trim()) {
-					this.updateStatusFloat('听写结束', 'success', true);
-					new Notice(`听写完成，共识别：${allRecognizedText.trim()}`);
-				} else {
-					this.updateStatusFloat('听写结束', 'warning', true);
-					new Notice('听写结束，未识别到语音内容');
-				}
+			dictationTarget = this.resolveDictationTarget();
+			if (!dictationTarget) {
+				new Notice('请先将光标放在笔记或输入框中');
+				return;
+			}
+			if (dictationTarget.kind === 'editor') {
+				this.beginDictationSession(dictationTarget.editor);
 			}
-		}, 1000); // 每秒检查一次
+		} else {
+			this.stopTTS();
+		}
 
-		// 持续录音循环 - 使用较短的片段进行实时检测
-		while (this.isDictating) {
-			try {
-				// 录音500ms的短片段进行实时语音检测
-				const audioBlob = await this.recordAudioSegment(500);
-				
-				// 检测是否有语音内容
-				const hasVoice = await this.detectVoiceInAudio(audioBlob);
-				
-				if (hasVoice) {
-					// 检测到语音，累积音频片段
-					this.dictationAudioChunks.push(audioBlob);
-					this.lastVoiceDetectedTime = Date.now();
-					lastVoiceTime = Date.now(); // 更新总体最后语音时间
-					
-					this.updateStatusFloat('正在录音...', 'info', false);
-					this.debugLog('检测到语音，累积音频片段');
-					
-					// 清除之前的静默检测定时器
-					if (this.silenceCheckTimer) {
-						window.clearTimeout(this.silenceCheckTimer);
-						this.silenceCheckTimer = null;
-					}
-				} else {
-					// 没有检测到语音，检查是否需要处理累积的音频
-					const currentTime = Date.now();
-					const silenceDuration = currentTime - this.lastVoiceDetectedTime;
-					
-					// 如果有累积的音频片段且静默时间达到间隔要求
-					if (this.dictationAudioChunks.length > 0 && silenceDuration >= silenceIntervalMs) {
-						const recognizedText = await this.processAccumulatedAudio(editor, insertPosition);
-						
-						if (recognizedText && recognizedText.trim()) {
-							allRecognizedText += recognizedText + ' ';
-							
-							// 更新插入位置到新插入文字的末尾
-							const textToInsert = recognizedText + ' ';
-							const newLine = insertPosition.line;
-							const newCh = insertPosition.ch + textToInsert.length;
-							insertPosition = { line: newLine, ch: newCh };
-						}
-						
-						// 清空累积的音频片段
-						this.dictationAudioChunks = [];
-					}
-				}
-			} catch (error) {
-				this.debugLog('持续听写循环错误:', error);
-				break;
+		const session = {
+			target,
+			startedAt: Date.now(),
+			dictationTarget,
+			recording: this.startPushToTalkRecording()
+		};
+		this.pushToTalkSession = session;
+		this.setPushToTalkActive(target, true);
+		this.updateStatusFloat(target === 'dictation' ? '按住听写中，松开后识别' : '按住对话中，松开后发送', 'info', false);
+
+		try {
+			await session.recording;
+		} catch (error) {
+			if (this.pushToTalkSession === session) {
+				this.pushToTalkSession = null;
+				this.setPushToTalkActive(target, false);
+				this.endPushToTalkDictation();
 			}
+			new Notice(`无法开始录音: ${getErrorMessage(error)}`);
 		}
 	}
 
 	/**
-	 * 处理累积的音频片段进行语音识别
-	 * @returns 识别到的文本，如果没有识别到则返回空字符串
+	 * 按住说话：松开时停止录音，并把音频交给听写或对话流程
 	 */
-	private async processAccumulatedAudio(editor: Editor, insertPosition: EditorPosition): Promise<string> {
-		if (this.dictationAudioChunks.length === 0) {
-			return '';
+	async releasePushToTalk(): Promise<void> {
+		const session = this.pushToTalkSession;
+		if (!session) {
+			return;
 		}
+		this.pushToTalkSession = null;
+		this.setPushToTalkActive(session.target, false);
 
+		let audioBlob: Blob;
 		try {
-			this.updateStatusFloat('正在识别语音...', 'info', false);
-			
-			// 合并所有音频片段，并保留录音器返回的真实容器格式。
-			// Chromium 可以连续解码这些同格式片段；错误标记为 WAV 会在部分版本中导致解码失败。
-			const combinedAudioBlob = new Blob(this.dictationAudioChunks, {
-				type: this.dictationAudioChunks[0]?.type || 'application/octet-stream'
-			});
-			
-			// 进行语音识别
-			const recognizedText = await this.speechToText(combinedAudioBlob);
-			
-			if (recognizedText && recognizedText.trim()) {
-				// 在当前插入位置插入识别的文字
-				const textToInsert = recognizedText + ' ';
-				editor.replaceRange(textToInsert, insertPosition);
-				
-				// 将光标移动到新的插入位置
-				const newLine = insertPosition.line;
-				const newCh = insertPosition.ch + textToInsert.length;
-				editor.setCursor({ line: newLine, ch: newCh });
-				
-				this.updateStatusFloat('听写中', 'info', false);
-				this.debugLog('持续听写识别到:', recognizedText);
-				
-				return recognizedText;
+			const stop = await session.recording;
+			audioBlob = await stop();
+		} catch (error) {
+			this.debugLog('按住说话录音失败:', error);
+			this.endPushToTalkDictation();
+			return;
+		}
+
+		if (Date.now() - session.startedAt < PUSH_TO_TALK_MIN_DURATION) {
+			this.updateStatusFloat('按住时间太短，已忽略', 'warning');
+			this.endPushToTalkDictation();
+			return;
+		}
+
+		if (session.target === 'dictation' && session.dictationTarget) {
+			try {
+				await this.processAccumulatedAudio(session.dictationTarget, audioBlob);
+			} finally {
+				this.endPushToTalkDictation();
 			}
-			
-			return '';
+			return;
+		}
+
+		try {
+			await this.processSingleConversation(audioBlob);
 		} catch (error) {
-			this.debugLog('处理累积音频错误:', error);
-			return '';
+			this.debugLog('语音对话出错:', error);
+			new Notice(`语音对话出错: ${getErrorMessage(error)}`);
 		}
 	}
 
 	/**
-	 * 录制指定时长的音频片段
+	 * 结束按住听写的会话，不再跟踪编辑器中的修改；持续听写进行中时会话属于持续听写，保持不变
 	 */
-	private async recordAudioSegment(duration: number): Promise<Blob> {
-		return new Promise((resolve, reject) => {
-			navigator.mediaDevices.getUserMedia({ audio: true })
-				.then(stream => {
-					let mediaRecorder: MediaRecorder;
-					try {
-						mediaRecorder = createCompatibleMediaRecorder(stream);
-					} catch (error) {
-						stream.getTracks().forEach(track => track.stop());
-						throw normalizeError(error, '无法创建录音器');
-					}
-					const audioChunks: Blob[] = [];
-
-					mediaRecorder.ondataavailable = (event) => {
-						if (event.data.size > 0) {
-							audioChunks.push(event.data);
-						}
-					};
-
-					mediaRecorder.onstop = () => {
-						const audioBlob = new Blob(audioChunks, {
-							type: mediaRecorder.mimeType || audioChunks[0]?.type || 'application/octet-stream'
-						});
-						stream.getTracks().forEach(track => track.stop());
-						resolve(audioBlob);
-					};
-
-					mediaRecorder.onerror = (error) => {
-						stream.getTracks().forEach(track => track.stop());
-						reject(normalizeError(error, '录音过程出错'));
-					};
-
-					mediaRecorder.start();
-					window.setTimeout(() => {
-						if (mediaRecorder.state === 'recording') {
-							mediaRecorder.stop();
-						}
-					}, duration);
-				})
-				.catch((error: unknown) => reject(normalizeError(error, '无法访问麦克风')));
-		});
+	private endPushToTalkDictation(): void {
+		if (!this.isDictating) {
+			this.dictationEditor = null;
+			this.dictationUtterances = [];
+		}
 	}
 
 	/**
-	 * 检测音频中是否包含语音
-	 * 改进的语音活动检测算法，结合音量、频率分析和能量分布
+	 * 打开麦克风并开始录音，返回停止录音的函数
 	 */
-	private async detectVoiceInAudio(audioBlob: Blob): Promise<boolean> {
-		return new Promise((resolve) => {
-			const audioContext = new AudioContext();
-			const fileReader = new FileReader();
+	private async startPushToTalkRecording(): Promise<() => Promise<Blob>> {
+		const stream = await navigator.mediaDevices.getUserMedia({
+			audio: {
+				channelCount: 1,
+				echoCancellation: true,
+				noiseSuppression: true
+			}
+		});
+		let recorder: MediaRecorder;
+		try {
+			recorder = createCompatibleMediaRecorder(stream);
+		} catch (error) {
+			stream.getTracks().forEach(track => track.stop());
+			throw normalizeError(error, '无法创建录音器');
+		}
 
-			fileReader.onload = () => {
-				const arrayBuffer = fileReader.result as ArrayBuffer;
-				audioContext.decodeAudioData(arrayBuffer)
-					.then(audioBuffer => {
-						const channelData = audioBuffer.getChannelData(0);
-						const sampleRate = audioBuffer.sampleRate;
-						
-						// 1. 基本音量检测
-						let sum = 0;
-						let maxAmplitude = 0;
-						for (let i = 0; i < channelData.length; i++) {
-							const amplitude = Math.abs(channelData[i]);
-							sum += amplitude;
-							maxAmplitude = Math.max(maxAmplitude, amplitude);
-						}
-						
-						const averageVolume = sum / channelData.length;
-						const volumeThreshold = this.settings.voiceDetectionThreshold / 1000;
-						
-						// 如果音量太低，直接判断为无语音
-						if (averageVolume < volumeThreshold) {
-							resolve(false);
-							return;
-						}
-						
-						// 2. 动态范围检测 - 语音通常有较大的动态范围
-						const dynamicRange = maxAmplitude / (averageVolume + 0.001); // 避免除零
-						
-						// 3. 零交叉率检测 - 语音通常有适中的零交叉率
-						let zeroCrossings = 0;
-						for (let i = 1; i < channelData.length; i++) {
-							if ((channelData[i] >= 0) !== (channelData[i - 1] >= 0)) {
-								zeroCrossings++;
-							}
-						}
-						const zeroCrossingRate = zeroCrossings / channelData.length;
-						
-						// 4. 能量分布检测 - 分析音频能量的分布
-						const frameSize = Math.floor(sampleRate * 0.025); // 25ms帧
-						const frameCount = Math.floor(channelData.length / frameSize);
-						let energyVariance = 0;
-						let frameEnergies: number[] = [];
-						
-						for (let frame = 0; frame < frameCount; frame++) {
-							let frameEnergy = 0;
-							const startIdx = frame * frameSize;
-							const endIdx = Math.min(startIdx + frameSize, channelData.length);
-							
-							for (let i = startIdx; i < endIdx; i++) {
-								frameEnergy += channelData[i] * channelData[i];
-							}
-							frameEnergy = Math.sqrt(frameEnergy / (endIdx - startIdx));
-							frameEnergies.push(frameEnergy);
-						}
-						
-						// 计算能量方差
-						if (frameEnergies.length > 1) {
-							const meanEnergy = frameEnergies.reduce((a, b) => a + b, 0) / frameEnergies.length;
-							energyVariance = frameEnergies.reduce((acc, energy) => acc + Math.pow(energy - meanEnergy, 2), 0) / frameEnergies.length;
-						}
-						
-						// 5. 综合判断
-						const hasVoice = this.evaluateVoiceActivity(
-							averageVolume,
-							volumeThreshold,
-							dynamicRange,
-							zeroCrossingRate,
-							energyVariance,
-							maxAmplitude
-						);
-						
-						this.debugLog(`语音检测结果: ${hasVoice}, 音量: ${averageVolume.toFixed(4)}, 动态范围: ${dynamicRange.toFixed(2)}, 零交叉率: ${zeroCrossingRate.toFixed(4)}, 能量方差: ${energyVariance.toFixed(6)}`);
-						
-						resolve(hasVoice);
-					})
-					.catch((error) => {
-						this.debugLog('音频解码失败:', error);
-						// 如果解码失败，假设有语音
-						resolve(true);
-					});
-			};
+		const chunks: Blob[] = [];
+		recorder.ondataavailable = (event) => {
+			if (event.data.size > 0) {
+				chunks.push(event.data);
+			}
+		};
+		recorder.start();
 
-			fileReader.onerror = () => {
-				this.debugLog('音频文件读取失败');
-				// 如果读取失败，假设有语音
-				resolve(true);
+		return () => new Promise<Blob>((resolve, reject) => {
+			recorder.onstop = () => {
+				stream.getTracks().forEach(track => track.stop());
+				resolve(new Blob(chunks, { type: recorder.mimeType || chunks[0]?.type || 'application/octet-stream' }));
 			};
-
-			fileReader.readAsArrayBuffer(audioBlob);
+			recorder.onerror = (event) => {
+				stream.getTracks().forEach(track => track.stop());
+				reject(normalizeError(event, '录音过程出错'));
+			};
+			recorder.stop();
 		});
 	}
 
 	/**
-	 * 综合评估语音活动
-	 * @param averageVolume 平均音量
-	 * @param volumeThreshold 音量阈值
-	 * @param dynamicRange 动态范围
-	 * @param zeroCrossingRate 零交叉率
-	 * @param energyVariance 能量方差
-	 * @param maxAmplitude 最大振幅
-	 * @returns 是否检测到语音
-	 */
-	private evaluateVoiceActivity(
-		averageVolume: number,
-		volumeThreshold: number,
-		dynamicRange: number,
-		zeroCrossingRate: number,
-		energyVariance: number,
-		maxAmplitude: number
-	): boolean {
-		// 基础音量检测
-		if (averageVolume < volumeThreshold) {
-			return false;
-		}
-		
-		// 如果音量很高，可能是语音
-		if (averageVolume > volumeThreshold * 3) {
-			return true;
+	 * 持续模式听写
+	 * 按快捷键开始，静默超时自动结束
+	 */
+	private async startContinuousDictation(target: DictationTarget): Promise<void> {
+		this.isDictating = true;
+		this.dictationStartTime = Date.now();
+		this.updateStatusFloat('听写中', 'info', false);
+		
+		// 显示听写控制界面
+		this.showDictationControls();
+		
+		// 开始持续录音和识别
+		await this.startContinuousDictationLoop(target);
+	}
+
+	/**
+	 * 持续听写循环
+	 * 使用真正的静默检测，在指定时间内无语音输入则自动结束
+	 */
+	/**
+	 * 持续听写循环 - 改进版本
+	 * 连续录音，只有在静默间隔后才进行语音识别，避免打断连续语音
+	 */
+	private async startContinuousDictationLoop(target: DictationTarget): Promise<void> {
+		if (target.kind === 'editor') {
+			this.beginDictationSession(target.editor);
+		}
+
+		let utterances: Array<{ from: number; to: number }> = [];
+		try {
+			// 流式模式由识别服务判断句尾，不再需要本地分段录音
+			if (this.settings.asrStreamingMode && this.settings.asrProvider !== 'openai') {
+				await this.startStreamingDictationLoop(target);
+			} else {
+				await this.startSegmentedDictationLoop(target);
+			}
+		} finally {
+			utterances = this.dictationUtterances;
+			this.dictationEditor = null;
+			this.dictationTranslating = false;
+			// 停止后循环仍会识别最后一句和排队中的录音，识别方案要等循环结束后才能清除
+			this.activeAsrProfile = null;
+		}
+
+		// 润色只针对编辑器中的内容，输入框中的短文本不需要
+		if (this.settings.dictationPolishEnabled && target.kind === 'editor' && utterances.length > 0) {
+			await this.polishDictation(target.editor, utterances);
+		}
+	}
+
+	/**
+	 * 用大模型润色本次听写插入的内容，逐段确认后替换。
+	 * 笔记中连续的听写内容为一组，每组单独润色和确认；各句之间用户自己的文字不会发给模型。
+	 */
+	private async polishDictation(editor: Editor, utterances: DictatedRange[]): Promise<void> {
+		const content = editor.getValue();
+		const groups = groupDictatedRanges(content, utterances).filter(group => content.slice(group[0].from, Math.max(...group.map(range => range.to))).trim());
+		// 前面各组替换后文字长度改变，后面各组的位置随之偏移
+		let shift = 0;
+		for (const [index, ranges] of groups.entries()) {
+			const title = groups.length > 1 ? `润色听写内容（${index + 1}/${groups.length}）` : '润色听写内容';
+			const change = await this.polishDictatedGroup(editor, content, ranges, shift, title);
+			if (change === null) {
+				return;
+			}
+			shift += change;
+		}
+	}
+
+	/**
+	 * 润色一组连续的听写内容，等待用户在对比窗口中确认
+	 * @returns 替换后文字长度的变化；润色失败时返回 null，不再继续后面各组
+	 */
+	private async polishDictatedGroup(editor: Editor, content: string, ranges: DictatedRange[], shift: number, title: string): Promise<number | null> {
+		const spanFrom = ranges[0].from;
+		const spanTo = Math.max(...ranges.map(range => range.to));
+		const segments = ranges.map((range, index) => content.slice(range.from, index + 1 < ranges.length ? ranges[index + 1].from : spanTo));
+		const original = content.slice(spanFrom, spanTo);
+
+		this.updateStatusFloat('正在润色听写内容...', 'info', false);
+		let paragraphs: PolishParagraph[];
+		try {
+			const response = await this.callLLM(buildPolishPrompt(segments, this.settings.dictationPolishInstructions));
+			paragraphs = parsePolishResponse(response, segments.length);
+		} catch (error) {
+			this.debugLog('听写润色失败:', error);
+			this.updateStatusFloat(`润色失败：${getErrorMessage(error)}`, 'error');
+			return null;
+		}
+		this.updateStatusFloat('润色完成，请在对比窗口中确认', 'success');
+
+		return new Promise(resolve => {
+			let change = 0;
+			new DictationPolishModal(this.app, title, segments, paragraphs, accepted => {
+				if (!accepted.some(Boolean)) {
+					return;
+				}
+				// 等待确认期间笔记可能被修改，按原文重新定位；原文已不存在时放弃修改
+				const current = editor.getValue();
+				const expectedFrom = spanFrom + shift;
+				const from = current.slice(expectedFrom, expectedFrom + original.length) === original ? expectedFrom : current.indexOf(original);
+				if (from === -1) {
+					new Notice('听写内容已被修改，无法应用润色结果');
+					return;
+				}
+				const polished = composePolishedText(segments, paragraphs, accepted);
+				editor.replaceRange(polished, editor.offsetToPos(from), editor.offsetToPos(from + original.length));
+				change = polished.length - original.length;
+			}, () => resolve(change)).open();
+		});
+	}
+
+	/**
+	 * 记录听写开始时的光标位置作为锚点，之后随编辑器中的修改移动
+	 */
+	private beginDictationSession(editor: Editor): void {
+		this.dictationEditor = editor;
+		this.dictationUtterances = [];
+		this.dictationSnapshot = editor.getValue();
+		this.dictationAnchor = editor.posToOffset(editor.getCursor());
+	}
+
+	/**
+	 * 分段听写循环：整个听写期间只打开一次麦克风，由 AudioWorklet 持续输出 PCM 窗口并在原始采样上做语音检测。
+	 * 每句在静默达到间隔后交给识别队列，录音不中断，识别按说话顺序依次进行，句与句之间不会丢失音频。
+	 */
+	private async startSegmentedDictationLoop(target: DictationTarget): Promise<void> {
+		let stream: MediaStream;
+		try {
+			stream = await navigator.mediaDevices.getUserMedia({
+				audio: {
+					channelCount: 1,
+					echoCancellation: true,
+					noiseSuppression: true
+				}
+			});
+		} catch (error) {
+			new Notice(`无法访问麦克风: ${getErrorMessage(error)}`);
+			this.stopDictation();
+			return;
+		}
+
+		let allRecognizedText = '';
+		let lastVoiceTime = Date.now();
+		const silenceIntervalMs = this.settings.dictationSilenceInterval * 1000; // 静默间隔时间
+		const windowMs = DICTATION_VAD_WINDOW_SAMPLES / ASR_SAMPLE_RATE * 1000;
+		const vad = this.createVoiceActivityDetector(stream);
+
+		let recognition = Promise.resolve();
+
+		// 每结束一句即封装为 WAV，排入识别队列
+		const segmenter = new UtteranceSegmenter({
+			preRollSamples: DICTATION_VAD_WINDOW_SAMPLES * DICTATION_PREROLL_WINDOWS,
+			silenceWindows: Math.ceil(silenceIntervalMs / windowMs),
+			onUtterance: pcm => {
+				const wav = pcmToWav(new Uint8Array(pcm.buffer), ASR_SAMPLE_RATE, 1, 16);
+				const audioBlob = new Blob([wav], { type: 'audio/wav' });
+				recognition = recognition.then(async () => {
+					const recognizedText = await this.processAccumulatedAudio(target, audioBlob);
+					if (recognizedText.trim()) {
+						allRecognizedText += recognizedText + ' ';
+					}
+				});
+			}
+		});
+
+		const onWindow = (frame: Int16Array) => {
+			const hasVoice = vad.process(pcm16ToFloat32(frame));
+			if (hasVoice) {
+				if (!segmenter.inUtterance) {
+					const features = vad.features;
+					this.updateStatusFloat('正在录音...', 'info', false);
+					this.debugLog(`检测到语音，能量: ${features?.energy.toFixed(4)}, 噪声底: ${features?.noiseFloor.toFixed(4)}, 语音频段占比: ${features?.speechBandRatio.toFixed(2)}`);
+				}
+				lastVoiceTime = Date.now();
+			}
+			segmenter.push(frame, hasVoice);
+		};
+
+		let stopCapture: () => void;
+		try {
+			stopCapture = await startPcmFrameCapture(stream, DICTATION_VAD_WINDOW_SAMPLES, onWindow);
+		} catch (error) {
+			stream.getTracks().forEach(track => track.stop());
+			new Notice(`无法启动音频采集: ${getErrorMessage(error)}`);
+			this.stopDictation();
+			return;
+		}
+
+		// 启动总体静默超时检测定时器
+		this.startDictationTimeoutTimer(() => lastVoiceTime, () => allRecognizedText);
+
+		try {
+			await new Promise<void>(resolve => {
+				this.resolveDictationStop = resolve;
+				if (!this.isDictating) {
+					resolve();
+				}
+			});
+		} finally {
+			this.resolveDictationStop = null;
+			stopCapture();
+			stream.getTracks().forEach(track => track.stop());
+		}
+
+		// 手动结束时正在说的这一句同样识别
+		segmenter.flush();
+		await recognition;
+	}
+
+	/**
+	 * 启动听写总体静默超时检测，每秒检查一次
+	 * @param getLastVoiceTime 获取最后一次检测到语音的时间
+	 * @param getRecognizedText 获取本次听写累计识别的文本
+	 */
+	private startDictationTimeoutTimer(getLastVoiceTime: () => number, getRecognizedText: () => string): void {
+		const silenceTimeoutMs = this.settings.dictationSilenceTimeout * 1000; // 总超时时间
+
+		this.dictationTimer = window.setInterval(() => {
+			if (!this.isDictating) {
+				return;
+			}
+			
+			const totalSilenceDuration = Date.now() - getLastVoiceTime();
+			
+			if (totalSilenceDuration >= silenceTimeoutMs) {
+				this.debugLog(`持续听写静默超时 ${this.settings.dictationSilenceTimeout} 秒，自动结束`);
+				this.stopDictation();
+				
+				const allRecognizedText = getRecognizedText();
+				if (allRecognizedText.trim()) {
+					this.updateStatusFloat('听写结束', 'success', true);
+					new Notice(`听写完成，共识别：${allRecognizedText.trim()}`);
+				} else {
+					this.updateStatusFloat('听写结束', 'warning', true);
+					new Notice('听写结束，未识别到语音内容');
+				}
+			}
+		}, 1000);
+	}
+
+	/**
+	 * 流式听写循环
+	 * 整个听写期间只打开一次麦克风，按 40ms 帧持续上传；讯飞根据静默间隔（vad_eos）、Vosk 根据自身端点检测结束每句话，
+	 * 随后立即开启下一句的会话。识别过程中的动态修正结果实时显示在编辑器和状态浮窗中。
+	 * 某句识别失败时停止听写，并把这句的录音暂存，恢复连接后转写插回原位置。
+	 */
+	private async startStreamingDictationLoop(target: DictationTarget): Promise<void> {
+		let stream: MediaStream;
+		try {
+			stream = await navigator.mediaDevices.getUserMedia({
+				audio: {
+					channelCount: 1,
+					echoCancellation: true,
+					noiseSuppression: true
+				}
+			});
+		} catch (error) {
+			new Notice(`无法访问麦克风: ${getErrorMessage(error)}`);
+			this.stopDictation();
+			return;
+		}
+
+		let allRecognizedText = '';
+		let lastVoiceTime = Date.now();
+		const vadEos = Math.round(this.settings.dictationSilenceInterval * 1000);
+
+		// 会话切换间隙采集到的帧先暂存，交给下一句的会话，避免吞掉句首音节；同时保留原始帧供识别失败时暂存
+		const frameBacklog: { raw: Int16Array; frame: Int16Array }[] = [];
+		// 当前这句已送入识别会话的原始帧，识别失败时封装为 WAV 暂存，恢复连接后再转写
+		let utteranceFrames: Int16Array[] = [];
+		const maxBacklogFrames = Math.ceil(1000 / 40);
+		// 实时音频逐帧预处理后再上传，不做需要整段音频的峰值归一化
+		const processor = this.settings.audioProcessingEnabled ? new AudioProcessor(ASR_SAMPLE_RATE, this.settings.audioProcessing) : null;
+		const levelsBefore = new LevelAccumulator();
+		const levelsAfter = new LevelAccumulator();
+		let stopCapture: () => void;
+		try {
+			stopCapture = await startPcmFrameCapture(stream, ASR_FRAME_SAMPLES, (rawFrame) => {
+				let frame = rawFrame;
+				if (processor) {
+					const samples = pcm16ToFloat32(rawFrame);
+					const processed = processor.process(samples);
+					levelsBefore.add(samples);
+					levelsAfter.add(processed);
+					frame = downsampleToPcm16(processed, ASR_SAMPLE_RATE);
+				}
+				if (this.streamingAsrSession?.push(frame)) {
+					utteranceFrames.push(rawFrame);
+					return;
+				}
+				frameBacklog.push({ raw: rawFrame, frame });
+				if (frameBacklog.length > maxBacklogFrames) {
+					frameBacklog.shift();
+				}
+			});
+		} catch (error) {
+			stream.getTracks().forEach(track => track.stop());
+			new Notice(`无法启动音频采集: ${getErrorMessage(error)}`);
+			this.stopDictation();
+			return;
+		}
+
+		// 预览以装饰显示在编辑器的插入位置并同步到状态浮窗，不写入文档，这样每句最终结果在笔记中只产生一个撤销步骤
+		const showPreview = (text: string) => {
+			this.updateLivePreview(text);
+			if (target.kind === 'editor') {
+				this.renderEditorPreview(target.editor, text);
+			}
+		};
+		const renderPreview = (partialText: string) => {
+			lastVoiceTime = Date.now();
+			showPreview(this.applyVocabulary(partialText));
+		};
+
+		this.startDictationTimeoutTimer(() => lastVoiceTime, () => allRecognizedText);
+
+		try {
+			while (this.isDictating) {
+				const session = this.settings.asrProvider === 'vosk'
+					? this.startVoskStreamingASR(renderPreview, true)
+					: this.startXunfeiStreamingASR(renderPreview, vadEos);
+				this.streamingAsrSession = session;
+				utteranceFrames = [];
+				for (const { raw, frame } of frameBacklog.splice(0)) {
+					session.push(frame);
+					utteranceFrames.push(raw);
+				}
+
+				let recognizedText: string;
+				try {
+					recognizedText = this.applyVocabulary(await session.result);
+				} finally {
+					this.streamingAsrSession = null;
+				}
+				utteranceFrames = [];
+
+				// 插入最终结果并执行语音编辑命令
+				showPreview('');
+
+				if (recognizedText.trim()) {
+					await this.deliverDictationUtterance(target, recognizedText);
+					allRecognizedText += recognizedText + ' ';
+					lastVoiceTime = Date.now();
+					this.debugLog('流式听写识别到:', recognizedText);
+				}
+			}
+		} catch (error) {
+			this.debugLog('流式听写错误:', error);
+			if (utteranceFrames.length > 0) {
+				const pcm = concatPcm16(utteranceFrames);
+				const wav = pcmToWav(new Uint8Array(pcm.buffer), ASR_SAMPLE_RATE, 1, 16);
+				// 与分段听写一致：只有笔记编辑器能在恢复后插回原位置
+				const editor = target.kind === 'editor' && this.app.workspace.getActiveViewOfType(MarkdownView)?.editor === target.editor
+					? target.editor
+					: undefined;
+				await this.capturePendingRecording(
+					new Blob([wav], { type: 'audio/wav' }),
+					'dictation',
+					editor,
+					editor?.offsetToPos(this.getDictationInsertOffset(editor)),
+					error
+				);
+			}
+			new Notice(`流式识别失败: ${getErrorMessage(error)}`);
+			if (this.isDictating) {
+				this.stopDictation();
+			}
+		} finally {
+			stopCapture();
+			stream.getTracks().forEach(track => track.stop());
+			showPreview('');
+			if (processor) {
+				this.recordAudioLevels('流式听写', levelsBefore.levels, levelsAfter.levels);
+			}
+		}
+	}
+
+	/**
+	 * 识别一句听写录音并写入听写目标
+	 * @returns 识别到的文本，如果没有识别到则返回空字符串
+	 */
+	private async processAccumulatedAudio(target: DictationTarget, audioBlob: Blob): Promise<string> {
+		try {
+			this.updateStatusFloat('正在识别语音...', 'info', false);
+			
+			// 进行语音识别
+			const recognizedText = await this.speechToText(audioBlob, '听写');
+			
+			if (recognizedText && recognizedText.trim()) {
+				// 在插入位置插入识别的文字（翻译听写时先翻译），并执行其中的语音编辑命令
+				await this.deliverDictationUtterance(target, recognizedText);
+				
+				this.updateStatusFloat('听写中', 'info', false);
+				this.debugLog('持续听写识别到:', recognizedText);
+				
+				return recognizedText;
+			}
+			
+			return '';
+		} catch (error) {
+			this.debugLog('处理累积音频错误:', error);
+			// 只有笔记编辑器能在恢复后插回原位置；白板卡片和输入框中的录音转写后另存为笔记
+			const editor = target.kind === 'editor' && this.app.workspace.getActiveViewOfType(MarkdownView)?.editor === target.editor
+				? target.editor
+				: undefined;
+			await this.capturePendingRecording(
+				audioBlob,
+				'dictation',
+				editor,
+				editor?.offsetToPos(this.getDictationInsertOffset(editor)),
+				error
+			);
+			this.handleDictationError(error);
+			return '';
+		}
+	}
+
+	/**
+	 * 把一句识别结果写入听写目标。
+	 * 先解析语音编辑命令和 Markdown 结构关键词（输入框中不转换结构），翻译听写时只翻译其中的文字，命令保持原样执行。
+	 * 翻译失败时写入原文并在浮窗中提示，不中断听写。
+	 */
+	private async deliverDictationUtterance(target: DictationTarget, text: string): Promise<void> {
+		let actions: DictationAction[] = parseDictationUtterance(text, this.settings.dictationGrammar, {
+			commands: this.settings.dictationCommandsEnabled,
+			markdown: target.kind === 'editor' && this.settings.dictationMarkdownEnabled
+		});
+		if (this.settings.normalizeDictationText) {
+			actions = this.normalizeDictationActions(target, actions);
+		}
+
+		if (this.dictationTranslating && actions.some(action => action.type === 'text')) {
+			const translate = this.createTranslator();
+			const mode = this.settings.translationOriginalMode;
+			try {
+				if (target.kind === 'editor' && mode === 'bilingual') {
+					// 双语表格中一句占一行，结构关键词和换行命令不再适用
+					const original = actions
+						.map(action => action.type === 'text' ? action.text.trim() : '')
+						.filter(part => part.length > 0)
+						.join(' ');
+					this.insertBilingualRow(target.editor, original, await translate(original));
+					return;
+				}
+				const translated: DictationAction[] = [];
+				for (const action of actions) {
+					if (action.type === 'text' && action.text.trim()) {
+						const result = await translate(action.text);
+						translated.push({
+							type: 'text',
+							text: target.kind === 'editor' && mode === 'footnote' ? formatFootnoteTranslation(result, action.text) : result
+						});
+					} else {
+						translated.push(action);
+					}
+				}
+				actions = translated;
+			} catch (error) {
+				this.debugLog('听写翻译失败:', error);
+				this.updateStatusFloat(`翻译失败，已写入原文: ${getErrorMessage(error)}`, 'warning', false);
+			}
+		}
+
+		if (target.kind === 'editor') {
+			this.applyDictationActions(target.editor, actions);
+		} else {
+			this.insertDictationActions(target.element, actions);
+		}
+	}
+
+	/**
+	 * 规整一句听写中的文字。以插入位置前的文字作为上下文，判断首词是否位于句首以及标点用全角还是半角
+	 */
+	private normalizeDictationActions(target: DictationTarget, actions: DictationAction[]): DictationAction[] {
+		let before = '';
+		if (target.kind === 'editor') {
+			const offset = this.getDictationInsertOffset(target.editor);
+			before = target.editor.getValue().slice(Math.max(0, offset - 200), offset);
+		} else if (target.element.instanceOf(HTMLInputElement) || target.element.instanceOf(HTMLTextAreaElement)) {
+			before = target.element.value.slice(0, target.element.selectionStart ?? target.element.value.length);
+		}
+		return actions.map(action => {
+			if (action.type === 'text') {
+				const text = normalizeTranscript(action.text, this.settings.textNormalization, before);
+				before += text;
+				return { type: 'text', text };
+			}
+			before += action.type === 'newline' || action.type === 'paragraph' ? '\n' : '';
+			return action;
+		});
+	}
+
+	/**
+	 * 把一句听写结果写入输入控件。
+	 * 输入框中只转换口述标点和换行：单行输入框把换行变为空格，并去掉识别服务在句尾自动添加的标点，方便直接用于搜索和文件名
+	 */
+	private insertDictationActions(element: HTMLElement, actions: DictationAction[]): void {
+		if (!element.isConnected) {
+			this.updateStatusFloat('输入框已关闭，听写结束', 'warning');
+			this.stopDictation();
+			return;
+		}
+
+		const singleLine = element.instanceOf(HTMLInputElement);
+		let value = '';
+		for (const action of actions) {
+			if (action.type === 'text') {
+				value += action.text;
+			} else if (action.type === 'newline' || action.type === 'paragraph') {
+				value += singleLine ? ' ' : action.type === 'newline' ? '\n' : '\n\n';
+			}
+		}
+		if (singleLine) {
+			value = value.replace(/[\s。.！!？?，,；;]+$/, '');
+		}
+		if (value) {
+			insertTextIntoElement(element, value);
+		}
+	}
+
+	/**
+	 * 在编辑器中下一句的插入位置显示流式听写预览，text 为空时清除。
+	 * 只派发装饰效果，不修改文档。
+	 */
+	private renderEditorPreview(editor: Editor, text: string): void {
+		// Obsidian 的 Editor 未公开底层 CodeMirror 视图的类型
+		const view = (editor as Editor & { cm?: EditorView }).cm;
+		if (!view) {
+			return;
+		}
+		view.dispatch({
+			effects: setDictationPreview.of(text ? { pos: this.getDictationInsertOffset(editor), text } : null)
+		});
+	}
+
+	/**
+	 * 按插入策略取得下一句的插入位置（文本偏移）
+	 */
+	private getDictationInsertOffset(editor: Editor): number {
+		switch (this.settings.dictationInsertPolicy) {
+			case 'cursor':
+				return editor.posToOffset(editor.getCursor());
+			case 'end':
+				return editor.getValue().length;
+			default:
+				return Math.min(this.dictationAnchor, editor.getValue().length);
+		}
+	}
+
+	/**
+	 * 编辑器内容变化时移动听写锚点和已插入各句的范围。
+	 * 在锚点处输入的文字会把锚点推到其后；各句范围不吸收紧贴两端输入的文字。
+	 */
+	private trackDictationEdits(editor: Editor): void {
+		if (editor !== this.dictationEditor) {
+			return;
+		}
+		const content = editor.getValue();
+		const change = findTextChange(this.dictationSnapshot, content);
+		this.dictationSnapshot = content;
+		if (!change) {
+			return;
+		}
+		this.dictationAnchor = mapOffsetThroughChange(this.dictationAnchor, change);
+		this.dictationUtterances = this.dictationUtterances
+			.map(range => ({ from: mapOffsetThroughChange(range.from, change), to: mapOffsetThroughChange(range.to, change, -1) }))
+			.filter(range => range.to > range.from);
+	}
+
+	/**
+	 * 把一句听写结果作用到编辑器：插入文字，并执行其中的换行、删除上一句、撤销等语音编辑命令，
+	 * 开启 Markdown 结构听写时还会按标题、列表、待办、引用和缩进关键词生成行首前缀。
+	 * 整句合成为一次替换，在编辑器中只占一个撤销步骤；光标仍停在插入位置时跟随到本句末尾，不打断用户在别处的编辑。
+	 */
+	private applyDictationActions(editor: Editor, actions: DictationAction[]): void {
+		const cursorOffset = editor.posToOffset(editor.getCursor());
+		const offset = this.getDictationInsertOffset(editor);
+
+		if (actions.length === 1 && actions[0].type === 'delete-last') {
+			const last = this.dictationUtterances.pop();
+			if (last) {
+				editor.replaceRange('', editor.offsetToPos(last.from), editor.offsetToPos(last.to));
+				this.syncDictationAnchor(editor, last.from, cursorOffset === offset);
+			}
+			return;
+		}
+		if (actions.length === 1 && actions[0].type === 'undo') {
+			editor.undo();
+			this.dictationUtterances.pop();
+			this.syncDictationAnchor(editor, editor.posToOffset(editor.getCursor()), true);
+			return;
+		}
+
+		const smartSpacing = this.settings.normalizeDictationText && this.settings.textNormalization.spacing;
+		const edit = renderDictationActions(editor.getValue(), offset, actions, '\t', smartSpacing);
+		if (!edit.text && edit.from === edit.to) {
+			return;
+		}
+		editor.replaceRange(edit.text, editor.offsetToPos(edit.from), editor.offsetToPos(edit.to));
+		const end = edit.from + edit.text.length;
+		this.dictationUtterances.push({ from: edit.from, to: end });
+		this.syncDictationAnchor(editor, end, cursorOffset === offset);
+	}
+
+	/**
+	 * 翻译听写的双语模式：把译文和原文作为两列表格的一行写入插入位置，删除上一句时整行删除
+	 */
+	private insertBilingualRow(editor: Editor, original: string, translated: string): void {
+		const cursorOffset = editor.posToOffset(editor.getCursor());
+		const offset = this.getDictationInsertOffset(editor);
+		const language = TRANSLATION_LANGUAGES[this.settings.translationLanguage] ?? this.settings.translationLanguage;
+		const edit = renderBilingualRow(editor.getValue(), offset, translated, original, [language, '原文']);
+		editor.replaceRange(edit.text, editor.offsetToPos(edit.from), editor.offsetToPos(edit.to));
+		const end = edit.from + edit.text.length;
+		this.dictationUtterances.push({ from: edit.from, to: end });
+		this.syncDictationAnchor(editor, end, cursorOffset === offset);
+	}
+
+	/**
+	 * 按设置创建翻译听写使用的翻译函数：当前 AI 模型，或 LibreTranslate 服务
+	 */
+	private createTranslator(): Translator {
+		const language = this.settings.translationLanguage;
+		if (this.settings.translationProvider === 'libretranslate') {
+			return text => this.translateWithLibreTranslate(text, language);
+		}
+		const languageName = TRANSLATION_LANGUAGES[language] ?? language;
+		return async text => cleanTranslationResponse(await this.callLLM(buildTranslationPrompt(text, languageName)));
+	}
+
+	/**
+	 * 调用 LibreTranslate 翻译，源语言自动检测
+	 */
+	private async translateWithLibreTranslate(text: string, language: string): Promise<string> {
+		const baseUrl = this.settings.libreTranslateUrl.trim().replace(/\/+$/, '');
+		if (!baseUrl) {
+			throw new Error('请先在设置中填写 LibreTranslate 服务地址');
+		}
+		const response = await requestUrl({
+			url: `${baseUrl}/translate`,
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({
+				q: text,
+				source: 'auto',
+				target: language,
+				format: 'text',
+				...(this.settings.libreTranslateApiKey ? { api_key: this.settings.libreTranslateApiKey } : {})
+			}),
+			throw: false
+		});
+		if (response.status < 200 || response.status >= 300) {
+			throw new Error(`LibreTranslate 调用失败: ${response.status} - ${response.text}`);
+		}
+		const result = (response.json as { translatedText?: string }).translatedText;
+		if (typeof result !== 'string') {
+			throw new Error('LibreTranslate 返回格式无效');
+		}
+		return result.trim();
+	}
+
+	/**
+	 * 听写自身修改文档后，把锚点设到本句末尾并记录新的文档内容
+	 */
+	private syncDictationAnchor(editor: Editor, offset: number, moveCursor: boolean): void {
+		this.dictationAnchor = offset;
+		this.dictationSnapshot = editor.getValue();
+		if (moveCursor || this.settings.dictationInsertPolicy === 'cursor') {
+			editor.setCursor(editor.offsetToPos(offset));
+		}
+	}
+
+	/**
+	 * 处理听写过程中的识别错误
+	 * 鉴权失败或服务量用尽时继续听写没有意义，直接结束听写并提示；其他错误在浮窗中提示后继续
+	 */
+	private handleDictationError(error: unknown): void {
+		const message = getErrorMessage(error);
+		if (error instanceof XunfeiError && error.isFatal) {
+			new Notice(message, 10000);
+			if (this.isDictating) {
+				this.stopDictation();
+			}
+			return;
+		}
+		this.updateStatusFloat(`识别失败: ${message}`, 'warning', false);
+	}
+
+	/** 暂存录音所在的插件目录 */
+	private getPendingRecordingsFolder(): string {
+		return normalizePath(`${this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`}/pending-recordings`);
+	}
+
+	/** 对话识别失败时暂存录音，转写结果插入当前笔记的光标处 */
+	private async captureConversationRecording(audioBlob: Blob, error: unknown): Promise<void> {
+		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+		await this.capturePendingRecording(
+			audioBlob,
+			'conversation',
+			activeView?.editor,
+			activeView?.editor.getCursor(),
+			error
+		);
+	}
+
+	/**
+	 * 识别失败时把录音和目标位置暂存到插件目录，联网后自动转写并插入
+	 * 鉴权失败或服务量用尽同样会暂存，修正配置后可在暂存录音面板中重试
+	 * 开启音频预处理时保存处理后的录音
+	 */
+	private async capturePendingRecording(
+		audioBlob: Blob,
+		source: PendingRecording['source'],
+		editor: Editor | undefined,
+		position: EditorPosition | undefined,
+		error: unknown
+	): Promise<void> {
+		if (audioBlob.size === 0) {
+			return;
+		}
+		try {
+			const savedBlob = (await this.preprocessForAsr(audioBlob, '暂存录音')).blob;
+			const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+			const folder = this.getPendingRecordingsFolder();
+			if (!(await this.app.vault.adapter.exists(folder))) {
+				await this.app.vault.adapter.mkdir(folder);
+			}
+			const audioPath = `${folder}/${id}.${getAudioFileExtension(savedBlob.type)}`;
+			await this.app.vault.adapter.writeBinary(audioPath, await savedBlob.arrayBuffer());
+
+			const notePath = editor ? this.app.workspace.getActiveFile()?.path ?? '' : '';
+			this.settings.pendingRecordings.push({
+				id,
+				audioPath,
+				mimeType: savedBlob.type,
+				source,
+				notePath,
+				anchor: editor && position && notePath ? createTextAnchor(editor.getValue(), position.line, position.ch) : null,
+				createdAt: Date.now(),
+				attempts: 1,
+				error: getErrorMessage(error),
+				processed: savedBlob !== audioBlob
+			});
+			await this.saveSettings();
+			new Notice(`识别失败，录音已暂存（共 ${this.settings.pendingRecordings.length} 条），恢复连接后自动转写并插入原位置`, 8000);
+		} catch (saveError) {
+			this.debugLog('暂存录音失败:', saveError);
+			new Notice(`识别失败，且无法暂存录音: ${getErrorMessage(saveError)}`);
+		}
+	}
+
+	/**
+	 * 依次转写暂存的录音并插入原定位置
+	 * @param onlyId 只处理指定录音（面板中的单条重试）
+	 */
+	private async processPendingRecordings(onlyId?: string): Promise<void> {
+		if (this.isProcessingPendingRecordings || this.settings.pendingRecordings.length === 0) {
+			return;
+		}
+		this.isProcessingPendingRecordings = true;
+		let insertedCount = 0;
+		try {
+			const recordings = this.settings.pendingRecordings.filter(item => !onlyId || item.id === onlyId);
+			for (const recording of recordings) {
+				try {
+					if (recording.transcript === undefined) {
+						const data = await this.app.vault.adapter.readBinary(recording.audioPath);
+						const text = await this.speechToText(new Blob([data], { type: recording.mimeType }), '暂存录音', !recording.processed);
+						recording.transcript = text.trim();
+					}
+					if (recording.transcript) {
+						await this.insertPendingTranscript(recording, recording.transcript);
+						insertedCount++;
+					}
+					await this.removePendingRecording(recording);
+				} catch (error) {
+					recording.attempts++;
+					recording.error = getErrorMessage(error);
+					this.debugLog('暂存录音转写失败:', recording.id, error);
+					await this.saveSettings();
+					// 仍无法识别时后面的录音大概率同样失败，等待下次重试
+					if (recording.transcript === undefined) {
+						break;
+					}
+				}
+			}
+		} finally {
+			this.isProcessingPendingRecordings = false;
+		}
+		if (insertedCount > 0) {
+			new Notice(`已转写 ${insertedCount} 条暂存录音并插入原位置`);
+		}
+	}
+
+	/**
+	 * 把暂存录音的转写结果插入目标笔记
+	 * 笔记已在编辑器中打开时通过编辑器插入，否则直接修改文件；未记录目标笔记时新建笔记
+	 */
+	private async insertPendingTranscript(recording: PendingRecording, text: string): Promise<void> {
+		const insertText = recording.source === 'dictation' ? `${text} ` : `\n${text}\n`;
+		if (!recording.notePath) {
+			const folder = this.settings.transcriptFolder.trim();
+			const prefix = folder ? `${normalizePath(folder)}/` : '';
+			if (folder && !this.app.vault.getAbstractFileByPath(normalizePath(folder))) {
+				await this.app.vault.createFolder(normalizePath(folder));
+			}
+			const stamp = new Date(recording.createdAt).toISOString().slice(0, 19).replace(/[T:]/g, '-');
+			await this.app.vault.create(normalizePath(`${prefix}暂存录音 ${stamp}.md`), `${text}\n`);
+			return;
+		}
+
+		const file = this.app.vault.getAbstractFileByPath(recording.notePath);
+		if (!(file instanceof TFile)) {
+			throw new Error(`目标笔记不存在: ${recording.notePath}`);
+		}
+
+		const openView = this.app.workspace.getLeavesOfType('markdown')
+			.map(leaf => leaf.view)
+			.find((view): view is MarkdownView => view instanceof MarkdownView && view.file?.path === file.path);
+		if (openView) {
+			const editor = openView.editor;
+			const content = editor.getValue();
+			const offset = recording.anchor ? resolveTextAnchor(content, recording.anchor) : content.length;
+			editor.replaceRange(insertText, editor.offsetToPos(offset));
+			return;
+		}
+
+		await this.app.vault.process(file, content => {
+			const offset = recording.anchor ? resolveTextAnchor(content, recording.anchor) : content.length;
+			return content.slice(0, offset) + insertText + content.slice(offset);
+		});
+	}
+
+	/** 删除暂存录音及其音频文件 */
+	private async removePendingRecording(recording: PendingRecording): Promise<void> {
+		const index = this.settings.pendingRecordings.indexOf(recording);
+		if (index !== -1) {
+			this.settings.pendingRecordings.splice(index, 1);
+		}
+		if (await this.app.vault.adapter.exists(recording.audioPath)) {
+			await this.app.vault.adapter.remove(recording.audioPath);
+		}
+		await this.saveSettings();
+	}
+
+	/**
+	 * 打开暂存录音面板，查看、重试或删除尚未转写的录音
+	 */
+	private openPendingRecordingsPanel(): void {
+		const modal = new Modal(this.app);
+		modal.titleEl.setText('暂存录音');
+
+		const render = () => {
+			const { contentEl } = modal;
+			contentEl.empty();
+			const recordings = this.settings.pendingRecordings;
+			if (recordings.length === 0) {
+				contentEl.createEl('p', { text: '没有暂存的录音' });
+				return;
+			}
+
+			new Setting(contentEl)
+				.setDesc(`共 ${recordings.length} 条，恢复连接后会自动转写并插入原位置`)
+				.addButton(button => button
+					.setButtonText('全部重试')
+					.setCta()
+					.onClick(async () => {
+						button.setDisabled(true);
+						await this.processPendingRecordings();
+						render();
+					}));
+
+			for (const recording of [...recordings]) {
+				const sourceLabel = recording.source === 'dictation' ? '听写' : '对话';
+				const destination = recording.notePath
+					? `插入到 ${recording.notePath}${recording.anchor ? ` 第 ${recording.anchor.line + 1} 行` : ''}`
+					: '转写后新建笔记';
+				const details = [destination];
+				if (recording.transcript) {
+					details.push(`已识别：${recording.transcript.slice(0, 60)}${recording.transcript.length > 60 ? '…' : ''}`);
+				}
+				if (recording.error) {
+					details.push(`最近错误（第 ${recording.attempts} 次）：${recording.error}`);
+				}
+
+				const setting = new Setting(contentEl)
+					.setName(`${new Date(recording.createdAt).toLocaleString()} · ${sourceLabel}`)
+					.setDesc(details.join('\n'))
+					.addButton(button => button
+						.setButtonText('重试')
+						.onClick(async () => {
+							button.setDisabled(true);
+							await this.processPendingRecordings(recording.id);
+							render();
+						}));
+				if (recording.transcript) {
+					setting.addButton(button => button
+						.setButtonText('复制文字')
+						.onClick(async () => {
+							await navigator.clipboard.writeText(recording.transcript ?? '');
+							new Notice('已复制识别文字');
+						}));
+				}
+				setting.addButton(button => button
+					.setButtonText('删除')
+					.onClick(async () => {
+						await this.removePendingRecording(recording);
+						render();
+					}));
+				setting.descEl.addClass('voice-assistant-pending-desc');
+			}
+		};
+
+		render();
+		modal.open();
+	}
+
+	/**
+	 * 按设置创建语音活动检测器，持续听写、会议记录、语音打断、唤醒门控和对话结束检测共用同一阈值。
+	 * 当前麦克风校准过时使用校准的阈值和噪声底，否则使用“语音检测阈值”设置。
+	 */
+	private createVoiceActivityDetector(stream: MediaStream, options: { onsetMs?: number; hangoverMs?: number } = {}): VoiceActivityDetector {
+		const calibration = this.getMicrophoneCalibration(stream);
+		return new VoiceActivityDetector({
+			sampleRate: ASR_SAMPLE_RATE,
+			threshold: calibration?.threshold ?? this.settings.voiceDetectionThreshold / 1000,
+			initialNoiseFloor: calibration?.noiseFloor,
+			...options
+		});
+	}
+
+	/**
+	 * 查找音频流所用麦克风的校准结果。
+	 * 设备名称与校准时不同说明“默认设备”已指向另一个麦克风，此时不使用。
+	 */
+	private getMicrophoneCalibration(stream: MediaStream): MicrophoneCalibration | undefined {
+		const track = stream.getAudioTracks()[0];
+		const deviceId = track?.getSettings().deviceId;
+		const calibration = deviceId ? this.settings.microphoneCalibrations[deviceId] : undefined;
+		return calibration && calibration.label === track.label ? calibration : undefined;
+	}
+
+	/**
+	 * 打开麦克风校准向导，保存结果后立即用于之后启动的语音检测
+	 */
+	openMicrophoneCalibration(onSaved?: () => void): void {
+		new MicrophoneCalibrationModal(this.app, async (deviceId, calibration) => {
+			this.settings.microphoneCalibrations[deviceId] = calibration;
+			await this.saveSettings();
+			new Notice(`已保存“${calibration.label}”的校准结果`);
+			onSaved?.();
+		}).open();
+	}
+
+	/**
+	 * 开始或结束会议记录
+	 */
+	private toggleMeetingTranscription(): void {
+		if (this.meetingSession) {
+			this.meetingSession.stop();
+			return;
 		}
-		
-		// 语音特征评分系统
-		let voiceScore = 0;
-		
-		// 1. 动态范围评分 (语音通常有较好的动态范围)
-		if (dynamicRange > 2.0 && dynamicRange < 20.0) {
-			voiceScore += 2;
-		} else if (dynamicRange > 1.5) {
-			voiceScore += 1;
+		void this.startMeetingTranscription();
+	}
+
+	/**
+	 * 会议记录：适合长达数小时的会议。
+	 * 持续录音，不因静默自动结束；按停顿分段识别，每段带 [hh:mm:ss] 时间标记和当前发言人追加到新建的会议笔记。
+	 * 同时保存完整录音，时间标记链接到录音的对应时刻；录音每 10 秒追加写入一次文件，中途崩溃或重载插件只丢失最后几秒。
+	 * 结束后可生成摘要、决定和行动项。
+	 */
+	private async startMeetingTranscription(): Promise<void> {
+		if (this.isDictating) {
+			new Notice('持续听写进行中，请先停止听写');
+			return;
 		}
-		
-		// 2. 零交叉率评分 (语音通常在0.01-0.3之间)
-		if (zeroCrossingRate > 0.01 && zeroCrossingRate < 0.3) {
-			voiceScore += 2;
-		} else if (zeroCrossingRate > 0.005 && zeroCrossingRate < 0.5) {
-			voiceScore += 1;
+
+		let stream: MediaStream;
+		try {
+			stream = await navigator.mediaDevices.getUserMedia({
+				audio: {
+					channelCount: 1,
+					echoCancellation: true,
+					noiseSuppression: true
+				}
+			});
+		} catch (error) {
+			new Notice(`无法访问麦克风: ${getErrorMessage(error)}`);
+			return;
 		}
-		
-		// 3. 能量方差评分 (语音有一定的能量变化)
-		if (energyVariance > 0.0001) {
-			voiceScore += 1;
+
+		let recorder: MediaRecorder | null = null;
+		let file: TFile;
+		let audioPath = '';
+		try {
+			recorder = this.settings.meetingSaveAudio ? createCompatibleMediaRecorder(stream) : null;
+			const now = new Date();
+			const pad = (value: number) => String(value).padStart(2, '0');
+			const baseName = `会议记录 ${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())} ${pad(now.getHours())}-${pad(now.getMinutes())}`;
+			const folderPath = normalizePath(this.settings.meetingSaveFolder || 'voice-assistant/meetings');
+			if (!this.app.vault.getAbstractFileByPath(folderPath)) {
+				await this.app.vault.createFolder(folderPath);
+			}
+			let name = baseName;
+			for (let counter = 1; this.app.vault.getAbstractFileByPath(`${folderPath}/${name}.md`); counter++) {
+				name = `${baseName}-${counter}`;
+			}
+			const audioName = recorder ? `${name}.${getAudioFileExtension(recorder.mimeType || 'audio/webm')}` : '';
+			audioPath = audioName ? `${folderPath}/${audioName}` : '';
+			const header = `# ${name}\n\n**开始时间：** ${now.toLocaleString()}\n\n${audioName ? `![[${audioName}]]\n\n` : ''}## 记录\n\n`;
+			file = await this.app.vault.create(`${folderPath}/${name}.md`, header);
+			if (audioPath) {
+				await this.app.vault.createBinary(audioPath, new ArrayBuffer(0));
+			}
+			await this.app.workspace.getLeaf(true).openFile(file);
+		} catch (error) {
+			stream.getTracks().forEach(track => track.stop());
+			new Notice(`无法开始会议记录: ${getErrorMessage(error)}`);
+			return;
 		}
-		
-		// 4. 最大振幅评分
-		if (maxAmplitude > volumeThreshold * 2) {
-			voiceScore += 1;
+
+		let resolveStop: () => void = () => undefined;
+		const stopped = new Promise<void>(resolve => {
+			resolveStop = resolve;
+		});
+		const session = {
+			file,
+			speaker: '',
+			entries: [] as MeetingEntry[],
+			startedAt: Date.now(),
+			segmenter: null as UtteranceSegmenter | null,
+			stop: () => resolveStop()
+		};
+		this.meetingSession = session;
+
+		// 各段按顺序识别并追加到笔记，识别失败的段落保留时间标记，可回放录音补记
+		const audioName = audioPath.split('/').pop() ?? '';
+		let transcription = Promise.resolve();
+		const transcribe = (pcm: Int16Array, startSample: number, speaker: string) => {
+			const wav = pcmToWav(new Uint8Array(pcm.buffer), ASR_SAMPLE_RATE, 1, 16);
+			const audioBlob = new Blob([wav], { type: 'audio/wav' });
+			transcription = transcription.then(async () => {
+				let text: string;
+				try {
+					text = await this.speechToText(audioBlob, '会议');
+					if (!text.trim()) {
+						return;
+					}
+					if (this.settings.normalizeDictationText) {
+						text = normalizeTranscript(text, this.settings.textNormalization);
+					}
+				} catch (error) {
+					this.debugLog('会议记录识别失败:', error);
+					this.updateStatusFloat(`识别失败: ${getErrorMessage(error)}`, 'warning', false);
+					text = '（识别失败，请回放录音）';
+				}
+				if (!text.trim()) {
+					return;
+				}
+				const entry: MeetingEntry = { start: startSample / ASR_SAMPLE_RATE, speaker, text };
+				session.entries.push(entry);
+				try {
+					await this.app.vault.process(file, data => data + formatMeetingParagraph(entry, audioName));
+				} catch (error) {
+					this.debugLog('写入会议记录失败:', error);
+				}
+			});
+		};
+
+		const windowMs = DICTATION_VAD_WINDOW_SAMPLES / ASR_SAMPLE_RATE * 1000;
+		const vad = this.createVoiceActivityDetector(stream);
+		const segmenter = new UtteranceSegmenter({
+			preRollSamples: DICTATION_VAD_WINDOW_SAMPLES * DICTATION_PREROLL_WINDOWS,
+			silenceWindows: Math.ceil(this.settings.dictationSilenceInterval * 1000 / windowMs),
+			maxWindows: MEETING_MAX_UTTERANCE_WINDOWS,
+			onUtterance: (pcm, startSample) => transcribe(pcm, startSample, session.speaker)
+		});
+		session.segmenter = segmenter;
+
+		// 录音分块按顺序追加到文件，不在内存中累积数小时的音频；
+		// Obsidian 1.12.3 之前没有 appendBinary，只能保留全部分块并每次重写整个文件
+		const adapter = this.app.vault.adapter;
+		const canAppend = typeof adapter.appendBinary === 'function';
+		const chunks: Blob[] = [];
+		let audioWrites = Promise.resolve();
+		let audioWriteFailed = false;
+		let stopCapture: () => void;
+		try {
+			if (recorder) {
+				recorder.ondataavailable = event => {
+					const data = event.data;
+					if (data.size === 0) {
+						return;
+					}
+					audioWrites = audioWrites
+						.then(async () => {
+							if (canAppend) {
+								await adapter.appendBinary(audioPath, await data.arrayBuffer());
+							} else {
+								chunks.push(data);
+								await adapter.writeBinary(audioPath, await new Blob(chunks).arrayBuffer());
+							}
+						})
+						.catch(error => {
+							this.debugLog('保存会议录音失败:', error);
+							if (!audioWriteFailed) {
+								audioWriteFailed = true;
+								new Notice(`保存会议录音失败: ${getErrorMessage(error)}`);
+							}
+						});
+				};
+				recorder.start(10000);
+			}
+			stopCapture = await startPcmFrameCapture(stream, DICTATION_VAD_WINDOW_SAMPLES, frame => {
+				segmenter.push(frame, vad.process(pcm16ToFloat32(frame)));
+			});
+		} catch (error) {
+			if (recorder && recorder.state !== 'inactive') {
+				recorder.stop();
+			}
+			stream.getTracks().forEach(track => track.stop());
+			this.meetingSession = null;
+			new Notice(`无法启动音频采集: ${getErrorMessage(error)}`);
+			return;
 		}
-		
-		// 需要至少3分才认为是语音
-		return voiceScore >= 3;
+
+		this.showStatusFloat();
+		this.showMeetingControls();
+		this.updateStatusFloat('会议记录中，点击发言人按钮标记当前发言人', 'info', false);
+		const clock = window.setInterval(() => this.updateMeetingClock(), 1000);
+
+		await stopped;
+		window.clearInterval(clock);
+		segmenter.flush();
+		stopCapture();
+		session.segmenter = null;
+		this.meetingSession = null;
+		this.hideMeetingControls();
+		this.updateStatusFloat('会议结束，正在整理记录...', 'info', false);
+
+		if (recorder) {
+			await this.stopMediaRecorder(recorder);
+		}
+		stream.getTracks().forEach(track => track.stop());
+		await audioWrites;
+		await transcription;
+
+		if (this.settings.meetingSummaryEnabled && session.entries.length > 0) {
+			this.updateStatusFloat('正在生成会议总结...', 'info', false);
+			try {
+				const summary = await this.callLLM(buildMeetingSummaryPrompt(session.entries));
+				await this.app.vault.process(file, data => `${data.trimEnd()}\n\n## 会议总结\n\n${summary.trim()}\n`);
+			} catch (error) {
+				this.debugLog('生成会议总结失败:', error);
+				new Notice(`生成会议总结失败: ${getErrorMessage(error)}`);
+			}
+		}
+
+		this.updateStatusFloat(`会议记录已保存：${file.path}`, 'success');
+	}
+
+	/** 停止录音器，等最后一块录音交给 ondataavailable 后返回 */
+	private stopMediaRecorder(recorder: MediaRecorder): Promise<void> {
+		return new Promise(resolve => {
+			if (recorder.state === 'inactive') {
+				resolve();
+				return;
+			}
+			recorder.onstop = () => resolve();
+			recorder.stop();
+		});
+	}
+
+	/**
+	 * 切换当前发言人。正在说的一段先按原发言人结束，之后的转写标记为新的发言人；再次点击当前发言人取消标记
+	 */
+	private setMeetingSpeaker(speaker: string): void {
+		const session = this.meetingSession;
+		if (!session) return;
+		session.segmenter?.flush();
+		session.speaker = session.speaker === speaker ? '' : speaker;
+		this.statusFloat?.querySelectorAll('.meeting-speaker-btn').forEach(button => {
+			button.toggleClass('is-pressed', button.textContent === session.speaker);
+		});
 	}
 
 	/**
@@ -976,6 +3139,10 @@ export default class VoiceAssistantPlugin extends Plugin {
 			this.dictationTimer = null;
 		}
 		
+		// 结束流式识别会话和分段听写循环；已录下的最后一句仍会识别并写入编辑器
+		this.streamingAsrSession?.finish();
+		this.resolveDictationStop?.();
+		
 		// 隐藏听写控制界面
 		this.hideDictationControls();
 		
@@ -1114,65 +3281,586 @@ export default class VoiceAssistantPlugin extends Plugin {
 				this.audioChunks = [];
 				this.isRecording = true;
 
-				mediaRecorder.ondataavailable = (event) => {
-					if (event.data.size > 0) {
-						this.audioChunks.push(event.data);
-					}
-				};
+				mediaRecorder.ondataavailable = (event) => {
+					if (event.data.size > 0) {
+						this.audioChunks.push(event.data);
+					}
+				};
+
+				let stopCapture: (() => void) | null = null;
+				let noSpeechTimer = 0;
+				let maxDurationTimer = 0;
+				const releaseDetection = () => {
+					window.clearTimeout(noSpeechTimer);
+					window.clearTimeout(maxDurationTimer);
+					stopCapture?.();
+					stopCapture = null;
+				};
+				const stopRecorder = () => {
+					if (mediaRecorder.state !== 'inactive') {
+						mediaRecorder.stop();
+					}
+				};
+
+				mediaRecorder.onstop = () => {
+					const audioBlob = new Blob(this.audioChunks, {
+						type: mediaRecorder.mimeType || this.audioChunks[0]?.type || 'application/octet-stream'
+					});
+					releaseDetection();
+					stream.getTracks().forEach(track => track.stop());
+					this.isRecording = false;
+					this.debugLog('录音完成，音频大小:', audioBlob.size, '字节');
+					resolve(audioBlob);
+				};
+
+				mediaRecorder.onerror = (event) => {
+					releaseDetection();
+					stream.getTracks().forEach(track => track.stop());
+					this.isRecording = false;
+					reject(normalizeError(event, '录音过程出错'));
+				};
+
+				mediaRecorder.start();
+
+				// 说完一句（语音结束后静音超过拖尾时长）即停止；一直没有开口或讲话过长时按超时停止。
+				// 音频采集启动失败时只剩未开口超时，相当于原来的固定时长录音。
+				let heardSpeech = false;
+				const vad = this.createVoiceActivityDetector(stream, { hangoverMs: CONVERSATION_END_OF_TURN_MS });
+				noSpeechTimer = window.setTimeout(() => {
+					if (!heardSpeech) {
+						stopRecorder();
+					}
+				}, CONVERSATION_NO_SPEECH_TIMEOUT_MS);
+				maxDurationTimer = window.setTimeout(stopRecorder, CONVERSATION_MAX_RECORDING_MS);
+				startPcmFrameCapture(stream, VAD_CHUNK_SAMPLES, frame => {
+					if (vad.process(pcm16ToFloat32(frame))) {
+						heardSpeech = true;
+					} else if (heardSpeech) {
+						this.debugLog('检测到说话结束，停止录音');
+						stopRecorder();
+					}
+				})
+					.then(stop => {
+						if (mediaRecorder.state === 'inactive') {
+							stop();
+						} else {
+							stopCapture = stop;
+						}
+					})
+					.catch(error => {
+						this.debugLog('无法启动说话结束检测，按固定时长录音:', error);
+					});
+			})
+			.catch(reject);
+		});
+	}
+
+	/**
+	 * 选择要转写的音频附件
+	 * 当前打开的就是音频文件时直接转写；否则从仓库中的音频附件里选择，并插入到当前笔记的光标处
+	 */
+	private chooseAudioFileToTranscribe(): void {
+		const activeFile = this.app.workspace.getActiveFile();
+		if (activeFile && isTranscribableAudio(activeFile)) {
+			void this.transcribeAudioFile(activeFile);
+			return;
+		}
+
+		const audioFiles = this.app.vault.getFiles().filter(isTranscribableAudio);
+		if (audioFiles.length === 0) {
+			new Notice('仓库中没有可转写的音频文件（mp3、wav、webm、m4a）');
+			return;
+		}
+
+		const targetView = this.app.workspace.getActiveViewOfType(MarkdownView);
+		new AudioFileSuggestModal(this.app, audioFiles, file => {
+			void this.transcribeAudioFile(file, targetView ?? undefined);
+		}).open();
+	}
+
+	/**
+	 * 转写音频附件
+	 * 转写结果连同音频嵌入链接插入到指定笔记的光标处；未指定笔记时在音频所在文件夹新建转写笔记
+	 * @param file 音频附件
+	 * @param targetView 插入转写结果的笔记视图
+	 */
+	private async transcribeAudioFile(file: TFile, targetView?: MarkdownView): Promise<void> {
+		this.showStatusFloat();
+		this.updateStatusFloat(`正在转写 ${file.name}...`, 'info', false);
+		try {
+			const text = await this.recognizeAudioFile(file);
+			if (!text.trim()) {
+				this.updateStatusFloat(`${file.name} 中未识别到语音内容`, 'warning');
+				return;
+			}
+
+			if (targetView?.file) {
+				const link = this.app.fileManager.generateMarkdownLink(file, targetView.file.path);
+				targetView.editor.replaceSelection(`!${link}\n\n${text.trim()}\n`);
+			} else {
+				const notePath = await this.createAudioTranscriptNote(file, text.trim(), file.parent?.path ?? '');
+				new Notice(`转写完成：${notePath}`);
+			}
+			this.updateStatusFloat(`${file.name} 转写完成`, 'success');
+		} catch (error) {
+			this.debugLog('音频文件转写失败:', error);
+			this.updateStatusFloat(`转写失败: ${getErrorMessage(error)}`, 'error');
+			new Notice(`转写 ${file.name} 失败: ${getErrorMessage(error)}`);
+		}
+	}
+
+	/** 读取音频附件并识别为文字 */
+	private async recognizeAudioFile(file: TFile): Promise<string> {
+		const data = await this.app.vault.readBinary(file);
+		const audioBlob = new Blob([data], { type: TRANSCRIBABLE_AUDIO_TYPES[file.extension.toLowerCase()] });
+		return this.speechToText(audioBlob, '音频文件');
+	}
+
+	/**
+	 * 新建转写笔记，笔记开头嵌入原音频
+	 * @param folderPath 笔记所在文件夹，不存在时自动创建
+	 * @param openNote 是否在新标签页打开笔记
+	 * @returns 新建笔记的路径
+	 */
+	private async createAudioTranscriptNote(audioFile: TFile, text: string, folderPath: string, openNote = true): Promise<string> {
+		const normalizedFolder = folderPath && folderPath !== '/' ? normalizePath(folderPath) : '';
+		if (normalizedFolder && !this.app.vault.getAbstractFileByPath(normalizedFolder)) {
+			await this.app.vault.createFolder(normalizedFolder);
+		}
+		const prefix = normalizedFolder ? `${normalizedFolder}/` : '';
+		let notePath = normalizePath(`${prefix}${audioFile.basename} 转写.md`);
+		let counter = 1;
+		while (this.app.vault.getAbstractFileByPath(notePath)) {
+			notePath = normalizePath(`${prefix}${audioFile.basename} 转写-${counter}.md`);
+			counter++;
+		}
+
+		const link = this.app.fileManager.generateMarkdownLink(audioFile, notePath);
+		const noteFile = await this.app.vault.create(notePath, `!${link}\n\n${text}\n`);
+		if (openNote) {
+			await this.app.workspace.getLeaf(true).openFile(noteFile);
+		}
+		this.debugLog(`音频转写已保存到文件: ${notePath}`);
+		return notePath;
+	}
+
+	/**
+	 * 收件箱中出现新音频时加入自动转写队列
+	 * 新建和移入收件箱文件夹都会触发；已在队列中的文件不会重复加入
+	 */
+	private async enqueueInboxAudio(file: TFile): Promise<void> {
+		const inbox = this.settings.audioInboxFolder.trim();
+		if (!this.settings.autoTranscribeEnabled || !inbox || !isTranscribableAudio(file)) {
+			return;
+		}
+		if (!file.path.startsWith(`${normalizePath(inbox)}/`)) {
+			return;
+		}
+		if (this.settings.transcriptionQueue.some(job => job.path === file.path)) {
+			return;
+		}
+
+		this.settings.transcriptionQueue.push({ path: file.path, attempts: 0, nextAttemptAt: 0, status: 'pending' });
+		await this.saveSettings();
+		this.debugLog('音频已加入自动转写队列:', file.path);
+		await this.processTranscriptionQueue();
+	}
+
+	/**
+	 * 依次处理自动转写队列
+	 * 失败的任务按 30 秒起倍增的间隔重试，达到上限后标记为失败，等待用户手动重试
+	 */
+	private async processTranscriptionQueue(): Promise<void> {
+		if (this.isProcessingTranscriptionQueue) {
+			return;
+		}
+		this.isProcessingTranscriptionQueue = true;
+		if (this.transcriptionRetryTimer) {
+			window.clearTimeout(this.transcriptionRetryTimer);
+			this.transcriptionRetryTimer = null;
+		}
+
+		try {
+			let job: TranscriptionJob | undefined;
+			while ((job = this.settings.transcriptionQueue.find(item => item.status === 'pending' && item.nextAttemptAt <= Date.now()))) {
+				await this.runTranscriptionJob(job);
+				await this.saveSettings();
+			}
+		} finally {
+			this.isProcessingTranscriptionQueue = false;
+		}
+
+		const waiting = this.settings.transcriptionQueue.filter(item => item.status === 'pending');
+		if (waiting.length > 0) {
+			const nextAttemptAt = Math.min(...waiting.map(item => item.nextAttemptAt));
+			this.transcriptionRetryTimer = window.setTimeout(() => {
+				this.transcriptionRetryTimer = null;
+				void this.processTranscriptionQueue();
+			}, Math.max(1000, nextAttemptAt - Date.now()));
+		}
+	}
+
+	/** 执行一个自动转写任务，成功后移出队列 */
+	private async runTranscriptionJob(job: TranscriptionJob): Promise<void> {
+		const queue = this.settings.transcriptionQueue;
+		const removeJob = () => queue.splice(queue.indexOf(job), 1);
+
+		const file = this.app.vault.getAbstractFileByPath(job.path);
+		if (!(file instanceof TFile)) {
+			this.debugLog('自动转写的音频已不存在，移出队列:', job.path);
+			removeJob();
+			return;
+		}
+
+		const remaining = queue.filter(item => item.status === 'pending').length;
+		this.updateStatusFloat(`自动转写 ${file.name}（队列剩余 ${remaining}）`, 'info', false);
+		try {
+			const text = await this.recognizeAudioFile(file);
+			const transcript = text.trim();
+			const folder = this.settings.transcriptFolder.trim() || (file.parent?.path ?? '');
+			await this.createAudioTranscriptNote(file, transcript || '（未识别到语音内容）', folder, false);
+			removeJob();
+			this.updateStatusFloat(`${file.name} 自动转写完成`, 'success');
+		} catch (error) {
+			job.attempts++;
+			job.error = getErrorMessage(error);
+			if (job.attempts >= TRANSCRIPTION_MAX_ATTEMPTS) {
+				job.status = 'failed';
+				new Notice(`自动转写 ${file.name} 失败: ${job.error}`);
+			} else {
+				job.nextAttemptAt = Date.now() + 30000 * Math.pow(2, job.attempts - 1);
+			}
+			this.debugLog(`自动转写失败（第 ${job.attempts} 次）:`, job.path, error);
+			this.updateStatusFloat(`自动转写失败: ${job.error}`, 'error');
+		}
+	}
+
+	/** 把失败的自动转写任务重新放回队列 */
+	private retryFailedTranscriptions(): void {
+		const failedJobs = this.settings.transcriptionQueue.filter(job => job.status === 'failed');
+		if (failedJobs.length === 0) {
+			new Notice('没有失败的自动转写任务');
+			return;
+		}
+		for (const job of failedJobs) {
+			job.status = 'pending';
+			job.attempts = 0;
+			job.nextAttemptAt = 0;
+			delete job.error;
+		}
+		new Notice(`已重新加入 ${failedJobs.length} 个转写任务`);
+		void this.saveSettings().then(() => this.processTranscriptionQueue());
+	}
+
+	/**
+	 * 语音转文字，未识别到语音时返回空字符串
+	 * @param source 录音来源，显示在音频预处理的调试视图中
+	 * @param preprocess 录音是否需要预处理；暂存时已处理过的录音和唤醒片段不处理
+	 */
+	private async speechToText(audioBlob: Blob, source: string, preprocess = true): Promise<string> {
+		const audio = preprocess ? await this.preprocessForAsr(audioBlob, source) : { blob: audioBlob, pcm16: null };
+		let text: string;
+		switch (this.settings.asrProvider) {
+			case 'openai':
+				text = await this.openaiCompatibleASR(audio.blob);
+				break;
+			case 'vosk':
+				text = await this.voskASR(audio.blob, audio.pcm16);
+				break;
+			case 'xunfei':
+			default:
+				text = await this.xunfeiOnlineASR(audio.blob, audio.pcm16);
+				break;
+		}
+		return this.applyVocabulary(text);
+	}
+
+	/**
+	 * 识别前的音频预处理：解码为 16kHz PCM，按设置做高通滤波、噪声门、自动增益和峰值归一化后重新封装为 WAV。
+	 * 未开启、文件过大、录音过长或处理失败时返回原始录音，不影响识别；已经解码的 PCM 一并返回，识别时不再重复解码。
+	 */
+	private async preprocessForAsr(audioBlob: Blob, source: string): Promise<PreparedAudio> {
+		if (!this.settings.audioProcessingEnabled || audioBlob.size === 0 || audioBlob.size > AUDIO_PROCESSING_MAX_BYTES) {
+			return { blob: audioBlob, pcm16: null };
+		}
+		const cached = this.processedAudio.get(audioBlob);
+		if (cached) {
+			return cached;
+		}
+		let decoded: Int16Array;
+		try {
+			decoded = await this.decodeToPCM(audioBlob);
+		} catch (error) {
+			this.debugLog('音频预处理解码失败，使用原始录音:', error);
+			return { blob: audioBlob, pcm16: null };
+		}
+		if (decoded.length === 0 || decoded.length > AUDIO_PROCESSING_MAX_SECONDS * ASR_SAMPLE_RATE) {
+			return { blob: audioBlob, pcm16: decoded };
+		}
+		const samples = pcm16ToFloat32(decoded);
+		const processed = processAudioClip(samples, ASR_SAMPLE_RATE, this.settings.audioProcessing);
+		this.recordAudioLevels(source, measureLevels(samples), measureLevels(processed));
+		const pcm16 = downsampleToPcm16(processed, ASR_SAMPLE_RATE);
+		const wav = pcmToWav(new Uint8Array(pcm16.buffer), ASR_SAMPLE_RATE, 1, 16);
+		const result = { blob: new Blob([wav], { type: 'audio/wav' }), pcm16 };
+		this.processedAudio.set(audioBlob, result);
+		return result;
+	}
+
+	/**
+	 * 记录一次音频预处理前后的电平，只保留最近几次
+	 */
+	private recordAudioLevels(source: string, before: AudioLevels, after: AudioLevels): void {
+		this.audioLevelHistory.push({ time: Date.now(), source, before, after });
+		if (this.audioLevelHistory.length > AUDIO_LEVEL_HISTORY_SIZE) {
+			this.audioLevelHistory.shift();
+		}
+		this.debugLog(`音频预处理（${source}）: 峰值 ${before.peak.toFixed(1)} → ${after.peak.toFixed(1)} dBFS，RMS ${before.rms.toFixed(1)} → ${after.rms.toFixed(1)} dBFS`);
+	}
+
+	/**
+	 * 打开音频预处理电平的调试视图
+	 */
+	openAudioLevelsView(): void {
+		const modal = new Modal(this.app);
+		modal.titleEl.setText('音频预处理电平');
+		const format = (db: number) => db <= -120 ? '-∞' : db.toFixed(1);
+
+		const render = () => {
+			const { contentEl } = modal;
+			contentEl.empty();
+			new Setting(contentEl)
+				.setDesc(this.settings.audioProcessingEnabled
+					? '最近几次识别前的峰值和 RMS 电平（dBFS），处理后说话的 RMS 应接近自动增益的目标电平'
+					: '音频预处理未开启，识别使用原始录音')
+				.addButton(button => button
+					.setButtonText('刷新')
+					.onClick(render));
+			if (this.audioLevelHistory.length === 0) {
+				contentEl.createEl('p', { text: '还没有预处理记录，听写或对话一次后再查看' });
+				return;
+			}
+
+			const table = contentEl.createEl('table', { cls: 'voice-assistant-audio-levels' });
+			const header = table.createEl('tr');
+			for (const title of ['时间', '来源', '处理前峰值', '处理前 RMS', '处理后峰值', '处理后 RMS']) {
+				header.createEl('th', { text: title });
+			}
+			for (const record of [...this.audioLevelHistory].reverse()) {
+				const row = table.createEl('tr');
+				row.createEl('td', { text: new Date(record.time).toLocaleTimeString() });
+				row.createEl('td', { text: record.source });
+				for (const level of [record.before.peak, record.before.rms, record.after.peak, record.after.rms]) {
+					row.createEl('td', { text: format(level) });
+				}
+			}
+		};
 
-				mediaRecorder.onstop = () => {
-					const audioBlob = new Blob(this.audioChunks, {
-						type: mediaRecorder.mimeType || this.audioChunks[0]?.type || 'application/octet-stream'
-					});
-					stream.getTracks().forEach(track => track.stop());
-					this.isRecording = false;
-					this.debugLog('录音完成，音频大小:', audioBlob.size, '字节');
-					resolve(audioBlob);
-				};
+		render();
+		modal.open();
+	}
 
-				mediaRecorder.onerror = (event) => {
-					stream.getTracks().forEach(track => track.stop());
-					this.isRecording = false;
-					reject(normalizeError(event, '录音过程出错'));
-				};
+	/**
+	 * 语音唤醒专用ASR
+	 * 与听写、对话使用同一个 ASR 提供商，便于在无讯飞凭据或需本地转写时启用唤醒
+	 */
+	private async speechToTextForWakeup(audioBlob: Blob): Promise<string> {
+		// 唤醒片段频繁且很短，不做预处理，也不占用调试视图的电平记录
+		return this.speechToText(audioBlob, '唤醒', false);
+	}
 
-				mediaRecorder.start();
+	/**
+	 * Vosk 本地语音识别
+	 * 将录音解码为 16kHz PCM 后分块发送到本地 Vosk WebSocket 服务，音频不会离开本机
+	 * @param decoded 预处理时已解码的 PCM，为 null 时从录音解码
+	 */
+	private async voskASR(audioBlob: Blob, decoded: Int16Array | null = null): Promise<string> {
+		const pcm16 = decoded ?? await this.decodeToPCM(audioBlob);
+		const session = this.startVoskStreamingASR(() => undefined, false);
+
+		// 每次发送 0.5 秒音频，与 Vosk 官方示例的分块大小一致
+		const chunkSamples = ASR_SAMPLE_RATE / 2;
+		for (let offset = 0; offset < pcm16.length; offset += chunkSamples) {
+			session.push(pcm16.subarray(offset, offset + chunkSamples));
+		}
+		session.finish();
 
-				// 5秒后自动停止录音
-				window.setTimeout(() => {
-					if (this.mediaRecorder && this.isRecording) {
-						this.mediaRecorder.stop();
-					}
-				}, 5000);
-			})
-			.catch(reject);
-		});
+		const text = await session.result;
+		this.debugLog('Vosk 识别结果:', text);
+		return text;
 	}
 
 	/**
-	 * 语音转文字
+	 * Vosk 流式语音识别
+	 * 协议：先发送采样率配置，再发送二进制 PCM，最后发送 eof；服务端持续返回 partial 与 text 结果。
+	 * @param onPartial 中间结果回调
+	 * @param endAfterUtterance 为 true 时在第一句最终结果返回后结束会话，供听写逐句插入
 	 */
-	private async speechToText(audioBlob: Blob): Promise<string> {
-		switch (this.settings.asrProvider) {
-			case 'xunfei':
-			default:
-				return this.xunfeiOnlineASR(audioBlob);
+	private startVoskStreamingASR(onPartial: (text: string) => void, endAfterUtterance: boolean): StreamingAsrSession {
+		const url = this.settings.voskServerUrl.trim();
+		if (!url) {
+			throw new Error('请先配置 Vosk 服务地址');
 		}
+
+		const ws = new WebSocket(url);
+		ws.binaryType = 'arraybuffer';
+		const pendingFrames: Int16Array[] = [];
+		const utterances: string[] = [];
+		let isFinishing = false;
+		let isClosed = false;
+		let settle: (text: string) => void = () => undefined;
+		let fail: (error: Error) => void = () => undefined;
+
+		const result = new Promise<string>((resolve, reject) => {
+			settle = (text) => {
+				isClosed = true;
+				resolve(text);
+			};
+			fail = (error) => {
+				isClosed = true;
+				reject(error);
+			};
+		});
+
+		const currentText = (partial = '') => normalizeVoskText([...utterances, partial].join(' '));
+		const sendFrame = (frame: Int16Array) => {
+			ws.send(frame.slice().buffer);
+		};
+
+		ws.onopen = () => {
+			this.debugLog('Vosk WebSocket 连接已建立');
+			ws.send(JSON.stringify({ config: { sample_rate: ASR_SAMPLE_RATE } }));
+			for (const frame of pendingFrames.splice(0)) {
+				sendFrame(frame);
+			}
+			if (isFinishing) {
+				ws.send(VOSK_EOF_MESSAGE);
+			}
+		};
+
+		ws.onmessage = (event: MessageEvent) => {
+			try {
+				const data = parseJsonResponse<VoskResponse>(String(event.data));
+				if (typeof data.text === 'string') {
+					const utterance = normalizeVoskText(data.text);
+					if (!utterance) {
+						return;
+					}
+					utterances.push(utterance);
+					onPartial(currentText());
+					if (endAfterUtterance) {
+						ws.close();
+						settle(currentText());
+					}
+				} else if (data.partial) {
+					onPartial(currentText(data.partial));
+				}
+			} catch (error) {
+				ws.close();
+				fail(normalizeError(error, '解析 Vosk 响应失败'));
+			}
+		};
+
+		ws.onerror = (error) => {
+			this.debugLog('Vosk WebSocket错误:', error);
+			fail(new Error(`无法连接 Vosk 服务: ${url}`));
+		};
+
+		ws.onclose = () => {
+			// 收到 eof 后服务端返回最终结果并关闭连接
+			settle(currentText());
+		};
+
+		return {
+			result,
+			push: (frame) => {
+				if (isClosed || isFinishing) {
+					return false;
+				}
+				if (ws.readyState === WebSocket.OPEN) {
+					sendFrame(frame);
+				} else {
+					pendingFrames.push(frame);
+				}
+				return true;
+			},
+			finish: () => {
+				if (isClosed || isFinishing) {
+					return;
+				}
+				isFinishing = true;
+				if (ws.readyState === WebSocket.OPEN) {
+					ws.send(VOSK_EOF_MESSAGE);
+				}
+			},
+			cancel: () => {
+				ws.close();
+				settle('');
+			}
+		};
 	}
 
 	/**
-	 * 语音唤醒专用ASR - 强制使用讯飞ASR
-	 * 确保语音唤醒功能使用正确的ASR服务
+	 * OpenAI 兼容语音识别
+	 * 将录音原样上传到 /audio/transcriptions，可对接 OpenAI、whisper.cpp、faster-whisper 等服务
 	 */
-	private async speechToTextForWakeup(audioBlob: Blob): Promise<string> {
-		// 语音唤醒始终使用讯飞ASR，不受asrProvider设置影响
-		return this.xunfeiOnlineASR(audioBlob);
+	private async openaiCompatibleASR(audioBlob: Blob): Promise<string> {
+		const baseUrl = this.settings.openaiAsrBaseUrl.trim().replace(/\/+$/, '');
+		if (!baseUrl) {
+			throw new Error('请先配置 OpenAI 兼容转写接口地址');
+		}
+
+		try {
+			const extension = getAudioFileExtension(audioBlob.type);
+			// 转写接口使用 ISO-639-1 语言代码，例如 zh_cn → zh、en_us → en
+			const language = this.getAsrLanguageOptions().language.slice(0, 2);
+			const { body, contentType } = await buildMultipartBody(
+				{
+					model: this.settings.openaiAsrModel || 'whisper-1',
+					language,
+					response_format: 'json'
+				},
+				{ field: 'file', name: `recording.${extension}`, blob: audioBlob }
+			);
+
+			const headers: Record<string, string> = {};
+			if (this.settings.openaiAsrApiKey) {
+				headers['Authorization'] = `Bearer ${this.settings.openaiAsrApiKey}`;
+			}
+
+			const response = await requestUrl({
+				url: `${baseUrl}/audio/transcriptions`,
+				method: 'POST',
+				contentType,
+				headers,
+				body,
+				throw: false
+			});
+
+			if (response.status < 200 || response.status >= 300) {
+				throw new Error(`转写接口错误: ${response.status} - ${response.text}`);
+			}
+
+			const data = response.json as OpenAiTranscriptionResponse;
+			if (data.error) {
+				throw new Error(`转写接口错误: ${data.error.message || JSON.stringify(data.error)}`);
+			}
+			if (typeof data.text !== 'string') {
+				throw new Error('转写接口返回的响应格式不正确 - 缺少 text');
+			}
+
+			this.debugLog('OpenAI 兼容 ASR 识别结果:', data.text);
+			return data.text.trim();
+		} catch (error) {
+			this.debugLog('OpenAI 兼容 ASR 错误:', error);
+			throw normalizeError(error, 'OpenAI 兼容转写调用失败');
+		}
 	}
 
 	/**
-	 * 将音频转换为PCM格式
+	 * 将音频解码为16kHz单声道16位PCM
 	 */
-	private async convertToPCM(audioBlob: Blob): Promise<string> {
+	private async decodeToPCM(audioBlob: Blob): Promise<Int16Array> {
 		return new Promise((resolve, reject) => {
 			const audioContext = createAudioContext();
 			const fileReader = new FileReader();
@@ -1181,153 +3869,220 @@ export default class VoiceAssistantPlugin extends Plugin {
 				try {
 					const arrayBuffer = fileReader.result as ArrayBuffer;
 					const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-					
-					// 转换为16kHz单声道PCM
-					const sampleRate = 16000;
-					const length = Math.floor(audioBuffer.duration * sampleRate);
-					const pcmData = new Float32Array(length);
-					
-					// 重采样到16kHz
-					const ratio = audioBuffer.sampleRate / sampleRate;
-					const inputData = audioBuffer.getChannelData(0);
-					
-					for (let i = 0; i < length; i++) {
-						const index = Math.floor(i * ratio);
-						pcmData[i] = inputData[index] || 0;
-					}
-					
-					// 转换为16位PCM
-					const pcm16 = new Int16Array(length);
-					for (let i = 0; i < length; i++) {
-						pcm16[i] = Math.max(-32768, Math.min(32767, pcmData[i] * 32767));
-					}
-					
-					// 转换为base64 - 分块处理避免调用栈溢出
-					const uint8Array = new Uint8Array(pcm16.buffer);
-					let binaryString = '';
-					const chunkSize = 8192; // 每次处理8KB
-					
-					for (let i = 0; i < uint8Array.length; i += chunkSize) {
-						const chunk = uint8Array.slice(i, i + chunkSize);
-						binaryString += String.fromCharCode.apply(null, Array.from(chunk));
-					}
-					
-					const base64 = window.btoa(binaryString);
-					resolve(base64);
+					// 取第一个声道，重采样为16kHz 16位PCM
+					resolve(downsampleToPcm16(audioBuffer.getChannelData(0), audioBuffer.sampleRate));
 				} catch (error) {
 					reject(normalizeError(error, '音频转换失败'));
+				} finally {
+					void audioContext.close();
 				}
 			};
 			
-			fileReader.onerror = () => reject(new Error('读取音频文件失败'));
+			fileReader.onerror = () => {
+				void audioContext.close();
+				reject(new Error('读取音频文件失败'));
+			};
 			fileReader.readAsArrayBuffer(audioBlob);
 		});
 	}
 
 	/**
 	 * 讯飞在线语音识别
+	 * 讯飞听写单次会话最长约 60 秒，超过分段上限的录音在静音处切分后逐段识别，再去重拼接。
+	 * @param decoded 预处理时已解码的 PCM，为 null 时从录音解码
 	 */
-	private async xunfeiOnlineASR(audioBlob: Blob): Promise<string> {
-		try {
-			this.debugLog('开始转换音频格式...');
-			// 将音频转换为PCM格式的base64
-			const base64Audio = await this.convertToPCM(audioBlob);
-			this.debugLog('音频转换完成，base64长度:', base64Audio.length);
-			
-			// 构建请求参数
-			const host = 'iat-api.xfyun.cn';
-			const path = '/v2/iat';
-			const apiKey = this.settings.xunfeiApiKey;
-			const apiSecret = this.settings.xunfeiApiSecret;
-			const appId = this.settings.xunfeiAppId;
-			
-			// 生成鉴权参数 - 按照讯飞官方文档格式
-			const date = new Date().toUTCString();
-			const signatureOrigin = `host: ${host}\ndate: ${date}\nGET ${path} HTTP/1.1`;
-			const signature = await hmacSha256Base64(apiSecret, signatureOrigin);
-			const authorizationOrigin = `api_key="${apiKey}", algorithm="hmac-sha256", headers="host date request-line", signature="${signature}"`;
-			const authorization = encodeURIComponent(window.btoa(authorizationOrigin));
-			
-			const url = `wss://${host}${path}?authorization=${authorization}&date=${encodeURIComponent(date)}&host=${host}`;
-			
-			this.debugLog('讯飞ASR WebSocket URL:', url);
-			
-			return new Promise((resolve, reject) => {
-				const ws = new WebSocket(url);
-				
-				let result = '';
-				let hasReceivedData = false;
-				
-				ws.onopen = () => {
-					this.debugLog('讯飞ASR WebSocket 连接已建立');
-					const params = {
-						common: { app_id: appId },
-						business: { 
-							language: 'zh_cn', 
-							domain: 'iat', 
-							accent: 'mandarin',
-							vinfo: 1,
-							vad_eos: 10000
-						},
-						data: { 
-							status: 2, 
-							format: 'audio/L16;rate=16000', 
-							encoding: 'raw', 
-							audio: base64Audio 
-						}
-					};
-					this.debugLog('发送ASR参数:', JSON.stringify(params, null, 2));
-					ws.send(JSON.stringify(params));
-				};
-				
-				ws.onmessage = (event: MessageEvent) => {
-					try {
-						const data = parseJsonResponse<XunfeiAsrResponse>(String(event.data));
-						this.debugLog('收到ASR响应:', JSON.stringify(data, null, 2));
-						
-						if (data.code !== 0) {
-							this.debugLog('ASR错误代码:', data.code, '错误信息:', data.message);
-							reject(new Error(`ASR错误: ${data.code} - ${data.message}`));
-							return;
-						}
-						
-						if (data.data && data.data.result) {
-							hasReceivedData = true;
-							const text = (data.data.result.ws ?? []).map(item =>
-								(item.cw ?? []).map(word => word.w ?? '').join('')
-							).join('');
-							result += text;
-							this.debugLog('识别到文本片段:', text);
-						}
-						
-						if (data.data && data.data.status === 2) {
-							this.debugLog('ASR识别完成，最终结果:', result);
-							ws.close();
-							resolve(result || '未识别到语音内容');
-						}
-					} catch (error) {
-						this.debugLog('解析ASR响应时出错:', error);
-						reject(normalizeError(error, '解析 ASR 响应失败'));
-					}
-				};
-				
-				ws.onerror = (error) => {
-					this.debugLog('ASR WebSocket错误:', error);
-					reject(new Error('ASR WebSocket连接错误'));
-				};
-				
-				ws.onclose = (event) => {
-					this.debugLog('ASR WebSocket连接关闭:', event.code, event.reason);
-					if (!hasReceivedData && !result) {
-						reject(new Error(`ASR连接关闭，未获取到结果。关闭代码: ${event.code}, 原因: ${event.reason}`));
-					}
-				};
-			});
-			
-		} catch (error) {
-			this.debugLog('讯飞在线 ASR 错误:', error);
-			throw normalizeError(error, '讯飞在线 ASR 调用失败');
+	private async xunfeiOnlineASR(audioBlob: Blob, decoded: Int16Array | null = null): Promise<string> {
+		this.debugLog('开始转换音频格式...');
+		const pcm16 = decoded ?? await this.decodeToPCM(audioBlob);
+		const segments = planAudioSegments(
+			pcm16,
+			ASR_SAMPLE_RATE,
+			this.settings.asrChunkSeconds,
+			this.settings.asrChunkOverlap
+		);
+		if (segments.length === 1) {
+			return this.xunfeiRecognizePCM(pcm16);
 		}
+
+		this.debugLog(`录音时长 ${(pcm16.length / ASR_SAMPLE_RATE).toFixed(1)} 秒，分为 ${segments.length} 段识别`);
+		let finishedCount = 0;
+		const texts = await mapWithConcurrency(segments, this.settings.asrChunkConcurrency, async (segment, index) => {
+			const text = await this.xunfeiRecognizePCM(pcm16.slice(segment.start, segment.end));
+			finishedCount++;
+			this.updateStatusFloat(`长录音识别中 (${finishedCount}/${segments.length})`, 'info', false);
+			this.debugLog(`第 ${index + 1} 段识别结果:`, text);
+			return text;
+		});
+		return mergeOverlappingTranscripts(texts, this.settings.asrChunkOverlap);
+	}
+
+	/**
+	 * 将一段 PCM 一次性提交讯飞听写接口识别
+	 */
+	private async xunfeiRecognizePCM(pcm16: Int16Array): Promise<string> {
+		const base64Audio = bytesToBase64(new Uint8Array(pcm16.buffer, pcm16.byteOffset, pcm16.byteLength));
+		this.debugLog('音频转换完成，base64长度:', base64Audio.length);
+
+		const appId = this.settings.xunfeiAppId;
+		const business = buildXunfeiAsrBusiness(this.getAsrLanguageOptions(), this.settings.asrVadEos);
+		let result = '';
+
+		const text = await requestXunfeiSocket<XunfeiAsrResponse, string>({
+			service: 'asr',
+			createUrl: () => this.createXunfeiAsrUrl(),
+			timeoutMs: 20000,
+			log: (message, ...args) => this.debugLog(message, ...args),
+			onOpen: (ws) => {
+				ws.send(JSON.stringify({
+					common: { app_id: appId },
+					business,
+					data: {
+						status: 2,
+						format: 'audio/L16;rate=16000',
+						encoding: 'raw',
+						audio: base64Audio
+					}
+				}));
+			},
+			readStatus: (data) => ({ code: data.code, message: data.message }),
+			onMessage: (data) => {
+				if (data.data?.result) {
+					const fragment = extractAsrText(data.data.result);
+					result += fragment;
+					this.debugLog('识别到文本片段:', fragment);
+				}
+				return data.data?.status === 2 ? { done: true, value: result } : { done: false };
+			}
+		});
+
+		this.debugLog('ASR识别完成，最终结果:', text);
+		return text;
+	}
+
+	/**
+	 * 生成讯飞语音听写 WebSocket 鉴权地址
+	 */
+	private async createXunfeiAsrUrl(): Promise<string> {
+		return this.createXunfeiAuthUrl('iat-api.xfyun.cn', '/v2/iat');
+	}
+
+	/**
+	 * 生成讯飞 WebSocket 接口的鉴权地址（语音听写、语音合成和星火共用同一签名规则）
+	 */
+	private async createXunfeiAuthUrl(host: string, path: string): Promise<string> {
+		// 生成鉴权参数 - 按照讯飞官方文档格式
+		const date = new Date().toUTCString();
+		const signatureOrigin = `host: ${host}\ndate: ${date}\nGET ${path} HTTP/1.1`;
+		const signature = await hmacSha256Base64(this.settings.xunfeiApiSecret, signatureOrigin);
+		const authorizationOrigin = `api_key="${this.settings.xunfeiApiKey}", algorithm="hmac-sha256", headers="host date request-line", signature="${signature}"`;
+		const authorization = encodeURIComponent(window.btoa(authorizationOrigin));
+		
+		return `wss://${host}${path}?authorization=${authorization}&date=${encodeURIComponent(date)}&host=${host}`;
+	}
+
+	/**
+	 * 讯飞流式语音识别
+	 * 按 40ms 帧上传 PCM（status 0/1/2），中文识别开启 dwa=wpgs 动态修正，每次收到结果都回调完整的修正后文本。
+	 * 连接经 requestXunfeiSocket 建立，与其他讯飞请求共用空闲超时、取消和重试；尚未收到结果就重连时从本句第一帧重新上传。
+	 * @param onPartial 中间结果回调
+	 * @param vadEos 句尾静默多少毫秒后由服务端结束本次会话
+	 */
+	private startXunfeiStreamingASR(onPartial: (text: string) => void, vadEos = 10000): StreamingAsrSession {
+		const appId = this.settings.xunfeiAppId;
+		const business = buildXunfeiAsrBusiness(this.getAsrLanguageOptions(), vadEos, true);
+		const controller = new AbortController();
+		const frames: Int16Array[] = [];
+		const segments: string[] = [];
+		let socket: WebSocket | null = null;
+		let sentFrames = 0;
+		let transcript = '';
+		let isFinishing = false;
+		let isClosed = false;
+		let isDiscarded = false;
+
+		// 把尚未上传的帧发到当前连接，结束时补发结束帧
+		const flush = () => {
+			if (socket?.readyState !== WebSocket.OPEN) {
+				return;
+			}
+			for (; sentFrames < frames.length; sentFrames++) {
+				const frame = frames[sentFrames];
+				const audio = bytesToBase64(new Uint8Array(frame.buffer, frame.byteOffset, frame.byteLength));
+				const data = { status: sentFrames === 0 ? 0 : 1, format: 'audio/L16;rate=16000', encoding: 'raw', audio };
+				socket.send(JSON.stringify(sentFrames === 0 ? { common: { app_id: appId }, business, data } : { data }));
+			}
+			if (isFinishing) {
+				socket.send(JSON.stringify({ data: { status: 2, format: 'audio/L16;rate=16000', encoding: 'raw', audio: '' } }));
+			}
+		};
+
+		const discard = () => {
+			isDiscarded = true;
+			controller.abort();
+		};
+
+		const request = requestXunfeiSocket<XunfeiAsrResponse, string>({
+			service: 'asr',
+			createUrl: () => this.createXunfeiAsrUrl(),
+			// 服务端只在识别出内容时回消息，静默期间最长等待 vad_eos 后才结束本句
+			timeoutMs: vadEos + XUNFEI_STREAMING_IDLE_MARGIN_MS,
+			signal: controller.signal,
+			log: (message, ...args) => this.debugLog(message, ...args),
+			onOpen: (ws) => {
+				socket = ws;
+				sentFrames = 0;
+				flush();
+			},
+			readStatus: (data) => ({ code: data.code, message: data.message }),
+			onMessage: (data) => {
+				if (data.data?.result) {
+					transcript = applyWpgsResult(segments, data.data.result);
+					onPartial(transcript);
+				}
+				if (data.data?.status === 2) {
+					this.debugLog('流式识别完成，最终结果:', transcript);
+					isClosed = true;
+					return { done: true, value: transcript };
+				}
+				return { done: false };
+			}
+		});
+
+		const result = request.then(
+			(text) => text,
+			(error: unknown) => {
+				isClosed = true;
+				if (isDiscarded) {
+					return '';
+				}
+				throw error;
+			}
+		);
+
+		return {
+			result,
+			push: (frame) => {
+				if (isClosed || isFinishing) {
+					return false;
+				}
+				frames.push(frame);
+				flush();
+				return true;
+			},
+			finish: () => {
+				if (isClosed || isFinishing) {
+					return;
+				}
+				if (frames.length === 0) {
+					// 尚未采集到任何音频，直接结束，避免服务端因缺少业务参数报错
+					discard();
+					return;
+				}
+				isFinishing = true;
+				flush();
+			},
+			cancel: discard
+		};
 	}
 
 
@@ -1526,113 +4281,10 @@ export default class VoiceAssistantPlugin extends Plugin {
 					domain = 'lite';
 					break;
 			}
-			const date = new Date().toUTCString();
-			
-			// 构建签名字符串
-			const signatureOrigin = `host: ${host}\ndate: ${date}\nGET ${path} HTTP/1.1`;
-			
-			// 使用浏览器标准 Web Crypto API 生成签名。
-			const signature = await hmacSha256Base64(apiSecret, signatureOrigin);
-			
-			// 构建鉴权参数
-			const authorizationOrigin = `api_key="${apiKey}", algorithm="hmac-sha256", headers="host date request-line", signature="${signature}"`;
-			const authorization = encodeUtf8ToBase64(authorizationOrigin);
-			
-			// 构建WebSocket URL
-			const url = `wss://${host}${path}?authorization=${authorization}&date=${encodeURIComponent(date)}&host=${host}`;
-			
-			this.debugLog('讯飞星火 WebSocket URL:', url);
-			
-			return new Promise((resolve, reject) => {
-				const ws = new WebSocket(url);
-				let result = '';
-				let timeout: number;
-				
-				// 设置超时
-				timeout = window.setTimeout(() => {
-					ws.close();
-					reject(new Error('讯飞星火调用超时'));
-				}, 30000);
-				
-				ws.onopen = () => {
-					this.debugLog('讯飞星火 WebSocket 连接已建立');
-					this.debugLog('使用模型:', model, '域名:', domain);
-					
-					const params = {
-						header: { 
-							app_id: appId, 
-							uid: 'user' 
-						},
-						parameter: { 
-							chat: { 
-								domain: domain, 
-								temperature: 0.5, 
-								max_tokens: 2048 
-							} 
-						},
-						payload: { 
-							message: { 
-								text: [{ role: 'user', content: text }] 
-							} 
-						}
-					};
-					
-					this.debugLog('发送到讯飞星火的参数:', JSON.stringify(params, null, 2));
-					ws.send(JSON.stringify(params));
-				};
-				
-				ws.onmessage = (event: MessageEvent) => {
-					try {
-						const data = parseJsonResponse<XunfeiSparkResponse>(String(event.data));
-						this.debugLog('讯飞星火响应:', data);
-						
-						// 检查错误
-						if (data.header && data.header.code !== 0) {
-							window.clearTimeout(timeout);
-							const errorMsg = `讯飞星火API错误: ${data.header.message || '未知错误'} (代码: ${data.header.code})`;
-							this.debugLog(errorMsg);
-							reject(new Error(errorMsg));
-							return;
-						}
-						
-						// 提取响应内容
-						if (data.payload && data.payload.choices && data.payload.choices.text && Array.isArray(data.payload.choices.text) && data.payload.choices.text.length > 0) {
-							const textItem = data.payload.choices.text[0];
-							if (textItem && textItem.content) {
-								result += textItem.content;
-								this.debugLog('累积结果:', result);
-							}
-						}
-						
-						// 检查是否完成
-						if (data.header && data.header.status === 2) {
-							window.clearTimeout(timeout);
-							ws.close();
-							this.debugLog('讯飞星火最终结果:', result);
-							resolve(result || '讯飞星火返回了空响应');
-						}
-					} catch (parseError) {
-						this.debugLog('解析讯飞星火响应时出错:', parseError);
-						this.debugLog('原始响应数据:', event.data);
-						window.clearTimeout(timeout);
-						reject(new Error(`解析讯飞星火响应失败: ${getErrorMessage(parseError)}`));
-					}
-				};
-				
-				ws.onerror = (error) => {
-					this.debugLog('讯飞星火 WebSocket 错误:', error);
-					window.clearTimeout(timeout);
-					reject(new Error('讯飞星火连接失败'));
-				};
-				
-				ws.onclose = (event) => {
-					this.debugLog('讯飞星火 WebSocket 连接关闭:', event.code, event.reason);
-					window.clearTimeout(timeout);
-					if (!result) {
-						reject(new Error('讯飞星火连接意外关闭'));
-					}
-				};
-			});
+			this.debugLog('使用模型:', model, '域名:', domain);
+			const result = await this.requestSparkChat(host, path, domain, text);
+			this.debugLog('讯飞星火最终结果:', result);
+			return result || '讯飞星火返回了空响应';
 			
 		} catch (error) {
 			this.debugLog('讯飞星火调用错误:', error);
@@ -1643,6 +4295,35 @@ export default class VoiceAssistantPlugin extends Plugin {
 
 
 
+	/**
+	 * 通过讯飞星火 WebSocket 接口发送一轮对话，返回拼接后的完整回复
+	 */
+	private async requestSparkChat(host: string, path: string, domain: string, text: string): Promise<string> {
+		const appId = this.settings.xunfeiAppId;
+		let result = '';
+		return requestXunfeiSocket<XunfeiSparkResponse, string>({
+			service: 'spark',
+			createUrl: () => this.createXunfeiAuthUrl(host, path),
+			timeoutMs: 30000,
+			log: (message, ...args) => this.debugLog(message, ...args),
+			onOpen: (ws) => {
+				ws.send(JSON.stringify({
+					header: { app_id: appId, uid: 'user' },
+					parameter: { chat: { domain, temperature: 0.5, max_tokens: 2048 } },
+					payload: { message: { text: [{ role: 'user', content: text }] } }
+				}));
+			},
+			readStatus: (data) => ({ code: data.header?.code ?? 0, message: data.header?.message }),
+			onMessage: (data) => {
+				const content = data.payload?.choices?.text?.[0]?.content;
+				if (content) {
+					result += content;
+				}
+				return data.header?.status === 2 ? { done: true, value: result } : { done: false };
+			}
+		});
+	}
+
 	/**
 	 * 调用自定义模型
 	 */
@@ -1810,113 +4491,16 @@ export default class VoiceAssistantPlugin extends Plugin {
 			if (modelId.includes('v1.5') || modelId === 'general') {
 				apiPath = '/v1.1/chat';
 			} else if (modelId.includes('v2') || modelId === 'generalv2') {
-				apiPath = '/v2.1/chat';
-			} else if (modelId.includes('v3') || modelId === 'generalv3') {
-				apiPath = '/v3.1/chat';
-			} else if (modelId.includes('v3.5') || modelId === 'generalv3.5') {
-				apiPath = '/v3.5/chat';
-			} else if (modelId.includes('4.0') || modelId === '4.0Ultra') {
-				apiPath = '/v4.0/chat';
-			}
-
-			// 生成认证URL
-			const host = 'spark-api.xf-yun.com';
-			const date = new Date().toUTCString();
-			const algorithm = 'hmac-sha256';
-			const headers = `host date request-line`;
-			const signatureOrigin = `host: ${host}\ndate: ${date}\nGET ${apiPath} HTTP/1.1`;
-			
-			const signature = await hmacSha256Base64(this.settings.xunfeiApiSecret, signatureOrigin);
-			
-			const authorizationOrigin = `api_key="${this.settings.xunfeiApiKey}", algorithm="${algorithm}", headers="${headers}", signature="${signature}"`;
-			const authorization = window.btoa(authorizationOrigin);
-			
-			const wsUrl = `wss://${host}${apiPath}?authorization=${authorization}&date=${date}&host=${host}`;
-
-			return new Promise((resolve, reject) => {
-				const ws = new WebSocket(wsUrl);
-				let result = '';
-				
-				// 30秒超时
-				const timeout = window.setTimeout(() => {
-					ws.close();
-					reject(new Error('讯飞星火自定义模型调用超时'));
-				}, 30000);
-
-				ws.onopen = () => {
-					this.debugLog('讯飞星火自定义模型 WebSocket 连接已建立');
-					
-					const params = {
-						header: {
-							app_id: this.settings.xunfeiAppId,
-							uid: 'user'
-						},
-						parameter: {
-							chat: {
-								domain: domain,
-								temperature: 0.5,
-								max_tokens: 2048
-							}
-						},
-						payload: {
-							message: {
-								text: [
-									{
-										role: 'user',
-										content: text
-									}
-								]
-							}
-						}
-					};
-					
-					ws.send(JSON.stringify(params));
-				};
+				apiPath = '/v2.1/chat';
+			} else if (modelId.includes('v3') || modelId === 'generalv3') {
+				apiPath = '/v3.1/chat';
+			} else if (modelId.includes('v3.5') || modelId === 'generalv3.5') {
+				apiPath = '/v3.5/chat';
+			} else if (modelId.includes('4.0') || modelId === '4.0Ultra') {
+				apiPath = '/v4.0/chat';
+			}
 
-				ws.onmessage = (event) => {
-					try {
-						const response = parseJsonResponse<XunfeiSparkResponse>(String(event.data));
-						this.debugLog('讯飞星火自定义模型响应:', response);
-						
-						if (response.header?.code !== 0) {
-							window.clearTimeout(timeout);
-							reject(new Error(`讯飞星火自定义模型错误: ${response.header.message}`));
-							return;
-						}
-						
-						if (response.payload && response.payload.choices && response.payload.choices.text && Array.isArray(response.payload.choices.text) && response.payload.choices.text.length > 0) {
-							const textItem = response.payload.choices.text[0];
-							if (textItem && textItem.content) {
-								result += textItem.content;
-							}
-						}
-						
-						if (response.header?.status === 2) {
-							window.clearTimeout(timeout);
-							ws.close();
-							resolve(result);
-						}
-					} catch (error) {
-						this.debugLog('讯飞星火自定义模型解析响应错误:', error);
-						window.clearTimeout(timeout);
-						reject(new Error('讯飞星火自定义模型响应解析失败'));
-					}
-				};
-				
-				ws.onerror = (error) => {
-					this.debugLog('讯飞星火自定义模型 WebSocket 错误:', error);
-					window.clearTimeout(timeout);
-					reject(new Error('讯飞星火自定义模型连接失败'));
-				};
-				
-				ws.onclose = (event) => {
-					this.debugLog('讯飞星火自定义模型 WebSocket 连接关闭:', event.code, event.reason);
-					window.clearTimeout(timeout);
-					if (!result) {
-						reject(new Error('讯飞星火自定义模型连接意外关闭'));
-					}
-				};
-			});
+			return await this.requestSparkChat('spark-api.xf-yun.com', apiPath, domain, text);
 			
 		} catch (error) {
 			this.debugLog('讯飞星火自定义模型调用错误:', error);
@@ -1942,137 +4526,88 @@ export default class VoiceAssistantPlugin extends Plugin {
 
 	/**
 	 * 讯飞在线语音合成
+	 * 合成完成后再播放，播放时长不计入请求超时；停止播放会同时取消尚未完成的合成
 	 */
 	private async xunfeiOnlineTTS(text: string): Promise<void> {
+		const controller = new AbortController();
+		this.ttsAbortController = controller;
 		try {
-			
-			// 构建 TTS 请求
-			const host = 'tts-api.xfyun.cn';
-			const path = '/v2/tts';
-			const apiKey = this.settings.xunfeiApiKey;
-			const apiSecret = this.settings.xunfeiApiSecret;
-			const appId = this.settings.xunfeiAppId;
-			
-			
-			// 生成鉴权参数 - 按照讯飞官方文档格式
-			const date = new Date().toUTCString();
-			const signatureOrigin = `host: ${host}\ndate: ${date}\nGET ${path} HTTP/1.1`;
-			const signature = await hmacSha256Base64(apiSecret, signatureOrigin);
-			const authorizationOrigin = `api_key="${apiKey}", algorithm="hmac-sha256", headers="host date request-line", signature="${signature}"`;
-			const authorization = encodeURIComponent(window.btoa(authorizationOrigin));
-			
-			const url = `wss://${host}${path}?authorization=${authorization}&date=${encodeURIComponent(date)}&host=${host}`;
-			
-			this.debugLog('讯飞TTS WebSocket URL:', url);
-			
-			return new Promise((resolve, reject) => {
-				const ws = new WebSocket(url);
-				const audioChunks: string[] = [];
-				let hasReceivedData = false;
-				
-				ws.onopen = () => {
-					this.debugLog('讯飞TTS WebSocket 连接已建立');
-					const params = {
-						common: { app_id: appId },
-						business: { 
-							aue: 'lame', // 使用MP3格式
-							auf: 'audio/L16;rate=16000', // PCM格式，16kHz采样率
-							vcn: this.settings.ttsVoice, 
-							speed: this.settings.ttsSpeed, 
-							volume: this.settings.ttsVolume, 
-							pitch: this.settings.ttsPitch, 
-							bgs: 0, // 背景音乐关闭
-							tte: 'UTF8' // 文本编码格式
-						},
-						data: { 
-							status: 2, 
-							text: encodeUtf8ToBase64(text)
-						}
-					};
-					this.debugLog('发送TTS参数:', JSON.stringify(params, null, 2));
-					ws.send(JSON.stringify(params));
-				};
-				
-				ws.onmessage = (event: MessageEvent) => {
-					try {
-						const data = parseJsonResponse<XunfeiTtsResponse>(String(event.data));
-						this.debugLog('收到TTS响应:', JSON.stringify(data, null, 2));
-						
-						if (data.code !== 0) {
-							this.debugLog('TTS错误代码:', data.code, '错误信息:', data.message);
-							reject(new Error(`TTS错误: ${data.code} - ${data.message}`));
-							return;
-						}
-						
-						if (data.data && data.data.audio) {
-							hasReceivedData = true;
-							audioChunks.push(data.data.audio);
-							this.debugLog('收到音频数据块，大小:', data.data.audio.length);
-						}
-						
-						if (data.data && data.data.status === 2) {
-							this.debugLog('TTS合成完成，音频块数量:', audioChunks.length);
-							ws.close();
-							if (audioChunks.length > 0) {
-								// 正确拼接Base64音频数据
-								const combinedAudio = audioChunks.join('');
-								this.debugLog('拼接后的音频数据长度:', combinedAudio.length);
-								
-								// 验证Base64格式
-								if (!combinedAudio || combinedAudio.length === 0) {
-									reject(new Error('音频数据为空'));
-									return;
-								}
-								
-								// 检查是否为有效的Base64字符串
-								if (!/^[A-Za-z0-9+/]*={0,2}$/.test(combinedAudio)) {
-									reject(new Error('接收到的音频数据格式无效'));
-									return;
-								}
-								
-								// 等待音频播放完成
-								this.playAudioFromBase64(combinedAudio).then(() => {
-									resolve();
-								}).catch((error) => {
-									this.debugLog('音频播放失败:', error);
-									reject(normalizeError(error, '音频播放失败'));
-								});
-							} else {
-								this.debugLog('没有收到音频数据');
-								resolve();
-							}
-						}
-					} catch (error) {
-						this.debugLog('解析TTS响应时出错:', error);
-						reject(normalizeError(error, '解析 TTS 响应失败'));
-					}
-				};
-				
-				ws.onerror = (error) => {
-					this.debugLog('TTS WebSocket错误:', error);
-					reject(new Error('TTS WebSocket连接错误'));
-				};
-				
-				ws.onclose = (event) => {
-					this.debugLog('TTS WebSocket连接关闭:', event.code, event.reason);
-					if (!hasReceivedData) {
-						reject(new Error(`TTS连接关闭，未获取到音频数据。关闭代码: ${event.code}, 原因: ${event.reason}`));
-					}
-				};
-			});
-			
+			const combinedAudio = await this.synthesizeXunfeiSpeech(text, {
+				vcn: this.settings.ttsVoice,
+				speed: this.settings.ttsSpeed,
+				volume: this.settings.ttsVolume,
+				pitch: this.settings.ttsPitch
+			}, controller.signal);
+
+			if (!combinedAudio) {
+				this.debugLog('没有收到音频数据');
+				return;
+			}
+			// 检查是否为有效的Base64字符串
+			if (!/^[A-Za-z0-9+/]*={0,2}$/.test(combinedAudio)) {
+				throw new Error('接收到的音频数据格式无效');
+			}
+
+			// 等待音频播放完成
+			await this.playAudioFromBase64(combinedAudio);
 		} catch (error) {
 			this.debugLog('讯飞在线 TTS 错误:', error);
 			throw normalizeError(error, '讯飞在线 TTS 调用失败');
+		} finally {
+			if (this.ttsAbortController === controller) {
+				this.ttsAbortController = null;
+			}
 		}
 	}
 
-
-
-
-
-
-
+	/**
+	 * 调用讯飞语音合成接口，返回拼接后的 MP3 Base64 数据
+	 */
+	private async synthesizeXunfeiSpeech(
+		text: string,
+		voice: { vcn: string; speed: number; volume: number; pitch: number },
+		signal?: AbortSignal,
+		retries?: number,
+		timeoutMs = 15000
+	): Promise<string> {
+		const appId = this.settings.xunfeiAppId;
+		const audioChunks: string[] = [];
+		return requestXunfeiSocket<XunfeiTtsResponse, string>({
+			service: 'tts',
+			createUrl: () => this.createXunfeiAuthUrl('tts-api.xfyun.cn', '/v2/tts'),
+			timeoutMs,
+			retries,
+			signal,
+			log: (message, ...args) => this.debugLog(message, ...args),
+			onOpen: (ws) => {
+				ws.send(JSON.stringify({
+					common: { app_id: appId },
+					business: {
+						aue: 'lame', // 使用MP3格式
+						auf: 'audio/L16;rate=16000', // PCM格式，16kHz采样率
+						...voice,
+						bgs: 0, // 背景音乐关闭
+						tte: 'UTF8' // 文本编码格式
+					},
+					data: {
+						status: 2,
+						text: encodeUtf8ToBase64(text)
+					}
+				}));
+			},
+			readStatus: (data) => ({ code: data.code, message: data.message }),
+			onMessage: (data) => {
+				if (data.data?.audio) {
+					audioChunks.push(data.data.audio);
+				}
+				if (data.data?.status === 2) {
+					this.debugLog('TTS合成完成，音频块数量:', audioChunks.length);
+					return { done: true, value: audioChunks.join('') };
+				}
+				return { done: false };
+			}
+		});
+	}
 
 	/**
 	 * 播放Base64编码的音频数据
@@ -2100,19 +4635,13 @@ export default class VoiceAssistantPlugin extends Plugin {
 				// 将base64转换为ArrayBuffer (MP3格式)
 				this.debugLog('Base64前50字符:', cleanBase64.substring(0, 50));
 				
-				let binaryString: string;
+				let mp3Data: Uint8Array<ArrayBuffer>;
 				try {
-					binaryString = window.atob(cleanBase64);
+					mp3Data = base64ToBytes(cleanBase64);
 				} catch (decodeError) {
 					throw new Error(`Base64解码失败: ${getErrorMessage(decodeError)}`);
 				}
 				
-				// 直接创建MP3音频数据
-				const mp3Data = new Uint8Array(binaryString.length);
-				for (let i = 0; i < binaryString.length; i++) {
-					mp3Data[i] = binaryString.charCodeAt(i);
-				}
-				
 				this.debugLog('MP3音频数据转换完成，字节长度:', mp3Data.length);
 				
 				// 创建MP3音频Blob
@@ -2140,15 +4669,18 @@ export default class VoiceAssistantPlugin extends Plugin {
 					this.debugLog('音频开始播放');
 					this.updateStatusFloat('开始播放语音', 'info');
 					this.isPlaying = true;
+					this.startEchoReference(audio);
 				};
 				
 				audio.onpause = () => {
 					this.updateStatusFloat('音频已暂停', 'info');
 					this.isPlaying = false;
+					this.stopEchoReference();
 				};
 				
 				audio.onended = () => {
 					this.debugLog('音频播放结束');
+					this.stopEchoReference();
 					this.updateStatusFloat('语音播放完成', 'success');
 					URL.revokeObjectURL(audioUrl);
 					this.currentAudio = null;
@@ -2159,6 +4691,7 @@ export default class VoiceAssistantPlugin extends Plugin {
 				
 				audio.onerror = (error) => {
 					this.debugLog('音频播放错误:', error);
+					this.stopEchoReference();
 					this.updateStatusFloat('音频播放失败', 'error');
 					URL.revokeObjectURL(audioUrl);
 					this.currentAudio = null;
@@ -2201,6 +4734,50 @@ export default class VoiceAssistantPlugin extends Plugin {
 		});
 	}
 
+	/**
+	 * 采集正在播放的 TTS 音频作为语音打断的回声参考信号，仅在启用语音打断时进行
+	 */
+	private startEchoReference(audio: HTMLAudioElement): void {
+		this.stopEchoReference();
+		if (!this.settings.enableVoiceInterruption) {
+			return;
+		}
+		// captureStream 只复制播放中的音频，不影响扬声器输出
+		const element = audio as HTMLAudioElement & { captureStream?: () => MediaStream };
+		if (!element.captureStream) {
+			this.debugLog('当前环境无法采集播放中的音频，语音打断不做回声判断');
+			return;
+		}
+
+		let stopCapture: (() => void) | null = null;
+		let stopped = false;
+		this.stopEchoReferenceCapture = () => {
+			stopped = true;
+			stopCapture?.();
+		};
+		startPcmFrameCapture(element.captureStream(), VAD_CHUNK_SAMPLES, frame => {
+			this.echoGate.addReference(measureRms(pcm16ToFloat32(frame)), performance.now());
+		})
+			.then(stop => {
+				if (stopped) {
+					stop();
+				} else {
+					stopCapture = stop;
+				}
+			})
+			.catch(error => {
+				this.debugLog('采集回声参考信号失败:', error);
+			});
+	}
+
+	/**
+	 * 停止采集回声参考信号
+	 */
+	private stopEchoReference(): void {
+		this.stopEchoReferenceCapture?.();
+		this.stopEchoReferenceCapture = null;
+	}
+
 	/**
 	 * 将Base64音频保存到 Vault
 	 */
@@ -2219,13 +4796,7 @@ export default class VoiceAssistantPlugin extends Plugin {
 			const filePath = `${this.settings.audioSavePath}/${fileName}`;
 			
 			// 将base64转换为ArrayBuffer
-			const binaryString = window.atob(base64Audio);
-			const bytes = new Uint8Array(binaryString.length);
-			for (let i = 0; i < binaryString.length; i++) {
-				bytes[i] = binaryString.charCodeAt(i);
-			}
-			
-			await this.app.vault.createBinary(filePath, bytes.buffer);
+			await this.app.vault.createBinary(filePath, base64ToBytes(base64Audio).buffer);
 			this.debugLog(`音频已保存到: ${filePath}`);
 			
 		} catch (error) {
@@ -2298,7 +4869,7 @@ export default class VoiceAssistantPlugin extends Plugin {
 			this.isListening = true;
 			
 			// 开始持续监听循环
-			this.startWakeListeningLoop();
+			await this.startWakeListeningLoop();
 			
 		} catch (error) {
 			this.debugLog('启动在线语音唤醒失败:', error);
@@ -2308,87 +4879,75 @@ export default class VoiceAssistantPlugin extends Plugin {
 	}
 
 	/**
-	 * 唤醒监听循环
+	 * 唤醒监听循环：持续分析麦克风音频，只把检测到语音的片段送去识别唤醒词
 	 */
-	private startWakeListeningLoop(): void {
+	private async startWakeListeningLoop(): Promise<void> {
 		if (!this.isListening || !this.wakeStream) {
 			return;
 		}
 
-		try {
-			// 创建新的MediaRecorder
-			this.wakeMediaRecorder = new MediaRecorder(this.wakeStream);
-			let audioChunks: Blob[] = [];
-			
-			this.wakeMediaRecorder.ondataavailable = (event) => {
-				if (event.data.size > 0) {
-					audioChunks.push(event.data);
-				}
-			};
-			
-			this.wakeMediaRecorder.onstop = async () => {
-				if (audioChunks.length > 0) {
-					const audioBlob = new Blob(audioChunks, { type: 'audio/wav' });
-					try {
-						const text = await this.speechToTextForWakeup(audioBlob);
-						this.debugLog('唤醒监听识别到:', text);
-						
-						// 检查是否包含唤醒词
-						const hasWakeWord = this.settings.wakeWords.some(word => 
-							text.toLowerCase().includes(word.toLowerCase())
-						);
-						
-						if (hasWakeWord) {
-							this.debugLog('检测到唤醒词:', text);
-							await this.onWakeWordDetected();
-						}
-					} catch (error) {
-						this.debugLog('唤醒监听识别错误:', error);
-					}
-				}
-				
-				// 继续下一轮监听
-				if (this.isListening) {
-					window.setTimeout(() => {
-						this.startWakeListeningLoop();
-					}, 100);
+		const vad = this.createVoiceActivityDetector(this.wakeStream);
+		let recognizing = false;
+		const segmenter = new UtteranceSegmenter({
+			preRollSamples: ASR_SAMPLE_RATE * 0.3,
+			silenceWindows: 1, // 句尾停顿由 VAD 的拖尾保持处理
+			maxWindows: Math.ceil(this.settings.wakeDetectionInterval / VAD_FRAME_MS),
+			onUtterance: pcm => {
+				// 上一段仍在识别时丢弃，避免请求堆积
+				if (recognizing || !this.isListening) {
+					return;
 				}
-			};
+				recognizing = true;
+				const wav = pcmToWav(new Uint8Array(pcm.buffer), ASR_SAMPLE_RATE, 1, 16);
+				void this.recognizeWakeWord(new Blob([wav], { type: 'audio/wav' })).finally(() => {
+					recognizing = false;
+				});
+			}
+		});
 
-			this.wakeMediaRecorder.onerror = (event) => {
-				this.debugLog('唤醒监听录音错误:', event);
-				// 重新开始监听
-				if (this.isListening) {
-					window.setTimeout(() => {
-						this.startWakeListeningLoop();
-					}, 1000);
-				}
-			};
-			
-			// 开始录音
-			this.wakeMediaRecorder.start();
+		try {
+			const stopCapture = await startPcmFrameCapture(this.wakeStream, VAD_CHUNK_SAMPLES, frame => {
+				segmenter.push(frame, vad.process(pcm16ToFloat32(frame)));
+			});
+			if (!this.isListening) {
+				stopCapture();
+				return;
+			}
+			this.stopWakeCapture = stopCapture;
+		} catch (error) {
+			this.debugLog('唤醒监听采集错误:', error);
+			new Notice(`无法启动音频采集: ${getErrorMessage(error)}`);
+			this.stopWakeListening();
+		}
+	}
+
+	/**
+	 * 识别一段语音并检查是否包含唤醒词
+	 */
+	private async recognizeWakeWord(audioBlob: Blob): Promise<void> {
+		try {
+			const text = await this.speechToTextForWakeup(audioBlob);
+			this.debugLog('唤醒监听识别到:', text);
 			
-			// 根据配置的间隔时间停止录音进行识别
-			window.setTimeout(() => {
-				if (this.wakeMediaRecorder && this.wakeMediaRecorder.state === 'recording') {
-					this.wakeMediaRecorder.stop();
-				}
-			}, this.settings.wakeDetectionInterval);
+			// 检查是否包含唤醒词
+			const hasWakeWord = this.settings.wakeWords.some(word => 
+				text.toLowerCase().includes(word.toLowerCase())
+			);
 			
+			if (hasWakeWord && this.isListening) {
+				this.debugLog('检测到唤醒词:', text);
+				await this.onWakeWordDetected();
+			}
 		} catch (error) {
-			this.debugLog('唤醒监听循环错误:', error);
-			// 重新开始监听
-			if (this.isListening) {
-				window.setTimeout(() => {
-					this.startWakeListeningLoop();
-				}, 1000);
+			this.debugLog('唤醒监听识别错误:', error);
+			// 鉴权失败或服务量用尽时停止后台监听，避免持续请求却没有任何提示
+			if (error instanceof XunfeiError && error.isFatal) {
+				new Notice(error.message, 10000);
+				this.stopListening();
 			}
 		}
 	}
 
-
-
-
 	/**
 	 * 创建新的唤醒会话
 	 */
@@ -2495,12 +5054,10 @@ export default class VoiceAssistantPlugin extends Plugin {
 	private stopWakeListening(): void {
 		this.isListening = false;
 		
-		// 停止在线语音唤醒的MediaRecorder
-		if (this.wakeMediaRecorder) {
-			if (this.wakeMediaRecorder.state === 'recording') {
-				this.wakeMediaRecorder.stop();
-			}
-			this.wakeMediaRecorder = null;
+		// 停止在线语音唤醒的音频采集
+		if (this.stopWakeCapture) {
+			this.stopWakeCapture();
+			this.stopWakeCapture = null;
 		}
 		
 		// 停止音频流
@@ -2528,7 +5085,7 @@ export default class VoiceAssistantPlugin extends Plugin {
 		try {
 			new Notice('开始测试在线 ASR，请说话...');
 			const audioBlob = await this.startRecording();
-			const result = await this.xunfeiOnlineASR(audioBlob);
+			const result = await this.speechToText(audioBlob, 'ASR 测试');
 			new Notice(`在线 ASR 测试结果：${result}`);
 		} catch (error) {
 			const errorMessage = error instanceof Error ? error.message : String(error);
@@ -2558,59 +5115,6 @@ export default class VoiceAssistantPlugin extends Plugin {
 
 
 
-	/**
-	 * 将PCM音频数据转换为WAV格式
-	 * @param pcmData PCM音频数据
-	 * @param sampleRate 采样率
-	 * @param channels 声道数
-	 * @param bitsPerSample 每样本位数
-	 * @returns WAV格式的音频数据
-	 */
-	private pcmToWav(pcmData: Uint8Array, sampleRate: number, channels: number, bitsPerSample: number): Uint8Array {
-		const dataLength = pcmData.length;
-		const buffer = new ArrayBuffer(44 + dataLength);
-		const view = new DataView(buffer);
-		
-		// WAV文件头
-		const writeString = (offset: number, string: string) => {
-			for (let i = 0; i < string.length; i++) {
-				view.setUint8(offset + i, string.charCodeAt(i));
-			}
-		};
-		
-		// RIFF标识符
-		writeString(0, 'RIFF');
-		// 文件长度
-		view.setUint32(4, 36 + dataLength, true);
-		// WAVE标识符
-		writeString(8, 'WAVE');
-		// fmt子块标识符
-		writeString(12, 'fmt ');
-		// fmt子块长度
-		view.setUint32(16, 16, true);
-		// 音频格式 (PCM = 1)
-		view.setUint16(20, 1, true);
-		// 声道数
-		view.setUint16(22, channels, true);
-		// 采样率
-		view.setUint32(24, sampleRate, true);
-		// 字节率
-		view.setUint32(28, sampleRate * channels * bitsPerSample / 8, true);
-		// 块对齐
-		view.setUint16(32, channels * bitsPerSample / 8, true);
-		// 每样本位数
-		view.setUint16(34, bitsPerSample, true);
-		// data子块标识符
-		writeString(36, 'data');
-		// data子块长度
-		view.setUint32(40, dataLength, true);
-		
-		// 复制PCM数据
-		const wavData = new Uint8Array(buffer);
-		wavData.set(pcmData, 44);
-		
-		return wavData;
-	}
 
 	/**
 	 * 测试所有朗读人
@@ -2677,82 +5181,13 @@ export default class VoiceAssistantPlugin extends Plugin {
 			return false;
 		}
 
-		// 鉴权需要异步 Web Crypto，因此在 Promise 执行器之前完成。
-		const host = 'tts-api.xfyun.cn';
-		const path = '/v2/tts';
-		const date = new Date().toUTCString();
-			
-		const signatureOrigin = `host: ${host}\ndate: ${date}\nGET ${path} HTTP/1.1`;
-		const signature = await hmacSha256Base64(xunfeiApiSecret, signatureOrigin);
-		const authorizationOrigin = `api_key="${xunfeiApiKey}", algorithm="hmac-sha256", headers="host date request-line", signature="${signature}"`;
-		const authorization = encodeURIComponent(window.btoa(authorizationOrigin));
-			
-		const url = `wss://${host}${path}?authorization=${authorization}&date=${encodeURIComponent(date)}&host=${host}`;
-
-		return new Promise((resolve) => {
-			
-			const ws = new WebSocket(url);
-			let testResult = false;
-			
-			// 设置超时
-			const timeout = window.setTimeout(() => {
-				ws.close();
-				resolve(false);
-			}, 5000);
-			
-			ws.onopen = () => {
-				const params = {
-					common: { app_id: xunfeiAppId },
-					business: { 
-						aue: 'lame',
-						auf: 'audio/L16;rate=16000', 
-						vcn: voiceId, 
-						speed: 50, 
-						volume: 50, 
-						pitch: 50, 
-						bgs: 0,
-						tte: 'UTF8'
-					},
-					data: { 
-						status: 2, 
-						text: encodeUtf8ToBase64(text)
-					}
-				};
-				ws.send(JSON.stringify(params));
-			};
-			
-			ws.onmessage = (event: MessageEvent) => {
-				try {
-					const data = parseJsonResponse<XunfeiTtsResponse>(String(event.data));
-					if (data.code === 0) {
-						testResult = true;
-						if (data.data && data.data.status === 2) {
-							window.clearTimeout(timeout);
-							ws.close();
-							resolve(true);
-						}
-					} else {
-						window.clearTimeout(timeout);
-						ws.close();
-						resolve(false);
-					}
-				} catch {
-					window.clearTimeout(timeout);
-					ws.close();
-					resolve(false);
-				}
-			};
-			
-			ws.onerror = () => {
-				window.clearTimeout(timeout);
-				resolve(false);
-			};
-			
-			ws.onclose = () => {
-				window.clearTimeout(timeout);
-				resolve(testResult);
-			};
-		});
+		try {
+			await this.synthesizeXunfeiSpeech(text, { vcn: voiceId, speed: 50, volume: 50, pitch: 50 }, undefined, 0, 5000);
+			return true;
+		} catch (error) {
+			this.debugLog(`朗读人 ${voiceId} 测试失败:`, getErrorMessage(error));
+			return false;
+		}
 	}
 
 	/**
@@ -2825,95 +5260,19 @@ export default class VoiceAssistantPlugin extends Plugin {
 			if (ttsMode === 'online') {
 				this.updateStatusFloat('开始测试在线TTS连接...', 'info');
 				
-				// 构建连接参数
-				const host = 'tts-api.xfyun.cn';
-				const path = '/v2/tts';
-				const date = new Date().toUTCString();
-				
-				this.updateStatusFloat(`连接地址: wss://${host}${path}`, 'info');
-				this.updateStatusFloat(`请求时间: ${date}`, 'info');
-				
-				// 生成签名
-				const signatureOrigin = `host: ${host}\ndate: ${date}\nGET ${path} HTTP/1.1`;
-				const signature = await hmacSha256Base64(xunfeiApiSecret, signatureOrigin);
-				const authorizationOrigin = `api_key="${xunfeiApiKey}", algorithm="hmac-sha256", headers="host date request-line", signature="${signature}"`;
-				const authorization = encodeURIComponent(window.btoa(authorizationOrigin));
-				
-				const url = `wss://${host}${path}?authorization=${authorization}&date=${encodeURIComponent(date)}&host=${host}`;
-				
-				this.updateStatusFloat('正在建立WebSocket连接...', 'info');
-				
-				// 测试连接
-				const ws = new WebSocket(url);
-				let connectionSuccess = false;
-				
-				ws.onopen = () => {
-					connectionSuccess = true;
-					this.updateStatusFloat('WebSocket连接成功！', 'success');
-					
-					// 发送测试请求
-					const params = {
-						common: { app_id: xunfeiAppId },
-						business: { 
-							aue: 'lame',
-							auf: 'audio/L16;rate=16000', 
-							vcn: this.settings.ttsVoice, 
-							speed: this.settings.ttsSpeed, 
-							volume: this.settings.ttsVolume, 
-							pitch: this.settings.ttsPitch, 
-							bgs: 0,
-							tte: 'UTF8'
-						},
-						data: { 
-							status: 2, 
-							text: encodeUtf8ToBase64(testText)
-						}
-					};
-					
-					this.updateStatusFloat('发送TTS请求...', 'info');
-					ws.send(JSON.stringify(params));
-				};
-				
-				ws.onmessage = (event: MessageEvent) => {
-					try {
-						const data = parseJsonResponse<XunfeiTtsResponse>(String(event.data));
-						this.updateStatusFloat(`收到响应: code=${data.code}`, data.code === 0 ? 'success' : 'error');
-						
-						if (data.code !== 0) {
-							this.updateStatusFloat(`错误信息: ${data.message}`, 'error');
-						} else if (data.data && data.data.audio) {
-							this.updateStatusFloat(`收到音频数据: ${data.data.audio.length}字符`, 'success');
-						}
-						
-						if (data.data && data.data.status === 2) {
-							this.updateStatusFloat('TTS合成完成！', 'success');
-							ws.close();
-						}
-					} catch (error) {
-						this.updateStatusFloat('解析响应失败: ' + (error instanceof Error ? error.message : String(error)), 'error');
-					}
-				};
-				
-				ws.onerror = (error) => {
-					this.updateStatusFloat('WebSocket连接错误', 'error');
-					this.debugLog('TTS WebSocket 错误:', error);
-				};
-				
-				ws.onclose = (event) => {
-					if (!connectionSuccess) {
-						this.updateStatusFloat(`连接失败: code=${event.code}, reason=${event.reason}`, 'error');
-					} else {
-						this.updateStatusFloat('连接已关闭', 'info');
-					}
-				};
-				
-				// 设置超时
-				window.setTimeout(() => {
-					if (!connectionSuccess) {
-						this.updateStatusFloat('连接超时', 'error');
-						ws.close();
-					}
-				}, 10000);
+				this.updateStatusFloat('连接地址: wss://tts-api.xfyun.cn/v2/tts', 'info');
+				this.updateStatusFloat('发送TTS请求...', 'info');
+
+				// 与正式合成走同一请求流程（10 秒空闲超时），不重试以便直接看到首次失败的原因
+				const audio = await this.synthesizeXunfeiSpeech(testText, {
+					vcn: this.settings.ttsVoice,
+					speed: this.settings.ttsSpeed,
+					volume: this.settings.ttsVolume,
+					pitch: this.settings.ttsPitch
+				}, undefined, 0, 10000);
+
+				this.updateStatusFloat(`收到音频数据: ${audio.length}字符`, audio ? 'success' : 'warning');
+				this.updateStatusFloat('TTS合成完成！', 'success');
 				
 			}
 			
@@ -2991,6 +5350,10 @@ export default class VoiceAssistantPlugin extends Plugin {
 		const content = createDiv();
 		content.className = 'voice-assistant-content';
 
+		// 流式识别的实时预览区域（仅在有中间结果时显示）
+		const livePreview = createDiv();
+		livePreview.className = 'voice-assistant-live-preview is-hidden';
+
 		// 创建控制按钮区域
 		const controls = createDiv();
 		controls.className = 'voice-assistant-controls';
@@ -3025,9 +5388,39 @@ export default class VoiceAssistantPlugin extends Plugin {
 		controls.appendChild(endDialogBtn);
 		controls.appendChild(stopDictationBtn);
 
+		// 会议记录的发言人按钮和结束按钮（仅在会议记录中显示，开始时按设置生成）
+		const meetingControls = createDiv();
+		meetingControls.className = 'voice-assistant-meeting-controls is-hidden';
+		controls.appendChild(meetingControls);
+
+		// 按住说话按钮（仅在启用按住说话时显示），指针离开按钮也视为松开
+		const pushToTalkButtons: Array<{ target: 'dictation' | 'conversation'; text: string }> = [
+			{ target: 'dictation', text: '🎙️ 按住听写' },
+			{ target: 'conversation', text: '💬 按住对话' }
+		];
+		for (const { target, text } of pushToTalkButtons) {
+			const button = createEl('button');
+			button.className = `voice-assistant-control-button push-to-talk-btn push-to-talk-${target}`;
+			button.textContent = text;
+			button.toggleClass('is-hidden', !this.settings.pushToTalkEnabled);
+			this.registerDomEvent(button, 'pointerdown', (event: PointerEvent) => {
+				event.preventDefault();
+				void this.pressPushToTalk(target);
+			});
+			for (const type of ['pointerup', 'pointerleave', 'pointercancel'] as const) {
+				this.registerDomEvent(button, type, () => {
+					if (this.pushToTalkSession?.target === target) {
+						void this.releasePushToTalk();
+					}
+				});
+			}
+			controls.appendChild(button);
+		}
+
 		// 组装浮窗
 		this.statusFloat.appendChild(header);
 		this.statusFloat.appendChild(content);
+		this.statusFloat.appendChild(livePreview);
 		this.statusFloat.appendChild(controls);
 
 		// 添加到页面
@@ -3128,6 +5521,22 @@ export default class VoiceAssistantPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * 更新流式识别实时预览，传入空字符串时隐藏预览区域
+	 */
+	private updateLivePreview(text: string): void {
+		if (!this.statusFloat) return;
+
+		const livePreview = this.statusFloat.querySelector('.voice-assistant-live-preview');
+		if (!livePreview) return;
+
+		livePreview.textContent = text;
+		livePreview.toggleClass('is-hidden', !text);
+		if (text) {
+			this.showStatusFloat();
+		}
+	}
+
 	/**
 	 * 更新唤醒状态指示器
 	 */
@@ -3171,11 +5580,14 @@ export default class VoiceAssistantPlugin extends Plugin {
 	 * 停止TTS播放
 	 */
 	private stopTTS(): void {
+		this.ttsAbortController?.abort();
+		this.ttsAbortController = null;
 		if (this.currentAudio) {
 			this.currentAudio.pause();
 			this.currentAudio.currentTime = 0;
 			this.currentAudio = null;
 		}
+		this.stopEchoReference();
 		this.isPlaying = false;
 		this.updateStatusFloat('音频播放已停止', 'info');
 		this.updatePlayPauseButton('⏸️ 暂停');
@@ -3322,6 +5734,74 @@ export default class VoiceAssistantPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * 按设置显示或隐藏状态浮窗中的按住说话按钮
+	 */
+	updatePushToTalkButtons(): void {
+		this.statusFloat?.querySelectorAll('.push-to-talk-btn').forEach(button => {
+			button.toggleClass('is-hidden', !this.settings.pushToTalkEnabled);
+		});
+	}
+
+	/**
+	 * 标记按住说话状态：按钮高亮，浮窗标题显示正在录音
+	 */
+	private setPushToTalkActive(target: 'dictation' | 'conversation', active: boolean): void {
+		if (!this.statusFloat) return;
+		this.statusFloat.querySelector(`.push-to-talk-${target}`)?.toggleClass('is-pressed', active);
+		const title = this.statusFloat.querySelector('.voice-assistant-status-title');
+		if (title) {
+			title.textContent = active ? '语音助手 - 按住说话中' : '语音助手';
+			title.toggleClass('is-active', active);
+		}
+	}
+
+	/**
+	 * 显示会议记录控制：每个发言人一个按钮，以及结束会议按钮
+	 */
+	private showMeetingControls(): void {
+		const container = this.statusFloat?.querySelector<HTMLElement>('.voice-assistant-meeting-controls');
+		if (!container) return;
+		container.empty();
+		for (const speaker of this.settings.meetingSpeakers) {
+			const button = container.createEl('button', {
+				cls: 'voice-assistant-control-button meeting-speaker-btn',
+				text: speaker
+			});
+			button.onclick = () => this.setMeetingSpeaker(speaker);
+		}
+		const stopButton = container.createEl('button', {
+			cls: 'voice-assistant-control-button',
+			text: '⏹️ 结束会议'
+		});
+		stopButton.onclick = () => this.meetingSession?.stop();
+		container.removeClass('is-hidden');
+		this.updateMeetingClock();
+	}
+
+	/** 在浮窗标题中显示会议已进行的时长 */
+	private updateMeetingClock(): void {
+		const title = this.statusFloat?.querySelector('.voice-assistant-status-title');
+		if (!title || !this.meetingSession) return;
+		title.textContent = `语音助手 - 会议记录 ${formatTimestamp((Date.now() - this.meetingSession.startedAt) / 1000)}`;
+		title.addClass('is-active');
+	}
+
+	/**
+	 * 隐藏会议记录控制并恢复浮窗标题
+	 */
+	private hideMeetingControls(): void {
+		if (!this.statusFloat) return;
+		const container = this.statusFloat.querySelector<HTMLElement>('.voice-assistant-meeting-controls');
+		container?.empty();
+		container?.addClass('is-hidden');
+		const title = this.statusFloat.querySelector('.voice-assistant-status-title');
+		if (title) {
+			title.textContent = '语音助手';
+			title.removeClass('is-active');
+		}
+	}
+
 	/**
 	 * 显示听写控制界面
 	 */
@@ -3384,52 +5864,44 @@ export default class VoiceAssistantPlugin extends Plugin {
 				}
 			});
 			
-			// 创建音频分析器检测音量
-			const audioContext = createAudioContext();
-			const analyser = audioContext.createAnalyser();
-			const source = audioContext.createMediaStreamSource(this.backgroundStream);
-			source.connect(analyser);
-			
-			analyser.fftSize = 256;
-			const bufferLength = analyser.frequencyBinCount;
-			const dataArray = new Uint8Array(bufferLength);
-			
-			let consecutiveDetections = 0;
-			const requiredDetections = 3; // 需要连续检测到3次才触发
-			
-			// 检测音量变化
-			const checkVolume = () => {
-				if (!this.backgroundVoiceDetection) return;
-				
-				analyser.getByteFrequencyData(dataArray);
-				const average = dataArray.reduce((a, b) => a + b) / bufferLength;
-				
-				// 如果检测到语音（音量超过阈值）
-				if (average > this.settings.voiceDetectionThreshold) {
-					consecutiveDetections++;
-					this.debugLog(`语音检测 ${consecutiveDetections}/${requiredDetections}，音量: ${average.toFixed(1)}`);
-					
-					if (consecutiveDetections >= requiredDetections) {
-						this.debugLog('连续检测到语音输入，停止TTS并开始新对话');
-						this.handleVoiceInterruption();
-						return;
-					}
-				} else {
-					// 重置连续检测计数
-					if (consecutiveDetections > 0) {
-						consecutiveDetections = 0;
+			// 连续语音持续达到 3 个检测间隔才触发打断，过滤短促噪声
+			const onsetMs = this.settings.voiceDetectionSensitivity * 3;
+			const vad = this.createVoiceActivityDetector(this.backgroundStream, { onsetMs });
+			// 同样时长内每一帧都要超出播报回声能解释的能量，避免助手自己的声音触发打断
+			const confirmFrames = Math.ceil(onsetMs / VAD_FRAME_MS);
+			let nearEndFrames = 0;
+			let ignoringEcho = false;
+			const stopCapture = await startPcmFrameCapture(this.backgroundStream, VAD_CHUNK_SAMPLES, frame => {
+				const samples = pcm16ToFloat32(frame);
+				const speaking = vad.process(samples);
+				if (!speaking) {
+					ignoringEcho = false;
+				}
+				nearEndFrames = this.echoGate.isNearEnd(measureRms(samples), performance.now()) ? nearEndFrames + 1 : 0;
+				if (!this.backgroundVoiceDetection || !speaking) {
+					return;
+				}
+				if (nearEndFrames < confirmFrames) {
+					if (!ignoringEcho) {
+						ignoringEcho = true;
+						this.debugLog(`语音与播报回声相近，忽略（回声增益 ${this.echoGate.echoCoupling.toFixed(2)}）`);
 					}
+					return;
 				}
-				
-				// 继续检测
-				this.voiceDetectionTimer = window.setTimeout(checkVolume, this.settings.voiceDetectionSensitivity);
-			};
-			
-			checkVolume();
+				this.debugLog(`检测到语音输入，能量: ${vad.features?.energy.toFixed(4)}，停止TTS并开始新对话`);
+				this.handleVoiceInterruption();
+			});
+			if (!this.backgroundVoiceDetection) {
+				stopCapture();
+				return;
+			}
+			this.stopBackgroundCapture = stopCapture;
 			
 		} catch (error) {
 			this.debugLog('启动背景语音检测失败:', error);
 			this.backgroundVoiceDetection = false;
+			this.backgroundStream?.getTracks().forEach(track => track.stop());
+			this.backgroundStream = null;
 		}
 	}
 	
@@ -3442,10 +5914,10 @@ export default class VoiceAssistantPlugin extends Plugin {
 		this.debugLog('停止背景语音检测');
 		this.backgroundVoiceDetection = false;
 		
-		// 清除定时器
-		if (this.voiceDetectionTimer) {
-			window.clearTimeout(this.voiceDetectionTimer);
-			this.voiceDetectionTimer = null;
+		// 停止音频采集
+		if (this.stopBackgroundCapture) {
+			this.stopBackgroundCapture();
+			this.stopBackgroundCapture = null;
 		}
 		
 		// 停止音频流
@@ -3635,13 +6107,21 @@ export default class VoiceAssistantPlugin extends Plugin {
 			
 			// 语音转文字
 			this.updateStatusFloat('正在识别语音...');
-			const userText = await this.speechToText(finalAudioBlob);
+			let userText: string;
+			try {
+				userText = await this.speechToText(finalAudioBlob, '对话');
+			} catch (error) {
+				await this.captureConversationRecording(finalAudioBlob, error);
+				this.startSilenceDetection();
+				return;
+			}
 			
-			if (!userText || userText.trim() === '' || userText === '未识别到语音内容') {
+			if (!userText.trim()) {
 				this.updateStatusFloat('未识别到有效语音，请重试', 'warning');
 				this.startSilenceDetection();
 				return;
 			}
+			userText = this.normalizeConversationText(userText);
 			
 			this.debugLog('用户输入:', userText);
 			
@@ -3878,6 +6358,277 @@ export default class VoiceAssistantPlugin extends Plugin {
 	}
 }
 
+/** 从仓库中的音频附件里选择要转写的文件 */
+class AudioFileSuggestModal extends FuzzySuggestModal<TFile> {
+	constructor(app: App, private readonly files: TFile[], private readonly onChoose: (file: TFile) => void) {
+		super(app);
+		this.setPlaceholder('选择要转写的音频文件');
+	}
+
+	getItems(): TFile[] {
+		return this.files;
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile): void {
+		this.onChoose(file);
+	}
+}
+
+/** 听写润色结果的逐段对比：左侧原文、右侧润色结果，用户逐段选择是否采用 */
+class DictationPolishModal extends Modal {
+	private readonly accepted: boolean[];
+	private applied = false;
+
+	constructor(
+		app: App,
+		private readonly title: string,
+		private readonly segments: string[],
+		private readonly paragraphs: PolishParagraph[],
+		private readonly onApply: (accepted: boolean[]) => void,
+		private readonly onClosed: () => void
+	) {
+		super(app);
+		this.accepted = paragraphs.map(() => true);
+	}
+
+	onOpen(): void {
+		this.titleEl.setText(this.title);
+		this.render();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+		if (!this.applied) {
+			new Notice('已保留原始听写内容');
+		}
+		this.onClosed();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('voice-assistant-polish');
+
+		this.paragraphs.forEach((paragraph, index) => {
+			const original = getParagraphOriginal(this.segments, paragraph);
+			new Setting(contentEl)
+				.setName(`第 ${index + 1} 段`)
+				.setDesc(original === paragraph.text ? '无修改' : '')
+				.addToggle(toggle => toggle
+					.setTooltip('采用润色结果')
+					.setValue(this.accepted[index])
+					.onChange(value => {
+						this.accepted[index] = value;
+					}));
+
+			const row = contentEl.createDiv({ cls: 'voice-assistant-polish-row' });
+			const before = row.createDiv({ cls: 'voice-assistant-polish-column' });
+			const after = row.createDiv({ cls: 'voice-assistant-polish-column' });
+			for (const part of diffText(original, paragraph.text)) {
+				if (part.type !== 'insert') {
+					before.createSpan({ text: part.text, cls: part.type === 'delete' ? 'is-deleted' : undefined });
+				}
+				if (part.type !== 'delete') {
+					after.createSpan({ text: part.text, cls: part.type === 'insert' ? 'is-inserted' : undefined });
+				}
+			}
+		});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('全部接受')
+				.onClick(() => {
+					this.accepted.fill(true);
+					this.render();
+				}))
+			.addButton(button => button
+				.setButtonText('全部拒绝')
+				.onClick(() => {
+					this.accepted.fill(false);
+					this.render();
+				}))
+			.addButton(button => button
+				.setButtonText('应用')
+				.setCta()
+				.onClick(() => {
+					this.applied = true;
+					this.onApply(this.accepted.slice());
+					this.close();
+				}));
+	}
+}
+
+/** 讯飞语音听写支持的常用语种；小语种需在讯飞控制台单独开通。 */
+const ASR_LANGUAGE_OPTIONS: Record<string, string> = {
+	zh_cn: '中文',
+	en_us: '英文',
+	ja_jp: '日语',
+	ko_kr: '韩语',
+	'ru-ru': '俄语',
+	fr_fr: '法语',
+	es_es: '西班牙语'
+};
+
+/** 讯飞语音听写支持的中文方言/口音。 */
+const ASR_ACCENT_OPTIONS: Record<string, string> = {
+	mandarin: '普通话',
+	cantonese: '粤语',
+	lmz: '四川话',
+	henanese: '河南话'
+};
+
+/** 校准各阶段的录音时长（毫秒） */
+const CALIBRATION_SILENCE_MS = 3000;
+const CALIBRATION_SPEECH_MS = 5000;
+const CALIBRATION_SENTENCE = '今天天气不错，我们九点在会议室讨论下周的项目进度。';
+
+/** 把 RMS 能量换算为电平表宽度：-60dB 到 0dB 对应 0% 到 100% */
+function levelToPercent(level: number): number {
+	const db = 20 * Math.log10(Math.max(level, 1e-6));
+	return Math.min(100, Math.max(0, (db + 60) / 60 * 100));
+}
+
+/**
+ * 麦克风校准向导：先录几秒安静环境，再录一句正常音量的话，计算当前麦克风的噪声底和语音检测阈值。
+ * 全程显示实时电平表，结果按设备保存。
+ */
+class MicrophoneCalibrationModal extends Modal {
+	private stream: MediaStream | null = null;
+	private stopCapture: (() => void) | null = null;
+	private phaseTimer = 0;
+	private currentLevel: ((level: number) => void) | null = null;
+	private meterBar!: HTMLElement;
+	private thresholdMarker!: HTMLElement;
+	private statusEl!: HTMLElement;
+	private bodyEl!: HTMLElement;
+
+	constructor(
+		app: App,
+		private readonly onSave: (deviceId: string, calibration: MicrophoneCalibration) => Promise<void>
+	) {
+		super(app);
+	}
+
+	onOpen(): void {
+		this.titleEl.setText('麦克风校准');
+		const { contentEl } = this;
+		contentEl.addClass('voice-assistant-calibration');
+		this.statusEl = contentEl.createEl('p');
+		const meter = contentEl.createDiv({ cls: 'voice-assistant-level-meter' });
+		this.meterBar = meter.createDiv({ cls: 'voice-assistant-level-bar' });
+		this.thresholdMarker = meter.createDiv({ cls: 'voice-assistant-level-threshold is-hidden' });
+		this.bodyEl = contentEl.createDiv();
+		void this.startMeter();
+	}
+
+	onClose(): void {
+		window.clearTimeout(this.phaseTimer);
+		this.stopCapture?.();
+		this.stopCapture = null;
+		this.stream?.getTracks().forEach(track => track.stop());
+		this.stream = null;
+		this.contentEl.empty();
+	}
+
+	/** 打开麦克风并持续刷新电平表 */
+	private async startMeter(): Promise<void> {
+		this.statusEl.setText('正在打开麦克风...');
+		try {
+			this.stream = await navigator.mediaDevices.getUserMedia({
+				audio: {
+					sampleRate: 16000,
+					channelCount: 1,
+					echoCancellation: true,
+					noiseSuppression: true
+				}
+			});
+			const stopCapture = await startPcmFrameCapture(this.stream, VAD_CHUNK_SAMPLES, frame => {
+				const level = measureRms(pcm16ToFloat32(frame));
+				this.meterBar.setCssProps({ '--voice-assistant-level': `${levelToPercent(level)}%` });
+				this.currentLevel?.(level);
+			});
+			if (!this.stream) {
+				stopCapture();
+				return;
+			}
+			this.stopCapture = stopCapture;
+		} catch (error) {
+			this.statusEl.setText(`无法访问麦克风: ${getErrorMessage(error)}`);
+			return;
+		}
+		this.renderIntro();
+	}
+
+	private renderIntro(): void {
+		const label = this.stream?.getAudioTracks()[0]?.label || '默认麦克风';
+		this.statusEl.setText(`当前麦克风：${label}`);
+		this.bodyEl.empty();
+		this.bodyEl.createEl('p', {
+			text: `校准分两步：先保持安静 ${CALIBRATION_SILENCE_MS / 1000} 秒，测量环境噪声；再用平常的音量朗读一句话。请在平时使用语音助手的环境中进行。`
+		});
+		new Setting(this.bodyEl)
+			.addButton(button => button
+				.setButtonText('开始校准')
+				.setCta()
+				.onClick(() => this.recordPhases()));
+	}
+
+	/** 依次录制安静环境和说话两个阶段的逐帧能量 */
+	private recordPhases(): void {
+		const silenceLevels: number[] = [];
+		const speechLevels: number[] = [];
+		this.thresholdMarker.addClass('is-hidden');
+		this.bodyEl.empty();
+
+		this.statusEl.setText(`第 1 步：请保持安静（${CALIBRATION_SILENCE_MS / 1000} 秒）`);
+		this.currentLevel = level => silenceLevels.push(level);
+		this.phaseTimer = window.setTimeout(() => {
+			this.statusEl.setText(`第 2 步：请用平常的音量朗读（${CALIBRATION_SPEECH_MS / 1000} 秒）`);
+			this.bodyEl.createEl('blockquote', { text: CALIBRATION_SENTENCE });
+			this.currentLevel = level => speechLevels.push(level);
+			this.phaseTimer = window.setTimeout(() => {
+				this.currentLevel = null;
+				this.renderResult(computeVadCalibration(silenceLevels, speechLevels));
+			}, CALIBRATION_SPEECH_MS);
+		}, CALIBRATION_SILENCE_MS);
+	}
+
+	private renderResult(result: VadCalibration | null): void {
+		this.bodyEl.empty();
+		const track = this.stream?.getAudioTracks()[0];
+		const deviceId = track?.getSettings().deviceId;
+		if (!result || !track || !deviceId) {
+			this.statusEl.setText('说话声音与环境噪声区分不明显，请靠近麦克风或换到更安静的地方后重试。');
+		} else {
+			this.statusEl.setText('校准完成，竖线为新的检测阈值，说话时电平应明显越过它。');
+			this.thresholdMarker.setCssProps({ '--voice-assistant-threshold': `${levelToPercent(result.threshold)}%` });
+			this.thresholdMarker.removeClass('is-hidden');
+			const format = (level: number) => `${(20 * Math.log10(level)).toFixed(1)} dB`;
+			this.bodyEl.createEl('p', {
+				text: `环境噪声 ${format(result.noiseFloor)}，说话音量 ${format(result.speechLevel)}，检测阈值 ${format(result.threshold)}`
+			});
+		}
+
+		const actions = new Setting(this.bodyEl)
+			.addButton(button => button
+				.setButtonText('重新校准')
+				.onClick(() => this.recordPhases()));
+		if (result && track && deviceId) {
+			actions.addButton(button => button
+				.setButtonText('保存')
+				.setCta()
+				.onClick(async () => {
+					await this.onSave(deviceId, { ...result, label: track.label, calibratedAt: Date.now() });
+					this.close();
+				}));
+		}
+	}
+}
+
 /**
  * 设置面板类
  */
@@ -4208,56 +6959,308 @@ class VoiceAssistantSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
-		// 唤醒词管理
-		const wakeWordsContainer = containerEl.createDiv();
-		this.displayWakeWords(wakeWordsContainer);
-
-
-
+		// 唤醒词管理
+		const wakeWordsContainer = containerEl.createDiv();
+		this.displayWakeWords(wakeWordsContainer);
+
+
+
+		new Setting(containerEl)
+			.setName('自动进入对话')
+			.setDesc('检测到唤醒词后自动进入对话模式')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.autoEnterDialogAfterWake)
+				.onChange(async (value) => {
+					this.plugin.settings.autoEnterDialogAfterWake = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// 唤醒片段时长设置
+		const wakeIntervalSetting = new Setting(containerEl)
+			.setName('唤醒片段最长时长')
+			.setDesc('只有检测到语音时才送去识别唤醒词；连续讲话超过该时长时按该长度切分识别（0.5-5秒）');
+		
+		const wakeIntervalValueEl = wakeIntervalSetting.controlEl.createSpan({
+			text: `${this.plugin.settings.wakeDetectionInterval / 1000}秒`,
+			cls: 'setting-slider-value'
+		});
+		
+		wakeIntervalSetting.addSlider(slider => slider
+			.setLimits(500, 5000, 100)
+			.setValue(this.plugin.settings.wakeDetectionInterval)
+			.onChange(async (value) => {
+				this.plugin.settings.wakeDetectionInterval = value;
+				wakeIntervalValueEl.textContent = `${value / 1000}秒`;
+				await this.plugin.saveSettings();
+			}));
+
+		// 语音识别配置
+		new Setting(containerEl).setName('语音识别').setHeading();
+		
+		new Setting(containerEl)
+			.setName('ASR 提供商')
+			.setDesc('选择语音识别服务提供商')
+			.addDropdown(dropdown => dropdown
+				.addOption('xunfei', '讯飞语音识别')
+				.addOption('openai', 'OpenAI 兼容转写接口')
+				.addOption('vosk', 'Vosk 本地识别服务（离线）')
+				.setValue(this.plugin.settings.asrProvider)
+				.onChange(async (value: 'xunfei' | 'openai' | 'vosk') => {
+					this.plugin.settings.asrProvider = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('转写接口地址')
+			.setDesc('OpenAI 兼容服务的基础地址，例如本地 whisper.cpp 或 faster-whisper 服务；插件会请求其 /audio/transcriptions')
+			.addText(text => text
+				.setPlaceholder('http://localhost:8000/v1')
+				.setValue(this.plugin.settings.openaiAsrBaseUrl)
+				.onChange(async (value) => {
+					this.plugin.settings.openaiAsrBaseUrl = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('转写接口 API Key')
+			.setDesc('OpenAI 兼容转写服务的 API 密钥，本地服务无需鉴权时可留空')
+			.addText(text => {
+				text.inputEl.type = 'password';
+				text.setPlaceholder('输入转写接口 API Key')
+					.setValue(this.plugin.settings.openaiAsrApiKey)
+					.onChange(async (value) => {
+					this.plugin.settings.openaiAsrApiKey = value;
+					await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('转写模型')
+			.setDesc('转写服务使用的模型名称，例如 whisper-1 或 Systran/faster-whisper-small')
+			.addText(text => text
+				.setPlaceholder('whisper-1')
+				.setValue(this.plugin.settings.openaiAsrModel)
+				.onChange(async (value) => {
+					this.plugin.settings.openaiAsrModel = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('识别语言')
+			.setDesc('默认识别语言；OpenAI 兼容接口会转换为对应的 ISO 语言代码，Vosk 的语言由所加载的模型决定')
+			.addDropdown(dropdown => dropdown
+				.addOptions(ASR_LANGUAGE_OPTIONS)
+				.setValue(this.plugin.settings.asrLanguage)
+				.onChange(async (value) => {
+					this.plugin.settings.asrLanguage = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('方言/口音')
+			.setDesc('中文识别使用的方言或口音，其他语种忽略此项')
+			.addDropdown(dropdown => dropdown
+				.addOptions(ASR_ACCENT_OPTIONS)
+				.setValue(this.plugin.settings.asrAccent)
+				.onChange(async (value) => {
+					this.plugin.settings.asrAccent = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('自动标点')
+			.setDesc('在识别结果中自动添加标点符号（讯飞 ptt）')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.asrPunctuation)
+				.onChange(async (value) => {
+					this.plugin.settings.asrPunctuation = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('数字转阿拉伯数字')
+			.setDesc('将识别出的中文数字转换为阿拉伯数字（讯飞 nunum，仅中文）')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.asrNumberFormat)
+				.onChange(async (value) => {
+					this.plugin.settings.asrNumberFormat = value;
+					await this.plugin.saveSettings();
+				}));
+
+		const vadEosSetting = new Setting(containerEl)
+			.setName('句尾静默超时')
+			.setDesc('录音识别时，静默多久后讯飞判定说话结束（1-10秒）；流式听写使用“录音静默间隔”');
+		
+		const vadEosValueEl = vadEosSetting.controlEl.createSpan({
+			text: `${this.plugin.settings.asrVadEos / 1000}秒`,
+			cls: 'setting-slider-value'
+		});
+		
+		vadEosSetting.addSlider(slider => slider
+			.setLimits(1000, 10000, 500)
+			.setValue(this.plugin.settings.asrVadEos)
+			.onChange(async (value) => {
+				this.plugin.settings.asrVadEos = value;
+				vadEosValueEl.textContent = `${value / 1000}秒`;
+				await this.plugin.saveSettings();
+			}));
+
+		const chunkSecondsSetting = new Setting(containerEl)
+			.setName('长录音分段')
+			.setDesc('讯飞单次识别最长约 60 秒，更长的录音会在静音处切分为不超过该时长的片段分别识别');
+
+		const chunkSecondsValueEl = chunkSecondsSetting.controlEl.createSpan({
+			text: `${this.plugin.settings.asrChunkSeconds}秒`,
+			cls: 'setting-slider-value'
+		});
+
+		chunkSecondsSetting.addSlider(slider => slider
+			.setLimits(20, 58, 1)
+			.setValue(this.plugin.settings.asrChunkSeconds)
+			.onChange(async (value) => {
+				this.plugin.settings.asrChunkSeconds = value;
+				chunkSecondsValueEl.textContent = `${value}秒`;
+				await this.plugin.saveSettings();
+			}));
+
+		const chunkOverlapSetting = new Setting(containerEl)
+			.setName('分段重叠')
+			.setDesc('相邻片段重叠的时长，避免切分处丢字；拼接时自动去掉重复内容');
+
+		const chunkOverlapValueEl = chunkOverlapSetting.controlEl.createSpan({
+			text: `${this.plugin.settings.asrChunkOverlap}秒`,
+			cls: 'setting-slider-value'
+		});
+
+		chunkOverlapSetting.addSlider(slider => slider
+			.setLimits(0, 3, 0.5)
+			.setValue(this.plugin.settings.asrChunkOverlap)
+			.onChange(async (value) => {
+				this.plugin.settings.asrChunkOverlap = value;
+				chunkOverlapValueEl.textContent = `${value}秒`;
+				await this.plugin.saveSettings();
+			}));
+
+		new Setting(containerEl)
+			.setName('分段并发数')
+			.setDesc('同时识别的片段数量，1 为逐段识别；并发数受讯飞账号并发路数限制')
+			.addDropdown(dropdown => dropdown
+				.addOption('1', '1')
+				.addOption('2', '2')
+				.addOption('3', '3')
+				.setValue(String(this.plugin.settings.asrChunkConcurrency))
+				.onChange(async (value) => {
+					this.plugin.settings.asrChunkConcurrency = Number(value);
+					await this.plugin.saveSettings();
+				}));
+
+		// 识别方案
+		const asrProfilesContainer = containerEl.createDiv();
+		this.displayAsrProfiles(asrProfilesContainer);
+
+		new Setting(containerEl)
+			.setName('Vosk 服务地址')
+			.setDesc('本地 Vosk WebSocket 服务地址，例如 vosk-server 的 ws://localhost:2700；音频只发送到该服务')
+			.addText(text => text
+				.setPlaceholder('ws://localhost:2700')
+				.setValue(this.plugin.settings.voskServerUrl)
+				.onChange(async (value) => {
+					this.plugin.settings.voskServerUrl = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('流式识别')
+			.setDesc('听写时边说边上传音频，并在笔记和状态浮窗中实时显示会自动修正的识别预览（讯飞和 Vosk）')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.asrStreamingMode)
+				.onChange(async (value) => {
+					this.plugin.settings.asrStreamingMode = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// 个人词汇配置
+		new Setting(containerEl).setName('个人词汇').setHeading();
+
+		new Setting(containerEl)
+			.setName('识别后纠错')
+			.setDesc('每次识别后按个人词汇表纠正项目名、人名和术语，听写、对话和唤醒词匹配均生效')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.vocabularyEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.vocabularyEnabled = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('词汇表')
+			.setDesc('每行一条：写术语本身可纠正大小写和被拆开的单词；写“听到的 → 应为的”替换误识别（也支持 -> 和 =>，多个听法用 | 分隔）')
+			.addTextArea(text => text
+				.setPlaceholder('OpenRouter\n小三 | 晓珊 → 小珊\n黑药石 → 黑曜石')
+				.setValue(this.plugin.settings.vocabularyText)
+				.onChange(async (value) => {
+					this.plugin.settings.vocabularyText = value;
+					await this.plugin.saveSettings();
+					await this.plugin.refreshVocabulary();
+				}));
+
+		new Setting(containerEl)
+			.setName('词汇表笔记')
+			.setDesc('可选，仓库中的笔记路径，格式与上面的词汇表相同；列表符号、标题和 frontmatter 会被忽略，修改笔记后自动生效')
+			.addText(text => text
+				.setPlaceholder('语音助手/个人词汇.md')
+				.setValue(this.plugin.settings.vocabularyNotePath)
+				.onChange(async (value) => {
+					this.plugin.settings.vocabularyNotePath = value.trim();
+					await this.plugin.saveSettings();
+					await this.plugin.refreshVocabulary();
+				}));
+
 		new Setting(containerEl)
-			.setName('自动进入对话')
-			.setDesc('检测到唤醒词后自动进入对话模式')
+			.setName('收录笔记标题和标签')
+			.setDesc('自动把词内带大写字母、缩写或数字的英文笔记标题和标签（如 OpenRouter、GPT4）作为术语，只有首字母大写的普通标题不收录')
 			.addToggle(toggle => toggle
-				.setValue(this.plugin.settings.autoEnterDialogAfterWake)
+				.setValue(this.plugin.settings.vocabularyFromVault)
 				.onChange(async (value) => {
-					this.plugin.settings.autoEnterDialogAfterWake = value;
+					this.plugin.settings.vocabularyFromVault = value;
 					await this.plugin.saveSettings();
+					await this.plugin.refreshVocabulary();
 				}));
 
-		// 唤醒检测间隔设置
-		const wakeIntervalSetting = new Setting(containerEl)
-			.setName('唤醒检测间隔')
-			.setDesc('设置唤醒词检测的时间间隔，数值越小响应越快但消耗更多资源（0.5-5秒）');
-		
-		const wakeIntervalValueEl = wakeIntervalSetting.controlEl.createSpan({
-			text: `${this.plugin.settings.wakeDetectionInterval / 1000}秒`,
-			cls: 'setting-slider-value'
-		});
-		
-		wakeIntervalSetting.addSlider(slider => slider
-			.setLimits(500, 5000, 100)
-			.setValue(this.plugin.settings.wakeDetectionInterval)
-			.onChange(async (value) => {
-				this.plugin.settings.wakeDetectionInterval = value;
-				wakeIntervalValueEl.textContent = `${value / 1000}秒`;
-				await this.plugin.saveSettings();
-			}));
+		// 自动转写配置
+		new Setting(containerEl).setName('自动转写').setHeading();
 
-		// 语音识别配置
-		new Setting(containerEl).setName('语音识别').setHeading();
-		
 		new Setting(containerEl)
-			.setName('ASR 提供商')
-			.setDesc('选择语音识别服务提供商')
-			.addDropdown(dropdown => dropdown
-				.addOption('xunfei', '讯飞语音识别')
-				.setValue(this.plugin.settings.asrProvider)
-				.onChange(async (value: 'xunfei') => {
-					this.plugin.settings.asrProvider = value;
+			.setName('自动转写收件箱音频')
+			.setDesc('收件箱文件夹中新增或移入的 mp3、wav、webm、m4a 音频会排队转写，Obsidian 重启后继续处理未完成的任务')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.autoTranscribeEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.autoTranscribeEnabled = value;
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('音频收件箱文件夹')
+			.setDesc('监听的文件夹路径，例如手机录音同步到的文件夹')
+			.addText(text => text
+				.setPlaceholder('录音/收件箱')
+				.setValue(this.plugin.settings.audioInboxFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.audioInboxFolder = value.trim();
+					await this.plugin.saveSettings();
+				}));
 
+		new Setting(containerEl)
+			.setName('转写笔记文件夹')
+			.setDesc('自动转写生成的笔记保存位置，留空则保存在音频所在文件夹')
+			.addText(text => text
+				.setPlaceholder('录音/转写')
+				.setValue(this.plugin.settings.transcriptFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.transcriptFolder = value.trim();
+					await this.plugin.saveSettings();
+				}));
 
 		// 语音听写配置
 		new Setting(containerEl).setName('语音听写').setHeading();
@@ -4300,6 +7303,321 @@ class VoiceAssistantSettingTab extends PluginSettingTab {
 				await this.plugin.saveSettings();
 			}));
 
+		new Setting(containerEl)
+			.setName('插入位置')
+			.setDesc('听写过程中输入文字或点击别处后，识别结果写入的位置')
+			.addDropdown(dropdown => dropdown
+				.addOption('anchor', '固定在听写位置（随编辑移动）')
+				.addOption('cursor', '跟随光标')
+				.addOption('end', '追加到笔记末尾')
+				.setValue(this.plugin.settings.dictationInsertPolicy)
+				.onChange(async (value: 'cursor' | 'anchor' | 'end') => {
+					this.plugin.settings.dictationInsertPolicy = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('听写后润色')
+			.setDesc('持续听写结束后把本次听写内容发给当前 AI 模型修正标点、删除口头禅并分段，在对比窗口中逐段确认后才修改笔记')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.dictationPolishEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.dictationPolishEnabled = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('润色要求')
+			.setDesc('发给 AI 模型的润色说明，段落对齐格式由插件自动附加')
+			.addTextArea(text => text
+				.setPlaceholder(DEFAULT_POLISH_INSTRUCTIONS)
+				.setValue(this.plugin.settings.dictationPolishInstructions)
+				.onChange(async (value) => {
+					this.plugin.settings.dictationPolishInstructions = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('语音编辑命令')
+			.setDesc('听写时识别换行、新段落、删除上一句、撤销等口述命令，并把“句号”“逗号”等口述标点转换为符号；删除上一句和撤销需要单独说出')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.dictationCommandsEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.dictationCommandsEnabled = value;
+					await this.plugin.saveSettings();
+				}));
+
+		const commandSettings: Array<{ type: DictationCommandType; name: string }> = [
+			{ type: 'newline', name: '换行' },
+			{ type: 'paragraph', name: '新段落' },
+			{ type: 'delete-last', name: '删除上一句' },
+			{ type: 'undo', name: '撤销' }
+		];
+		for (const { type, name } of commandSettings) {
+			new Setting(containerEl)
+				.setName(`命令：${name}`)
+				.setDesc('触发短语，多个用逗号分隔')
+				.addText(text => text
+					.setValue(this.plugin.settings.dictationGrammar.commands[type].join(', '))
+					.onChange(async (value) => {
+						const grammar = this.plugin.settings.dictationGrammar;
+						this.plugin.settings.dictationGrammar = {
+							...grammar,
+							commands: { ...grammar.commands, [type]: parsePhraseList(value) }
+						};
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('Markdown 结构听写')
+			.setDesc('在句首或换行后说“一级标题”到“六级标题”、“列表项”、“待办”、“引用”、“下一级”、“上一级”，生成对应的 Markdown 结构；也可用命令快速切换')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.dictationMarkdownEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.dictationMarkdownEnabled = value;
+					await this.plugin.saveSettings();
+				}));
+
+		const structureSettings: Array<{ type: DictationStructureType; name: string }> = [
+			{ type: 'list-item', name: '列表项' },
+			{ type: 'task', name: '待办' },
+			{ type: 'quote', name: '引用' },
+			{ type: 'indent', name: '下一级' },
+			{ type: 'outdent', name: '上一级' }
+		];
+		for (const { type, name } of structureSettings) {
+			new Setting(containerEl)
+				.setName(`结构：${name}`)
+				.setDesc('句首关键词，多个用逗号分隔')
+				.addText(text => text
+					.setValue(this.plugin.settings.dictationGrammar.structures[type].join(', '))
+					.onChange(async (value) => {
+						const grammar = this.plugin.settings.dictationGrammar;
+						this.plugin.settings.dictationGrammar = {
+							...grammar,
+							structures: { ...grammar.structures, [type]: parsePhraseList(value) }
+						};
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('口述标点')
+			.setDesc('每行一条：说出的短语 = 插入的符号')
+			.addTextArea(text => text
+				.setPlaceholder('句号 = 。\nperiod = .')
+				.setValue(formatPunctuationMap(this.plugin.settings.dictationGrammar.punctuation))
+				.onChange(async (value) => {
+					this.plugin.settings.dictationGrammar = {
+						...this.plugin.settings.dictationGrammar,
+						punctuation: parsePunctuationMap(value)
+					};
+					await this.plugin.saveSettings();
+				}));
+
+		// 文本规整配置
+		new Setting(containerEl).setName('文本规整').setHeading();
+
+		new Setting(containerEl)
+			.setName('规整听写文本')
+			.setDesc('听写结果写入前按下列规则规整；开启中英文空格时，中文句子之间不再补空格')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.normalizeDictationText)
+				.onChange(async (value) => {
+					this.plugin.settings.normalizeDictationText = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('规整对话文本')
+			.setDesc('对话的识别结果发给 AI 模型和保存前按下列规则规整')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.normalizeConversationText)
+				.onChange(async (value) => {
+					this.plugin.settings.normalizeConversationText = value;
+					await this.plugin.saveSettings();
+				}));
+
+		const normalizationSettings: Array<{ key: keyof TextNormalizationOptions; name: string; desc: string }> = [
+			{ key: 'spacing', name: '中英文空格', desc: '中文与英文单词、数字之间加空格（数字直接跟单位时除外，如“3月5日”），去掉中文之间多余的空格' },
+			{ key: 'punctuation', name: '标点宽度', desc: '中文语境使用全角标点，英文语境使用半角标点' },
+			{ key: 'numerals', name: '数字转换', desc: '把日期、时间、金额和百分比中的中文数字转为阿拉伯数字，如“三点十五分”写作“3:15”' },
+			{ key: 'capitalization', name: '英文大写', desc: '英文句首字母和代词 I 大写' }
+		];
+		for (const { key, name, desc } of normalizationSettings) {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings.textNormalization[key])
+					.onChange(async (value) => {
+						this.plugin.settings.textNormalization = { ...this.plugin.settings.textNormalization, [key]: value };
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		// 翻译听写配置
+		new Setting(containerEl).setName('翻译听写').setHeading();
+
+		new Setting(containerEl)
+			.setName('翻译服务')
+			.setDesc('“翻译听写”命令把每句识别结果翻译后再写入笔记；语音编辑命令按原语言识别')
+			.addDropdown(dropdown => dropdown
+				.addOption('llm', '当前 AI 模型')
+				.addOption('libretranslate', 'LibreTranslate')
+				.setValue(this.plugin.settings.translationProvider)
+				.onChange(async (value: 'llm' | 'libretranslate') => {
+					this.plugin.settings.translationProvider = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('目标语言')
+			.setDesc('译文使用的语言')
+			.addDropdown(dropdown => {
+				for (const [code, name] of Object.entries(TRANSLATION_LANGUAGES)) {
+					dropdown.addOption(code, name);
+				}
+				dropdown
+					.setValue(this.plugin.settings.translationLanguage)
+					.onChange(async (value) => {
+						this.plugin.settings.translationLanguage = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('保留原文')
+			.setDesc('脚注把原文放在每句译文后的行内脚注中；双语表格把译文和原文并排写成两列，每句一行。写入输入框时只插入译文')
+			.addDropdown(dropdown => dropdown
+				.addOption('footnote', '行内脚注')
+				.addOption('bilingual', '双语表格')
+				.addOption('none', '不保留')
+				.setValue(this.plugin.settings.translationOriginalMode)
+				.onChange(async (value: TranslationOriginalMode) => {
+					this.plugin.settings.translationOriginalMode = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('LibreTranslate 地址')
+			.setDesc('自建或公共 LibreTranslate 服务的地址，插件会请求其 /translate')
+			.addText(text => text
+				.setPlaceholder('http://localhost:5000')
+				.setValue(this.plugin.settings.libreTranslateUrl)
+				.onChange(async (value) => {
+					this.plugin.settings.libreTranslateUrl = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('LibreTranslate API Key')
+			.setDesc('服务要求鉴权时填写，自建服务可留空')
+			.addText(text => {
+				text.inputEl.type = 'password';
+				text.setPlaceholder('输入 LibreTranslate API Key')
+					.setValue(this.plugin.settings.libreTranslateApiKey)
+					.onChange(async (value) => {
+						this.plugin.settings.libreTranslateApiKey = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		// 会议记录配置
+		new Setting(containerEl).setName('会议记录').setHeading();
+
+		new Setting(containerEl)
+			.setName('会议记录文件夹')
+			.setDesc('“会议记录”命令新建的笔记和会议录音保存的位置')
+			.addText(text => text
+				.setPlaceholder('voice-assistant/meetings')
+				.setValue(this.plugin.settings.meetingSaveFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.meetingSaveFolder = value.trim() || 'voice-assistant/meetings';
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('发言人')
+			.setDesc('会议中状态浮窗显示的发言人按钮，多个用逗号分隔；点击按钮后的转写标记为该发言人')
+			.addText(text => text
+				.setValue(this.plugin.settings.meetingSpeakers.join(', '))
+				.onChange(async (value) => {
+					this.plugin.settings.meetingSpeakers = parsePhraseList(value);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('保存会议录音')
+			.setDesc('保存整场会议的录音，转写中的时间标记链接到录音的对应时刻；完整录音不经过音频预处理')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.meetingSaveAudio)
+				.onChange(async (value) => {
+					this.plugin.settings.meetingSaveAudio = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('会议总结')
+			.setDesc('会议结束后把转写发给当前 AI 模型，在笔记末尾生成摘要、决定和行动项')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.meetingSummaryEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.meetingSummaryEnabled = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// 按住说话配置
+		new Setting(containerEl).setName('按住说话').setHeading();
+
+		new Setting(containerEl)
+			.setName('启用按住说话')
+			.setDesc('按住按键或状态浮窗中的按钮时才录音，松开后识别；适合嘈杂环境下静默检测不可靠的情况')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.pushToTalkEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.pushToTalkEnabled = value;
+					await this.plugin.saveSettings();
+					this.plugin.updatePushToTalkButtons();
+				}));
+
+		const pushToTalkKeys: Array<{ key: 'pushToTalkDictationKey' | 'pushToTalkConversationKey'; name: string; desc: string }> = [
+			{ key: 'pushToTalkDictationKey', name: '按住听写按键', desc: '按住时录音，松开后把识别结果插入光标处' },
+			{ key: 'pushToTalkConversationKey', name: '按住对话按键', desc: '按住时录音，松开后发送给 AI 并朗读回复' }
+		];
+		for (const { key, name, desc } of pushToTalkKeys) {
+			const keySetting = new Setting(containerEl).setName(name);
+			const describeKey = () => keySetting.setDesc(`${desc}。当前按键：${this.plugin.settings[key] || '未设置'}`);
+			describeKey();
+			keySetting
+				.addButton(button => button
+					.setButtonText('设置按键')
+					.onClick(() => {
+						button.setButtonText('请按下按键...');
+						// 捕获下一次按键，不让它触发编辑器或其他快捷键
+						const onKeyDown = (event: KeyboardEvent) => {
+							event.preventDefault();
+							event.stopPropagation();
+							activeDocument.removeEventListener('keydown', onKeyDown, true);
+							button.setButtonText('设置按键');
+							if (event.code !== 'Escape') {
+								this.plugin.settings[key] = event.code;
+								void this.plugin.saveSettings();
+							}
+							describeKey();
+						};
+						activeDocument.addEventListener('keydown', onKeyDown, true);
+					}))
+				.addButton(button => button
+					.setButtonText('清除')
+					.onClick(async () => {
+						this.plugin.settings[key] = '';
+						await this.plugin.saveSettings();
+						describeKey();
+					}));
+		}
+
 		// 语音合成配置
 		new Setting(containerEl).setName('语音合成').setHeading();
 		
@@ -4511,6 +7829,62 @@ class VoiceAssistantSettingTab extends PluginSettingTab {
 					}
 				}));
 
+		// 音频预处理配置
+		new Setting(containerEl).setName('音频预处理').setHeading();
+
+		new Setting(containerEl)
+			.setName('启用音频预处理')
+			.setDesc('每次上传识别前和暂存录音前按下列环节处理录音，流式听写逐帧处理（不做峰值归一化）；超过 10 分钟的音频文件和语音唤醒片段不处理。会议记录的完整录音边录边写入文件，保持原始录音，其中每段在识别前仍会处理')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.audioProcessingEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.audioProcessingEnabled = value;
+					await this.plugin.saveSettings();
+				}));
+
+		const processingSettings: Array<{
+			key: 'highPass' | 'noiseGate' | 'autoGain' | 'normalize';
+			valueKey: 'highPassFrequency' | 'noiseGateThreshold' | 'autoGainTarget' | 'normalizePeak';
+			name: string;
+			desc: string;
+			min: number;
+			max: number;
+		}> = [
+			{ key: 'highPass', valueKey: 'highPassFrequency', name: '高通滤波', desc: '去除低于截止频率的直流偏移、风扇和空调嗡声（截止频率 20-300 Hz）', min: 20, max: 300 },
+			{ key: 'noiseGate', valueKey: 'noiseGateThreshold', name: '噪声门', desc: '把低于阈值的停顿压低约 30 dB，环境嘈杂时开启（阈值 -80 到 -20 dBFS）', min: -80, max: -20 },
+			{ key: 'autoGain', valueKey: 'autoGainTarget', name: '自动增益', desc: '把说话音量调到目标 RMS 电平，最多放大 24 dB（目标 -40 到 -6 dBFS）', min: -40, max: -6 },
+			{ key: 'normalize', valueKey: 'normalizePeak', name: '峰值归一化', desc: '把整段录音的峰值调到目标电平，最多放大 12 dB（目标 -12 到 0 dBFS）', min: -12, max: 0 }
+		];
+		for (const { key, valueKey, name, desc, min, max } of processingSettings) {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addText(text => text
+					.setPlaceholder(`${DEFAULT_AUDIO_PROCESSING[valueKey]}`)
+					.setValue(`${this.plugin.settings.audioProcessing[valueKey]}`)
+					.onChange(async (value) => {
+						const parsed = Number(value);
+						if (!value.trim() || !Number.isFinite(parsed) || parsed < min || parsed > max) {
+							return;
+						}
+						this.plugin.settings.audioProcessing = { ...this.plugin.settings.audioProcessing, [valueKey]: parsed };
+						await this.plugin.saveSettings();
+					}))
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings.audioProcessing[key])
+					.onChange(async (value) => {
+						this.plugin.settings.audioProcessing = { ...this.plugin.settings.audioProcessing, [key]: value };
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('预处理电平')
+			.setDesc('查看最近几次识别前后的峰值和 RMS 电平，用来确认增益是否合适')
+			.addButton(button => button
+				.setButtonText('查看')
+				.onClick(() => this.plugin.openAudioLevelsView()));
+
 		// 持续对话配置
 		new Setting(containerEl).setName('持续对话').setHeading();
 		
@@ -4555,7 +7929,7 @@ class VoiceAssistantSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('启用语音打断')
-			.setDesc('在TTS播放期间检测到语音输入时自动停止播放并开始新对话')
+			.setDesc('在TTS播放期间检测到语音输入时自动停止播放并开始新对话；以正在播放的语音为参考，扬声器传回麦克风的播报声不会触发打断')
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.enableVoiceInterruption)
 				.onChange(async (value) => {
@@ -4565,7 +7939,7 @@ class VoiceAssistantSettingTab extends PluginSettingTab {
 
 		const voiceThresholdSetting = new Setting(containerEl)
 			.setName('语音检测阈值')
-			.setDesc('语音检测的音量阈值，数值越小越敏感（0-100）');
+			.setDesc('语音检测的最低音量，数值越小越敏感（10-80，对应 0.01-0.08 的 RMS 能量）；持续听写、会议记录、语音打断、语音唤醒和对话录音共用');
 		
 		const voiceThresholdValueEl = voiceThresholdSetting.controlEl.createSpan({
 			text: `${this.plugin.settings.voiceDetectionThreshold}`,
@@ -4583,7 +7957,7 @@ class VoiceAssistantSettingTab extends PluginSettingTab {
 
 		const voiceSensitivitySetting = new Setting(containerEl)
 			.setName('检测敏感度')
-			.setDesc('语音检测的时间间隔，数值越小检测越频繁（50-500毫秒）');
+			.setDesc('语音打断前需要持续说话的时长为该值的 3 倍，数值越小打断越快，但咳嗽等短促声音也更容易误触发（50-500毫秒）');
 		
 		const voiceSensitivityValueEl = voiceSensitivitySetting.controlEl.createSpan({
 			text: `${this.plugin.settings.voiceDetectionSensitivity}ms`,
@@ -4599,6 +7973,32 @@ class VoiceAssistantSettingTab extends PluginSettingTab {
 				await this.plugin.saveSettings();
 			}));
 
+		const calibrationsContainer = containerEl.createDiv();
+		const updateCalibrationList = () => {
+			calibrationsContainer.empty();
+			for (const [deviceId, calibration] of Object.entries(this.plugin.settings.microphoneCalibrations)) {
+				new Setting(calibrationsContainer)
+					.setName(calibration.label || deviceId)
+					.setDesc(`检测阈值 ${(20 * Math.log10(calibration.threshold)).toFixed(1)} dB，环境噪声 ${(20 * Math.log10(calibration.noiseFloor)).toFixed(1)} dB，校准于 ${new Date(calibration.calibratedAt).toLocaleString()}`)
+					.addButton(button => button
+						.setButtonText('删除')
+						.onClick(async () => {
+							delete this.plugin.settings.microphoneCalibrations[deviceId];
+							await this.plugin.saveSettings();
+							updateCalibrationList();
+						}));
+			}
+		};
+
+		new Setting(containerEl)
+			.setName('麦克风校准')
+			.setDesc('录一段安静环境和一句正常说话，为当前麦克风计算噪声底和检测阈值；校准过的麦克风不再使用上面的“语音检测阈值”')
+			.addButton(button => button
+				.setButtonText('开始校准')
+				.onClick(() => this.plugin.openMicrophoneCalibration(updateCalibrationList)));
+		containerEl.appendChild(calibrationsContainer);
+		updateCalibrationList();
+
 		// 自定义提示词配置
 		new Setting(containerEl).setName('自定义提示词').setHeading();
 		
@@ -4628,7 +8028,7 @@ class VoiceAssistantSettingTab extends PluginSettingTab {
 		new Setting(containerEl).setName('测试').setHeading();
 		
 		new Setting(containerEl)
-			.setName('测试讯飞在线 ASR')
+			.setName('测试在线 ASR')
 			.setDesc('测试语音识别功能是否正常工作')
 			.addButton(button => button
 				.setButtonText('测试 ASR')
@@ -4696,10 +8096,124 @@ class VoiceAssistantSettingTab extends PluginSettingTab {
 		providerHelp.appendText(' 获取 API 凭据。');
 		helpDiv.createEl('p', { text: '2. 在上方设置中填写对应的 API 配置信息。' });
 		helpDiv.createEl('strong', { text: '注意事项' });
-		helpDiv.createEl('p', { text: '• 麦克风音频会发送到讯飞服务器进行处理。' });
+		helpDiv.createEl('p', { text: '• 麦克风音频会发送到所选的语音识别服务（讯飞、自行配置的转写接口或本地 Vosk 服务）进行处理。' });
 		helpDiv.createEl('p', { text: '• API 凭据会保存在插件数据文件中，请妥善保管。' });
 	}
 
+	/**
+	 * 显示识别方案管理界面
+	 * 每个方案会注册一条“语音听写（方案名）”命令，可在快捷键设置中单独绑定
+	 */
+	private displayAsrProfiles(container: HTMLElement): void {
+		container.empty();
+		new Setting(container).setName('识别方案').setHeading();
+		container.createEl('p', {
+			text: '为不同语言或口音创建识别方案，每个方案都会生成一条独立的听写命令，例如为中文和英文听写分别绑定快捷键。',
+			cls: 'voice-assistant-muted-description'
+		});
+
+		if (this.plugin.settings.asrProfiles.length === 0) {
+			container.createEl('p', {
+				text: '暂无识别方案',
+				cls: 'voice-assistant-empty-state'
+			});
+		}
+
+		this.plugin.settings.asrProfiles.forEach((profile, index) => {
+			const profileCard = container.createDiv('voice-assistant-model-card');
+
+			const profileInfo = profileCard.createDiv('voice-assistant-model-info');
+			profileInfo.createEl('strong', { text: profile.name });
+			const accent = profile.language === 'zh_cn' ? ` · ${ASR_ACCENT_OPTIONS[profile.accent] ?? profile.accent}` : '';
+			profileInfo.createDiv({
+				text: `语言: ${ASR_LANGUAGE_OPTIONS[profile.language] ?? profile.language}${accent}`,
+				cls: 'voice-assistant-model-meta'
+			});
+			profileInfo.createDiv({
+				text: `标点: ${profile.punctuation ? '开' : '关'} · 阿拉伯数字: ${profile.numberFormat ? '开' : '关'}`,
+				cls: 'voice-assistant-model-meta'
+			});
+
+			const deleteButton = profileCard.createEl('button', {
+				text: '删除',
+				cls: 'voice-assistant-delete-button'
+			});
+			deleteButton.addEventListener('click', () => {
+				void (async () => {
+					this.plugin.settings.asrProfiles.splice(index, 1);
+					await this.plugin.saveSettings();
+					this.plugin.refreshAsrProfileCommands();
+					this.displayAsrProfiles(container);
+				})();
+			});
+		});
+
+		// 新方案默认沿用当前的全局识别设置
+		const draft: Omit<AsrProfile, 'id'> = {
+			name: '',
+			language: this.plugin.settings.asrLanguage,
+			accent: this.plugin.settings.asrAccent,
+			punctuation: this.plugin.settings.asrPunctuation,
+			numberFormat: this.plugin.settings.asrNumberFormat
+		};
+
+		new Setting(container)
+			.setName('方案名称')
+			.setDesc('会显示在命令名称中，例如“英文”')
+			.addText(text => text
+				.setPlaceholder('例如：英文')
+				.onChange((value) => {
+					draft.name = value.trim();
+				}))
+			.addDropdown(dropdown => dropdown
+				.addOptions(ASR_LANGUAGE_OPTIONS)
+				.setValue(draft.language)
+				.onChange((value) => {
+					draft.language = value;
+				}))
+			.addDropdown(dropdown => dropdown
+				.addOptions(ASR_ACCENT_OPTIONS)
+				.setValue(draft.accent)
+				.onChange((value) => {
+					draft.accent = value;
+				}));
+
+		new Setting(container)
+			.setName('方案格式')
+			.setDesc('分别控制自动标点和数字转阿拉伯数字')
+			.addToggle(toggle => toggle
+				.setTooltip('自动标点')
+				.setValue(draft.punctuation)
+				.onChange((value) => {
+					draft.punctuation = value;
+				}))
+			.addToggle(toggle => toggle
+				.setTooltip('数字转阿拉伯数字')
+				.setValue(draft.numberFormat)
+				.onChange((value) => {
+					draft.numberFormat = value;
+				}))
+			.addButton(button => button
+				.setButtonText('添加方案')
+				.setCta()
+				.onClick(async () => {
+					if (!draft.name) {
+						new Notice('请填写方案名称');
+						return;
+					}
+					if (this.plugin.settings.asrProfiles.some(profile => profile.name === draft.name)) {
+						new Notice('已存在同名方案，请使用不同的名称');
+						return;
+					}
+
+					this.plugin.settings.asrProfiles.push({ id: Date.now().toString(36), ...draft });
+					await this.plugin.saveSettings();
+					this.plugin.refreshAsrProfileCommands();
+					this.displayAsrProfiles(container);
+					new Notice(`识别方案已添加，可在快捷键设置中为“语音听写（${draft.name}）”绑定快捷键`);
+				}));
+	}
+
 	/**
 	 * 显示唤醒词管理界面
 	 */
@@ -0,0 +1,216 @@
+import { readFile } from 'node:fs/promises';
+import esbuild from 'esbuild';
+
+/**
+ * 音频处理模块的夹具测试。
+ * 直接打包 src 下的纯模块（不经过插件入口），用 fixtures/audio 中的 WAV 文件验证语音检测、音频预处理、WAV 封装、重采样和 Base64 编码。
+ * 调整 VAD 阈值或特征时先跑这里，确认安静环境、键盘声和背景音乐不会被判为语音。
+ */
+
+const ROOT = new URL('../', import.meta.url);
+const FIXTURES = new URL('./fixtures/audio/', import.meta.url);
+
+/** 打包纯模块并以 ES 模块加载 */
+async function loadModules() {
+	const result = await esbuild.build({
+		stdin: {
+			contents: [
+				"export * from './src/audio';",
+				"export * from './src/dsp';",
+				"export * from './src/encoding';",
+				"export * from './src/vad';"
+			].join('\n'),
+			resolveDir: ROOT.pathname,
+			loader: 'ts',
+		},
+		bundle: true,
+		write: false,
+		format: 'esm',
+		platform: 'neutral',
+		logLevel: 'silent',
+	});
+	const code = Buffer.from(result.outputFiles[0].contents).toString('base64');
+	return import(`data:text/javascript;base64,${code}`);
+}
+
+/** 解析 PCM WAV，返回格式和 data 块内容 */
+function readWav(bytes) {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const tag = (offset) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+	if (tag(0) !== 'RIFF' || tag(8) !== 'WAVE') {
+		throw new Error('不是 WAV 文件');
+	}
+	let format = null;
+	for (let offset = 12; offset + 8 <= bytes.length;) {
+		const size = view.getUint32(offset + 4, true);
+		if (tag(offset) === 'fmt ') {
+			format = {
+				channels: view.getUint16(offset + 10, true),
+				sampleRate: view.getUint32(offset + 12, true),
+				bitsPerSample: view.getUint16(offset + 22, true),
+			};
+		} else if (tag(offset) === 'data' && format) {
+			const data = bytes.slice(offset + 8, offset + 8 + size);
+			return { ...format, data, samples: new Int16Array(data.buffer, data.byteOffset, data.byteLength / 2) };
+		}
+		offset += 8 + size + (size % 2);
+	}
+	throw new Error('WAV 文件缺少 fmt 或 data 块');
+}
+
+/** 逐个 20ms 帧喂给检测器，返回每帧之后的说话状态 */
+function runVad(audio, pcm, options = {}) {
+	const vad = new audio.VoiceActivityDetector({ sampleRate: 16000, threshold: 0.03, ...options });
+	const floats = audio.pcm16ToFloat32(pcm);
+	const states = [];
+	for (let offset = 0; offset + 320 <= floats.length; offset += 320) {
+		vad.process(floats.subarray(offset, offset + 320));
+		states.push(vad.speaking);
+	}
+	return states;
+}
+
+function assert(condition, message) {
+	if (!condition) {
+		throw new Error(message);
+	}
+}
+
+const audio = await loadModules();
+const fixtures = {};
+for (const name of ['silence', 'speech', 'keyboard', 'music']) {
+	fixtures[name] = new Uint8Array(await readFile(new URL(`${name}.wav`, FIXTURES)));
+}
+
+// WAV 封装：用同样的 PCM 重新封装应与夹具逐字节相同
+for (const [name, bytes] of Object.entries(fixtures)) {
+	const wav = readWav(bytes);
+	assert(wav.sampleRate === 16000 && wav.channels === 1 && wav.bitsPerSample === 16, `${name}.wav 应为 16kHz 单声道 16 位`);
+	const encoded = audio.pcmToWav(wav.data, wav.sampleRate, wav.channels, wav.bitsPerSample);
+	assert(Buffer.compare(Buffer.from(encoded), Buffer.from(bytes)) === 0, `${name}.wav 重新封装后与原文件不一致`);
+}
+
+// Base64：与 Node 的实现一致，且可以还原
+const speechBase64 = audio.bytesToBase64(fixtures.speech);
+assert(speechBase64 === Buffer.from(fixtures.speech).toString('base64'), 'Base64 编码与 Node Buffer 结果不一致');
+assert(Buffer.compare(Buffer.from(audio.base64ToBytes(speechBase64)), Buffer.from(fixtures.speech)) === 0, 'Base64 解码无法还原原始字节');
+assert(audio.encodeUtf8ToBase64('你好, world') === Buffer.from('你好, world').toString('base64'), 'UTF-8 Base64 编码不一致');
+
+// 重采样：升到 48kHz 和 44.1kHz 后再降回 16kHz，波形应基本不变
+const speechPcm = readWav(fixtures.speech).samples;
+for (const rate of [48000, 44100]) {
+	const upsampled = new Float32Array(Math.floor(speechPcm.length * rate / 16000));
+	for (let i = 0; i < upsampled.length; i++) {
+		const position = i * 16000 / rate;
+		const index = Math.floor(position);
+		const next = Math.min(speechPcm.length - 1, index + 1);
+		upsampled[i] = (speechPcm[index] + (speechPcm[next] - speechPcm[index]) * (position - index)) / 32768;
+	}
+	const restored = audio.downsampleToPcm16(upsampled, rate);
+	assert(Math.abs(restored.length - speechPcm.length) <= 1, `${rate}Hz 重采样后长度不一致: ${restored.length}`);
+	let error = 0;
+	let energy = 0;
+	for (let i = 0; i < restored.length; i++) {
+		error += (restored[i] - speechPcm[i]) ** 2;
+		energy += speechPcm[i] ** 2;
+	}
+	const snr = 10 * Math.log10(energy / error);
+	assert(snr > 20, `${rate}Hz 重采样失真过大，信噪比 ${snr.toFixed(1)} dB`);
+}
+const upsampledFrom8k = audio.downsampleToPcm16(Float32Array.from({ length: 800 }, () => 0.25), 8000);
+assert(upsampledFrom8k.length === 1600 && upsampledFrom8k.every(sample => sample === 8192), '低采样率输入应按目标采样率补齐');
+
+// 语音检测
+const speaking = (name) => runVad(audio, readWav(fixtures[name]).samples);
+const ratio = (states) => states.filter(Boolean).length / states.length;
+for (const name of ['silence', 'keyboard', 'music']) {
+	const states = speaking(name);
+	assert(!states.some(Boolean), `${name}.wav 不应判为语音，说话帧占比 ${ratio(states).toFixed(2)}`);
+}
+// 键盘声和背景音乐的能量连续超过阈值的时长足以触发起始确认，上面的结果必须来自过零率和语音频段特征，而不是能量门限
+for (const name of ['keyboard', 'music']) {
+	const floats = audio.pcm16ToFloat32(readWav(fixtures[name]).samples);
+	let run = 0;
+	let longestRun = 0;
+	for (let offset = 0; offset + 320 <= floats.length; offset += 320) {
+		run = audio.measureRms(floats.subarray(offset, offset + 320)) >= 0.03 ? run + 1 : 0;
+		longestRun = Math.max(longestRun, run);
+	}
+	assert(longestRun >= 3, `${name}.wav 的音量不足以越过能量门限，无法检验频谱特征`);
+}
+
+const speechStates = speaking('speech');
+const firstSpeech = speechStates.indexOf(true);
+const lastSpeech = speechStates.lastIndexOf(true);
+// 第一个音节从 300ms 开始，最后一个在 1720ms 结束
+assert(firstSpeech >= 15 && firstSpeech <= 20, `语音起点应在 300–400ms 之间，实际为第 ${firstSpeech} 帧`);
+assert(lastSpeech >= 86 && lastSpeech <= 86 + 15 + 2, `语音终点应在最后一个音节结束后的拖尾时间内，实际为第 ${lastSpeech} 帧`);
+assert(speechStates.slice(firstSpeech, lastSpeech + 1).every(Boolean), '音节之间 80ms 的停顿不应打断说话状态');
+
+// 起始确认：拉长到 500ms 后单个 220ms 的音节不足以触发
+assert(!runVad(audio, speechPcm.slice(0, 16000 * 0.55), { onsetMs: 500 }).some(Boolean), '短于起始确认时长的音节不应触发');
+
+// 校准：由安静环境和语音夹具的逐帧能量算出的阈值应介于两者之间
+const levels = (pcm) => {
+	const floats = audio.pcm16ToFloat32(pcm);
+	const result = [];
+	for (let offset = 0; offset + 320 <= floats.length; offset += 320) {
+		result.push(audio.measureRms(floats.subarray(offset, offset + 320)));
+	}
+	return result;
+};
+const calibration = audio.computeVadCalibration(levels(readWav(fixtures.silence).samples), levels(speechPcm));
+assert(calibration && calibration.threshold > calibration.noiseFloor * 2.5 && calibration.threshold < calibration.speechLevel / 2, `校准阈值不在噪声与语音之间: ${JSON.stringify(calibration)}`);
+assert(!runVad(audio, readWav(fixtures.keyboard).samples, { threshold: calibration.threshold, initialNoiseFloor: calibration.noiseFloor }).some(Boolean), '使用校准阈值时键盘声不应判为语音');
+
+// 音频预处理：只开启指定环节，其余关闭
+const processing = (overrides) => ({
+	...audio.DEFAULT_AUDIO_PROCESSING,
+	highPass: false,
+	noiseGate: false,
+	autoGain: false,
+	normalize: false,
+	...overrides,
+});
+const speechFloats = audio.pcm16ToFloat32(speechPcm);
+const silenceFloats = audio.pcm16ToFloat32(readWav(fixtures.silence).samples);
+const silenceLevel = audio.measureLevels(silenceFloats).rms;
+// 语音段（300–1720ms）的 RMS 电平
+const speechRms = (samples) => audio.measureLevels(samples.subarray(16000 * 0.3, 16000 * 1.72)).rms;
+
+// 自动增益：音量降低 20dB 的语音应被拉回目标电平附近，只有底噪时不放大
+const quietSpeech = speechFloats.map(sample => sample * 0.1);
+const agc = audio.processAudioClip(quietSpeech, 16000, processing({ autoGain: true, autoGainTarget: -20 }));
+assert(Math.abs(speechRms(agc) + 20) < 3, `自动增益后的语音电平应接近 -20 dBFS，实际为 ${speechRms(agc).toFixed(1)} dBFS`);
+const silenceAgc = audio.processAudioClip(silenceFloats, 16000, processing({ autoGain: true }));
+assert(audio.measureLevels(silenceAgc).rms < silenceLevel + 1, '只有底噪时自动增益不应放大');
+
+// 流式处理：按 40ms 帧处理与整段处理的结果一致
+const chainOptions = processing({ highPass: true, autoGain: true });
+const streaming = new audio.AudioProcessor(16000, chainOptions);
+const streamed = new Float32Array(quietSpeech.length);
+for (let offset = 0; offset < quietSpeech.length; offset += 640) {
+	streamed.set(streaming.process(quietSpeech.subarray(offset, offset + 640)), offset);
+}
+const whole = audio.processAudioClip(quietSpeech, 16000, chainOptions);
+assert(streamed.every((sample, i) => Math.abs(sample - whole[i]) < 1e-6), '逐帧处理与整段处理的结果不一致');
+
+// 高通滤波：去除直流偏移
+const filtered = audio.processAudioClip(speechFloats.map(sample => sample + 0.2), 16000, processing({ highPass: true }));
+const mean = filtered.subarray(16000).reduce((sum, sample) => sum + sample, 0) / 16000;
+assert(Math.abs(mean) < 0.005, `高通滤波后仍有直流偏移 ${mean.toFixed(4)}`);
+
+// 噪声门：底噪被压低，语音电平基本不变
+const gateOptions = processing({ noiseGate: true, noiseGateThreshold: -50 });
+const gatedSilence = audio.processAudioClip(silenceFloats, 16000, gateOptions);
+assert(audio.measureLevels(gatedSilence).rms < silenceLevel - 20, '噪声门应把底噪压低 20dB 以上');
+const gatedSpeech = audio.processAudioClip(speechFloats, 16000, gateOptions);
+assert(Math.abs(speechRms(gatedSpeech) - speechRms(speechFloats)) < 1, '噪声门不应明显改变语音电平');
+
+// 峰值归一化：峰值调到 -1dBFS，只有底噪的录音最多放大 12dB
+const normalized = audio.processAudioClip(speechFloats, 16000, processing({ normalize: true, normalizePeak: -1 }));
+assert(Math.abs(audio.measureLevels(normalized).peak + 1) < 0.1, `归一化后的峰值应为 -1 dBFS，实际为 ${audio.measureLevels(normalized).peak.toFixed(2)}`);
+const normalizedSilence = audio.processAudioClip(silenceFloats, 16000, processing({ normalize: true }));
+assert(audio.measureLevels(normalizedSilence).rms < silenceLevel + 12.1, '只有底噪的录音不应被归一化到满幅');
+
+console.info('音频夹具测试通过：WAV 封装、Base64、重采样、语音检测和音频预处理结果一致。');
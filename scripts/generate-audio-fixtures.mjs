@@ -0,0 +1,172 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+
+/**
+ * 生成音频测试夹具：16kHz、单声道、16 位 PCM 的 WAV 文件，每段 2 秒。
+ * 信号全部由固定种子的伪随机数合成，重新生成得到的文件逐字节相同；
+ * 可以用同名的真实录音替换，再按新录音调整 audio-fixtures.mjs 中的期望值。
+ *
+ * 用法：node scripts/generate-audio-fixtures.mjs
+ */
+
+const SAMPLE_RATE = 16000;
+const DURATION_SECONDS = 2;
+const OUTPUT_DIR = new URL('./fixtures/audio/', import.meta.url);
+
+/** Park–Miller 伪随机数，返回 [0, 1) */
+function createRandom(seed) {
+	let state = seed;
+	return () => {
+		state = (state * 16807) % 2147483647;
+		return (state - 1) / 2147483646;
+	};
+}
+
+/** 二阶共振峰滤波器，用来给声门脉冲加上元音的共振峰 */
+function createResonator(frequency, bandwidth) {
+	const r = Math.exp(-Math.PI * bandwidth / SAMPLE_RATE);
+	const a1 = 2 * r * Math.cos(2 * Math.PI * frequency / SAMPLE_RATE);
+	const a2 = -r * r;
+	const gain = 1 - r;
+	let y1 = 0;
+	let y2 = 0;
+	return (x) => {
+		const y = gain * x + a1 * y1 + a2 * y2;
+		y2 = y1;
+		y1 = y;
+		return y;
+	};
+}
+
+/** 把信号缩放到指定的 RMS（只统计非零区间） */
+function scaleToRms(samples, rms) {
+	let energy = 0;
+	let count = 0;
+	for (const sample of samples) {
+		if (sample !== 0) {
+			energy += sample * sample;
+			count++;
+		}
+	}
+	const current = Math.sqrt(energy / Math.max(1, count));
+	return samples.map(sample => sample * rms / current);
+}
+
+/** 安静房间：约 -60dBFS 的底噪和微弱的 50Hz 工频声 */
+function silence() {
+	const random = createRandom(1);
+	return Array.from({ length: SAMPLE_RATE * DURATION_SECONDS }, (_, i) =>
+		(random() - 0.5) * 0.003 + 0.0005 * Math.sin(2 * Math.PI * 50 * i / SAMPLE_RATE));
+}
+
+/**
+ * 合成语音：0.3 秒静音后是 5 个音节，每个音节 220ms、间隔 80ms。
+ * 音节由 110–180Hz 的声门脉冲经三个共振峰滤波得到，依次为 a、i、u、e、o 五个元音。
+ */
+function speech() {
+	const vowels = [[730, 1090, 2440], [270, 2290, 3010], [300, 870, 2240], [530, 1840, 2480], [570, 840, 2410]];
+	const random = createRandom(2);
+	const output = silence().map(sample => sample);
+	const syllableSamples = Math.round(SAMPLE_RATE * 0.22);
+	const gapSamples = Math.round(SAMPLE_RATE * 0.08);
+	let offset = Math.round(SAMPLE_RATE * 0.3);
+
+	const voiced = new Array(output.length).fill(0);
+	vowels.forEach((formants, index) => {
+		const resonators = formants.map((frequency, k) => createResonator(frequency, 80 + 40 * k));
+		const pitch = 110 + index * 15;
+		let phase = 0;
+		for (let i = 0; i < syllableSamples; i++) {
+			const t = i / syllableSamples;
+			const f0 = pitch * (1 + 0.1 * Math.sin(Math.PI * t));
+			phase += f0 / SAMPLE_RATE;
+			const pulse = phase >= 1 ? 1 : 0;
+			phase %= 1;
+			const excitation = pulse + (random() - 0.5) * 0.02;
+			const envelope = Math.sin(Math.PI * Math.min(1, t * 1.2));
+			voiced[offset + i] = resonators.reduce((sum, resonate, k) => sum + resonate(excitation) / (k + 1), 0) * envelope;
+		}
+		offset += syllableSamples + gapSamples;
+	});
+
+	const scaled = scaleToRms(voiced, 0.1);
+	return output.map((sample, i) => sample + scaled[i]);
+}
+
+/**
+ * 键盘敲击：每 100–250ms 一次 80ms 的衰减宽带噪声，峰值约 0.5。
+ * 每次敲击的能量持续时间超过 VAD 的起始确认时长（60ms），只能靠过零率和频段特征排除。
+ */
+function keyboard() {
+	const random = createRandom(3);
+	const output = silence().map(sample => sample);
+	const clickSamples = Math.round(SAMPLE_RATE * 0.08);
+	let offset = Math.round(SAMPLE_RATE * 0.1);
+	while (offset + clickSamples < output.length) {
+		for (let i = 0; i < clickSamples; i++) {
+			output[offset + i] += (random() - 0.5) * Math.exp(-i / (clickSamples / 2));
+		}
+		offset += Math.round(SAMPLE_RATE * (0.1 + random() * 0.15));
+	}
+	return output;
+}
+
+/**
+ * 背景音乐：低音、底鼓和踩镲组成的伴奏，加上较轻的钢琴和弦，整体约 -20dBFS，与语音夹具同样响。
+ * 能量门限无法排除，只能靠语音频段占比（低音和底鼓）和过零率（踩镲）与语音区分。
+ * 注意：音量与说话相当、完全落在语音频段内的纯钢琴或人声音乐，这几项特征无法与说话区分。
+ */
+function music() {
+	const chords = [[262, 330, 392], [220, 262, 330], [175, 220, 262], [196, 247, 294]];
+	const random = createRandom(4);
+	const barSamples = SAMPLE_RATE * DURATION_SECONDS / chords.length;
+	const beatSamples = barSamples / 2;
+	const hatSamples = barSamples / 4;
+	let hat = 0;
+	const output = Array.from({ length: SAMPLE_RATE * DURATION_SECONDS }, (_, i) => {
+		const chord = chords[Math.floor(i / barSamples)];
+		const t = (i % barSamples) / SAMPLE_RATE;
+		const beat = (i % beatSamples) / SAMPLE_RATE;
+		const hatTime = (i % hatSamples) / SAMPLE_RATE;
+		// 低音：和弦根音低两个八度
+		const bass = Math.sin(2 * Math.PI * chord[0] / 4 * t) + 0.3 * Math.sin(2 * Math.PI * chord[0] / 2 * t);
+		// 底鼓：每拍一次，音高从 120Hz 滑到 50Hz
+		const kick = Math.exp(-beat * 12) * Math.sin(2 * Math.PI * (50 * beat + 70 * (1 - Math.exp(-beat * 30)) / 30));
+		// 踩镲：每半拍一次的高频噪声（白噪声差分）
+		const noise = random() - 0.5;
+		const hiHat = Math.exp(-hatTime * 40) * (noise - hat);
+		hat = noise;
+		const piano = Math.exp(-t * 3) * chord.reduce((sum, frequency) => sum + Math.sin(2 * Math.PI * frequency * t), 0);
+		return bass + 1.5 * kick + 0.6 * hiHat + 0.08 * piano;
+	});
+	const scaled = scaleToRms(output, 0.1);
+	const room = silence();
+	return scaled.map((sample, i) => sample + room[i]);
+}
+
+/** 编码为 16 位 PCM WAV */
+function encodeWav(samples) {
+	const buffer = Buffer.alloc(44 + samples.length * 2);
+	buffer.write('RIFF', 0, 'ascii');
+	buffer.writeUInt32LE(36 + samples.length * 2, 4);
+	buffer.write('WAVE', 8, 'ascii');
+	buffer.write('fmt ', 12, 'ascii');
+	buffer.writeUInt32LE(16, 16);
+	buffer.writeUInt16LE(1, 20);
+	buffer.writeUInt16LE(1, 22);
+	buffer.writeUInt32LE(SAMPLE_RATE, 24);
+	buffer.writeUInt32LE(SAMPLE_RATE * 2, 28);
+	buffer.writeUInt16LE(2, 32);
+	buffer.writeUInt16LE(16, 34);
+	buffer.write('data', 36, 'ascii');
+	buffer.writeUInt32LE(samples.length * 2, 40);
+	samples.forEach((sample, i) => {
+		buffer.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(sample * 32767))), 44 + i * 2);
+	});
+	return buffer;
+}
+
+await mkdir(OUTPUT_DIR, { recursive: true });
+for (const [name, generate] of Object.entries({ silence, speech, keyboard, music })) {
+	await writeFile(new URL(`${name}.wav`, OUTPUT_DIR), encodeWav(generate()));
+	console.info(`已生成 ${name}.wav`);
+}
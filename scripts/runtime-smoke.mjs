@@ -1,6 +1,8 @@
 import { createHmac, webcrypto } from 'node:crypto';
 import { readFile } from 'node:fs/promises';
 import vm from 'node:vm';
+import * as codemirrorState from '@codemirror/state';
+import * as codemirrorView from '@codemirror/view';
 
 /**
  * 为打包后的插件提供最小 Obsidian API 替身。
@@ -13,10 +15,12 @@ function createObsidianStub() {
 		Editor: Base,
 		MarkdownView: Base,
 		Modal: class {},
+		FuzzySuggestModal: class {},
 		Notice: class {},
 		Plugin: class {},
 		PluginSettingTab: class {},
 		Setting: class {},
+		debounce: (callback) => callback,
 		requestUrl: async () => {
 			throw new Error('冒烟测试不应发起网络请求');
 		},
@@ -36,6 +40,13 @@ async function loadBundleForTest() {
 			if (id === 'obsidian') {
 				return createObsidianStub();
 			}
+			// Obsidian 运行时提供的 CodeMirror 模块，加载开发依赖中的同一版本
+			if (id === '@codemirror/state') {
+				return codemirrorState;
+			}
+			if (id === '@codemirror/view') {
+				return codemirrorView;
+			}
 			throw new Error(`发现意外运行时依赖: ${id}`);
 		},
 		window: {
@@ -44,6 +55,8 @@ async function loadBundleForTest() {
 			atob,
 			AudioContext: class {},
 		},
+		btoa,
+		atob,
 		TextEncoder,
 		Uint8Array,
 		ArrayBuffer,
@@ -55,7 +68,7 @@ async function loadBundleForTest() {
 	};
 
 	vm.runInNewContext(
-		`${code}\nmodule.exports.__test = { encodeUtf8ToBase64, hmacSha256Base64 };`,
+		`${code}\nmodule.exports.__test = { encodeUtf8ToBase64, hmacSha256Base64, applyWpgsResult, downsampleToPcm16, buildMultipartBody, normalizeVoskText, VOSK_EOF_MESSAGE, buildXunfeiAsrBusiness, planAudioSegments, mergeOverlappingTranscripts, parseVocabulary, mergeVocabularies, collectVocabularyTerms, createVocabularyCorrector, classifyXunfeiError, createTextAnchor, resolveTextAnchor, parseDictationUtterance, DEFAULT_DICTATION_GRAMMAR, buildStructurePrefix, isBareStructureLine, renderDictationActions, findTextChange, mapOffsetThroughChange, PcmRingBuffer, concatPcm16, VoiceActivityDetector, computeVadCalibration, EchoGate, buildPolishPrompt, parsePolishResponse, groupDictatedRanges, composePolishedText, diffText, cleanTranslationResponse, formatFootnoteTranslation, renderBilingualRow, parseChineseNumber, normalizeTranscript, needsSpaceBetween, DEFAULT_TEXT_NORMALIZATION, UtteranceSegmenter, formatTimestamp, formatMeetingParagraph, DEFAULT_SETTINGS };`,
 		sandbox,
 	);
 	return sandbox.module.exports;
@@ -78,4 +91,411 @@ if (webCryptoSignature !== nodeSignature) {
 	throw new Error(`HMAC-SHA256 签名结果不一致: ${webCryptoSignature} !== ${nodeSignature}`);
 }
 
-console.info('运行时冒烟测试通过：打包加载、UTF-8 Base64 和 HMAC-SHA256 结果一致。');
+const toWords = (text) => [{ cw: [{ w: text }] }];
+const segments = [];
+bundle.__test.applyWpgsResult(segments, { sn: 1, pgs: 'apd', ws: toWords('今天') });
+bundle.__test.applyWpgsResult(segments, { sn: 2, pgs: 'apd', ws: toWords('天起') });
+const corrected = bundle.__test.applyWpgsResult(segments, { sn: 3, pgs: 'rpl', rg: [2, 2], ws: toWords('天气很好') });
+if (corrected !== '今天天气很好') {
+	throw new Error(`wpgs 动态修正合并结果不一致: ${corrected}`);
+}
+
+const pcm = bundle.__test.downsampleToPcm16(new Float32Array(480).fill(0.5), 48000);
+if (pcm.length !== 160 || pcm[0] !== 16384) {
+	throw new Error(`PCM 降采样结果不一致: 长度 ${pcm.length}，首个采样 ${pcm[0]}`);
+}
+
+const multipart = await bundle.__test.buildMultipartBody(
+	{ model: 'whisper-1' },
+	{ field: 'file', name: 'recording.webm', blob: new Blob(['RIFF'], { type: 'audio/webm' }) },
+);
+const boundary = multipart.contentType.split('boundary=')[1];
+const multipartText = new TextDecoder().decode(multipart.body);
+const expectedMultipart = `--${boundary}\r\nContent-Disposition: form-data; name="model"\r\n\r\nwhisper-1\r\n`
+	+ `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="recording.webm"\r\n`
+	+ `Content-Type: audio/webm\r\n\r\nRIFF\r\n--${boundary}--\r\n`;
+if (multipartText !== expectedMultipart) {
+	throw new Error(`multipart 请求体不一致: ${multipartText}`);
+}
+
+const voskText = bundle.__test.normalizeVoskText(' 今天 天气 很 好 hello  world ');
+if (voskText !== '今天天气很好 hello world') {
+	throw new Error(`Vosk 文本整理结果不一致: ${voskText}`);
+}
+
+// vosk-server 按字面比较结束消息，格式不同就不会返回最后一句的结果
+if (bundle.__test.VOSK_EOF_MESSAGE !== '{"eof" : 1}') {
+	throw new Error(`Vosk 结束消息不一致: ${bundle.__test.VOSK_EOF_MESSAGE}`);
+}
+
+const englishBusiness = bundle.__test.buildXunfeiAsrBusiness(
+	{ language: 'en_us', accent: 'cantonese', punctuation: false, numberFormat: true },
+	20000,
+	true,
+);
+if (JSON.stringify(englishBusiness) !== JSON.stringify({ language: 'en_us', domain: 'iat', accent: 'mandarin', vinfo: 1, vad_eos: 10000, ptt: 0 })) {
+	throw new Error(`英文识别业务参数不一致: ${JSON.stringify(englishBusiness)}`);
+}
+const cantoneseBusiness = bundle.__test.buildXunfeiAsrBusiness(
+	{ language: 'zh_cn', accent: 'cantonese', punctuation: true, numberFormat: false },
+	2000,
+	true,
+);
+if (cantoneseBusiness.accent !== 'cantonese' || cantoneseBusiness.nunum !== 0 || cantoneseBusiness.dwa !== 'wpgs' || cantoneseBusiness.ptt !== 1) {
+	throw new Error(`粤语识别业务参数不一致: ${JSON.stringify(cantoneseBusiness)}`);
+}
+
+const longAudio = new Int16Array(16000 * 130).fill(8000);
+longAudio.fill(0, 16000 * 50, 16000 * 50 + 800);
+const audioSegments = bundle.__test.planAudioSegments(longAudio, 16000, 55, 1);
+if (audioSegments.length !== 3 || audioSegments[0].start !== 0 || audioSegments.at(-1).end !== longAudio.length) {
+	throw new Error(`长录音分段数量不一致: ${JSON.stringify(audioSegments)}`);
+}
+if (audioSegments[1].start < 16000 * 50 || audioSegments[1].start > 16000 * 50 + 800 || audioSegments[0].end - audioSegments[1].start !== 16000) {
+	throw new Error(`长录音未在静音处分段或重叠不一致: ${JSON.stringify(audioSegments)}`);
+}
+if (audioSegments.some(segment => segment.end - segment.start > 16000 * 55)) {
+	throw new Error(`长录音分段超过上限: ${JSON.stringify(audioSegments)}`);
+}
+
+const stitched = bundle.__test.mergeOverlappingTranscripts(['今天天气很好。', '天气很好，我们去公园', 'we go to the park. The park is', 'The park is big.'], 1);
+if (stitched !== '今天天气很好。我们去公园we go to the park. The park is big.') {
+	throw new Error(`分段识别结果拼接不一致: ${stitched}`);
+}
+// 前一段最后的词被切断或听错时，仍按之前的词对齐去重，以后一段的结果为准
+const truncatedStitch = bundle.__test.mergeOverlappingTranscripts([
+	'下周一开会讨论预算和人员按',
+	'预算和人员安排，然后确定时间',
+	'we need to finish the budget review by fri',
+	'the budget review by friday and then ship it',
+], 1);
+if (truncatedStitch !== '下周一开会讨论预算和人员安排，然后确定时间we need to finish the budget review by friday and then ship it') {
+	throw new Error(`分段结尾被截断时拼接不一致: ${truncatedStitch}`);
+}
+// 只有一两个字碰巧相同时不是重叠，不能删掉真实内容
+const coincidentStitch = bundle.__test.mergeOverlappingTranscripts(['这个方案我们', '我们明天再讨论'], 1);
+if (coincidentStitch !== '这个方案我们我们明天再讨论') {
+	throw new Error(`分段开头巧合相同时误删内容: ${coincidentStitch}`);
+}
+
+const noteVocabulary = bundle.__test.parseVocabulary([
+	'---',
+	'tags: [语音]',
+	'---',
+	'# 项目名称',
+	'- OpenRouter',
+	'- [ ] [[Obsidian]]',
+	'晓珊 | 小三 → 小珊',
+	'黑药石 -> 黑曜石',
+].join('\n'));
+if (JSON.stringify(noteVocabulary) !== JSON.stringify({
+	terms: ['OpenRouter', 'Obsidian'],
+	rules: [
+		{ heard: '晓珊', intended: '小珊' },
+		{ heard: '小三', intended: '小珊' },
+		{ heard: '黑药石', intended: '黑曜石' },
+	],
+})) {
+	throw new Error(`词汇表解析结果不一致: ${JSON.stringify(noteVocabulary)}`);
+}
+const vaultTerms = bundle.__test.collectVocabularyTerms(['#project/GPT4', 'todo', '会议纪要', 'OpenAI', 'OpenAI', 'Ideas', 'Daily Notes', 'Project Plan', '2024-05-01']);
+if (JSON.stringify(vaultTerms) !== JSON.stringify(['GPT4', 'OpenAI'])) {
+	throw new Error(`笔记标题和标签收录结果不一致: ${JSON.stringify(vaultTerms)}`);
+}
+const vocabulary = bundle.__test.mergeVocabularies(
+	bundle.__test.parseVocabulary('小三 → 小三同学'),
+	noteVocabulary,
+	{ terms: vaultTerms, rules: [] },
+);
+const correct = bundle.__test.createVocabularyCorrector(vocabulary);
+const vocabularyCorrected = correct('小 三说 open router 和 gpt4 都比 email 里的 obsidianmd 好用，黑药石也是');
+if (vocabularyCorrected !== '小三同学说 OpenRouter 和 GPT4 都比 email 里的 obsidianmd 好用，黑曜石也是') {
+	throw new Error(`个人词汇纠错结果不一致: ${vocabularyCorrected}`);
+}
+const alreadyCorrected = correct('小三同学说 daily notes 里的 ideas 都记下了');
+if (alreadyCorrected !== '小三同学说 daily notes 里的 ideas 都记下了') {
+	throw new Error(`已是正确写法的文字被重复纠正: ${alreadyCorrected}`);
+}
+
+const quotaError = bundle.__test.classifyXunfeiError('asr', 11201, 'licc limit');
+if (quotaError.kind !== 'quota' || !quotaError.isFatal || quotaError.retryable || !quotaError.message.includes('11201')) {
+	throw new Error(`讯飞服务量错误分类不一致: ${quotaError.kind} ${quotaError.message}`);
+}
+const voiceError = bundle.__test.classifyXunfeiError('tts', 10106, 'invalid vcn');
+const rateError = bundle.__test.classifyXunfeiError('spark', 11202, '');
+const lengthError = bundle.__test.classifyXunfeiError('spark', 10907, 'token limit');
+if (voiceError.kind !== 'invalid-voice' || rateError.kind !== 'rate-limit' || !rateError.retryable || lengthError.kind !== 'text-too-long') {
+	throw new Error(`讯飞错误码分类不一致: ${voiceError.kind} ${rateError.kind} ${lengthError.kind}`);
+}
+
+const anchorNote = '# 会议\n第一段。\n第二段。';
+const anchor = bundle.__test.createTextAnchor(anchorNote, 1, 4);
+const editedNote = '新增一行\n# 会议\n第一段。补充\n第二段。';
+if (editedNote.slice(0, bundle.__test.resolveTextAnchor(editedNote, anchor)) !== '新增一行\n# 会议\n第一段。') {
+	throw new Error(`编辑后的锚点定位不一致: ${JSON.stringify(anchor)}`);
+}
+if (bundle.__test.resolveTextAnchor('完全不同的内容', anchor) !== '完全不同的内容'.length) {
+	throw new Error('上下文不存在时应退回原行列位置');
+}
+
+const dictationActions = (text) => JSON.stringify(bundle.__test.parseDictationUtterance(text, bundle.__test.DEFAULT_DICTATION_GRAMMAR));
+if (dictationActions('第一行，换行。第二行句号') !== JSON.stringify([{ type: 'text', text: '第一行' }, { type: 'newline' }, { type: 'text', text: '第二行。' }])) {
+	throw new Error(`听写换行与口述标点解析不一致: ${dictationActions('第一行，换行。第二行句号')}`);
+}
+if (dictationActions('hello world period new line next') !== JSON.stringify([{ type: 'text', text: 'hello world.' }, { type: 'newline' }, { type: 'text', text: 'next' }])) {
+	throw new Error(`英文听写命令解析不一致: ${dictationActions('hello world period new line next')}`);
+}
+if (dictationActions('Scratch that.') !== JSON.stringify([{ type: 'delete-last' }]) || dictationActions('撤销。') !== JSON.stringify([{ type: 'undo' }])) {
+	throw new Error('单独说出的删除和撤销命令应被识别');
+}
+if (dictationActions('请不要撤销这个修改') !== JSON.stringify([{ type: 'text', text: '请不要撤销这个修改' }])) {
+	throw new Error('句中出现的撤销不应作为命令执行');
+}
+
+const markdownActions = (text) => JSON.stringify(bundle.__test.parseDictationUtterance(text, bundle.__test.DEFAULT_DICTATION_GRAMMAR, { commands: true, markdown: true }));
+if (markdownActions('一级标题，会议纪要。') !== JSON.stringify([{ type: 'heading', level: 1 }, { type: 'text', text: '会议纪要' }])) {
+	throw new Error(`标题关键词解析不一致: ${markdownActions('一级标题，会议纪要。')}`);
+}
+if (markdownActions('下一级，待办，买牛奶。换行。引用原话') !== JSON.stringify([{ type: 'indent' }, { type: 'task' }, { type: 'text', text: '买牛奶' }, { type: 'newline' }, { type: 'quote' }, { type: 'text', text: '原话' }])) {
+	throw new Error(`列表与引用关键词解析不一致: ${markdownActions('下一级，待办，买牛奶。换行。引用原话')}`);
+}
+if (markdownActions('请引用这段话') !== JSON.stringify([{ type: 'text', text: '请引用这段话' }])) {
+	throw new Error('句中的结构关键词不应生成 Markdown');
+}
+const prefix = (action, line) => bundle.__test.buildStructurePrefix(action, line);
+if (prefix({ type: 'indent' }, '- [ ] 买牛奶') !== '\t- [ ] ' || prefix({ type: 'outdent' }, '\t\t- 子项') !== '\t- ' || prefix({ type: 'list-item' }, '\t- 子项') !== '\t- ' || prefix({ type: 'heading', level: 2 }, '') !== '## ') {
+	throw new Error('结构前缀与当前行缩进不一致');
+}
+if (!bundle.__test.isBareStructureLine('\t- ') || !bundle.__test.isBareStructureLine('') || bundle.__test.isBareStructureLine('- 内容')) {
+	throw new Error('仅含结构前缀的行判断不一致');
+}
+
+const renderEdit = (doc, offset, text) => {
+	const actions = bundle.__test.parseDictationUtterance(text, bundle.__test.DEFAULT_DICTATION_GRAMMAR, { commands: true, markdown: true });
+	const edit = bundle.__test.renderDictationActions(doc, offset, actions);
+	return doc.slice(0, edit.from) + edit.text + doc.slice(edit.to);
+};
+if (renderEdit('开头\n', 3, '一级标题，周会。换行。列表项，第一点') !== '开头\n# 周会\n- 第一点 ') {
+	throw new Error(`整句合成的 Markdown 结构不一致: ${JSON.stringify(renderEdit('开头\n', 3, '一级标题，周会。换行。列表项，第一点'))}`);
+}
+if (renderEdit('- [ ] 买牛奶\n- ', 12, '下一级，买面包') !== '- [ ] 买牛奶\n\t- 买面包 ') {
+	throw new Error(`仅含前缀的行应直接改写缩进: ${JSON.stringify(renderEdit('- [ ] 买牛奶\n- ', 12, '下一级，买面包'))}`);
+}
+if (renderEdit('第一句 ', 4, '第二句换行第三句') !== '第一句 第二句\n第三句 ') {
+	throw new Error('多行听写结果应整体插入');
+}
+
+const typedBefore = bundle.__test.findTextChange('第一段\n听写处', '第一段新增\n听写处');
+if (!typedBefore || bundle.__test.mapOffsetThroughChange(7, typedBefore) !== 9) {
+	throw new Error(`锚点前方的输入应推后锚点: ${JSON.stringify(typedBefore)}`);
+}
+const typedAt = bundle.__test.findTextChange('ab', 'aXb');
+if (bundle.__test.mapOffsetThroughChange(1, typedAt) !== 2 || bundle.__test.mapOffsetThroughChange(1, typedAt, -1) !== 1) {
+	throw new Error('锚点处输入的跟随方向不一致');
+}
+const deletedAround = bundle.__test.findTextChange('0123456789', '0189');
+if (bundle.__test.mapOffsetThroughChange(5, deletedAround) !== 2 || bundle.__test.mapOffsetThroughChange(9, deletedAround) !== 3 || bundle.__test.findTextChange('同样', '同样') !== null) {
+	throw new Error('删除区间内外的锚点映射不一致');
+}
+
+const ring = new bundle.__test.PcmRingBuffer(5);
+ring.write(Int16Array.from([1, 2, 3]));
+ring.write(Int16Array.from([4, 5, 6, 7]));
+const ringOutput = Array.from(ring.drain());
+if (ringOutput.join(',') !== '3,4,5,6,7' || ring.drain().length !== 0) {
+	throw new Error(`环形缓冲区应按顺序保留最近的采样: ${ringOutput.join(',')}`);
+}
+ring.write(Int16Array.from([1, 2, 3, 4, 5, 6, 7, 8]));
+if (Array.from(ring.drain()).join(',') !== '4,5,6,7,8') {
+	throw new Error('超出容量的单次写入应只保留末尾');
+}
+if (Array.from(bundle.__test.concatPcm16([Int16Array.from([1]), Int16Array.from([2, 3])])).join(',') !== '1,2,3') {
+	throw new Error('PCM 拼接结果不一致');
+}
+const signal = (seconds, sample) => Float32Array.from({ length: 16000 * seconds }, (_, i) => sample(i / 16000));
+const vad = new bundle.__test.VoiceActivityDetector({ sampleRate: 16000, threshold: 0.03, onsetMs: 60, hangoverMs: 300 });
+if (vad.process(signal(0.5, () => 0.001)) || vad.speaking) {
+	throw new Error('安静的环境不应判为语音');
+}
+if (vad.process(signal(0.04, t => 0.2 * Math.sin(2 * Math.PI * 800 * t)))) {
+	throw new Error('短于起始确认时长的声音不应判为语音');
+}
+if (!vad.process(signal(0.2, t => 0.2 * Math.sin(2 * Math.PI * 800 * t))) || vad.features.speechBandRatio < 0.8) {
+	throw new Error(`语音频段内的持续声音应判为语音: ${JSON.stringify(vad.features)}`);
+}
+if (!vad.process(signal(0.2, () => 0)) || vad.speaking !== true) {
+	throw new Error('拖尾保持时间内应继续判为说话');
+}
+vad.process(signal(0.2, () => 0));
+if (vad.speaking) {
+	throw new Error('静音超过拖尾保持时间后应结束说话');
+}
+const humVad = new bundle.__test.VoiceActivityDetector({ sampleRate: 16000, threshold: 0.03 });
+if (humVad.process(signal(0.5, t => 0.3 * Math.sin(2 * Math.PI * 50 * t)))) {
+	throw new Error(`低频嗡声不应判为语音: ${JSON.stringify(humVad.features)}`);
+}
+let noiseSeed = 1;
+const hissVad = new bundle.__test.VoiceActivityDetector({ sampleRate: 16000, threshold: 0.03 });
+if (hissVad.process(signal(0.5, () => {
+	noiseSeed = (noiseSeed * 16807) % 2147483647;
+	return (noiseSeed / 2147483647 - 0.5) * 0.4;
+}))) {
+	throw new Error(`宽带噪声不应判为语音: ${JSON.stringify(hissVad.features)}`);
+}
+
+const quietRoom = Array.from({ length: 150 }, (_, i) => 0.002 + (i % 10) * 0.0002);
+const reading = Array.from({ length: 250 }, (_, i) => (i % 5 === 0 ? 0.003 : 0.08));
+const calibration = bundle.__test.computeVadCalibration(quietRoom, reading);
+if (!calibration || Math.abs(calibration.noiseFloor - 0.0038) > 1e-9 || calibration.speechLevel !== 0.08 || calibration.threshold <= calibration.noiseFloor * 2.5 || calibration.threshold > 0.04) {
+	throw new Error(`麦克风校准阈值计算不一致: ${JSON.stringify(calibration)}`);
+}
+if (bundle.__test.computeVadCalibration(quietRoom, reading.map(() => 0.005)) !== null) {
+	throw new Error('说话与噪声区分不明显时校准应失败');
+}
+
+const echoGate = new bundle.__test.EchoGate();
+if (!echoGate.isNearEnd(0.05, 0)) {
+	throw new Error('没有播报时麦克风的声音都应来自用户');
+}
+for (let time = 20; time <= 2000; time += 20) {
+	echoGate.addReference(0.2, time);
+	if (time > 1000 && echoGate.isNearEnd(0.2 * 0.3 * (time % 40 ? 1.2 : 0.8), time)) {
+		throw new Error(`播报回声不应判为用户说话，回声增益 ${echoGate.echoCoupling}`);
+	}
+	echoGate.isNearEnd(0.2 * 0.3, time);
+}
+if (echoGate.echoCoupling > 0.5 || !echoGate.isNearEnd(0.2 * 0.3 + 0.1, 2000)) {
+	throw new Error(`回声之上的用户语音应判为说话，回声增益 ${echoGate.echoCoupling}`);
+}
+if (!echoGate.isNearEnd(0.01, 2400)) {
+	throw new Error('播报结束超过参考窗口后不应再按回声处理');
+}
+
+const polishSegments = ['嗯那个今天开会 ', '讨论预算 ', '然后下周上线 '];
+if (!bundle.__test.buildPolishPrompt(polishSegments, '').includes('[2] 讨论预算')) {
+	throw new Error('润色提示词应逐句编号');
+}
+// 润色分组：只隔空白的两句合为一组，中间有用户文字的分开
+const polishGroups = bundle.__test.groupDictatedRanges('今天开会。 然后上线。用户笔记\n下周复盘。', [{ from: 16, to: 21 }, { from: 0, to: 5 }, { from: 6, to: 11 }]);
+if (JSON.stringify(polishGroups) !== JSON.stringify([[{ from: 0, to: 5 }, { from: 6, to: 11 }], [{ from: 16, to: 21 }]])) {
+	throw new Error(`听写润色分组不一致: ${JSON.stringify(polishGroups)}`);
+}
+const polishParagraphs = bundle.__test.parsePolishResponse('```\n[1-2] 今天开会讨论预算。\n[3-3] 然后下周上线。\n```', 3);
+if (JSON.stringify(polishParagraphs) !== JSON.stringify([{ from: 0, to: 2, text: '今天开会讨论预算。' }, { from: 2, to: 3, text: '然后下周上线。' }])) {
+	throw new Error(`润色段落解析不一致: ${JSON.stringify(polishParagraphs)}`);
+}
+const unalignedPolish = bundle.__test.parsePolishResponse('[1-1] 第一段\n[3-3] 第三段', 3);
+if (unalignedPolish.length !== 1 || unalignedPolish[0].to !== 3 || unalignedPolish[0].text !== '第一段\n\n第三段') {
+	throw new Error(`编号不连续时应整体作为一个段落: ${JSON.stringify(unalignedPolish)}`);
+}
+if (bundle.__test.composePolishedText(polishSegments, polishParagraphs, [true, false]) !== '今天开会讨论预算。\n\n然后下周上线 ') {
+	throw new Error('逐段接受后合成的文本不一致');
+}
+const polishDiff = bundle.__test.diffText('嗯今天 meeting', '今天 meeting。');
+if (JSON.stringify(polishDiff) !== JSON.stringify([{ type: 'delete', text: '嗯' }, { type: 'equal', text: '今天 meeting' }, { type: 'insert', text: '。' }])) {
+	throw new Error(`润色差异比较不一致: ${JSON.stringify(polishDiff)}`);
+}
+
+const translation = bundle.__test.cleanTranslationResponse('```\n译文："Ship the release today."\n```');
+if (translation !== 'Ship the release today.') {
+	throw new Error(`翻译结果清理不一致: ${translation}`);
+}
+
+const footnote = bundle.__test.formatFootnoteTranslation('See [docs].', '看 [文档]。');
+if (footnote !== 'See [docs].^[看 \\[文档\\]。]') {
+	throw new Error(`翻译脚注格式不一致: ${footnote}`);
+}
+
+const bilingualStart = bundle.__test.renderBilingualRow('Intro', 5, 'Hello | world', '你好', ['English', '原文']);
+if (bilingualStart.text !== '\n\n| English | 原文 |\n| --- | --- |\n| Hello \\| world | 你好 |\n') {
+	throw new Error(`双语表格表头不一致: ${JSON.stringify(bilingualStart)}`);
+}
+const bilingualDoc = 'Intro\n\n| English | 原文 |\n| --- | --- |\n| Hello | 你好 |\n';
+const bilingualNext = bundle.__test.renderBilingualRow(bilingualDoc, bilingualDoc.length, 'Bye', '再见', ['English', '原文']);
+if (bilingualNext.text !== '| Bye | 再见 |\n' || bilingualNext.from !== bilingualDoc.length) {
+	throw new Error(`双语表格追加行不一致: ${JSON.stringify(bilingualNext)}`);
+}
+
+for (const [text, expected] of [['三百零五', 305], ['两万三千', 23000], ['十二', 12], ['二零二四', 2024], ['百', NaN]]) {
+	const value = bundle.__test.parseChineseNumber(text);
+	if (!(value === expected || (Number.isNaN(value) && Number.isNaN(expected)))) {
+		throw new Error(`中文数字解析不一致: ${text} → ${value}`);
+	}
+}
+
+const normalizationOptions = bundle.__test.DEFAULT_TEXT_NORMALIZATION;
+for (const [text, expected, before] of [
+	['二零二四年三月五日下午三点十五分开会', '2024年3月5日下午 3:15 开会'],
+	['预算三百五十万元，涨了百分之三点五', '预算350万元，涨了 3.5%'],
+	['解一元二次方程，再讲二元论和五元组', '解一元二次方程，再讲二元论和五元组'],
+	['门票五十元一张，停车十元一次', '门票50元一张，停车10元一次'],
+	['星期一三点半见', '星期一 3:30 见'],
+	['第3章共 12 页', '第3章共12页'],
+	['我们用Python写脚本 然后 部署.', '我们用 Python 写脚本然后部署。'],
+	['我们讨论了 OpenRouter 的价格, 很便宜.', '我们讨论了 OpenRouter 的价格，很便宜。'],
+	['hello world. this is what i think', 'Hello world. This is what I think'],
+	['e.g. this is ok, i.e. fine. mr. smith says etc. and more. next one', 'E.g. this is ok, i.e. fine. Mr. smith says etc. and more. Next one'],
+	['this is fine', 'this is fine', 'See the list, e.g. '],
+	['版本2.0在example.com发布', '版本 2.0 在 example.com 发布'],
+	['and then we left', 'and then we left', 'We met'],
+	['buy milk', 'Buy milk', '- [ ] ']
+]) {
+	const normalized = bundle.__test.normalizeTranscript(text, normalizationOptions, before ?? '');
+	if (normalized !== expected) {
+		throw new Error(`文本规整不一致: ${text} → ${normalized}`);
+	}
+}
+
+if (!bundle.__test.needsSpaceBetween('今天', 'OK') || bundle.__test.needsSpaceBetween('今天。', 'OK') || bundle.__test.needsSpaceBetween('今天', '明天')
+	|| !bundle.__test.needsSpaceBetween('版本', '2.0') || bundle.__test.needsSpaceBetween('今年', '3月')) {
+	throw new Error('中英文拼接空格判断不一致');
+}
+const smartEdit = bundle.__test.renderDictationActions('会议纪要', 4, [{ type: 'text', text: '今天开会。' }], '\t', true);
+if (smartEdit.text !== '今天开会。') {
+	throw new Error(`中文听写句间空格不一致: ${JSON.stringify(smartEdit)}`);
+}
+const smartLatinEdit = bundle.__test.renderDictationActions('会议纪要', 4, [{ type: 'text', text: 'Release notes' }], '\t', true);
+if (smartLatinEdit.text !== ' Release notes ') {
+	throw new Error(`中英文听写拼接空格不一致: ${JSON.stringify(smartLatinEdit)}`);
+}
+
+const segmentedUtterances = [];
+const segmenter = new bundle.__test.UtteranceSegmenter({
+	preRollSamples: 4,
+	silenceWindows: 2,
+	maxWindows: 4,
+	onUtterance: (pcm, startSample) => segmentedUtterances.push({ length: pcm.length, startSample })
+});
+for (const hasVoice of [false, false, true, true, false, false, false, true, true, true, true, true]) {
+	segmenter.push(new Int16Array(4), hasVoice);
+}
+segmenter.flush();
+if (JSON.stringify(segmentedUtterances) !== JSON.stringify([{ length: 16, startSample: 4 }, { length: 16, startSample: 24 }, { length: 8, startSample: 40 }])) {
+	throw new Error(`语音分句不一致: ${JSON.stringify(segmentedUtterances)}`);
+}
+
+// 手动停止后分段听写循环仍会识别最后一句和排队中的录音，这时必须沿用本次听写的识别方案
+const dictationPlugin = new bundle.default();
+dictationPlugin.settings = { ...bundle.__test.DEFAULT_SETTINGS, asrStreamingMode: false, asrLanguage: 'zh_cn' };
+dictationPlugin.activeAsrProfile = { id: 'en', name: 'English', language: 'en_us', accent: 'mandarin', punctuation: true, numberFormat: false };
+dictationPlugin.isDictating = true;
+let flushedLanguage = '';
+dictationPlugin.startSegmentedDictationLoop = async () => {
+	dictationPlugin.stopDictation();
+	await Promise.resolve();
+	flushedLanguage = dictationPlugin.getAsrLanguageOptions().language;
+};
+await dictationPlugin.startContinuousDictationLoop({ kind: 'input', element: {} });
+if (flushedLanguage !== 'en_us' || dictationPlugin.activeAsrProfile !== null) {
+	throw new Error(`停止听写后识别方案失效: ${flushedLanguage}, ${JSON.stringify(dictationPlugin.activeAsrProfile)}`);
+}
+
+if (bundle.__test.formatTimestamp(3725.8) !== '01:02:05') {
+	throw new Error(`会议时间标记不一致: ${bundle.__test.formatTimestamp(3725.8)}`);
+}
+const meetingParagraph = bundle.__test.formatMeetingParagraph({ start: 65.4, speaker: '发言人 A', text: '先看预算。' }, '会议记录 2024-03-05.webm');
+if (meetingParagraph !== '[00:01:05](会议记录%202024-03-05.webm#t=65) **发言人 A**：先看预算。\n\n') {
+	throw new Error(`会议转写段落不一致: ${meetingParagraph}`);
+}
+
+console.info('运行时冒烟测试通过：打包加载成功，编码、签名、识别结果处理和音频转换等纯函数结果一致。');
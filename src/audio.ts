@@ -0,0 +1,103 @@
+/**
+ * PCM 音频处理：重采样、格式转换、拼接和 WAV 封装。
+ * 只处理采样数据，不依赖 Obsidian 和 Web Audio API，可在 Node 中直接测试。
+ */
+
+/** 讯飞 IAT 要求 16kHz、单声道、16 位 PCM。 */
+export const ASR_SAMPLE_RATE = 16000;
+
+/**
+ * 将浮点音频重采样为 16 位 PCM。
+ * 降采样时每个输出采样取对应输入区间的平均值，相当于简单低通，避免直接抽取造成明显混叠；
+ * 输入采样率低于目标时重复最近的输入采样。
+ */
+export function downsampleToPcm16(input: Float32Array, inputSampleRate: number, targetSampleRate = ASR_SAMPLE_RATE): Int16Array {
+	const ratio = inputSampleRate / targetSampleRate;
+	const length = Math.floor(input.length / ratio);
+	const output = new Int16Array(length);
+	for (let i = 0; i < length; i++) {
+		const start = Math.floor(i * ratio);
+		const end = Math.min(input.length, Math.max(start + 1, Math.floor((i + 1) * ratio)));
+		let sum = 0;
+		for (let j = start; j < end; j++) {
+			sum += input[j];
+		}
+		const sample = sum / (end - start);
+		output[i] = Math.max(-32768, Math.min(32767, Math.round(sample * 32767)));
+	}
+	return output;
+}
+
+/** 将 16 位 PCM 转为 -1 到 1 的浮点采样 */
+export function pcm16ToFloat32(pcm: Int16Array): Float32Array {
+	const output = new Float32Array(pcm.length);
+	for (let i = 0; i < pcm.length; i++) {
+		output[i] = pcm[i] / 32768;
+	}
+	return output;
+}
+
+/** 按顺序拼接多段 16 位 PCM */
+export function concatPcm16(chunks: Int16Array[]): Int16Array {
+	const output = new Int16Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+	let offset = 0;
+	for (const chunk of chunks) {
+		output.set(chunk, offset);
+		offset += chunk.length;
+	}
+	return output;
+}
+
+/**
+ * 将PCM音频数据转换为WAV格式
+ * @param pcmData PCM音频数据
+ * @param sampleRate 采样率
+ * @param channels 声道数
+ * @param bitsPerSample 每样本位数
+ * @returns WAV格式的音频数据
+ */
+export function pcmToWav(pcmData: Uint8Array, sampleRate: number, channels: number, bitsPerSample: number): Uint8Array<ArrayBuffer> {
+	const dataLength = pcmData.length;
+	const buffer = new ArrayBuffer(44 + dataLength);
+	const view = new DataView(buffer);
+
+	// WAV文件头
+	const writeString = (offset: number, string: string) => {
+		for (let i = 0; i < string.length; i++) {
+			view.setUint8(offset + i, string.charCodeAt(i));
+		}
+	};
+
+	// RIFF标识符
+	writeString(0, 'RIFF');
+	// 文件长度
+	view.setUint32(4, 36 + dataLength, true);
+	// WAVE标识符
+	writeString(8, 'WAVE');
+	// fmt子块标识符
+	writeString(12, 'fmt ');
+	// fmt子块长度
+	view.setUint32(16, 16, true);
+	// 音频格式 (PCM = 1)
+	view.setUint16(20, 1, true);
+	// 声道数
+	view.setUint16(22, channels, true);
+	// 采样率
+	view.setUint32(24, sampleRate, true);
+	// 字节率
+	view.setUint32(28, sampleRate * channels * bitsPerSample / 8, true);
+	// 块对齐
+	view.setUint16(32, channels * bitsPerSample / 8, true);
+	// 每样本位数
+	view.setUint16(34, bitsPerSample, true);
+	// data子块标识符
+	writeString(36, 'data');
+	// data子块长度
+	view.setUint32(40, dataLength, true);
+
+	// 复制PCM数据
+	const wavData = new Uint8Array(buffer);
+	wavData.set(pcmData, 44);
+
+	return wavData;
+}
@@ -0,0 +1,356 @@
+/**
+ * 听写中的语音编辑命令。
+ * 把一句识别结果解析为插入文字、换行、删除上一句、撤销、Markdown 结构等动作，由插件按顺序作用到编辑器。
+ */
+
+import { needsSpaceBetween } from './textNormalization';
+
+export type DictationCommandType = 'newline' | 'paragraph' | 'delete-last' | 'undo';
+
+/** Markdown 结构关键词：标题另有固定的“一级标题”到“六级标题”写法 */
+export type DictationStructureType = 'list-item' | 'task' | 'quote' | 'indent' | 'outdent';
+
+export type DictationAction =
+	| { type: 'text'; text: string }
+	| { type: DictationCommandType }
+	| { type: 'heading'; level: number }
+	| { type: DictationStructureType };
+
+/** 命令语法：每种命令的触发短语，Markdown 结构关键词，以及口述标点到符号的映射 */
+export interface DictationCommandGrammar {
+	commands: Record<DictationCommandType, string[]>;
+	structures: Record<DictationStructureType, string[]>;
+	punctuation: Record<string, string>;
+}
+
+export interface DictationParseOptions {
+	/** 识别换行、删除、撤销和口述标点 */
+	commands: boolean;
+	/** 识别句首的标题、列表、待办、引用和缩进关键词 */
+	markdown: boolean;
+}
+
+export const DEFAULT_DICTATION_GRAMMAR: DictationCommandGrammar = {
+	commands: {
+		'newline': ['换行', 'new line'],
+		'paragraph': ['新段落', '另起一段', 'new paragraph'],
+		'delete-last': ['删除上一句', 'delete last sentence', 'scratch that'],
+		'undo': ['撤销', 'undo']
+	},
+	structures: {
+		'list-item': ['列表项', '项目符号', 'bullet'],
+		'task': ['待办', '待办事项', 'todo'],
+		'quote': ['引用', 'quote'],
+		'indent': ['下一级', 'indent'],
+		'outdent': ['上一级', 'outdent']
+	},
+	punctuation: {
+		'句号': '。',
+		'逗号': '，',
+		'问号': '？',
+		'感叹号': '！',
+		'冒号': '：',
+		'分号': '；',
+		'顿号': '、',
+		'period': '.',
+		'comma': ',',
+		'question mark': '?',
+		'exclamation mark': '!',
+		'colon': ':',
+		'semicolon': ';'
+	}
+};
+
+/** 删除和撤销只在整句只包含该命令时执行，避免正文中碰巧出现的词误删内容 */
+const STANDALONE_COMMANDS: DictationCommandType[] = ['delete-last', 'undo'];
+
+/** 识别服务自动添加的标点，命令前后的这些标点会被去掉 */
+const AUTO_PUNCTUATION = '，。！？、；：,.!?;:';
+const TRAILING_AUTO_PUNCTUATION = new RegExp(`[\\s${AUTO_PUNCTUATION}]+$`);
+const LEADING_AUTO_PUNCTUATION = new RegExp(`^[${AUTO_PUNCTUATION}]+`);
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** 短语匹配模式：单词之间允许任意空白，英文两端要求单词边界 */
+function buildPhrasePattern(phrase: string): string {
+	let pattern = phrase.trim().split(/\s+/).map(escapeRegExp).join('\\s+');
+	if (/^[A-Za-z]/.test(phrase)) {
+		pattern = `(?<![A-Za-z])${pattern}`;
+	}
+	if (/[A-Za-z]$/.test(phrase)) {
+		pattern = `${pattern}(?![A-Za-z])`;
+	}
+	return pattern;
+}
+
+const HEADING_LEVELS: Record<string, number> = {
+	'一': 1, '二': 2, '三': 3, '四': 4, '五': 5, '六': 6,
+	'one': 1, 'two': 2, 'three': 3, 'four': 4, 'five': 5, 'six': 6
+};
+const HEADING_PATTERN = /^(?:([一二三四五六1-6])级标题|heading\s+(one|two|three|four|five|six|[1-6])(?![A-Za-z]))/i;
+
+/** 比较短语时忽略大小写和多余空白 */
+function normalizePhrase(phrase: string): string {
+	return phrase.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/** 解析以逗号、顿号或换行分隔的短语列表（设置界面使用） */
+export function parsePhraseList(value: string): string[] {
+	return value.split(/[,，、\n]/).map(phrase => phrase.trim()).filter(phrase => phrase.length > 0);
+}
+
+/** 解析每行一条的“短语 = 符号”口述标点映射 */
+export function parsePunctuationMap(value: string): Record<string, string> {
+	const map: Record<string, string> = {};
+	for (const line of value.split('\n')) {
+		const separator = line.lastIndexOf('=');
+		if (separator <= 0) continue;
+		const phrase = line.slice(0, separator).trim();
+		const symbol = line.slice(separator + 1).trim();
+		if (phrase && symbol) {
+			map[phrase] = symbol;
+		}
+	}
+	return map;
+}
+
+/** 把口述标点映射格式化为每行一条的文本 */
+export function formatPunctuationMap(map: Record<string, string>): string {
+	return Object.keys(map).map(phrase => `${phrase} = ${map[phrase]}`).join('\n');
+}
+
+/**
+ * 把一句识别结果解析为编辑动作。
+ * 换行、新段落和口述标点可以出现在句中任意位置；删除上一句和撤销需要整句只说命令本身。
+ * 命令前后由识别服务自动加上的标点会被去掉，例如“第一行，换行。第二行”得到两行文字。
+ */
+export function parseDictationUtterance(
+	text: string,
+	grammar: DictationCommandGrammar,
+	options: DictationParseOptions = { commands: true, markdown: false }
+): DictationAction[] {
+	const actions = options.commands ? parseCommands(text, grammar) : (text ? [{ type: 'text', text } as DictationAction] : []);
+	return options.markdown ? applyStructureKeywords(actions, grammar) : actions;
+}
+
+function parseCommands(text: string, grammar: DictationCommandGrammar): DictationAction[] {
+	const whole = normalizePhrase(text.replace(TRAILING_AUTO_PUNCTUATION, '').replace(LEADING_AUTO_PUNCTUATION, ''));
+	for (const type of STANDALONE_COMMANDS) {
+		if (grammar.commands[type].some(phrase => normalizePhrase(phrase) === whole)) {
+			return [{ type }];
+		}
+	}
+
+	const replacements = new Map<string, DictationAction | string>();
+	for (const type of ['newline', 'paragraph'] as DictationCommandType[]) {
+		for (const phrase of grammar.commands[type]) {
+			replacements.set(normalizePhrase(phrase), { type });
+		}
+	}
+	for (const phrase of Object.keys(grammar.punctuation)) {
+		replacements.set(normalizePhrase(phrase), grammar.punctuation[phrase]);
+	}
+	const phrases = Array.from(replacements.keys()).filter(phrase => phrase.length > 0);
+	if (phrases.length === 0) {
+		return text ? [{ type: 'text', text }] : [];
+	}
+
+	const matcher = new RegExp(phrases.sort((a, b) => b.length - a.length).map(buildPhrasePattern).join('|'), 'gi');
+	const actions: DictationAction[] = [];
+	let source = text;
+	let buffer = '';
+	let lastIndex = 0;
+	let match: RegExpExecArray | null;
+	while ((match = matcher.exec(source)) !== null) {
+		// 只去掉本段末尾的自动标点，保留前面口述标点插入的符号
+		buffer += source.slice(lastIndex, match.index).replace(TRAILING_AUTO_PUNCTUATION, '');
+		const replacement = replacements.get(normalizePhrase(match[0]));
+		let rest = source.slice(matcher.lastIndex).replace(LEADING_AUTO_PUNCTUATION, '');
+		if (typeof replacement === 'string') {
+			buffer += replacement;
+		} else if (replacement) {
+			if (buffer) {
+				actions.push({ type: 'text', text: buffer });
+			}
+			buffer = '';
+			actions.push(replacement);
+			rest = rest.trimStart();
+		}
+		// 直接在剩余文本上继续匹配，跳过被去掉的标点
+		source = source.slice(0, matcher.lastIndex) + rest;
+		lastIndex = matcher.lastIndex;
+	}
+	buffer += source.slice(lastIndex);
+	if (buffer) {
+		actions.push({ type: 'text', text: buffer });
+	}
+	return actions;
+}
+
+const LIST_PREFIX = /^(\s*)(?:[-*+]|\d+[.)])(\s+\[.\])?\s+/;
+const BARE_STRUCTURE_LINE = /^\s*(?:#{1,6}\s+|>\s*|(?:[-*+]|\d+[.)])(?:\s+\[.\])?\s+)?$/;
+
+/** 判断一行是否只有空白或结构前缀（如“- ”“# ”），这样的行可以直接替换前缀而不必另起一行 */
+export function isBareStructureLine(line: string): boolean {
+	return BARE_STRUCTURE_LINE.test(line);
+}
+
+/**
+ * 根据当前行生成结构动作的行首前缀。
+ * 列表项和待办沿用当前列表行的缩进；下一级、上一级在当前缩进上增减一级，并沿用当前行是否为待办。
+ */
+export function buildStructurePrefix(action: DictationAction, line: string, indentUnit = '\t'): string {
+	const list = LIST_PREFIX.exec(line);
+	const indent = list?.[1] ?? '';
+	const marker = list?.[2] ? '- [ ] ' : '- ';
+	switch (action.type) {
+		case 'heading':
+			return '#'.repeat(Math.min(Math.max(action.level, 1), 6)) + ' ';
+		case 'quote':
+			return '> ';
+		case 'list-item':
+			return indent + '- ';
+		case 'task':
+			return indent + '- [ ] ';
+		case 'indent':
+			return indent + indentUnit + marker;
+		case 'outdent':
+			return indent.replace(/(?:\t| {1,4})$/, '') + marker;
+		default:
+			return '';
+	}
+}
+
+/** 一句听写对文档的修改：把修改前文档的 [from, to) 替换为 text */
+export interface DictationEdit {
+	from: number;
+	to: number;
+	text: string;
+}
+
+/**
+ * 把一句听写的插入类动作合成为对文档的一次修改，插件整体替换一次即可让整句成为一个撤销步骤。
+ * 结构动作在当前行只有空白或结构前缀时直接替换前缀（如先说“列表项”再说“下一级”），否则另起一行。
+ * 以文字结尾时补一个空格与下一句隔开；标题占一整行，下一句从新行开始。删除上一句和撤销由插件单独处理。
+ * smartSpacing 为 true 时按中英文混排规则决定空格：只在英文结尾后补空格，句首按前文需要时补空格，中文句子之间不留空格。
+ */
+export function renderDictationActions(doc: string, offset: number, actions: DictationAction[], indentUnit = '\t', smartSpacing = false): DictationEdit {
+	let from = offset;
+	let text = '';
+	let inHeading = false;
+	const lineEnd = doc.indexOf('\n', offset);
+	const restOfLine = doc.slice(offset, lineEnd === -1 ? doc.length : lineEnd);
+
+	for (const action of actions) {
+		switch (action.type) {
+			case 'text':
+				text += action.text;
+				break;
+			case 'newline':
+				text += '\n';
+				inHeading = false;
+				break;
+			case 'paragraph':
+				text += '\n\n';
+				inHeading = false;
+				break;
+			case 'delete-last':
+			case 'undo':
+				break;
+			default: {
+				const before = doc.slice(0, from) + text;
+				const lineStart = before.lastIndexOf('\n') + 1;
+				const line = before.slice(lineStart);
+				const isLastLine = !text.includes('\n');
+				const prefix = buildStructurePrefix(action, isLastLine ? line + restOfLine : line, indentUnit);
+				if (isBareStructureLine(line) && !(isLastLine && restOfLine.trim())) {
+					// 替换当前行已有的前缀：行首在本句新插入的文字中时只改写文字，否则把修改起点前移到行首
+					if (lineStart >= from) {
+						text = text.slice(0, lineStart - from) + prefix;
+					} else {
+						from = lineStart;
+						text = prefix;
+					}
+				} else {
+					text += '\n' + prefix;
+				}
+				inHeading = action.type === 'heading';
+				break;
+			}
+		}
+	}
+
+	if (actions[actions.length - 1]?.type === 'text') {
+		if (inHeading) {
+			text += '\n';
+		} else if (!smartSpacing || /[A-Za-z0-9,.!?;:'")\]]$/.test(text)) {
+			text += ' ';
+		}
+	}
+	if (smartSpacing && actions[0]?.type === 'text' && from === offset && needsSpaceBetween(doc.slice(0, offset), text)) {
+		text = ' ' + text;
+	}
+	return { from, to: offset, text };
+}
+
+/** 从一段文字开头取出一个结构关键词，返回对应动作和剩余文字 */
+function takeStructureKeyword(text: string, grammar: DictationCommandGrammar): { action: DictationAction; rest: string } | null {
+	const heading = HEADING_PATTERN.exec(text);
+	if (heading) {
+		const level = (heading[1] ?? heading[2]).toLowerCase();
+		return { action: { type: 'heading', level: HEADING_LEVELS[level] ?? Number(level) }, rest: text.slice(heading[0].length) };
+	}
+
+	const candidates: Array<{ phrase: string; type: DictationStructureType }> = [];
+	for (const type of Object.keys(grammar.structures) as DictationStructureType[]) {
+		for (const phrase of grammar.structures[type]) {
+			if (phrase.trim()) {
+				candidates.push({ phrase, type });
+			}
+		}
+	}
+	candidates.sort((a, b) => b.phrase.length - a.phrase.length);
+	for (const { phrase, type } of candidates) {
+		const match = new RegExp(`^${buildPhrasePattern(phrase)}`, 'i').exec(text);
+		if (match) {
+			return { action: { type }, rest: text.slice(match[0].length) };
+		}
+	}
+	return null;
+}
+
+/**
+ * 把位于句首或换行之后的结构关键词转换为结构动作，例如“一级标题，会议纪要。”得到标题动作和“会议纪要”。
+ * 句中出现的关键词按普通文字处理，避免“引用”等常用词误触发；标题末尾自动添加的句号会被去掉。
+ */
+function applyStructureKeywords(actions: DictationAction[], grammar: DictationCommandGrammar): DictationAction[] {
+	const result: DictationAction[] = [];
+	let atLineStart = true;
+	for (const action of actions) {
+		if (action.type !== 'text') {
+			result.push(action);
+			atLineStart = action.type === 'newline' || action.type === 'paragraph';
+			continue;
+		}
+
+		let text = action.text;
+		let isHeading = false;
+		while (atLineStart) {
+			const taken = takeStructureKeyword(text.replace(LEADING_AUTO_PUNCTUATION, '').trimStart(), grammar);
+			if (!taken) break;
+			result.push(taken.action);
+			isHeading = taken.action.type === 'heading';
+			text = taken.rest.replace(LEADING_AUTO_PUNCTUATION, '').trimStart();
+		}
+		if (isHeading) {
+			text = text.replace(TRAILING_AUTO_PUNCTUATION, '');
+		}
+		if (text) {
+			result.push({ type: 'text', text });
+		}
+		atLineStart = false;
+	}
+	return result;
+}
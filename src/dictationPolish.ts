@@ -0,0 +1,180 @@
+/**
+ * 听写内容的大模型润色。
+ * 按句编号发给模型，要求模型逐段标明对应的原句范围，这样每个润色段落都能与原文对齐，供用户逐段接受或拒绝。
+ */
+
+/** 润色后的一个段落，对应原句 [from, to) */
+export interface PolishParagraph {
+	from: number;
+	to: number;
+	text: string;
+}
+
+/** 差异片段：equal 为两边相同，delete 只在原文中，insert 只在润色结果中 */
+export interface TextDiffPart {
+	type: 'equal' | 'delete' | 'insert';
+	text: string;
+}
+
+export const DEFAULT_POLISH_INSTRUCTIONS =
+	'请润色下面的语音听写文本：补全并修正标点，删除“嗯”“啊”“那个”“就是”等口头禅和无意义的重复，并按语义分段。不要改变原意，不要增删信息，保留 Markdown 标记和原文语言。';
+
+const PARAGRAPH_MARKER = /^\s*\[(\d+)(?:\s*[-–~～]\s*(\d+))?\]\s*/;
+
+/** 听写插入的一句在笔记中的范围（文本偏移） */
+export interface DictatedRange {
+	from: number;
+	to: number;
+}
+
+/**
+ * 把本次听写的各句范围按位置分组，每组是笔记中连续的一段听写内容，分别润色。
+ * 相邻两句之间只隔空白时视为连续；中间夹着用户自己的文字（按光标或笔记末尾插入时可能相隔很远）则分为两组，这些文字不会发给模型，也不会被改写。
+ */
+export function groupDictatedRanges(content: string, ranges: DictatedRange[]): DictatedRange[][] {
+	const groups: DictatedRange[][] = [];
+	let groupTo = -1;
+	for (const range of ranges.slice().sort((a, b) => a.from - b.from)) {
+		const current = groups[groups.length - 1];
+		if (current && !content.slice(groupTo, range.from).trim()) {
+			current.push(range);
+		} else {
+			groups.push([range]);
+		}
+		groupTo = Math.max(groupTo, range.to);
+	}
+	return groups;
+}
+
+/** 生成润色提示词：输入逐句编号，要求输出段落以 [起始编号-结束编号] 开头 */
+export function buildPolishPrompt(segments: string[], instructions: string): string {
+	const numbered = segments.map((segment, index) => `[${index + 1}] ${segment.trim()}`).join('\n');
+	return [
+		instructions.trim() || DEFAULT_POLISH_INSTRUCTIONS,
+		'输入按句编号给出。输出若干段落，每段单独一行，以 [起始编号-结束编号] 开头标明该段对应的输入句子；编号必须按顺序连续覆盖全部输入，不要输出任何解释。例如：',
+		'[1-3] 第一段内容',
+		'[4-4] 第二段内容',
+		'',
+		'输入：',
+		numbered
+	].join('\n');
+}
+
+/**
+ * 解析模型返回的段落。
+ * 段落编号不连续、未覆盖全部输入或格式不符时，把整段回复作为覆盖全部原句的一个段落，仍可整体接受或拒绝。
+ */
+export function parsePolishResponse(response: string, segmentCount: number): PolishParagraph[] {
+	const lines = response.replace(/^\s*```[^\n]*\n?|\n?```\s*$/g, '').split(/\r?\n/);
+	const paragraphs: PolishParagraph[] = [];
+	let valid = true;
+	for (const line of lines) {
+		const marker = PARAGRAPH_MARKER.exec(line);
+		if (marker) {
+			const from = Number(marker[1]) - 1;
+			const to = Number(marker[2] ?? marker[1]);
+			paragraphs.push({ from, to, text: line.slice(marker[0].length).trim() });
+		} else if (line.trim()) {
+			// 模型把长段落折成多行时并入上一段
+			const last = paragraphs[paragraphs.length - 1];
+			if (last) {
+				last.text = last.text ? `${last.text}\n${line.trim()}` : line.trim();
+			} else {
+				valid = false;
+			}
+		}
+	}
+
+	let expected = 0;
+	for (const paragraph of paragraphs) {
+		if (paragraph.from !== expected || paragraph.to <= paragraph.from) {
+			valid = false;
+			break;
+		}
+		expected = paragraph.to;
+	}
+	if (valid && paragraphs.length > 0 && expected === segmentCount) {
+		return paragraphs;
+	}
+
+	const text = lines
+		.map(line => line.replace(PARAGRAPH_MARKER, '').trim())
+		.filter(line => line.length > 0)
+		.join('\n\n');
+	return [{ from: 0, to: segmentCount, text }];
+}
+
+/** 取出一个段落对应的原文 */
+export function getParagraphOriginal(segments: string[], paragraph: PolishParagraph): string {
+	return segments.slice(paragraph.from, paragraph.to).join('').trim();
+}
+
+/**
+ * 按用户的逐段选择合成最终文本：接受的段落使用润色结果，拒绝的段落保留原文；段落之间空一行。
+ * 原文末尾的空白（听写时句后补的空格或换行）原样保留。
+ */
+export function composePolishedText(segments: string[], paragraphs: PolishParagraph[], accepted: boolean[]): string {
+	const trailing = /\s*$/.exec(segments.join(''))?.[0] ?? '';
+	const body = paragraphs
+		.map((paragraph, index) => accepted[index] ? paragraph.text : getParagraphOriginal(segments, paragraph))
+		.filter(text => text.length > 0)
+		.join('\n\n');
+	return body + trailing;
+}
+
+/** 差异比较的单位：连续的英文单词或数字、连续空白，其余每个字符单独一个 */
+function tokenizeForDiff(text: string): string[] {
+	return text.match(/[A-Za-z0-9]+|\s+|[\s\S]/g) ?? [];
+}
+
+/** 超过该规模（原文词元数 × 结果词元数）不再逐词比较，直接整体标为删除和新增 */
+const MAX_DIFF_CELLS = 400000;
+
+/** 基于最长公共子序列比较原文和润色结果，用于在对比视图中高亮修改 */
+export function diffText(before: string, after: string): TextDiffPart[] {
+	const a = tokenizeForDiff(before);
+	const b = tokenizeForDiff(after);
+	if (a.length * b.length > MAX_DIFF_CELLS) {
+		return [
+			...(before ? [{ type: 'delete' as const, text: before }] : []),
+			...(after ? [{ type: 'insert' as const, text: after }] : [])
+		];
+	}
+
+	// lengths[i][j] 为 a[i..] 与 b[j..] 的最长公共子序列长度
+	const lengths: Uint32Array[] = [];
+	for (let i = 0; i <= a.length; i++) {
+		lengths.push(new Uint32Array(b.length + 1));
+	}
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+		}
+	}
+
+	const parts: TextDiffPart[] = [];
+	const push = (type: TextDiffPart['type'], text: string) => {
+		const last = parts[parts.length - 1];
+		if (last && last.type === type) {
+			last.text += text;
+		} else {
+			parts.push({ type, text });
+		}
+	};
+	let i = 0;
+	let j = 0;
+	while (i < a.length && j < b.length) {
+		if (a[i] === b[j]) {
+			push('equal', a[i]);
+			i++;
+			j++;
+		} else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+			push('delete', a[i++]);
+		} else {
+			push('insert', b[j++]);
+		}
+	}
+	while (i < a.length) push('delete', a[i++]);
+	while (j < b.length) push('insert', b[j++]);
+	return parts;
+}
@@ -0,0 +1,94 @@
+/**
+ * 听写翻译：把每句识别结果翻译成目标语言后再写入笔记。
+ * 只处理提示词和文本格式，不依赖 Obsidian API；翻译由插件按设置选择大模型或 LibreTranslate 完成。
+ */
+
+/** 翻译函数：输入一句原文，返回译文 */
+export type Translator = (text: string) => Promise<string>;
+
+/** 原文的保留方式：不保留、作为行内脚注，或与译文并排写入两列表格 */
+export type TranslationOriginalMode = 'none' | 'footnote' | 'bilingual';
+
+/** 可选的目标语言，键为 LibreTranslate 使用的语言代码，值为提示词和表头中使用的名称 */
+export const TRANSLATION_LANGUAGES: Record<string, string> = {
+	en: 'English',
+	zh: '简体中文',
+	ja: '日本語',
+	ko: '한국어',
+	fr: 'Français',
+	de: 'Deutsch',
+	es: 'Español'
+};
+
+/** 插入的一段文字：在 [from, to) 处替换为 text */
+export interface TranslationEdit {
+	from: number;
+	to: number;
+	text: string;
+}
+
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+
+/** 生成大模型翻译提示词，要求只输出译文 */
+export function buildTranslationPrompt(text: string, language: string): string {
+	return [
+		`把下面这句语音听写内容翻译成${language}。只输出译文，不要解释，不要加引号；保留原文中的 Markdown 标记、代码、链接和专有名词；原文已经是${language}时原样输出。`,
+		'',
+		text.trim()
+	].join('\n');
+}
+
+/** 清理模型回复：去掉代码块围栏、首尾引号和“译文：”之类的前缀 */
+export function cleanTranslationResponse(response: string): string {
+	return response
+		.replace(/^\s*```[^\n]*\n?|\n?```\s*$/g, '')
+		.trim()
+		.replace(/^(?:译文|翻译|Translation)\s*[:：]\s*/i, '')
+		.replace(/^["“「]([\s\S]*)["”」]$/, '$1')
+		.trim();
+}
+
+/** 生成带行内脚注的译文，原文中的方括号转义，避免提前结束脚注 */
+export function formatFootnoteTranslation(translated: string, original: string): string {
+	const note = original.trim().replace(/[[\]]/g, '\\$&');
+	return note ? `${translated}^[${note}]` : translated;
+}
+
+/** 转义表格单元格中的竖线，并把换行合并为空格 */
+function toTableCell(text: string): string {
+	return text.trim().replace(/\s*\n\s*/g, ' ').replace(/\|/g, '\\|');
+}
+
+/**
+ * 在 offset 处写入一行双语表格。
+ * 插入位置紧跟在已有表格行之后时只追加一行；否则先补齐空行并写出表头，开始一个新表格。
+ * 每行以换行结尾，下一句会接着写入同一个表格。
+ */
+export function renderBilingualRow(
+	doc: string,
+	offset: number,
+	translated: string,
+	original: string,
+	headers: [string, string]
+): TranslationEdit {
+	const lineStart = doc.lastIndexOf('\n', offset - 1) + 1;
+	const currentLine = doc.slice(lineStart, offset);
+	const row = `| ${toTableCell(translated)} | ${toTableCell(original)} |\n`;
+
+	if (currentLine.trim() && TABLE_ROW.test(currentLine)) {
+		return { from: offset, to: offset, text: `\n${row}` };
+	}
+	let prefix = '';
+	if (currentLine.trim()) {
+		prefix = '\n\n';
+	} else if (lineStart > 0) {
+		const previousStart = doc.lastIndexOf('\n', lineStart - 2) + 1;
+		const previousLine = doc.slice(previousStart, lineStart - 1);
+		if (TABLE_ROW.test(previousLine)) {
+			return { from: offset, to: offset, text: row };
+		}
+		prefix = previousLine.trim() ? '\n' : '';
+	}
+	const header = `| ${toTableCell(headers[0])} | ${toTableCell(headers[1])} |\n| --- | --- |\n`;
+	return { from: offset, to: offset, text: prefix + header + row };
+}
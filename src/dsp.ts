@@ -0,0 +1,215 @@
+/**
+ * 识别前的音频预处理：高通滤波、噪声门、自动增益和峰值归一化。
+ * 只处理浮点采样，不依赖 Obsidian 和 Web Audio API；整段录音和实时音频帧共用同一套处理，实时音频不做峰值归一化。
+ */
+
+/** 各处理环节的开关和参数，电平均为 dBFS */
+export interface AudioProcessingOptions {
+	highPass: boolean; // 高通滤波，去除直流偏移和风扇、空调的低频嗡声
+	highPassFrequency: number; // 高通截止频率（Hz）
+	noiseGate: boolean; // 噪声门，压低停顿中的底噪
+	noiseGateThreshold: number; // 低于该电平的片段视为底噪
+	autoGain: boolean; // 自动增益，把说话音量调到目标电平
+	autoGainTarget: number; // 说话时的目标 RMS 电平
+	normalize: boolean; // 峰值归一化，仅用于整段录音
+	normalizePeak: number; // 归一化后的峰值电平
+}
+
+export const DEFAULT_AUDIO_PROCESSING: AudioProcessingOptions = {
+	highPass: true,
+	highPassFrequency: 80,
+	noiseGate: false,
+	noiseGateThreshold: -50,
+	autoGain: true,
+	autoGainTarget: -20,
+	normalize: true,
+	normalizePeak: -1
+};
+
+/** 一段音频的峰值和 RMS 电平（dBFS） */
+export interface AudioLevels {
+	peak: number;
+	rms: number;
+}
+
+/** 电平和增益计算的块长（毫秒） */
+const BLOCK_MS = 10;
+/** 噪声门关闭时的衰减（约 -30dB），不完全静音，避免句中轻声被切成断续的声音 */
+const GATE_FLOOR_GAIN = 0.03;
+const GATE_ATTACK_MS = 5;
+const GATE_RELEASE_MS = 150;
+/** 未启用噪声门时，高于该电平的片段才参与自动增益的音量估计，避免在停顿中放大底噪 */
+const AUTO_GAIN_ACTIVITY_LEVEL = -45;
+/** 自动增益的范围：最多放大 24dB、衰减 12dB */
+const AUTO_GAIN_MAX = 16;
+const AUTO_GAIN_MIN = 0.25;
+/** 说话音量估计每块的平滑系数（约 200ms 时间常数）和增益变化的时间常数 */
+const AUTO_GAIN_LEVEL_SMOOTHING = 0.05;
+const AUTO_GAIN_RAMP_MS = 50;
+/** 峰值归一化最多放大 12dB，只有底噪的录音不会被放大到满幅 */
+const NORMALIZE_MAX_GAIN = 4;
+
+/** dBFS 转为线性幅度 */
+export function dbToGain(db: number): number {
+	return Math.pow(10, db / 20);
+}
+
+/** 线性幅度转为 dBFS，静音记为 -120dB */
+export function gainToDb(gain: number): number {
+	return gain > 1e-6 ? 20 * Math.log10(gain) : -120;
+}
+
+/** 二阶 IIR 滤波器（RBJ 音频均衡器公式），状态在帧之间保留 */
+export class Biquad {
+	private x1 = 0;
+	private x2 = 0;
+	private y1 = 0;
+	private y2 = 0;
+
+	private constructor(
+		private readonly b0: number,
+		private readonly b1: number,
+		private readonly b2: number,
+		private readonly a1: number,
+		private readonly a2: number
+	) {}
+
+	static highPass(sampleRate: number, frequency: number): Biquad {
+		const { cos, alpha } = Biquad.prepare(sampleRate, frequency);
+		const a0 = 1 + alpha;
+		return new Biquad((1 + cos) / 2 / a0, -(1 + cos) / a0, (1 + cos) / 2 / a0, -2 * cos / a0, (1 - alpha) / a0);
+	}
+
+	static lowPass(sampleRate: number, frequency: number): Biquad {
+		const { cos, alpha } = Biquad.prepare(sampleRate, frequency);
+		const a0 = 1 + alpha;
+		return new Biquad((1 - cos) / 2 / a0, (1 - cos) / a0, (1 - cos) / 2 / a0, -2 * cos / a0, (1 - alpha) / a0);
+	}
+
+	/** Butterworth 响应（Q = 1/√2） */
+	private static prepare(sampleRate: number, frequency: number): { cos: number; alpha: number } {
+		const omega = 2 * Math.PI * Math.min(frequency, sampleRate * 0.45) / sampleRate;
+		return { cos: Math.cos(omega), alpha: Math.sin(omega) / Math.SQRT2 };
+	}
+
+	process(x: number): number {
+		const y = this.b0 * x + this.b1 * this.x1 + this.b2 * this.x2 - this.a1 * this.y1 - this.a2 * this.y2;
+		this.x2 = this.x1;
+		this.x1 = x;
+		this.y2 = this.y1;
+		this.y1 = y;
+		return y;
+	}
+}
+
+/** 累计多段音频的峰值和能量，用于实时音频的处理前后电平对比 */
+export class LevelAccumulator {
+	private peak = 0;
+	private energy = 0;
+	private count = 0;
+
+	add(samples: Float32Array): void {
+		for (let i = 0; i < samples.length; i++) {
+			const sample = samples[i];
+			this.peak = Math.max(this.peak, Math.abs(sample));
+			this.energy += sample * sample;
+		}
+		this.count += samples.length;
+	}
+
+	get levels(): AudioLevels {
+		return {
+			peak: gainToDb(this.peak),
+			rms: gainToDb(this.count > 0 ? Math.sqrt(this.energy / this.count) : 0)
+		};
+	}
+}
+
+/** 计算一段音频的峰值和 RMS 电平 */
+export function measureLevels(samples: Float32Array): AudioLevels {
+	const accumulator = new LevelAccumulator();
+	accumulator.add(samples);
+	return accumulator.levels;
+}
+
+/**
+ * 流式音频处理器：依次做高通滤波、噪声门和自动增益，滤波器和增益状态在多次调用之间保留。
+ */
+export class AudioProcessor {
+	private readonly blockSize: number;
+	private readonly highPass: Biquad | null;
+	private readonly gateThreshold: number;
+	private readonly gateAttack: number;
+	private readonly gateRelease: number;
+	private readonly autoGainTarget: number;
+	private readonly autoGainRamp: number;
+	private gateGain: number;
+	private speechLevel: number | null = null;
+	private autoGain = 1;
+
+	constructor(sampleRate: number, private readonly options: AudioProcessingOptions) {
+		const coefficient = (ms: number) => 1 - Math.exp(-1000 / (ms * sampleRate));
+		this.blockSize = Math.max(1, Math.round(sampleRate * BLOCK_MS / 1000));
+		this.highPass = options.highPass ? Biquad.highPass(sampleRate, options.highPassFrequency) : null;
+		this.gateThreshold = dbToGain(options.noiseGate ? options.noiseGateThreshold : AUTO_GAIN_ACTIVITY_LEVEL);
+		this.gateAttack = coefficient(GATE_ATTACK_MS);
+		this.gateRelease = coefficient(GATE_RELEASE_MS);
+		// 录音从静音开始，噪声门初始为关闭状态
+		this.gateGain = options.noiseGate ? GATE_FLOOR_GAIN : 1;
+		this.autoGainTarget = dbToGain(options.autoGainTarget);
+		this.autoGainRamp = coefficient(AUTO_GAIN_RAMP_MS);
+	}
+
+	/** 处理一段采样，返回新的数组 */
+	process(input: Float32Array): Float32Array {
+		const output = new Float32Array(input.length);
+		for (let start = 0; start < input.length; start += this.blockSize) {
+			const end = Math.min(input.length, start + this.blockSize);
+			let energy = 0;
+			for (let i = start; i < end; i++) {
+				const sample = this.highPass ? this.highPass.process(input[i]) : input[i];
+				output[i] = sample;
+				energy += sample * sample;
+			}
+			const level = Math.sqrt(energy / (end - start));
+			const active = level >= this.gateThreshold;
+
+			let targetAutoGain = this.autoGain;
+			if (this.options.autoGain && active) {
+				const first = this.speechLevel === null;
+				this.speechLevel = this.speechLevel === null ? level : this.speechLevel + (level - this.speechLevel) * AUTO_GAIN_LEVEL_SMOOTHING;
+				targetAutoGain = Math.min(AUTO_GAIN_MAX, Math.max(AUTO_GAIN_MIN, this.autoGainTarget / this.speechLevel));
+				// 第一段语音直接按估计的音量设定增益，之后平滑变化
+				if (first) {
+					this.autoGain = targetAutoGain;
+				}
+			}
+			const targetGateGain = !this.options.noiseGate || active ? 1 : GATE_FLOOR_GAIN;
+
+			for (let i = start; i < end; i++) {
+				this.gateGain += (targetGateGain - this.gateGain) * (targetGateGain > this.gateGain ? this.gateAttack : this.gateRelease);
+				this.autoGain += (targetAutoGain - this.autoGain) * this.autoGainRamp;
+				output[i] = Math.max(-1, Math.min(1, output[i] * this.gateGain * this.autoGain));
+			}
+		}
+		return output;
+	}
+}
+
+/** 处理一整段录音：流式处理之后按设置做峰值归一化 */
+export function processAudioClip(samples: Float32Array, sampleRate: number, options: AudioProcessingOptions): Float32Array {
+	const output = new AudioProcessor(sampleRate, options).process(samples);
+	if (options.normalize) {
+		let peak = 0;
+		for (let i = 0; i < output.length; i++) {
+			peak = Math.max(peak, Math.abs(output[i]));
+		}
+		if (peak > 0) {
+			const gain = Math.min(NORMALIZE_MAX_GAIN, dbToGain(options.normalizePeak) / peak);
+			for (let i = 0; i < output.length; i++) {
+				output[i] *= gain;
+			}
+		}
+	}
+	return output;
+}
@@ -0,0 +1,65 @@
+/**
+ * 语音打断的回声判断。
+ * 笔记本外放播报时，麦克风会录到助手自己的声音。以正在播放的 TTS 音频作为参考信号，
+ * 估计扬声器到麦克风的回声增益，只有麦克风能量明显超出回声能解释的范围时才认为用户在说话（双讲检测）。
+ * 只处理能量数值，不依赖 Obsidian 和 Web Audio API。
+ */
+
+/** 参考信号的时间窗口（毫秒），覆盖扬声器到麦克风的传播和两路采集的缓冲延迟 */
+const REFERENCE_WINDOW_MS = 300;
+/** 参考信号低于该 RMS 能量时视为没有在播报，麦克风的声音都来自用户 */
+const MIN_REFERENCE_LEVEL = 0.005;
+/** 麦克风能量超过回声估计的倍数才算用户说话（约 6dB） */
+const DOUBLE_TALK_MARGIN = 2;
+/** 回声增益的初始值和取值范围：开始时按扬声器与麦克风等响估计，宁可漏判也不自我打断 */
+const INITIAL_COUPLING = 1;
+const MIN_COUPLING = 0.05;
+/** 回声增益跟踪回声能量比的上包络：上升快、下降慢 */
+const COUPLING_RISE_RATE = 0.3;
+const COUPLING_FALL_RATE = 0.02;
+
+/**
+ * 按时间对齐参考信号和麦克风的逐帧能量，判断麦克风中是否有回声以外的声音。
+ * 回声增益在多次播报之间保留，同一套扬声器和麦克风只需适应一次。
+ */
+export class EchoGate {
+	private references: Array<{ time: number; level: number }> = [];
+	private coupling = INITIAL_COUPLING;
+
+	/** 当前估计的回声增益（麦克风能量 / 参考信号能量） */
+	get echoCoupling(): number {
+		return this.coupling;
+	}
+
+	/** 记录一帧参考信号（正在播放的 TTS 音频）的能量 */
+	addReference(level: number, time: number): void {
+		this.references.push({ time, level });
+		this.prune(time);
+	}
+
+	/**
+	 * 判断一帧麦克风能量是否来自用户（回声无法解释）。
+	 * 判为回声的帧用来更新回声增益。
+	 */
+	isNearEnd(micLevel: number, time: number): boolean {
+		this.prune(time);
+		const reference = this.references.reduce((max, item) => Math.max(max, item.level), 0);
+		if (reference < MIN_REFERENCE_LEVEL) {
+			return true;
+		}
+
+		const ratio = micLevel / reference;
+		if (ratio > this.coupling * DOUBLE_TALK_MARGIN) {
+			return true;
+		}
+		const rate = ratio > this.coupling ? COUPLING_RISE_RATE : COUPLING_FALL_RATE;
+		this.coupling = Math.max(MIN_COUPLING, this.coupling + (ratio - this.coupling) * rate);
+		return false;
+	}
+
+	private prune(time: number): void {
+		while (this.references.length > 0 && this.references[0].time < time - REFERENCE_WINDOW_MS) {
+			this.references.shift();
+		}
+	}
+}
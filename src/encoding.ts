@@ -0,0 +1,29 @@
+/**
+ * Base64 编解码。
+ * 讯飞接口的音频、签名和文本参数都以 Base64 传输；只依赖标准的 btoa/atob，可在 Node 中直接测试。
+ */
+
+/** 将字节数组转为 Base64，分块处理以避免超大音频导致调用栈溢出。 */
+export function bytesToBase64(bytes: Uint8Array): string {
+	let binary = '';
+	const chunkSize = 8192;
+	for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+		binary += String.fromCharCode(...bytes.subarray(offset, offset + chunkSize));
+	}
+	return btoa(binary);
+}
+
+/** 将 Base64 解码为字节数组，格式无效时抛出错误 */
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+	const binary = atob(base64);
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i);
+	}
+	return bytes;
+}
+
+/** 按 UTF-8 字节编码文本，替代已废弃的 unescape 组合。 */
+export function encodeUtf8ToBase64(text: string): string {
+	return bytesToBase64(new TextEncoder().encode(text));
+}
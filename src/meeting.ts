@@ -0,0 +1,56 @@
+/**
+ * 会议记录：时间标记、转写段落和会议总结提示词的格式。
+ * 只处理纯文本，不依赖 Obsidian API；录音、识别和写入笔记由插件完成。
+ */
+
+/** 一段转写：start 为距会议开始的秒数，speaker 为空表示未标记发言人 */
+export interface MeetingEntry {
+	start: number;
+	speaker: string;
+	text: string;
+}
+
+export const DEFAULT_MEETING_SPEAKERS = ['发言人 A', '发言人 B', '发言人 C'];
+
+/** 把秒数格式化为 hh:mm:ss */
+export function formatTimestamp(seconds: number): string {
+	const total = Math.max(0, Math.floor(seconds));
+	const pad = (value: number) => (value < 10 ? `0${value}` : String(value));
+	return `${pad(Math.floor(total / 3600))}:${pad(Math.floor(total / 60) % 60)}:${pad(total % 60)}`;
+}
+
+/**
+ * 生成一段转写的 Markdown。
+ * 有会议录音时时间标记链接到录音的对应时刻（媒体片段 #t=秒），点击即可回放；发言人加粗写在时间标记之后。
+ */
+export function formatMeetingParagraph(entry: MeetingEntry, audioName = ''): string {
+	const time = formatTimestamp(entry.start);
+	const marker = audioName
+		? `[${time}](${audioName.replace(/ /g, '%20')}#t=${Math.max(0, Math.floor(entry.start))})`
+		: `[${time}]`;
+	const speaker = entry.speaker ? ` **${entry.speaker}**：` : ' ';
+	return `${marker}${speaker}${entry.text.trim()}\n\n`;
+}
+
+/** 把转写整理为纯文本，供生成会议总结 */
+export function formatMeetingTranscript(entries: MeetingEntry[]): string {
+	return entries
+		.map(entry => `[${formatTimestamp(entry.start)}] ${entry.speaker ? `${entry.speaker}：` : ''}${entry.text.trim()}`)
+		.join('\n');
+}
+
+/** 生成会议总结提示词，要求输出摘要、决定和行动项三部分 */
+export function buildMeetingSummaryPrompt(entries: MeetingEntry[]): string {
+	return [
+		'下面是一次会议的语音转写记录，每行开头是时间和发言人。请用与记录相同的语言整理会议总结，只输出以下三部分的 Markdown：',
+		'### 摘要',
+		'用几句话概括讨论的主要内容。',
+		'### 决定',
+		'列出会议做出的决定，每条一行，没有则写“无”。',
+		'### 行动项',
+		'用任务列表列出行动项，格式为“- [ ] 负责人：事项（截止时间）”，负责人或截止时间不明确时省略对应部分，没有则写“无”。',
+		'',
+		'会议记录：',
+		formatMeetingTranscript(entries)
+	].join('\n');
+}
@@ -0,0 +1,272 @@
+/**
+ * 识别结果的文本规整：中英文混排空格、全角与半角标点、中文数字转阿拉伯数字和英文句首大写。
+ * 只处理纯文本，不依赖 Obsidian API；插件在听写写入编辑器前和对话发送给模型前调用。
+ */
+
+/** 各项规整规则的开关 */
+export interface TextNormalizationOptions {
+	spacing: boolean; // 中文与英文单词、数字之间加空格，去掉中文之间多余的空格
+	punctuation: boolean; // 按上下文统一全角或半角标点
+	numerals: boolean; // 日期、时间、金额和百分比中的中文数字转为阿拉伯数字
+	capitalization: boolean; // 英文句首和代词 I 大写
+}
+
+export const DEFAULT_TEXT_NORMALIZATION: TextNormalizationOptions = {
+	spacing: true,
+	punctuation: true,
+	numerals: true,
+	capitalization: true
+};
+
+const CJK = '\\u2e80-\\u2fdf\\u3040-\\u30ff\\u3100-\\u312f\\u3200-\\u32ff\\u3400-\\u4dbf\\u4e00-\\u9fff\\uf900-\\ufaff';
+const CJK_CHAR = new RegExp(`[${CJK}]`);
+const CJK_CHARS = new RegExp(`[${CJK}]`, 'g');
+const LATIN_LETTER = /[A-Za-z]/;
+const LATIN_LETTERS = /[A-Za-z]/g;
+
+const CHINESE_DIGITS: Record<string, number> = {
+	零: 0, 〇: 0, 一: 1, 二: 2, 两: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9
+};
+const SMALL_UNITS: Record<string, number> = { 十: 10, 百: 100, 千: 1000 };
+
+const NUMBER = '[零〇一二两三四五六七八九十百千万亿]+';
+const DIGIT = '[零〇一二三四五六七八九]';
+const HOUR = '二十[一二三四]?|十[一二三四五六七八九]?|[零一二两三四五六七八九]';
+const MINUTE = '[一二三四五]?十[一二三四五六七八九]?|[零〇]?[一二三四五六七八九]|[零〇]';
+const MONTH = '十[一二]?|[一二三四五六七八九]';
+const DAY = '三十一?|二十[一二三四五六七八九]?|十[一二三四五六七八九]?|[一二三四五六七八九]';
+/** “元”后跟这些字时是数学或学术用语而不是金额，如“一元二次方程”“二元论”“元素” */
+const NON_CURRENCY_AFTER_YUAN = '[一二三四五六七八九十]次(?:方程|函数|多项式|不等式)|素|论|化|组|函数|方程|对立|复始';
+const CURRENCY_UNITS = `元(?!${NON_CURRENCY_AFTER_YUAN})|块钱|美元|欧元|英镑|日元|港币|港元`;
+/** 数字后紧跟这些中文单位时视为一个词，两侧都不加空格，如“3月5日”“350元”“第3章” */
+const CJK_UNIT = /^[年月日号时点分秒周天个位名人次件元块角毛万亿千百岁度倍层楼页章节条斤克米里]/;
+/** 阿拉伯数字，包括小数、时间和百分比 */
+const ARABIC_NUMBER = '\\d+(?:[.:,]\\d+)*%?';
+
+/**
+ * 解析中文数字，如“三百零五”“两万三千”“十二”；多位且不含单位时按逐位读出处理，如“二零二四”。
+ * 无法解析时返回 NaN。
+ */
+export function parseChineseNumber(text: string): number {
+	if (!text) {
+		return NaN;
+	}
+	if (text.length > 1 && /^[零〇一二两三四五六七八九]+$/.test(text)) {
+		return Number(Array.from(text).map(char => CHINESE_DIGITS[char]).join(''));
+	}
+
+	let total = 0;
+	let section = 0;
+	let digit = 0;
+	let hasDigit = false;
+	for (const char of text) {
+		if (char in CHINESE_DIGITS) {
+			digit = CHINESE_DIGITS[char];
+			hasDigit = true;
+		} else if (char in SMALL_UNITS) {
+			// “十二”省略了前面的“一”
+			if (!hasDigit && !(char === '十' && section === 0)) {
+				return NaN;
+			}
+			section += (hasDigit ? digit : 1) * SMALL_UNITS[char];
+			digit = 0;
+			hasDigit = false;
+		} else if (char === '万') {
+			total += (section + digit) * 10000;
+			section = digit = 0;
+			hasDigit = false;
+		} else if (char === '亿') {
+			total = (total + section + digit) * 100000000;
+			section = digit = 0;
+			hasDigit = false;
+		} else {
+			return NaN;
+		}
+	}
+	return total + section + digit;
+}
+
+/** 把中文整数和逐位读出的小数部分格式化为阿拉伯数字，无法解析时返回 null */
+function formatChineseDecimal(integer: string, fraction?: string): string | null {
+	const value = parseChineseNumber(integer);
+	if (isNaN(value)) {
+		return null;
+	}
+	if (!fraction) {
+		return String(value);
+	}
+	return `${value}.${Array.from(fraction).map(char => CHINESE_DIGITS[char]).join('')}`;
+}
+
+/** 两位补零 */
+function pad(value: number): string {
+	return value < 10 ? `0${value}` : String(value);
+}
+
+/**
+ * 把日期、时间、金额和百分比中的中文数字转为阿拉伯数字。
+ * 只转换带有明确语境的数字（年月日、几点几分、货币单位、百分之），“一起”“三个人”之类的普通用法保持不变；
+ * “一元二次方程”“二元论”中的“元”不是货币单位，也保持不变。
+ */
+export function convertChineseNumerals(text: string): string {
+	return text
+		.replace(new RegExp(`百分之(${NUMBER})(?:点(${DIGIT}+))?`, 'g'), (match, integer: string, fraction?: string) => {
+			const value = formatChineseDecimal(integer, fraction);
+			return value === null ? match : `${value}%`;
+		})
+		.replace(new RegExp(`(${HOUR})[点时](?:(${MINUTE})分(?:(${MINUTE})秒)?|(半)|(整))`, 'g'), (match, hourText: string, minuteText?: string, secondText?: string, half?: string) => {
+			const hour = parseChineseNumber(hourText);
+			const minute = half ? 30 : minuteText ? parseChineseNumber(minuteText) : 0;
+			const second = secondText ? parseChineseNumber(secondText) : NaN;
+			if (isNaN(hour) || isNaN(minute) || hour > 24 || minute >= 60 || second >= 60) {
+				return match;
+			}
+			return `${hour}:${pad(minute)}${isNaN(second) ? '' : `:${pad(second)}`}`;
+		})
+		.replace(new RegExp(`(${DIGIT}{4})年`, 'g'), (match, year: string) => `${parseChineseNumber(year)}年`)
+		.replace(new RegExp(`(\\d{4}年)(${MONTH})月`, 'g'), (match, year: string, month: string) => `${year}${parseChineseNumber(month)}月`)
+		.replace(new RegExp(`(${MONTH}|\\d{1,2})月(${DAY})([日号])`, 'g'), (match, month: string, day: string, suffix: string) => {
+			const monthValue = /^\d+$/.test(month) ? Number(month) : parseChineseNumber(month);
+			return `${monthValue}月${parseChineseNumber(day)}${suffix}`;
+		})
+		.replace(new RegExp(`(${NUMBER})(?:点(${DIGIT}+))?([万亿])?(?=${CURRENCY_UNITS})`, 'g'), (match, integer: string, fraction?: string, magnitude?: string) => {
+			// “三百五十万元”保留万、亿，写作“350万元”
+			let suffix = magnitude ?? '';
+			if (!fraction && !suffix && /[万亿]$/.test(integer) && !/[万亿]/.test(integer.slice(0, -1))) {
+				suffix = integer.slice(-1);
+				integer = integer.slice(0, -1);
+			}
+			const value = formatChineseDecimal(integer, fraction);
+			return value === null ? match : `${value}${suffix}`;
+		});
+}
+
+const FULL_WIDTH_MARKS: Record<string, string> = { '，': ',', '。': '.', '！': '!', '？': '?', '：': ':', '；': ';' };
+const HALF_WIDTH_MARKS: Record<string, string> = { ',': '，', '.': '。', '!': '！', '?': '？', ':': '：', ';': '；' };
+
+/**
+ * 按上下文统一标点宽度：紧跟中文的标点用全角，紧跟英文单词的用半角；
+ * 前一个字符是数字或符号时按整段文字以中文还是英文为主决定。数字中的小数点、千分位和时间冒号保持不变。
+ */
+export function normalizePunctuationWidth(text: string, before = ''): string {
+	const cjkCount = (text.match(CJK_CHARS) ?? []).length;
+	const latinCount = (text.match(LATIN_LETTERS) ?? []).length;
+	const cjkDominant = cjkCount > 0 && cjkCount >= latinCount;
+
+	return text.replace(/([,.!?:;，。！？：；])([ \t]*)/g, (match: string, mark: string, spaces: string, index: number) => {
+		const prev = /\S(?=\s*$)/.exec(before + text.slice(0, index))?.[0] ?? '';
+		const next = text.charAt(index + match.length);
+		if (mark in HALF_WIDTH_MARKS && (mark === '.' && (prev === '.' || next === '.') || /\d/.test(prev) && /\d/.test(next) && !spaces)) {
+			return match;
+		}
+		const fullWidth = CJK_CHAR.test(prev) || (!LATIN_LETTER.test(prev) && cjkDominant);
+		if (fullWidth) {
+			return mark in HALF_WIDTH_MARKS ? HALF_WIDTH_MARKS[mark] : mark;
+		}
+		if (mark in FULL_WIDTH_MARKS) {
+			return FULL_WIDTH_MARKS[mark] + (next && !/\s/.test(next) ? ' ' : spaces);
+		}
+		return match;
+	});
+}
+
+/**
+ * 中英文混排空格：中文与含字母的英文词、阿拉伯数字之间加一个空格，去掉中文之间和全角标点两侧的空格。
+ * 数字直接跟中文单位时不加空格，如“3月5日”“350元”。
+ */
+export function normalizeCjkSpacing(text: string): string {
+	return text
+		.replace(new RegExp(`([${CJK}])[ \\t]+(?=[${CJK}])`, 'g'), '$1')
+		.replace(/[ \t]+(?=[，。！？：；、”」）》])/g, '')
+		.replace(/([，。！？：；、“「（《])[ \t]+/g, '$1')
+		.replace(new RegExp(`([${CJK}])[ \\t]*(?=[A-Za-z0-9]*[A-Za-z])`, 'g'), '$1 ')
+		.replace(new RegExp(`([A-Za-z0-9]*[A-Za-z][A-Za-z0-9]*)[ \\t]*(?=[${CJK}])`, 'g'), '$1 ')
+		.replace(new RegExp(`([ \\t]*)(${ARABIC_NUMBER})([ \\t]*)`, 'g'), (match: string, lead: string, number: string, trail: string, index: number, whole: string) => {
+			const prev = whole.charAt(index - 1);
+			const next = whole.slice(index + match.length);
+			if (CJK_UNIT.test(next)) {
+				return (CJK_CHAR.test(prev) ? '' : lead) + number;
+			}
+			return (CJK_CHAR.test(prev) ? ' ' : lead) + number + (CJK_CHAR.test(next.charAt(0)) ? ' ' : trail);
+		});
+}
+
+/** 句点前是这些词时视为缩写而不是句末 */
+const ABBREVIATIONS = ['etc', 'mr', 'mrs', 'ms', 'dr', 'prof', 'st', 'jr', 'sr', 'vs', 'inc', 'ltd', 'co', 'no', 'fig', 'approx'];
+
+/** text 是否以句末标点结束；单个字母（如 e.g. 中的 g）、带点的缩写和常见缩写词后的句点不算句末 */
+function endsSentence(text: string): boolean {
+	const match = /([.!?。！？])[\s"'”’)]*$/.exec(text);
+	if (!match) {
+		return false;
+	}
+	if (match[1] !== '.') {
+		return true;
+	}
+	const token = /[A-Za-z][A-Za-z.]*$/.exec(text.slice(0, match.index))?.[0] ?? '';
+	return !(token.length === 1 || token.indexOf('.') !== -1 || ABBREVIATIONS.indexOf(token.toLowerCase()) !== -1);
+}
+
+/** before 是否停在句子开头：为空、以句末标点或换行结束，或当前行只有列表、引用、标题等行首标记 */
+function isSentenceStart(before: string): boolean {
+	return !before.trim()
+		|| endsSentence(before)
+		|| /(?:^|\n)[ \t]*(?:[-*+]|\d+[.)]|>|#{1,6})?[ \t]*(?:\[.\][ \t]*)?$/.test(before);
+}
+
+/** 英文句首大写，以及单独的代词 i 大写；已含大写字母的词（如 iPhone）和 e.g.、etc. 等缩写之后的词不改 */
+export function capitalizeSentences(text: string, before = ''): string {
+	return text
+		.replace(/(^|[.!?][ \t]+|\n[ \t]*)([a-z]+)(?![A-Za-z])/g, (match, lead: string, word: string, index: number) => {
+			if (index === 0 && !lead && !isSentenceStart(before)) {
+				return match;
+			}
+			if (lead.charAt(0) === '.' && !endsSentence(before + text.slice(0, index + 1))) {
+				return match;
+			}
+			return lead + word.charAt(0).toUpperCase() + word.slice(1);
+		})
+		.replace(/(^|[^A-Za-z])i(?=$|[\s'’,.!?;:])(?!\.e\.)/g, '$1I');
+}
+
+/**
+ * 按选项规整一段识别结果。
+ * before 为插入位置之前的文字，用于判断首词是否位于句首以及首个标点的宽度。
+ */
+export function normalizeTranscript(text: string, options: TextNormalizationOptions, before = ''): string {
+	let result = text;
+	if (options.numerals) {
+		result = convertChineseNumerals(result);
+	}
+	if (options.punctuation) {
+		result = normalizePunctuationWidth(result, before);
+	}
+	if (options.spacing) {
+		result = normalizeCjkSpacing(result);
+	}
+	if (options.capitalization) {
+		result = capitalizeSentences(result, before);
+	}
+	return result;
+}
+
+/**
+ * 判断两段相邻文字之间是否需要补一个空格：中文与英文词或数字相接、两个英文词相接，或半角句末标点后紧跟文字。
+ */
+export function needsSpaceBetween(before: string, after: string): boolean {
+	const prev = before.charAt(before.length - 1);
+	const next = after.charAt(0);
+	if (!prev || !next || /\s/.test(prev) || /\s/.test(next)) {
+		return false;
+	}
+	const prevIsWord = /[A-Za-z0-9]*[A-Za-z][A-Za-z0-9]*$/.test(before) || (/\d%?$/.test(before) && !CJK_UNIT.test(after));
+	const nextNumber = new RegExp(`^${ARABIC_NUMBER}`).exec(after);
+	const nextIsWord = /^[A-Za-z0-9]*[A-Za-z]/.test(after) || (nextNumber !== null && !CJK_UNIT.test(after.slice(nextNumber[0].length)));
+	if (CJK_CHAR.test(prev)) {
+		return nextIsWord;
+	}
+	if (CJK_CHAR.test(next)) {
+		return prevIsWord || /[,.!?;:]/.test(prev);
+	}
+	return /[A-Za-z0-9,.!?;:]/.test(prev) && /[A-Za-z0-9]/.test(next);
+}
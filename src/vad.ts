@@ -0,0 +1,203 @@
+/**
+ * 基于帧的语音活动检测（VAD）。
+ * 在实时 PCM 上按 20ms 帧计算能量、零交叉率和语音频段（300–3400Hz）能量占比，结合自适应噪声底判断每帧是否像语音，
+ * 再用起始确认（onset）和拖尾保持（hangover）平滑为“正在说话”状态。
+ * 持续听写、会议记录、语音打断、唤醒门控和对话结束检测共用，只处理数字信号，不依赖 Obsidian 和 Web Audio API。
+ */
+
+import { Biquad } from './dsp';
+
+export interface VadOptions {
+	sampleRate: number;
+	/** 最低 RMS 能量（-1 到 1 的浮点刻度），低于该值的帧一律视为静音 */
+	threshold: number;
+	/** 连续多长时间的语音帧才判为开始说话（毫秒），过滤咳嗽、敲击等短促声音 */
+	onsetMs?: number;
+	/** 语音帧消失后继续保持说话状态的时长（毫秒），避免字词间的短暂停顿被切断 */
+	hangoverMs?: number;
+	/** 初始噪声底，来自麦克风校准；未校准时从 threshold 推算 */
+	initialNoiseFloor?: number;
+}
+
+/** 麦克风校准结果，能量均为 RMS */
+export interface VadCalibration {
+	noiseFloor: number; // 环境噪声（安静时 90% 的帧低于该值）
+	speechLevel: number; // 正常说话的中位能量
+	threshold: number; // 推荐的语音检测阈值
+}
+
+/** 最近一帧的检测特征，用于调试日志和阈值校准 */
+export interface VadFrameFeatures {
+	energy: number; // RMS 能量
+	zeroCrossingRate: number; // 每个采样点的过零次数
+	speechBandRatio: number; // 300–3400Hz 频段能量占全部能量的比例
+	noiseFloor: number; // 当前估计的环境噪声能量
+	isSpeechFrame: boolean; // 平滑前的单帧判定
+}
+
+export const VAD_FRAME_MS = 20;
+const DEFAULT_ONSET_MS = 60;
+const DEFAULT_HANGOVER_MS = 300;
+
+/** 语音帧的能量至少要达到噪声底的倍数 */
+const NOISE_MARGIN = 2.5;
+/** 语音频段能量占比下限：低频嗡声、风扇声和敲击的占比明显更低 */
+const MIN_SPEECH_BAND_RATIO = 0.35;
+/** 过零率上限：白噪声和嘶声接近 0.5 */
+const MAX_ZERO_CROSSING_RATE = 0.45;
+/** 噪声底在较安静的帧上快速下降，在非语音帧上缓慢上升（约 2 秒时间常数） */
+const NOISE_FALL_RATE = 0.2;
+const NOISE_RISE_RATE = 0.01;
+
+/**
+ * 流式语音活动检测器。
+ * 每次传入任意长度的采样，内部按 20ms 切帧，不足一帧的部分留到下次。
+ */
+export class VoiceActivityDetector {
+	private readonly frameSize: number;
+	private readonly onsetFrames: number;
+	private readonly hangoverFrames: number;
+	private readonly highPass: Biquad;
+	private readonly lowPass: Biquad;
+	private readonly pending: Float32Array;
+	private pendingLength = 0;
+	private previousSample = 0;
+	private noiseFloor: number;
+	private speechRun = 0;
+	private silenceRun = 0;
+	private isSpeaking = false;
+	private lastFeatures: VadFrameFeatures | null = null;
+
+	constructor(private readonly options: VadOptions) {
+		this.frameSize = Math.max(1, Math.round(options.sampleRate * VAD_FRAME_MS / 1000));
+		this.onsetFrames = Math.max(1, Math.ceil((options.onsetMs ?? DEFAULT_ONSET_MS) / VAD_FRAME_MS));
+		this.hangoverFrames = Math.max(1, Math.ceil((options.hangoverMs ?? DEFAULT_HANGOVER_MS) / VAD_FRAME_MS));
+		this.highPass = Biquad.highPass(options.sampleRate, 300);
+		this.lowPass = Biquad.lowPass(options.sampleRate, 3400);
+		this.pending = new Float32Array(this.frameSize);
+		// 未校准时噪声底从阈值推算，开始时只按阈值判断
+		this.noiseFloor = options.initialNoiseFloor ?? options.threshold / NOISE_MARGIN;
+	}
+
+	/** 当前是否处于说话状态（已平滑） */
+	get speaking(): boolean {
+		return this.isSpeaking;
+	}
+
+	/** 最近一帧的检测特征 */
+	get features(): VadFrameFeatures | null {
+		return this.lastFeatures;
+	}
+
+	/**
+	 * 处理一段采样。
+	 * @returns 这段采样中是否有任何一帧处于说话状态；不足一帧时返回当前状态
+	 */
+	process(samples: Float32Array): boolean {
+		let spoke = false;
+		let analyzed = false;
+		for (let i = 0; i < samples.length; i++) {
+			this.pending[this.pendingLength++] = samples[i];
+			if (this.pendingLength === this.frameSize) {
+				this.analyzeFrame(this.pending);
+				this.pendingLength = 0;
+				analyzed = true;
+				spoke = spoke || this.isSpeaking;
+			}
+		}
+		return analyzed ? spoke : this.isSpeaking;
+	}
+
+	/** 清除说话状态和未满一帧的采样，噪声底保留 */
+	reset(): void {
+		this.pendingLength = 0;
+		this.speechRun = 0;
+		this.silenceRun = 0;
+		this.isSpeaking = false;
+	}
+
+	private analyzeFrame(frame: Float32Array): void {
+		let energy = 0;
+		let bandEnergy = 0;
+		let zeroCrossings = 0;
+		let previous = this.previousSample;
+		for (let i = 0; i < frame.length; i++) {
+			const sample = frame[i];
+			energy += sample * sample;
+			const band = this.lowPass.process(this.highPass.process(sample));
+			bandEnergy += band * band;
+			if ((sample >= 0) !== (previous >= 0)) {
+				zeroCrossings++;
+			}
+			previous = sample;
+		}
+		this.previousSample = previous;
+
+		const rms = Math.sqrt(energy / frame.length);
+		const speechBandRatio = energy > 0 ? Math.min(1, bandEnergy / energy) : 0;
+		const zeroCrossingRate = zeroCrossings / frame.length;
+		const isSpeechFrame = rms >= this.options.threshold
+			&& rms >= this.noiseFloor * NOISE_MARGIN
+			&& speechBandRatio >= MIN_SPEECH_BAND_RATIO
+			&& zeroCrossingRate <= MAX_ZERO_CROSSING_RATE;
+
+		if (!isSpeechFrame && !this.isSpeaking) {
+			const rate = rms < this.noiseFloor ? NOISE_FALL_RATE : NOISE_RISE_RATE;
+			this.noiseFloor += (rms - this.noiseFloor) * rate;
+		}
+
+		if (this.isSpeaking) {
+			this.silenceRun = isSpeechFrame ? 0 : this.silenceRun + 1;
+			if (this.silenceRun >= this.hangoverFrames) {
+				this.isSpeaking = false;
+				this.speechRun = 0;
+			}
+		} else {
+			this.speechRun = isSpeechFrame ? this.speechRun + 1 : 0;
+			if (this.speechRun >= this.onsetFrames) {
+				this.isSpeaking = true;
+				this.silenceRun = 0;
+			}
+		}
+
+		this.lastFeatures = { energy: rms, zeroCrossingRate, speechBandRatio, noiseFloor: this.noiseFloor, isSpeechFrame };
+	}
+}
+
+/** 计算一段采样的 RMS 能量 */
+export function measureRms(samples: Float32Array): number {
+	let energy = 0;
+	for (let i = 0; i < samples.length; i++) {
+		energy += samples[i] * samples[i];
+	}
+	return samples.length > 0 ? Math.sqrt(energy / samples.length) : 0;
+}
+
+/** 取已排序数组的分位数 */
+function percentile(sorted: number[], ratio: number): number {
+	return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * ratio))];
+}
+
+/**
+ * 根据安静环境和正常说话两段录音的逐帧能量计算检测阈值。
+ * 阈值取噪声底与说话能量的几何平均，并保证高于噪声底的判定倍数、低于说话能量的一半。
+ * 说话时高于噪声底的帧太少或两者区分不明显时返回 null。
+ */
+export function computeVadCalibration(silenceLevels: number[], speechLevels: number[]): VadCalibration | null {
+	if (silenceLevels.length === 0 || speechLevels.length === 0) {
+		return null;
+	}
+	const noiseFloor = Math.max(0.0005, percentile([...silenceLevels].sort((a, b) => a - b), 0.9));
+	const voiced = speechLevels.filter(level => level >= noiseFloor * NOISE_MARGIN).sort((a, b) => a - b);
+	if (voiced.length < Math.max(10, speechLevels.length * 0.2)) {
+		return null;
+	}
+	const speechLevel = percentile(voiced, 0.5);
+	const lower = noiseFloor * NOISE_MARGIN;
+	const upper = speechLevel * 0.5;
+	if (lower > upper) {
+		return null;
+	}
+	const threshold = Math.min(upper, Math.max(lower, Math.sqrt(noiseFloor * speechLevel)));
+	return { noiseFloor, speechLevel, threshold };
+}
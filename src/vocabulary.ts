@@ -0,0 +1,169 @@
+/**
+ * 个人词汇表与识别后纠错。
+ * 只处理纯文本，不依赖 Obsidian API；插件负责收集词汇来源并在每次识别后调用纠错函数。
+ */
+
+/** 替换规则：识别结果中出现 heard 时替换为 intended */
+export interface VocabularyRule {
+	heard: string;
+	intended: string;
+}
+
+/** 词汇表：terms 为需要保持固定写法的术语，rules 为“听到 → 应为”的替换规则 */
+export interface Vocabulary {
+	terms: string[];
+	rules: VocabularyRule[];
+}
+
+const RULE_SEPARATOR = /\s*(?:→|->|=>)\s*/;
+const LIST_MARKER = /^(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?/;
+const SEPARATOR_CHARS = /[\s_-]+/g;
+const WORD_CHAR = /[A-Za-z0-9]/;
+
+/** 去掉 Wiki 链接外壳，[[目标|别名]] 取目标 */
+function unwrapWikiLink(text: string): string {
+	const match = /^\[\[([^\]|]+)(?:\|[^\]]*)?\]\]$/.exec(text);
+	return match ? match[1].trim() : text;
+}
+
+/**
+ * 解析词汇表文本（设置中的列表或词汇笔记内容）。
+ * 每行一条：`听到的 → 应为的` 为替换规则，也支持 `->` 和 `=>`，多个听法用 `|` 分隔；其余行为术语。
+ * 列表符号和任务框会被去掉，空行、标题、引用、注释和 frontmatter 会被忽略。
+ */
+export function parseVocabulary(source: string): Vocabulary {
+	const vocabulary: Vocabulary = { terms: [], rules: [] };
+	const lines = source.split(/\r?\n/);
+	let inFrontmatter = lines[0]?.trim() === '---';
+
+	for (let index = inFrontmatter ? 1 : 0; index < lines.length; index++) {
+		const line = lines[index].trim();
+		if (inFrontmatter) {
+			inFrontmatter = line !== '---';
+			continue;
+		}
+		if (!line || /^#{1,6}\s/.test(line) || line.startsWith('>') || line.startsWith('//') || line.startsWith('%%')) {
+			continue;
+		}
+
+		const entry = line.replace(LIST_MARKER, '').trim();
+		const parts = entry.split(RULE_SEPARATOR);
+		if (parts.length === 2 && parts[0] && parts[1]) {
+			const intended = unwrapWikiLink(parts[1]);
+			for (const heard of parts[0].split(/\s*[|｜]\s*/)) {
+				if (heard) {
+					vocabulary.rules.push({ heard, intended });
+				}
+			}
+		} else if (entry) {
+			vocabulary.terms.push(unwrapWikiLink(entry));
+		}
+	}
+	return vocabulary;
+}
+
+/** 合并多个词汇表；术语去重，同一听法的规则以先出现的为准 */
+export function mergeVocabularies(...vocabularies: Vocabulary[]): Vocabulary {
+	const terms: string[] = [];
+	const rules: VocabularyRule[] = [];
+	const seenHeard = new Set<string>();
+	for (const vocabulary of vocabularies) {
+		for (const term of vocabulary.terms) {
+			if (terms.indexOf(term) === -1) {
+				terms.push(term);
+			}
+		}
+		for (const rule of vocabulary.rules) {
+			const key = toMatchKey(rule.heard);
+			if (!seenHeard.has(key)) {
+				seenHeard.add(key);
+				rules.push(rule);
+			}
+		}
+	}
+	return { terms, rules };
+}
+
+/**
+ * 从笔记标题和标签中挑选适合作为术语的名称。
+ * 只保留词内有大写字母、连续大写缩写或数字的英文名称（如 OpenRouter、GPT4、API），这类词最容易被识别成错误的大小写或拆开的单词；
+ * 只有首字母大写的普通标题（如 Ideas、Daily Notes）不收录，否则句中的普通词也会被改成大写。
+ * 纯中文名称无法只靠写法纠正，需要用户写替换规则。嵌套标签取最后一级。
+ */
+export function collectVocabularyTerms(names: string[]): string[] {
+	const terms: string[] = [];
+	for (const name of names) {
+		const term = name.replace(/^#/, '').split('/').pop()?.trim() ?? '';
+		if (
+			term.length < 2 ||
+			term.length > 40 ||
+			term.split(/\s+/).length > 4 ||
+			!/[A-Za-z]/.test(term) ||
+			!/[a-z][A-Z]|[A-Z]{2}|\d/.test(term) ||
+			terms.indexOf(term) !== -1
+		) {
+			continue;
+		}
+		terms.push(term);
+	}
+	return terms;
+}
+
+/** 比对用的键：忽略大小写、空白、下划线和连字符 */
+function toMatchKey(text: string): string {
+	return text.toLowerCase().replace(SEPARATOR_CHARS, '');
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** 为一个听法生成匹配模式：字符之间允许出现空白、下划线或连字符，英文两端要求单词边界 */
+function buildHeardPattern(heard: string): string {
+	const chars = Array.from(heard.replace(SEPARATOR_CHARS, ''));
+	let pattern = chars.map(escapeRegExp).join('[\\s_-]*');
+	if (WORD_CHAR.test(chars[0])) {
+		pattern = `(?<![A-Za-z0-9])${pattern}`;
+	}
+	if (WORD_CHAR.test(chars[chars.length - 1])) {
+		pattern = `${pattern}(?![A-Za-z0-9])`;
+	}
+	return pattern;
+}
+
+/**
+ * 根据词汇表生成纠错函数。
+ * 所有规则和术语编译为一个正则一次替换，较长的听法优先，替换结果不会被其他规则再次替换。
+ * 规则的目标写法也登记为映射到自身，已经是正确写法的文字不会被扩展规则重复扩展，例如 “小三 → 小三同学” 不会把 “小三同学” 改成 “小三同学同学”。
+ * 术语按自身写法纠正大小写和被拆开的单词，例如 “open router” → “OpenRouter”。
+ */
+export function createVocabularyCorrector(vocabulary: Vocabulary): (text: string) => string {
+	const replacements = new Map<string, string>();
+	for (const rule of vocabulary.rules) {
+		const key = toMatchKey(rule.heard);
+		if (key && !replacements.has(key)) {
+			replacements.set(key, rule.intended);
+		}
+	}
+	for (const rule of vocabulary.rules) {
+		const key = toMatchKey(rule.intended);
+		if (key && !replacements.has(key)) {
+			replacements.set(key, rule.intended);
+		}
+	}
+	for (const term of vocabulary.terms) {
+		const key = toMatchKey(term);
+		if (key && !replacements.has(key)) {
+			replacements.set(key, term);
+		}
+	}
+	if (replacements.size === 0) {
+		return text => text;
+	}
+
+	const patterns = Array.from(replacements.keys())
+		.sort((a, b) => b.length - a.length)
+		.map(buildHeardPattern);
+	const matcher = new RegExp(patterns.join('|'), 'gi');
+	return text => text.replace(matcher, match => replacements.get(toMatchKey(match)) ?? match);
+}
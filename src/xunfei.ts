@@ -0,0 +1,266 @@
+/**
+ * 讯飞 WebSocket 接口的公共传输层。
+ * 语音听写、语音合成和星火大模型共用：统一把错误码归类为可操作的提示，并处理超时、取消和瞬时故障重试。
+ */
+
+export type XunfeiService = 'asr' | 'tts' | 'spark';
+
+export type XunfeiErrorKind =
+	| 'auth'
+	| 'quota'
+	| 'rate-limit'
+	| 'invalid-voice'
+	| 'text-too-long'
+	| 'content-blocked'
+	| 'invalid-request'
+	| 'server'
+	| 'network'
+	| 'timeout'
+	| 'cancelled'
+	| 'unknown';
+
+const SERVICE_NAMES: Record<XunfeiService, string> = {
+	asr: '语音听写',
+	tts: '语音合成',
+	spark: '星火大模型'
+};
+
+/** 重试可能成功的错误类型 */
+const RETRYABLE_KINDS: XunfeiErrorKind[] = ['rate-limit', 'server', 'network', 'timeout'];
+
+const AUTH_CODES = [10105, 10313];
+const QUOTA_CODES = [11200, 11201];
+const RATE_LIMIT_CODES = [11202, 11203];
+const CONTENT_BLOCKED_CODES = [10013, 10014, 10019];
+const TEXT_TOO_LONG_CODES = [10109, 10907];
+const SERVER_CODES = [10114, 10200, 10202, 10204, 10205, 10700];
+
+/** 讯飞接口错误，kind 用于决定提示文案和是否重试 */
+export class XunfeiError extends Error {
+	constructor(
+		readonly kind: XunfeiErrorKind,
+		message: string,
+		readonly code?: number
+	) {
+		super(message);
+		this.name = 'XunfeiError';
+	}
+
+	get retryable(): boolean {
+		return RETRYABLE_KINDS.indexOf(this.kind) !== -1;
+	}
+
+	/** 凭据或服务量问题，继续请求也不会成功，应停止当前流程并提示用户 */
+	get isFatal(): boolean {
+		return this.kind === 'auth' || this.kind === 'quota';
+	}
+}
+
+/** 根据错误类型生成面向用户的提示 */
+function describeXunfeiError(kind: XunfeiErrorKind, service: XunfeiService, detail: string): string {
+	const name = SERVICE_NAMES[service];
+	switch (kind) {
+		case 'auth':
+			return `讯飞鉴权失败：请检查 App ID、API Key、API Secret 是否属于同一应用，并确认系统时间准确${detail}`;
+		case 'quota':
+			return `讯飞${name}服务量已用尽或未开通：请在讯飞控制台查看余量、开通或购买服务${detail}`;
+		case 'rate-limit':
+			return `讯飞${name}请求过于频繁或超过并发路数，请稍后再试${detail}`;
+		case 'invalid-voice':
+			return `当前朗读人不可用：请在讯飞控制台开通该发音人，或在设置中换一个朗读人${detail}`;
+		case 'text-too-long':
+			return service === 'spark'
+				? `输入内容超出模型长度限制，请缩短问题或清空对话历史${detail}`
+				: `朗读文本过长，请选中部分文字分段朗读${detail}`;
+		case 'content-blocked':
+			return `内容未通过讯飞${name}的安全审核，请修改后重试${detail}`;
+		case 'invalid-request':
+			return `讯飞${name}请求参数无效，请检查相关设置${detail}`;
+		case 'server':
+			return `讯飞${name}服务暂时异常，请稍后再试${detail}`;
+		case 'network':
+			return `无法连接讯飞${name}服务：请检查网络，以及 API Key、API Secret 和系统时间${detail}`;
+		case 'timeout':
+			return `讯飞${name}响应超时，请检查网络后重试${detail}`;
+		case 'cancelled':
+			return `讯飞${name}请求已取消`;
+		default:
+			return `讯飞${name}出错${detail}`;
+	}
+}
+
+/** 构造指定类型的讯飞错误 */
+export function createXunfeiError(kind: XunfeiErrorKind, service: XunfeiService, detail = ''): XunfeiError {
+	return new XunfeiError(kind, describeXunfeiError(kind, service, detail ? `（${detail}）` : ''));
+}
+
+/** 把讯飞返回的错误码归类为结构化错误 */
+export function classifyXunfeiError(service: XunfeiService, code: number, message = ''): XunfeiError {
+	let kind: XunfeiErrorKind;
+	if (AUTH_CODES.indexOf(code) !== -1) {
+		kind = 'auth';
+	} else if (service === 'tts' && /vcn|发音人/i.test(message)) {
+		kind = 'invalid-voice';
+	} else if (QUOTA_CODES.indexOf(code) !== -1) {
+		kind = 'quota';
+	} else if (RATE_LIMIT_CODES.indexOf(code) !== -1) {
+		kind = 'rate-limit';
+	} else if (TEXT_TOO_LONG_CODES.indexOf(code) !== -1) {
+		kind = 'text-too-long';
+	} else if (CONTENT_BLOCKED_CODES.indexOf(code) !== -1) {
+		kind = 'content-blocked';
+	} else if (SERVER_CODES.indexOf(code) !== -1) {
+		kind = 'server';
+	} else if (code >= 10100 && code < 10200) {
+		kind = 'invalid-request';
+	} else {
+		kind = 'unknown';
+	}
+	const detail = message ? `错误码 ${code}：${message}` : `错误码 ${code}`;
+	return new XunfeiError(kind, describeXunfeiError(kind, service, `（${detail}）`), code);
+}
+
+/** 单次 WebSocket 请求的处理结果：done 为 true 时以 value 结束请求 */
+export type XunfeiStep<T> = { done: false } | { done: true; value: T };
+
+export interface XunfeiSocketRequest<M, T> {
+	service: XunfeiService;
+	/** 每次尝试都重新生成鉴权地址，讯飞签名中的 date 只在 5 分钟内有效 */
+	createUrl: () => Promise<string>;
+	/** 连接建立后发送请求帧 */
+	onOpen: (socket: WebSocket) => void;
+	/** 从服务端消息中取出错误码和错误信息，错误码非 0 时按 classifyXunfeiError 归类 */
+	readStatus: (message: M) => { code: number; message?: string };
+	/** 处理一条成功的服务端消息 */
+	onMessage: (message: M) => XunfeiStep<T>;
+	/** 超过该时长没有收到任何消息即视为超时（毫秒） */
+	timeoutMs: number;
+	/** 瞬时故障的最大重试次数，默认 2 次 */
+	retries?: number;
+	signal?: AbortSignal;
+	log?: (message: string, ...args: unknown[]) => void;
+}
+
+/** 等待指定时长，可被取消 */
+function waitWithSignal(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const timer = window.setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		const onAbort = () => {
+			window.clearTimeout(timer);
+			reject(new Error('aborted'));
+		};
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
+
+/** 发起一次 WebSocket 请求，不含重试 */
+function runXunfeiSocket<M, T>(request: XunfeiSocketRequest<M, T>, url: string, onProgress: () => void): Promise<T> {
+	return new Promise<T>((resolve, reject) => {
+		const socket = new WebSocket(url);
+		let settled = false;
+		let timer = 0;
+
+		const finish = (error: XunfeiError | null, value?: T) => {
+			if (settled) return;
+			settled = true;
+			window.clearTimeout(timer);
+			request.signal?.removeEventListener('abort', onAbort);
+			if (socket.readyState === WebSocket.CONNECTING || socket.readyState === WebSocket.OPEN) {
+				socket.close();
+			}
+			if (error) {
+				reject(error);
+			} else {
+				resolve(value);
+			}
+		};
+		const resetTimer = () => {
+			window.clearTimeout(timer);
+			timer = window.setTimeout(() => finish(createXunfeiError('timeout', request.service)), request.timeoutMs);
+		};
+		const onAbort = () => finish(createXunfeiError('cancelled', request.service));
+
+		if (request.signal?.aborted) {
+			onAbort();
+			return;
+		}
+		request.signal?.addEventListener('abort', onAbort, { once: true });
+		resetTimer();
+
+		socket.onopen = () => {
+			request.log?.(`讯飞${SERVICE_NAMES[request.service]} WebSocket 连接已建立`);
+			try {
+				request.onOpen(socket);
+			} catch (error) {
+				finish(new XunfeiError('unknown', error instanceof Error ? error.message : String(error)));
+			}
+		};
+
+		socket.onmessage = (event: MessageEvent) => {
+			resetTimer();
+			let message: M;
+			try {
+				message = JSON.parse(String(event.data)) as M;
+			} catch {
+				finish(createXunfeiError('server', request.service, '响应不是有效的 JSON'));
+				return;
+			}
+
+			const status = request.readStatus(message);
+			if (status.code !== 0) {
+				request.log?.(`讯飞${SERVICE_NAMES[request.service]}错误:`, status.code, status.message);
+				finish(classifyXunfeiError(request.service, status.code, status.message));
+				return;
+			}
+
+			onProgress();
+			try {
+				const step = request.onMessage(message);
+				if (step.done) {
+					finish(null, step.value);
+				}
+			} catch (error) {
+				finish(new XunfeiError('unknown', error instanceof Error ? error.message : String(error)));
+			}
+		};
+
+		socket.onerror = () => finish(createXunfeiError('network', request.service));
+
+		socket.onclose = (event: CloseEvent) => {
+			request.log?.(`讯飞${SERVICE_NAMES[request.service]} WebSocket 连接关闭:`, event.code, event.reason);
+			finish(createXunfeiError('network', request.service, event.reason || `连接意外关闭，代码 ${event.code}`));
+		};
+	});
+}
+
+/**
+ * 发起讯飞 WebSocket 请求。
+ * 连接失败、超时、限流和引擎错误在尚未收到有效数据时按 1 秒起倍增的间隔重试；
+ * 已收到部分结果后不再重试，避免调用方重复累积内容。
+ */
+export async function requestXunfeiSocket<M, T>(request: XunfeiSocketRequest<M, T>): Promise<T> {
+	const retries = request.retries ?? 2;
+	for (let attempt = 0; ; attempt++) {
+		let receivedData = false;
+		try {
+			const url = await request.createUrl();
+			return await runXunfeiSocket(request, url, () => {
+				receivedData = true;
+			});
+		} catch (error) {
+			if (!(error instanceof XunfeiError) || !error.retryable || receivedData || attempt >= retries) {
+				throw error;
+			}
+			const delay = 1000 * Math.pow(2, attempt);
+			request.log?.(`讯飞${SERVICE_NAMES[request.service]}请求失败，${delay}ms 后重试:`, error.message);
+			try {
+				await waitWithSignal(delay, request.signal);
+			} catch {
+				throw createXunfeiError('cancelled', request.service);
+			}
+		}
+	}
+}